@@ -0,0 +1,551 @@
+import { parseCron, nextCronRun } from "../src/lib/schedules/cron";
+import {
+  seedJobs,
+  seedSchedules,
+  seedCompanies,
+  seedFinancialData,
+  generateFinancialRows,
+} from "./seed";
+import {
+  countRows,
+  buildStages,
+  failurePoint,
+  currentStage,
+  stageMessage,
+  type MockStage,
+  type StageCounts,
+  type MockStageName,
+  type StageFailure,
+} from "./pipeline";
+import { buildJobLogs, type MockLogEntry } from "./logs";
+import { buildSourceSample } from "./sample";
+import { reviseRows } from "./revisions";
+
+export interface MockConfig {
+  id: number;
+  name: string;
+  sourceType: string;
+  apiEndpoint?: string;
+  fieldMappings: Record<string, unknown>;
+  /** The other settings of the source type (headers, host, format, ...). */
+  [setting: string]: unknown;
+}
+
+export interface MockCompany {
+  id: number;
+  name: string;
+  description?: string;
+  currency: string;
+  configs: MockConfig[];
+}
+
+export interface MockFinancialRow {
+  id: number;
+  category: string;
+  subcategory?: string | null;
+  lineItemName: string;
+  amount: string;
+  currency: string;
+  fromDate: string;
+  toDate: string;
+  sourceName: string;
+  metadata?: { depth: number };
+}
+
+export interface MockJob {
+  id: number;
+  companyId: number;
+  sourceId?: number;
+  status:
+    | "pending"
+    | "processing"
+    | "cancelling"
+    | "completed"
+    | "failed"
+    | "cancelled";
+  progress: number;
+  stage: "queued" | MockStageName | "done";
+  /** Per-stage status, timing and record counts in pipeline order. */
+  stages: MockStage[];
+  message: string;
+  /** Records loaded by a completed run. */
+  rowCount?: number;
+  /** The failed or cancelled job this one retries. */
+  retryOf?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockSchedule {
+  id: number;
+  companyId: number;
+  sourceId: number;
+  frequency: "hourly" | "daily" | "weekly" | "cron";
+  cron: string;
+  timezone: string;
+  enabled: boolean;
+  lastRunAt?: string;
+  nextRunAt?: string;
+}
+
+/** A company's financial data either side of a completed job. */
+export interface MockDataSnapshot {
+  before: MockFinancialRow[];
+  after: MockFinancialRow[];
+}
+
+export type MockScheduleInput = Pick<
+  MockSchedule,
+  "frequency" | "cron" | "timezone" | "enabled"
+>;
+
+interface JobRuntime {
+  startedAt: number;
+  durationMs: number;
+  /** Rows this run extracts; they replace the synced source's data. */
+  rows: MockFinancialRow[];
+  counts: StageCounts;
+  failAt?: StageFailure;
+  cancelRequestedAt?: number;
+}
+
+interface StartJobOptions {
+  sourceId?: number;
+  retryOf?: number;
+  /** Rows uploaded from a file; they are loaded instead of extracted. */
+  uploaded?: MockFinancialRow[];
+}
+
+const JOB_DURATION_MS = 12000;
+/** How long a cancelled job lingers in `cancelling` before it stops. */
+const CANCEL_GRACE_MS = 1500;
+
+export const isJobFinished = (job: MockJob) =>
+  job.status === "completed" ||
+  job.status === "failed" ||
+  job.status === "cancelled";
+
+/**
+ * In-memory stand-in for the Kudwa backend. State lives for the lifetime of
+ * the dev server and is reset on restart.
+ */
+export class MockDatabase {
+  private companies: MockCompany[] = seedCompanies();
+  private financialData = seedFinancialData();
+  private jobs: MockJob[] = [];
+  private runtimes = new Map<number, JobRuntime>();
+  private schedules: MockSchedule[] = [];
+  private snapshots = new Map<number, MockDataSnapshot>();
+  private uploads = new Map<number, MockFinancialRow[]>();
+  private nextId = 1000;
+
+  constructor() {
+    seedJobs(this.financialData).forEach((job) => {
+      this.jobs.push({ id: this.nextId++, ...job });
+    });
+    seedSchedules().forEach((input) => {
+      this.schedules.push(this.planSchedule({ id: this.nextId++, ...input }));
+    });
+  }
+
+  listCompanies(): MockCompany[] {
+    return this.companies;
+  }
+
+  findCompany(companyId: number): MockCompany | undefined {
+    return this.companies.find((company) => company.id === companyId);
+  }
+
+  createCompany(input: Partial<MockCompany>): MockCompany {
+    const company: MockCompany = {
+      id: this.nextId++,
+      name: String(input.name ?? ""),
+      description: input.description,
+      currency: String(input.currency ?? "USD").toUpperCase(),
+      configs: [],
+    };
+    this.companies.push(company);
+    return company;
+  }
+
+  updateCompany(
+    companyId: number,
+    input: Partial<MockCompany>
+  ): MockCompany | undefined {
+    const company = this.findCompany(companyId);
+    if (!company) return undefined;
+
+    if (input.name !== undefined) company.name = String(input.name);
+    if (input.description !== undefined) {
+      company.description = input.description;
+    }
+    if (input.currency !== undefined) {
+      company.currency = String(input.currency).toUpperCase();
+    }
+    return company;
+  }
+
+  deleteCompany(companyId: number): boolean {
+    const before = this.companies.length;
+    this.companies = this.companies.filter((c) => c.id !== companyId);
+    this.financialData.delete(companyId);
+    this.schedules = this.schedules.filter((s) => s.companyId !== companyId);
+    return this.companies.length !== before;
+  }
+
+  createConfig(
+    companyId: number,
+    input: Partial<MockConfig>
+  ): MockConfig | undefined {
+    const company = this.findCompany(companyId);
+    if (!company) return undefined;
+
+    const config: MockConfig = {
+      ...input,
+      id: this.nextId++,
+      name: String(input.name ?? ""),
+      sourceType: String(input.sourceType ?? "api"),
+      fieldMappings: input.fieldMappings ?? {},
+    };
+    company.configs.push(config);
+    return config;
+  }
+
+  updateConfig(
+    companyId: number,
+    configId: number,
+    input: Partial<MockConfig>
+  ): MockConfig | undefined {
+    const company = this.findCompany(companyId);
+    const index = company?.configs.findIndex((c) => c.id === configId) ?? -1;
+    if (!company || index === -1) return undefined;
+
+    company.configs[index] = {
+      ...company.configs[index],
+      ...input,
+      id: configId,
+    };
+    return company.configs[index];
+  }
+
+  deleteConfig(companyId: number, configId: number): boolean {
+    const company = this.findCompany(companyId);
+    if (!company) return false;
+
+    const before = company.configs.length;
+    company.configs = company.configs.filter((c) => c.id !== configId);
+    this.schedules = this.schedules.filter((s) => s.sourceId !== configId);
+    return company.configs.length !== before;
+  }
+
+  listSchedules(companyId: number): MockSchedule[] {
+    this.runDueSchedules();
+    return this.schedules.filter((s) => s.companyId === companyId);
+  }
+
+  /** Creates or replaces the schedule of a data source. */
+  saveSchedule(
+    companyId: number,
+    sourceId: number,
+    input: MockScheduleInput
+  ): MockSchedule {
+    const existing = this.schedules.find((s) => s.sourceId === sourceId);
+    const schedule = this.planSchedule({
+      ...existing,
+      id: existing?.id ?? this.nextId++,
+      companyId,
+      sourceId,
+      frequency: input.frequency,
+      cron: input.cron,
+      timezone: input.timezone,
+      enabled: input.enabled,
+    });
+
+    this.schedules = [
+      ...this.schedules.filter((s) => s.sourceId !== sourceId),
+      schedule,
+    ];
+    return schedule;
+  }
+
+  deleteSchedule(sourceId: number): boolean {
+    const before = this.schedules.length;
+    this.schedules = this.schedules.filter((s) => s.sourceId !== sourceId);
+    return this.schedules.length !== before;
+  }
+
+  private planSchedule(schedule: MockSchedule, after = new Date()) {
+    const { cron } = parseCron(schedule.cron);
+    const next =
+      schedule.enabled && cron
+        ? nextCronRun(cron, schedule.timezone, after)
+        : null;
+    return { ...schedule, nextRunAt: next?.toISOString() };
+  }
+
+  /**
+   * Starts the syncs whose next run has passed. There is no timer: this
+   * runs whenever schedules or jobs are read, which is enough for a dev
+   * server that is polled by the UI.
+   */
+  private runDueSchedules() {
+    const now = new Date();
+    this.schedules = this.schedules.map((schedule) => {
+      if (!schedule.nextRunAt || new Date(schedule.nextRunAt) > now) {
+        return schedule;
+      }
+
+      const company = this.findCompany(schedule.companyId);
+      if (company) this.startJob(company, { sourceId: schedule.sourceId });
+      return this.planSchedule({ ...schedule, lastRunAt: now.toISOString() });
+    });
+  }
+
+  startJob(
+    company: MockCompany,
+    { sourceId, retryOf, uploaded }: StartJobOptions = {}
+  ): MockJob {
+    const source = company.configs.find((config) => config.id === sourceId);
+    const sourceMissing = sourceId !== undefined && !source;
+    const id = this.nextId++;
+    const planned = this.plannedRows(company, source);
+    // Syncing again picks up whatever the source restated since last time.
+    const rows =
+      uploaded ??
+      (this.financialData.has(company.id) ? reviseRows(planned, id) : planned);
+    if (uploaded) this.uploads.set(id, uploaded);
+    const runtime: JobRuntime = {
+      startedAt: Date.now(),
+      durationMs: JOB_DURATION_MS,
+      rows,
+      counts: countRows(rows),
+      failAt:
+        company.configs.length === 0
+          ? {
+              stage: "extract",
+              message: "No data sources configured for this company",
+            }
+          : sourceMissing
+            ? { stage: "extract", message: "Data source no longer exists" }
+            : undefined,
+    };
+
+    const now = new Date().toISOString();
+    const job: MockJob = {
+      id,
+      companyId: company.id,
+      sourceId,
+      retryOf,
+      status: "pending",
+      progress: 0,
+      stage: "queued",
+      stages: this.jobStages(runtime, 0),
+      message: "Queued",
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.push(job);
+    this.runtimes.set(job.id, runtime);
+    return job;
+  }
+
+  /** Asks a running job to stop; it settles as `cancelled` shortly after. */
+  cancelJob(job: MockJob): MockJob {
+    const runtime = this.runtimes.get(job.id);
+    if (runtime && runtime.cancelRequestedAt === undefined) {
+      runtime.cancelRequestedAt = Date.now();
+      job.status = "cancelling";
+      job.message = "Cancelling";
+      job.updatedAt = new Date().toISOString();
+    }
+    return job;
+  }
+
+  findJob(jobId: number): MockJob | undefined {
+    const job = this.jobs.find((j) => j.id === jobId);
+    if (job) this.advanceJob(job);
+    return job;
+  }
+
+  listJobs(companyId: number): MockJob[] {
+    this.runDueSchedules();
+    return this.jobs
+      .filter((job) => job.companyId === companyId)
+      .map((job) => {
+        this.advanceJob(job);
+        return job;
+      });
+  }
+
+  jobLogs(job: MockJob): MockLogEntry[] {
+    const company = this.findCompany(job.companyId);
+    const source = company?.configs.find((c) => c.id === job.sourceId);
+    const rows =
+      this.runtimes.get(job.id)?.rows ??
+      (company ? this.plannedRows(company, source) : []);
+    return buildJobLogs(job, rows, source?.name);
+  }
+
+  /** The latest `limit` records of a source, in the source's own shape. */
+  sourceSample(company: MockCompany, config: MockConfig, limit: number) {
+    return buildSourceSample(
+      config,
+      this.plannedRows(company, config).slice(-limit)
+    );
+  }
+
+  /** Rows uploaded for `job`, so a retry loads the same file. */
+  jobUpload(job: MockJob): MockFinancialRow[] | undefined {
+    return this.uploads.get(job.id);
+  }
+
+  /**
+   * Turns rows mapped from an uploaded file into stored rows of `source`,
+   * filling what the file left out. Invalid rows are kept so the pipeline
+   * rejects them.
+   */
+  uploadedRows(
+    company: MockCompany,
+    source: MockConfig,
+    rows: Record<string, unknown>[]
+  ): MockFinancialRow[] {
+    return rows.map((row) => {
+      const fromDate = String(row.fromDate ?? row.toDate ?? "");
+      return {
+        id: this.nextId++,
+        category: String(row.category ?? ""),
+        subcategory: row.subcategory != null ? String(row.subcategory) : null,
+        lineItemName: String(row.lineItemName ?? row.category ?? ""),
+        amount: String(row.amount ?? ""),
+        currency: String(row.currency ?? company.currency),
+        fromDate,
+        toDate: String(row.toDate ?? fromDate),
+        sourceName: source.name,
+      };
+    });
+  }
+
+  /** Data before and after `job`; only recorded for runs that completed. */
+  jobDiff(job: MockJob): MockDataSnapshot | undefined {
+    return this.snapshots.get(job.id);
+  }
+
+  getFinancialData(companyId: number): MockFinancialRow[] {
+    return this.financialData.get(companyId) ?? [];
+  }
+
+  /** Moves a running job forward based on wall-clock time since it started. */
+  private advanceJob(job: MockJob) {
+    const runtime = this.runtimes.get(job.id);
+    if (!runtime || isJobFinished(job)) return;
+
+    if (runtime.cancelRequestedAt !== undefined) {
+      // Progress stays frozen while the job winds down.
+      if (Date.now() - runtime.cancelRequestedAt >= CANCEL_GRACE_MS) {
+        job.status = "cancelled";
+        job.stages = this.jobStages(runtime, job.progress / 100, true);
+        job.message = `Cancelled at ${job.progress}%`;
+        job.updatedAt = new Date().toISOString();
+        this.runtimes.delete(job.id);
+      }
+      return;
+    }
+
+    const elapsed = Date.now() - runtime.startedAt;
+    const fraction = Math.min(1, elapsed / runtime.durationMs);
+    const company = this.findCompany(job.companyId);
+    const source = company?.configs.find((c) => c.id === job.sourceId);
+    const sourceCount = company?.configs.length ?? 0;
+    const sources = source
+      ? source.name
+      : `${sourceCount} ${sourceCount === 1 ? "source" : "sources"}`;
+
+    job.updatedAt = new Date().toISOString();
+
+    if (runtime.failAt && fraction >= failurePoint(runtime.failAt.stage)) {
+      job.status = "failed";
+      job.progress = Math.round(failurePoint(runtime.failAt.stage) * 100);
+      job.stage = runtime.failAt.stage;
+      job.stages = this.jobStages(runtime, fraction);
+      job.message = runtime.failAt.message;
+      this.runtimes.delete(job.id);
+      return;
+    }
+
+    job.progress = Math.round(fraction * 100);
+    job.stages = this.jobStages(runtime, fraction);
+    job.stage = currentStage(fraction);
+
+    if (job.stage === "done") {
+      const { extracted, valid } = runtime.counts;
+      this.completeSync(job, runtime.rows, source);
+      job.status = "completed";
+      job.progress = 100;
+      job.rowCount = valid;
+      job.message =
+        valid < extracted
+          ? `Integrated ${valid} records from ${sources} (${extracted - valid} rejected)`
+          : `Integrated ${valid} records from ${sources}`;
+      this.runtimes.delete(job.id);
+      return;
+    }
+
+    job.status = job.stage === "queued" ? "pending" : "processing";
+    job.message =
+      job.stage === "queued" ? "Queued" : stageMessage(job.stage, sources);
+  }
+
+  private jobStages(
+    runtime: JobRuntime,
+    fraction: number,
+    cancelled = false
+  ): MockStage[] {
+    return buildStages({
+      startedAt: runtime.startedAt,
+      durationMs: runtime.durationMs,
+      fraction,
+      counts: runtime.counts,
+      failure: runtime.failAt,
+      cancelled,
+    });
+  }
+
+  /** Rows a sync extracts; only `source`'s rows when one is given. */
+  private plannedRows(
+    company: MockCompany,
+    source?: MockConfig
+  ): MockFinancialRow[] {
+    const rows =
+      this.financialData.get(company.id) ??
+      generateFinancialRows(
+        company.id,
+        source?.name ?? company.configs[0]?.name ?? "Import",
+        {
+          lastYear: 2024,
+          years: 2,
+          scale: 0.4,
+          currency: company.currency,
+        }
+      );
+    return source ? rows.filter((row) => row.sourceName === source.name) : rows;
+  }
+
+  /**
+   * Replaces the synced source's rows (or all rows for a company-wide run)
+   * with the extracted ones and records the data either side of the job.
+   */
+  private completeSync(
+    job: MockJob,
+    rows: MockFinancialRow[],
+    source?: MockConfig
+  ) {
+    const before = this.financialData.get(job.companyId) ?? [];
+    const after = source
+      ? [...before.filter((row) => row.sourceName !== source.name), ...rows]
+      : rows;
+
+    this.financialData.set(job.companyId, after);
+    this.snapshots.set(job.id, { before, after });
+  }
+}
@@ -0,0 +1,200 @@
+import type { MockJob, MockFinancialRow } from "./db";
+import { rowProblem, type MockStage, type MockStageName } from "./pipeline";
+
+export interface MockLogEntry {
+  /** 1-based position in the job's log. */
+  seq: number;
+  timestamp: string;
+  level: "debug" | "info" | "warn" | "error";
+  stage?: MockStageName;
+  source?: string;
+  message: string;
+  /** Id of the record the line is about. */
+  rowId?: number;
+}
+
+type LogLine = Omit<MockLogEntry, "seq">;
+
+const PAGE_SIZE = 100;
+
+const STAGE_TITLES: Record<MockStageName, string> = {
+  extract: "Extract",
+  validate: "Validate",
+  map: "Map",
+  transform: "Transform",
+  load: "Load",
+};
+
+/** `count` instants evenly spaced strictly between `from` and `to`. */
+const spread = (from: string, to: string, count: number): string[] => {
+  const start = new Date(from).getTime();
+  const step = (new Date(to).getTime() - start) / (count + 1);
+  return Array.from({ length: count }, (_, i) =>
+    new Date(start + step * (i + 1)).toISOString()
+  );
+};
+
+const groupBySource = (rows: MockFinancialRow[]) => {
+  const groups = new Map<string, MockFinancialRow[]>();
+  rows.forEach((row) => {
+    groups.set(row.sourceName, [...(groups.get(row.sourceName) ?? []), row]);
+  });
+  return groups;
+};
+
+// Per-record and per-page lines logged while a completed stage ran.
+const detailLines = (
+  stage: MockStage,
+  rows: MockFinancialRow[]
+): Omit<LogLine, "timestamp">[] => {
+  switch (stage.name) {
+    case "extract":
+      return Array.from(groupBySource(rows)).flatMap(([source, group]) => {
+        const pages = Math.ceil(group.length / PAGE_SIZE);
+        return Array.from({ length: pages }, (_, page) => ({
+          level: "debug" as const,
+          stage: stage.name,
+          source,
+          message: `Fetched page ${page + 1}/${pages} (${Math.min(
+            PAGE_SIZE,
+            group.length - page * PAGE_SIZE
+          )} records)`,
+        }));
+      });
+    case "validate":
+      return rows.flatMap((row) => {
+        const problem = rowProblem(row);
+        return problem
+          ? [
+              {
+                level: "warn" as const,
+                stage: stage.name,
+                source: row.sourceName,
+                message: `Rejected record "${row.lineItemName}": ${problem}`,
+                rowId: row.id,
+              },
+            ]
+          : [];
+      });
+    case "map":
+      return Array.from(groupBySource(rows).keys()).map((source) => ({
+        level: "debug" as const,
+        stage: stage.name,
+        source,
+        message: "Applied field mappings",
+      }));
+    default:
+      return [];
+  }
+};
+
+const summaryMessage = (stage: MockStage) => {
+  const records = stage.recordsOut ?? 0;
+  switch (stage.name) {
+    case "extract":
+      return `Extracted ${records} records`;
+    case "validate":
+      return `Validated ${stage.recordsIn ?? 0} records, ${
+        (stage.recordsIn ?? 0) - records
+      } rejected`;
+    case "map":
+      return `Mapped ${records} records to the unified schema`;
+    case "transform":
+      return `Transformed ${records} records`;
+    case "load":
+      return `Loaded ${records} records`;
+  }
+};
+
+const stageLines = (
+  stage: MockStage,
+  rows: MockFinancialRow[],
+  source?: string
+): LogLine[] => {
+  if (!stage.startedAt) return [];
+
+  const title = STAGE_TITLES[stage.name];
+  const lines: LogLine[] = [
+    {
+      timestamp: stage.startedAt,
+      level: "info",
+      stage: stage.name,
+      source,
+      message: `${title} started`,
+    },
+  ];
+  if (!stage.finishedAt) return lines;
+
+  const end = stage.finishedAt;
+  if (stage.status === "failed") {
+    lines.push({
+      timestamp: end,
+      level: "error",
+      stage: stage.name,
+      source,
+      message: `${title} failed: ${stage.error ?? "unknown error"}`,
+    });
+  } else if (stage.status === "cancelled") {
+    lines.push({
+      timestamp: end,
+      level: "warn",
+      stage: stage.name,
+      source,
+      message: `${title} stopped because the job was cancelled`,
+    });
+  } else {
+    const details = detailLines(stage, rows);
+    const times = spread(stage.startedAt, end, details.length);
+    details.forEach((line, i) => lines.push({ ...line, timestamp: times[i] }));
+    lines.push({
+      timestamp: end,
+      level: "info",
+      stage: stage.name,
+      source,
+      message: summaryMessage(stage),
+    });
+  }
+  return lines;
+};
+
+/**
+ * The structured log of a job, rebuilt from its stages so a running job's
+ * log grows as it advances. `rows` are the records the job extracts and
+ * `source` names the data source of a single-source run.
+ */
+export const buildJobLogs = (
+  job: MockJob,
+  rows: MockFinancialRow[],
+  source?: string
+): MockLogEntry[] => {
+  const lines: LogLine[] = [
+    {
+      timestamp: job.createdAt,
+      level: "info",
+      source,
+      message: source ? `Sync queued for ${source}` : "Sync queued",
+    },
+    ...job.stages.flatMap((stage) => stageLines(stage, rows, source)),
+  ];
+
+  if (job.status === "completed" || job.status === "cancelled") {
+    lines.push({
+      timestamp: job.updatedAt,
+      level: job.status === "completed" ? "info" : "warn",
+      source,
+      message: job.message,
+    });
+  } else if (
+    job.status === "failed" &&
+    !job.stages.some((stage) => stage.status === "failed")
+  ) {
+    lines.push({
+      timestamp: job.updatedAt,
+      level: "error",
+      source,
+      message: job.message,
+    });
+  }
+
+  return lines.map((line, i) => ({ seq: i + 1, ...line }));
+};
@@ -0,0 +1,158 @@
+import type { MockFinancialRow } from "./db";
+
+export type MockStageName =
+  "extract" | "validate" | "map" | "transform" | "load";
+
+export interface MockStage {
+  name: MockStageName;
+  status:
+    "pending" | "running" | "completed" | "failed" | "cancelled" | "skipped";
+  startedAt?: string;
+  finishedAt?: string;
+  recordsIn?: number;
+  recordsOut?: number;
+  error?: string;
+}
+
+export interface StageCounts {
+  extracted: number;
+  valid: number;
+}
+
+export interface StageFailure {
+  stage: MockStageName;
+  message: string;
+}
+
+/** Share of a job's duration spent queued before the first stage. */
+export const QUEUED_SHARE = 0.05;
+
+/** Stages in pipeline order with their share of the job's duration. */
+const PIPELINE: { name: MockStageName; share: number; message: string }[] = [
+  { name: "extract", share: 0.25, message: "Extracting data from {sources}" },
+  {
+    name: "validate",
+    share: 0.15,
+    message: "Validating records against the unified schema",
+  },
+  { name: "map", share: 0.1, message: "Mapping source fields" },
+  {
+    name: "transform",
+    share: 0.25,
+    message: "Transforming records to the unified schema",
+  },
+  { name: "load", share: 0.2, message: "Loading unified records" },
+];
+
+const stageBounds = (name: MockStageName) => {
+  let start = QUEUED_SHARE;
+  for (const stage of PIPELINE) {
+    if (stage.name === name) return { start, end: start + stage.share };
+    start += stage.share;
+  }
+  throw new Error(`Unknown stage ${name}`);
+};
+
+// Mirrors the client's row validation closely enough for the counts.
+export const rowProblem = (row: MockFinancialRow): string | undefined => {
+  if (!/^[-+]?\d+(\.\d+)?$/.test(row.amount)) {
+    return `amount "${row.amount}" is not a number`;
+  }
+  if (row.fromDate > row.toDate) return "fromDate is after toDate";
+  return undefined;
+};
+
+export const countRows = (rows: MockFinancialRow[]): StageCounts => ({
+  extracted: rows.length,
+  valid: rows.filter((row) => !rowProblem(row)).length,
+});
+
+const stageRecords = (name: MockStageName, counts: StageCounts) =>
+  name === "extract"
+    ? { recordsOut: counts.extracted }
+    : name === "validate"
+      ? { recordsIn: counts.extracted, recordsOut: counts.valid }
+      : { recordsIn: counts.valid, recordsOut: counts.valid };
+
+/** Failures happen halfway through the failing stage. */
+export const failurePoint = (stage: MockStageName) => {
+  const { start, end } = stageBounds(stage);
+  return (start + end) / 2;
+};
+
+/** The stage running at `fraction` of the job, or queued/done around them. */
+export const currentStage = (
+  fraction: number
+): MockStageName | "queued" | "done" => {
+  if (fraction < QUEUED_SHARE) return "queued";
+  const running = PIPELINE.find(({ name }) => fraction < stageBounds(name).end);
+  return running?.name ?? "done";
+};
+
+export const stageMessage = (stage: MockStageName, sources: string) =>
+  PIPELINE.find(({ name }) => name === stage)!.message.replace(
+    "{sources}",
+    sources
+  );
+
+interface BuildStagesOptions {
+  /** Epoch ms the job started. */
+  startedAt: number;
+  durationMs: number;
+  /** How far through the job it is, 0-1. */
+  fraction: number;
+  counts: StageCounts;
+  /** Applies once `fraction` reaches the failure point. */
+  failure?: StageFailure;
+  /** The job was cancelled at `fraction`. */
+  cancelled?: boolean;
+}
+
+/** Per-stage status, timing and counts for a job at `fraction`. */
+export const buildStages = ({
+  startedAt,
+  durationMs,
+  fraction,
+  counts,
+  failure,
+  cancelled = false,
+}: BuildStagesOptions): MockStage[] => {
+  const at = (point: number) =>
+    new Date(startedAt + point * durationMs).toISOString();
+  const failed = failure && fraction >= failurePoint(failure.stage);
+  const stoppedAt = failed ? failurePoint(failure.stage) : fraction;
+
+  return PIPELINE.map(({ name }) => {
+    const { start, end } = stageBounds(name);
+
+    if (stoppedAt < start) {
+      return { name, status: failed || cancelled ? "skipped" : "pending" };
+    }
+    if (stoppedAt >= end) {
+      return {
+        name,
+        status: "completed",
+        startedAt: at(start),
+        finishedAt: at(end),
+        ...stageRecords(name, counts),
+      };
+    }
+    if (failed) {
+      return {
+        name,
+        status: "failed",
+        startedAt: at(start),
+        finishedAt: at(stoppedAt),
+        error: failure.message,
+      };
+    }
+    return cancelled
+      ? {
+          name,
+          status: "cancelled",
+          startedAt: at(start),
+          finishedAt: at(stoppedAt),
+        }
+      : { name, status: "running", startedAt: at(start) };
+  });
+};
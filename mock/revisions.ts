@@ -0,0 +1,79 @@
+import type { MockFinancialRow } from "./db";
+import { createRandom } from "./seed";
+
+/** How many of the latest months a re-sync restates. */
+const OPEN_MONTHS = 2;
+
+const monthOf = (row: MockFinancialRow) => row.fromDate.slice(0, 7);
+
+const scaleAmount = (amount: string, factor: number) =>
+  /^[-+]?\d+(\.\d+)?$/.test(amount)
+    ? (Number(amount) * factor).toFixed(2)
+    : amount;
+
+const nextMonth = (row: MockFinancialRow) => {
+  const from = new Date(row.fromDate);
+  const year = from.getUTCFullYear();
+  const month = from.getUTCMonth() + 1;
+  return {
+    fromDate: new Date(Date.UTC(year, month, 1)).toISOString(),
+    toDate: new Date(Date.UTC(year, month + 1, 0)).toISOString(),
+  };
+};
+
+/**
+ * What a source returns when it is synced again: the latest months are
+ * restated, the month after them is new, and now and then a closed month is
+ * rewritten or one of its entries is voided. Deterministic for a given
+ * `seed` so a job's rows can be rebuilt.
+ */
+export const reviseRows = (
+  rows: MockFinancialRow[],
+  seed: number
+): MockFinancialRow[] => {
+  if (rows.length === 0) return rows;
+
+  const random = createRandom(seed * 104729);
+  const months = [...new Set(rows.map(monthOf))].sort();
+  const openMonths = new Set(months.slice(-OPEN_MONTHS));
+  const latestMonth = months[months.length - 1];
+  const closedRows = rows.filter((row) => !openMonths.has(monthOf(row)));
+  const rewritten =
+    random() < 0.5
+      ? closedRows[Math.floor(random() * closedRows.length)]
+      : undefined;
+  const voided =
+    random() < 0.3
+      ? closedRows[Math.floor(random() * closedRows.length)]
+      : undefined;
+
+  const revised = rows
+    .filter((row) => row !== voided)
+    .map((row) => {
+      if (openMonths.has(monthOf(row))) {
+        return {
+          ...row,
+          amount: scaleAmount(row.amount, 0.96 + random() * 0.1),
+        };
+      }
+      if (row === rewritten) {
+        return {
+          ...row,
+          amount: scaleAmount(row.amount, 0.9 + random() * 0.2),
+        };
+      }
+      return row;
+    });
+
+  let nextId = Math.max(...rows.map((row) => row.id));
+  const added = rows
+    .filter((row) => monthOf(row) === latestMonth)
+    .map((row) => ({
+      ...row,
+      ...nextMonth(row),
+      id: ++nextId,
+      amount: scaleAmount(row.amount, 0.95 + random() * 0.15),
+    }));
+
+  return [...revised, ...added];
+};
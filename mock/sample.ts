@@ -0,0 +1,61 @@
+import { parsePath, setPath } from "../src/lib/mapping/paths";
+import type { MockConfig, MockFinancialRow } from "./db";
+
+const UNIFIED_FIELDS = [
+  "category",
+  "subcategory",
+  "lineItemName",
+  "amount",
+  "currency",
+  "fromDate",
+  "toDate",
+  "sourceName",
+  "metadata",
+] as const;
+
+type RuleSpec = { path?: unknown; value?: unknown } | null | undefined;
+
+const rulePath = (rule: unknown): string | undefined =>
+  typeof rule === "string"
+    ? rule
+    : (rule as RuleSpec)?.path !== undefined
+      ? String((rule as { path: unknown }).path)
+      : undefined;
+
+/**
+ * Turns unified rows back into the shape the source sends, by writing each
+ * field where `config`'s mappings read it from, so a mapping preview of the
+ * sample reproduces the rows.
+ */
+export const buildSourceSample = (
+  config: MockConfig,
+  rows: MockFinancialRow[]
+): unknown => {
+  const mappings = config.fieldMappings;
+
+  const records = rows.map((row) => {
+    const record: Record<string, unknown> = { id: row.id };
+    UNIFIED_FIELDS.forEach((field) => {
+      const rule = mappings[field];
+      const path = rulePath(rule);
+      // Fixed values do not read from the record.
+      if (path === undefined && (rule as RuleSpec)?.value !== undefined) {
+        return;
+      }
+
+      const segments = path ? parsePath(path).segments : [field];
+      if (segments) setPath(record, segments, row[field] ?? undefined);
+    });
+    return record;
+  });
+
+  const rowsPath =
+    typeof mappings.$rows === "string"
+      ? parsePath(mappings.$rows).segments
+      : undefined;
+  if (!rowsPath) return records;
+
+  const payload: Record<string, unknown> = {};
+  setPath(payload, rowsPath, records);
+  return payload;
+};
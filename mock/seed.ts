@@ -0,0 +1,437 @@
+import type {
+  MockJob,
+  MockCompany,
+  MockScheduleInput,
+  MockFinancialRow,
+} from "./db";
+import {
+  countRows,
+  buildStages,
+  failurePoint,
+  type StageFailure,
+} from "./pipeline";
+
+// Deterministic PRNG so every dev server start produces the same ledger.
+export const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+};
+
+interface LineTemplate {
+  category: string;
+  subcategory?: string;
+  lineItemName: string;
+  base: number;
+  sign: 1 | -1;
+}
+
+const LINE_TEMPLATES: LineTemplate[] = [
+  {
+    category: "Revenue",
+    subcategory: "Product Sales",
+    lineItemName: "Online Store",
+    base: 42000,
+    sign: 1,
+  },
+  {
+    category: "Revenue",
+    subcategory: "Product Sales",
+    lineItemName: "Wholesale",
+    base: 31000,
+    sign: 1,
+  },
+  {
+    category: "Revenue",
+    subcategory: "Services",
+    lineItemName: "Consulting",
+    base: 12500,
+    sign: 1,
+  },
+  {
+    category: "Cost of Goods Sold",
+    subcategory: "Materials",
+    lineItemName: "Raw Materials",
+    base: 18000,
+    sign: -1,
+  },
+  {
+    category: "Operating Expenses",
+    subcategory: "Payroll",
+    lineItemName: "Salaries",
+    base: 26000,
+    sign: -1,
+  },
+  {
+    category: "Operating Expenses",
+    subcategory: "Facilities",
+    lineItemName: "Rent",
+    base: 6500,
+    sign: -1,
+  },
+  {
+    category: "Operating Expenses",
+    subcategory: "Marketing",
+    lineItemName: "Digital Ads",
+    base: 4200,
+    sign: -1,
+  },
+  {
+    category: "Other Income",
+    lineItemName: "Interest Income",
+    base: 850,
+    sign: 1,
+  },
+];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const monthRange = (year: number, month: number) => {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return {
+    fromDate: `${year}-${pad(month + 1)}-01T00:00:00.000Z`,
+    toDate: `${year}-${pad(month + 1)}-${pad(lastDay)}T00:00:00.000Z`,
+  };
+};
+
+/**
+ * Generates monthly ledger rows for `years` full years ending with
+ * `lastYear`, scaled by `scale` so companies differ in size.
+ */
+export const generateFinancialRows = (
+  companyId: number,
+  sourceName: string,
+  {
+    lastYear,
+    years,
+    scale,
+    currency,
+  }: { lastYear: number; years: number; scale: number; currency: string }
+): MockFinancialRow[] => {
+  const random = createRandom(companyId * 7919);
+  const rows: MockFinancialRow[] = [];
+  let rowId = companyId * 100000;
+
+  for (let year = lastYear - years + 1; year <= lastYear; year++) {
+    for (let month = 0; month < 12; month++) {
+      const growth = 1 + (year - (lastYear - years + 1)) * 0.08;
+      const { fromDate, toDate } = monthRange(year, month);
+
+      LINE_TEMPLATES.forEach((template) => {
+        const noise = 0.85 + random() * 0.3;
+        const amount = template.base * scale * growth * noise * template.sign;
+
+        rows.push({
+          id: ++rowId,
+          category: template.category,
+          subcategory: template.subcategory ?? null,
+          lineItemName: template.lineItemName,
+          amount: amount.toFixed(2),
+          currency,
+          fromDate,
+          toDate,
+          sourceName,
+          metadata: { depth: template.subcategory ? 2 : 1 },
+        });
+      });
+    }
+  }
+
+  return rows;
+};
+
+export const seedCompanies = (): MockCompany[] => [
+  {
+    id: 1,
+    name: "Acme Trading Co.",
+    description: "Regional distributor with an online store",
+    currency: "USD",
+    configs: [
+      {
+        id: 1,
+        name: "QuickBooks Online",
+        sourceType: "api",
+        apiEndpoint: "https://quickbooks.api.intuit.com/v3/company/123",
+        authScheme: "bearer",
+        headers: [{ name: "Accept", value: "application/json" }],
+        pagination: "offset",
+        fieldMappings: {
+          category: "Header.ColData[0].value",
+          amount: "ColData[1].value",
+        },
+      },
+      {
+        id: 2,
+        name: "Bank Export",
+        sourceType: "file",
+        format: "csv",
+        delimiter: ",",
+        headerRow: 1,
+        fieldMappings: {},
+      },
+    ],
+  },
+  {
+    id: 2,
+    name: "Nile Logistics",
+    description: "Freight forwarding, Cairo and Alexandria",
+    currency: "EGP",
+    configs: [
+      {
+        id: 3,
+        name: "Rootfi",
+        sourceType: "api",
+        apiEndpoint: "https://api.rootfi.dev/v3/accounting/profit_and_loss",
+        authScheme: "apiKey",
+        headers: [],
+        pagination: "cursor",
+        fieldMappings: {},
+      },
+    ],
+  },
+  {
+    id: 3,
+    name: "Gulf Retail Group",
+    description: "Retail chain across the GCC",
+    currency: "SAR",
+    configs: [
+      {
+        id: 4,
+        name: "ERP Database",
+        sourceType: "database",
+        driver: "sqlserver",
+        host: "erp.gulfretail.local",
+        port: 1433,
+        database: "ERP",
+        schema: "finance",
+        query: "SELECT * FROM finance.monthly_ledger",
+        fieldMappings: {},
+      },
+    ],
+  },
+  {
+    id: 4,
+    name: "New Venture LLC",
+    description: "Freshly onboarded, no data sources yet",
+    currency: "USD",
+    configs: [],
+  },
+];
+
+export const seedFinancialData = (): Map<number, MockFinancialRow[]> => {
+  const data = new Map<number, MockFinancialRow[]>();
+
+  data.set(
+    1,
+    generateFinancialRows(1, "QuickBooks Online", {
+      lastYear: 2024,
+      years: 3,
+      scale: 1,
+      currency: "USD",
+    })
+  );
+
+  // Nile Logistics ships a couple of malformed rows so the data issues
+  // banner has something to show in offline mode.
+  data.set(2, [
+    ...generateFinancialRows(2, "Rootfi", {
+      lastYear: 2024,
+      years: 2,
+      scale: 12,
+      currency: "EGP",
+    }),
+    {
+      id: 299998,
+      category: "Revenue",
+      subcategory: "Freight",
+      lineItemName: "Spot Contracts",
+      amount: "N/A",
+      currency: "EGP",
+      fromDate: "2024-12-01T00:00:00.000Z",
+      toDate: "2024-12-31T00:00:00.000Z",
+      sourceName: "Rootfi",
+    },
+    {
+      id: 299999,
+      category: "Operating Expenses",
+      lineItemName: "Fuel",
+      amount: "-24000.00",
+      currency: "EGP",
+      fromDate: "2024-12-31T00:00:00.000Z",
+      toDate: "2024-12-01T00:00:00.000Z",
+      sourceName: "Rootfi",
+    },
+  ]);
+
+  // Gulf Retail books in riyals but its UAE stores report in dirhams, so
+  // the dashboard has to convert part of the ledger.
+  data.set(3, [
+    ...generateFinancialRows(3, "ERP Database", {
+      lastYear: 2024,
+      years: 4,
+      scale: 2.5,
+      currency: "SAR",
+    }),
+    ...generateFinancialRows(5, "ERP Database", {
+      lastYear: 2024,
+      years: 2,
+      scale: 0.8,
+      currency: "AED",
+    }).map((row) => ({
+      ...row,
+      id: row.id + 300000,
+      lineItemName: `${row.lineItemName} (UAE)`,
+    })),
+  ]);
+
+  return data;
+};
+
+interface SeedRun {
+  companyId: number;
+  sourceId?: number;
+  startedAt: string;
+  durationSeconds: number;
+  failure?: StageFailure;
+}
+
+// A few weeks of sync history, including failed runs, so the job history
+// panel has something to filter in offline mode.
+const SEED_RUNS: SeedRun[] = [
+  { companyId: 1, startedAt: "2024-12-19T06:00:00.000Z", durationSeconds: 14 },
+  { companyId: 2, startedAt: "2024-12-19T06:05:00.000Z", durationSeconds: 21 },
+  { companyId: 3, startedAt: "2024-12-19T06:10:00.000Z", durationSeconds: 37 },
+  {
+    companyId: 1,
+    sourceId: 2,
+    startedAt: "2024-12-26T06:00:00.000Z",
+    durationSeconds: 3,
+    failure: {
+      stage: "extract",
+      message: "Bank Export: no file uploaded for December",
+    },
+  },
+  {
+    companyId: 2,
+    sourceId: 3,
+    startedAt: "2024-12-30T06:05:00.000Z",
+    durationSeconds: 31,
+    failure: {
+      stage: "extract",
+      message: "Rootfi API returned 503 Service Unavailable",
+    },
+  },
+  {
+    companyId: 3,
+    startedAt: "2024-12-30T06:10:00.000Z",
+    durationSeconds: 95,
+    failure: {
+      stage: "transform",
+      message: "ERP Database: connection reset while reading ledger",
+    },
+  },
+  { companyId: 1, startedAt: "2025-01-02T06:00:00.000Z", durationSeconds: 12 },
+  {
+    companyId: 2,
+    sourceId: 3,
+    startedAt: "2025-01-02T06:05:00.000Z",
+    durationSeconds: 8,
+    failure: {
+      stage: "extract",
+      message: "Rootfi API rate limit exceeded (429)",
+    },
+  },
+  { companyId: 3, startedAt: "2025-01-02T06:10:00.000Z", durationSeconds: 41 },
+];
+
+/** Finished jobs for the seeded companies, oldest first, without ids. */
+export const seedJobs = (
+  financialData: Map<number, MockFinancialRow[]>
+): Omit<MockJob, "id">[] => {
+  const companies = seedCompanies();
+
+  return SEED_RUNS.map((run) => {
+    const startedAt = new Date(run.startedAt).getTime();
+    const finishedAt = new Date(
+      startedAt + run.durationSeconds * 1000
+    ).toISOString();
+    const source = companies
+      .find((company) => company.id === run.companyId)
+      ?.configs.find((config) => config.id === run.sourceId);
+    const rows = (financialData.get(run.companyId) ?? []).filter(
+      (row) => !source || row.sourceName === source.name
+    );
+    const counts = countRows(rows);
+    // A failed run stops partway through its pipeline, so the stages are
+    // stretched to make the failure land on the recorded finish time.
+    const durationMs =
+      (run.durationSeconds * 1000) /
+      (run.failure ? failurePoint(run.failure.stage) : 1);
+    const base = {
+      companyId: run.companyId,
+      sourceId: run.sourceId,
+      stages: buildStages({
+        startedAt,
+        durationMs,
+        fraction: 1,
+        counts,
+        failure: run.failure,
+      }),
+      createdAt: run.startedAt,
+      updatedAt: finishedAt,
+    };
+
+    if (run.failure) {
+      return {
+        ...base,
+        status: "failed",
+        progress: Math.round(failurePoint(run.failure.stage) * 100),
+        stage: run.failure.stage,
+        message: run.failure.message,
+      };
+    }
+
+    return {
+      ...base,
+      status: "completed",
+      progress: 100,
+      stage: "done",
+      message: `Integrated ${counts.valid} records`,
+      rowCount: counts.valid,
+    };
+  });
+};
+
+/** Schedules for the seeded data sources, without ids. */
+export const seedSchedules = (): (MockScheduleInput & {
+  companyId: number;
+  sourceId: number;
+})[] => [
+  {
+    companyId: 1,
+    sourceId: 1,
+    frequency: "daily",
+    cron: "0 6 * * *",
+    timezone: "America/New_York",
+    enabled: true,
+  },
+  // Month-end close: load the previous month early on the 1st.
+  {
+    companyId: 2,
+    sourceId: 3,
+    frequency: "cron",
+    cron: "0 2 1 * *",
+    timezone: "Africa/Cairo",
+    enabled: true,
+  },
+  {
+    companyId: 3,
+    sourceId: 4,
+    frequency: "hourly",
+    cron: "15 * * * *",
+    timezone: "Asia/Riyadh",
+    enabled: false,
+  },
+];
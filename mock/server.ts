@@ -0,0 +1,387 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Connect, Plugin } from "vite";
+
+import { parseCron, isValidTimeZone } from "../src/lib/schedules/cron";
+import { MockDatabase, isJobFinished, type MockScheduleInput } from "./db";
+
+type Params = Record<string, string>;
+
+interface MockRequest {
+  params: Params;
+  body: Record<string, unknown>;
+  req: IncomingMessage;
+  res: ServerResponse;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: (request: MockRequest) => unknown;
+}
+
+/** Thrown by handlers to answer with a non-2xx status. */
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const RESPONSE_DELAY_MS = 150;
+const JOB_EVENT_INTERVAL_MS = 500;
+/** Records returned by the data source sample endpoint. */
+const SAMPLE_SIZE = 20;
+
+const compile = (path: string) => {
+  const keys: string[] = [];
+  const source = path.replace(/:([a-zA-Z]+)/g, (_, key: string) => {
+    keys.push(key);
+    return "([^/]+)";
+  });
+  return { pattern: new RegExp(`^${source}/?$`), keys };
+};
+
+const readBody = (req: IncomingMessage): Promise<Record<string, unknown>> =>
+  new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      if (!raw) return resolve({});
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new MockHttpError(400, "Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const toId = (value: string) => Number(value);
+
+/** Builds the route table for the Kudwa API on top of `db`. */
+export const createRoutes = (db: MockDatabase): Route[] => {
+  const routes: Route[] = [];
+  const add = (
+    method: string,
+    path: string,
+    handler: (request: MockRequest) => unknown
+  ) => routes.push({ method, handler, ...compile(path) });
+
+  const requireCompany = (id: string) => {
+    const company = db.findCompany(toId(id));
+    if (!company) throw new MockHttpError(404, "Company not found");
+    return company;
+  };
+
+  const requireConfig = (companyId: string, configId: string) => {
+    const config = requireCompany(companyId).configs.find(
+      (c) => c.id === toId(configId)
+    );
+    if (!config) throw new MockHttpError(404, "Configuration not found");
+    return config;
+  };
+
+  add("GET", "/api/companies", () => db.listCompanies());
+
+  add("POST", "/api/companies", ({ body }) => {
+    if (!String(body.name ?? "").trim()) {
+      throw new MockHttpError(400, "Company name is required");
+    }
+    return db.createCompany(body);
+  });
+
+  add("PUT", "/api/companies/:id", ({ params, body }) => {
+    const company = db.updateCompany(toId(params.id), body);
+    if (!company) throw new MockHttpError(404, "Company not found");
+    return company;
+  });
+
+  add("DELETE", "/api/companies/:id", ({ params }) => {
+    if (!db.deleteCompany(toId(params.id))) {
+      throw new MockHttpError(404, "Company not found");
+    }
+    return undefined;
+  });
+
+  add("POST", "/api/companies/:id/config", ({ params, body }) => {
+    requireCompany(params.id);
+    if (!String(body.name ?? "").trim()) {
+      throw new MockHttpError(400, "Configuration name is required");
+    }
+    return db.createConfig(toId(params.id), body);
+  });
+
+  add("PUT", "/api/companies/:id/config/:configId", ({ params, body }) => {
+    const config = db.updateConfig(
+      toId(params.id),
+      toId(params.configId),
+      body
+    );
+    if (!config) throw new MockHttpError(404, "Configuration not found");
+    return config;
+  });
+
+  add("DELETE", "/api/companies/:id/config/:configId", ({ params }) => {
+    if (!db.deleteConfig(toId(params.id), toId(params.configId))) {
+      throw new MockHttpError(404, "Configuration not found");
+    }
+    return undefined;
+  });
+
+  add("GET", "/api/companies/:id/config/:configId/sample", ({ params }) =>
+    db.sourceSample(
+      requireCompany(params.id),
+      requireConfig(params.id, params.configId),
+      SAMPLE_SIZE
+    )
+  );
+
+  add("GET", "/api/companies/:id/schedules", ({ params }) => {
+    requireCompany(params.id);
+    return db.listSchedules(toId(params.id));
+  });
+
+  add(
+    "PUT",
+    "/api/companies/:id/config/:configId/schedule",
+    ({ params, body }) => {
+      requireConfig(params.id, params.configId);
+
+      const cron = String(body.cron ?? "");
+      const { error } = parseCron(cron);
+      if (error) {
+        throw new MockHttpError(400, `Invalid cron expression: ${error}`);
+      }
+
+      const timezone = String(body.timezone ?? "UTC");
+      if (!isValidTimeZone(timezone)) {
+        throw new MockHttpError(400, `Unknown time zone: ${timezone}`);
+      }
+
+      const frequencies = ["hourly", "daily", "weekly", "cron"];
+      const frequency = frequencies.includes(String(body.frequency))
+        ? (body.frequency as MockScheduleInput["frequency"])
+        : "cron";
+
+      return db.saveSchedule(toId(params.id), toId(params.configId), {
+        frequency,
+        cron,
+        timezone,
+        enabled: body.enabled !== false,
+      });
+    }
+  );
+
+  add(
+    "DELETE",
+    "/api/companies/:id/config/:configId/schedule",
+    ({ params }) => {
+      requireConfig(params.id, params.configId);
+      if (!db.deleteSchedule(toId(params.configId))) {
+        throw new MockHttpError(404, "Schedule not found");
+      }
+      return undefined;
+    }
+  );
+
+  add("POST", "/api/etl/sync/:companyId", ({ params }) => {
+    const job = db.startJob(requireCompany(params.companyId));
+    return { jobId: job.id, status: job.status };
+  });
+
+  add("POST", "/api/etl/sync/:companyId/:sourceId", ({ params }) => {
+    const config = requireConfig(params.companyId, params.sourceId);
+    const job = db.startJob(requireCompany(params.companyId), {
+      sourceId: config.id,
+    });
+    return { jobId: job.id, status: job.status };
+  });
+
+  add("POST", "/api/etl/upload/:companyId/:sourceId", ({ params, body }) => {
+    const company = requireCompany(params.companyId);
+    const config = requireConfig(params.companyId, params.sourceId);
+    if (config.sourceType !== "file") {
+      throw new MockHttpError(400, "Only file data sources accept uploads");
+    }
+    if (!Array.isArray(body.rows) || body.rows.length === 0) {
+      throw new MockHttpError(400, "The upload has no rows");
+    }
+
+    const job = db.startJob(company, {
+      sourceId: config.id,
+      uploaded: db.uploadedRows(company, config, body.rows),
+    });
+    return { jobId: job.id, status: job.status };
+  });
+
+  add("GET", "/api/etl/job/:jobId", ({ params }) => {
+    const job = db.findJob(toId(params.jobId));
+    if (!job) throw new MockHttpError(404, "Job not found");
+    return job;
+  });
+
+  add("POST", "/api/etl/job/:jobId/cancel", ({ params }) => {
+    const job = db.findJob(toId(params.jobId));
+    if (!job) throw new MockHttpError(404, "Job not found");
+    if (isJobFinished(job)) {
+      throw new MockHttpError(409, "Job has already finished");
+    }
+    return db.cancelJob(job);
+  });
+
+  // Starts a new job with the original job's company and source.
+  add("POST", "/api/etl/job/:jobId/retry", ({ params }) => {
+    const job = db.findJob(toId(params.jobId));
+    if (!job) throw new MockHttpError(404, "Job not found");
+    if (job.status !== "failed" && job.status !== "cancelled") {
+      throw new MockHttpError(
+        409,
+        "Only failed or cancelled jobs can be retried"
+      );
+    }
+
+    const retry = db.startJob(requireCompany(String(job.companyId)), {
+      sourceId: job.sourceId,
+      retryOf: job.id,
+      uploaded: db.jobUpload(job),
+    });
+    return { jobId: retry.id, status: retry.status };
+  });
+
+  add("GET", "/api/etl/job/:jobId/logs", ({ params }) => {
+    const job = db.findJob(toId(params.jobId));
+    if (!job) throw new MockHttpError(404, "Job not found");
+    return db.jobLogs(job);
+  });
+
+  add("GET", "/api/etl/job/:jobId/diff", ({ params }) => {
+    const job = db.findJob(toId(params.jobId));
+    if (!job) throw new MockHttpError(404, "Job not found");
+
+    const snapshot = db.jobDiff(job);
+    if (!snapshot) {
+      throw new MockHttpError(
+        404,
+        "No data snapshot was recorded for this job"
+      );
+    }
+    return { jobId: job.id, ...snapshot };
+  });
+
+  // Server-Sent Events: one `job` event per change, closed once the job
+  // reaches a terminal status or the client disconnects.
+  add("GET", "/api/etl/job/:jobId/events", ({ params, req, res }) => {
+    const jobId = toId(params.jobId);
+    if (!db.findJob(jobId)) throw new MockHttpError(404, "Job not found");
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    let lastPayload = "";
+    const push = () => {
+      const job = db.findJob(jobId);
+      if (!job) {
+        res.end();
+        return true;
+      }
+
+      const payload = JSON.stringify(job);
+      if (payload !== lastPayload) {
+        res.write(`event: job\ndata: ${payload}\n\n`);
+        lastPayload = payload;
+      }
+      if (isJobFinished(job)) {
+        res.end();
+        return true;
+      }
+      return false;
+    };
+
+    if (push()) return undefined;
+    const timer = setInterval(() => {
+      if (push()) clearInterval(timer);
+    }, JOB_EVENT_INTERVAL_MS);
+    req.on("close", () => clearInterval(timer));
+    return undefined;
+  });
+
+  add("GET", "/api/etl/jobs/company/:companyId", ({ params }) =>
+    db.listJobs(toId(params.companyId))
+  );
+
+  add("GET", "/api/etl/financial-data/:companyId", ({ params }) => {
+    requireCompany(params.companyId);
+    return { data: db.getFinancialData(toId(params.companyId)) };
+  });
+
+  return routes;
+};
+
+const createMiddleware = (): Connect.NextHandleFunction => {
+  const routes = createRoutes(new MockDatabase());
+
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (!url.pathname.startsWith("/api/")) return next();
+
+    for (const route of routes) {
+      if (route.method !== req.method) continue;
+      const match = route.pattern.exec(url.pathname);
+      if (!match) continue;
+
+      const params: Params = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+
+      try {
+        const body = ["POST", "PUT"].includes(req.method ?? "")
+          ? await readBody(req)
+          : {};
+        const result = await route.handler({ params, body, req, res });
+        // Streaming handlers write their own headers and own the response.
+        if (res.headersSent) return;
+
+        await new Promise((resolve) => setTimeout(resolve, RESPONSE_DELAY_MS));
+        sendJson(res, result === undefined ? 204 : 200, result);
+      } catch (error) {
+        if (error instanceof MockHttpError) {
+          sendJson(res, error.status, { message: error.message });
+        } else {
+          sendJson(res, 500, { message: String(error) });
+        }
+      }
+      return;
+    }
+
+    sendJson(res, 404, {
+      message: `No mock route for ${req.method} ${url.pathname}`,
+    });
+  };
+};
+
+/**
+ * Serves the whole `/api` surface from an in-memory store so the app runs
+ * without a backend. Enabled with `VITE_MOCK_API=true`.
+ */
+export const mockApi = (): Plugin => ({
+  name: "kudwa-mock-api",
+  configureServer(server) {
+    server.middlewares.use(createMiddleware());
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createMiddleware());
+  },
+});
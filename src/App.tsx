@@ -1,23 +1,33 @@
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { QueryClientProvider } from "@tanstack/react-query";
 
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import { Toaster } from "@/components/ui/toaster";
+import { I18nProvider } from "@/lib/i18n";
+import { queryClient } from "@/lib/query-client";
+import { FxRatesProvider } from "@/lib/fx-context";
 import { CompanyProvider } from "@/lib/company-context";
 import { TooltipProvider } from "@/components/ui/tooltip";
 
 const App = () => (
-  <CompanyProvider>
-    <TooltipProvider>
-      <Toaster />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
-  </CompanyProvider>
+  <QueryClientProvider client={queryClient}>
+    <I18nProvider>
+      <CompanyProvider>
+        <FxRatesProvider>
+          <TooltipProvider>
+            <Toaster />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Index />} />
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </FxRatesProvider>
+      </CompanyProvider>
+    </I18nProvider>
+  </QueryClientProvider>
 );
 
 export default App;
@@ -0,0 +1,231 @@
+import React, { useState } from "react";
+import { Layers, Square, RefreshCw } from "lucide-react";
+
+import { useI18n, translateMessage } from "@/lib/i18n";
+import { type Company } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useBulkSync } from "@/hooks/use-bulk-sync";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  clampConcurrency,
+  type BulkSyncStatus,
+  MAX_BULK_CONCURRENCY,
+} from "@/lib/jobs";
+
+const STATUS_BADGE_CLASSES: Record<BulkSyncStatus, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  starting: "bg-blue-100 text-blue-800",
+  running: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+  skipped: "bg-gray-100 text-gray-800",
+};
+
+interface BulkSyncProps {
+  companies: Company[];
+  /**
+   * The panel stays mounted while closed so a running queue keeps going;
+   * closing only hides it.
+   */
+  open: boolean;
+}
+
+const BulkSync: React.FC<BulkSyncProps> = ({ companies, open }) => {
+  const { t, formatNumber } = useI18n();
+  const { items, summary, concurrency, setConcurrency, start, stop, clear } =
+    useBulkSync();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  if (!open) return null;
+
+  const allSelected =
+    companies.length > 0 && companies.every((c) => selectedIds.has(c.id));
+  const failures = items.filter((item) => item.status === "failed");
+
+  const toggleCompany = (companyId: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(companyId)) {
+      next.delete(companyId);
+    } else {
+      next.add(companyId);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleAll = () =>
+    setSelectedIds(
+      allSelected ? new Set() : new Set(companies.map((c) => c.id))
+    );
+
+  const renderSetup = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t("bulk.hint")}</p>
+      <div className="rounded-md border max-h-64 overflow-y-auto">
+        <label className="flex items-center gap-2 p-2 border-b bg-muted/50 text-sm font-medium">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={toggleAll}
+            disabled={companies.length === 0}
+          />
+          {t("bulk.selectAll")}
+        </label>
+        {companies.map((company) => (
+          <label
+            key={company.id}
+            className="flex items-center gap-2 p-2 border-b last:border-b-0 text-sm"
+          >
+            <input
+              type="checkbox"
+              checked={selectedIds.has(company.id)}
+              onChange={() => toggleCompany(company.id)}
+            />
+            <span className="flex-1">{company.name}</span>
+            <span className="text-xs text-muted-foreground">
+              {t("companies.sources", {
+                count: (company.configs || []).length,
+              })}
+            </span>
+          </label>
+        ))}
+      </div>
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="space-y-1 text-sm">
+          <span className="block font-medium">{t("bulk.concurrency")}</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_BULK_CONCURRENCY}
+            className="w-24 px-3 py-2 border rounded-md"
+            value={concurrency}
+            onChange={(e) =>
+              setConcurrency(clampConcurrency(Number(e.target.value)))
+            }
+          />
+        </label>
+        <Button
+          onClick={() =>
+            start(companies.filter((company) => selectedIds.has(company.id)))
+          }
+          disabled={selectedIds.size === 0}
+          className="flex items-center gap-2"
+        >
+          <RefreshCw className="h-4 w-4" />
+          {t("bulk.start", { count: selectedIds.size })}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderQueue = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Progress value={summary.progress} className="w-full" />
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+          <span>
+            {t("bulk.summary", {
+              done: summary.completed + summary.failed + summary.cancelled,
+              count: summary.total,
+              running: summary.running,
+              pending: summary.pending,
+            })}
+          </span>
+          <span>{formatNumber(summary.progress)}%</span>
+        </div>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="rounded-md border border-red-200 bg-red-50 dark:bg-red-950 p-3 text-sm space-y-1">
+          <p className="font-medium text-red-700">
+            {t("bulk.failures", { count: failures.length })}
+          </p>
+          <ul className="list-disc ms-4 text-red-700">
+            {failures.map((item) => (
+              <li key={item.companyId}>
+                {item.companyName}:{" "}
+                {item.message ? translateMessage(t, item.message) : "—"}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="rounded-md border overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/50">
+              <th className="p-2 text-start font-medium">
+                {t("bulk.company")}
+              </th>
+              <th className="p-2 text-start font-medium">
+                {t("history.status")}
+              </th>
+              <th className="p-2 text-end font-medium">
+                {t("history.progress")}
+              </th>
+              <th className="p-2 text-start font-medium">
+                {t("history.message")}
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.companyId} className="border-b last:border-b-0">
+                <td className="p-2 font-medium">{item.companyName}</td>
+                <td className="p-2">
+                  <Badge
+                    variant="secondary"
+                    className={STATUS_BADGE_CLASSES[item.status]}
+                  >
+                    {t(`bulk.status.${item.status}`)}
+                  </Badge>
+                </td>
+                <td className="p-2 text-end">{formatNumber(item.progress)}%</td>
+                <td className="p-2 text-muted-foreground">
+                  {item.message ? translateMessage(t, item.message) : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {summary.isFinished ? (
+          <Button variant="outline" onClick={clear}>
+            {t("bulk.newRun")}
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            onClick={stop}
+            disabled={summary.pending === 0}
+            className="flex items-center gap-2"
+          >
+            <Square className="h-4 w-4" />
+            {t("bulk.stop")}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          {t("bulk.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? renderSetup() : renderQueue()}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BulkSync;
@@ -1,53 +1,81 @@
 import React, { useState, useEffect } from "react";
-import { JsonEditor, JsonData } from "json-edit-react";
+import { JsonEditor } from "json-edit-react";
 
+import { useI18n, type MessageKey } from "@/lib/i18n";
 import { useToast } from "@/hooks/use-toast";
+import { useNotify } from "@/hooks/use-notify";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { describeSchedule } from "@/lib/schedules";
 import { useCompany } from "@/lib/company-context";
-import { Building, Plus, Trash, Edit, Database } from "lucide-react";
+import { useSchedules } from "@/hooks/use-schedules";
+import ScheduleEditor from "@/components/ScheduleEditor";
+import FileSourceUpload from "@/components/FileSourceUpload";
+import FieldMappingEditor from "@/components/FieldMappingEditor";
+import SourceSettingsFields from "@/components/SourceSettingsFields";
+import {
+  Edit,
+  Plus,
+  Trash,
+  Upload,
+  Building,
+  Database,
+  CalendarClock,
+} from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-
-interface Company {
-  id: string;
-  name: string;
-  description?: string;
-  configs: DataSourceConfig[];
-}
-
-interface DataSourceConfig {
-  id: string;
-  name: string;
-  sourceType: string;
-  fieldMappings: any;
-  apiEndpoint?: string;
-}
+import {
+  type Company,
+  SOURCE_TYPES,
+  createConfig,
+  updateConfig,
+  deleteConfig,
+  createCompany,
+  updateCompany,
+  deleteCompany,
+  withSourceType,
+  describeError,
+  getErrorMessage,
+  parseConfigInput,
+  emptyConfigInput,
+  type SourceType,
+  type DataSourceConfig,
+  type DataSourceConfigInput,
+  fetchCompanies as fetchCompaniesApi,
+} from "@/lib/api";
+import { SUPPORTED_CURRENCIES } from "@/lib/financial";
+
+const emptyCompanyForm = { name: "", description: "", currency: "USD" };
 
 interface CompanyManagerProps {
   onCompanyChange?: () => void;
 }
 
 const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
-  const [newConfig, setNewConfig] = useState({
-    name: "",
-    apiEndpoint: "",
-    sourceType: "api",
-    fieldMappings: {},
-  });
+  const [newConfig, setNewConfig] =
+    useState<DataSourceConfigInput>(emptyConfigInput);
+  const [configErrors, setConfigErrors] = useState<Record<string, MessageKey>>(
+    {}
+  );
   const [error, setError] = useState<string | null>(null);
   const [companies, setCompanies] = useState<Company[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isAddingConfig, setIsAddingConfig] = useState<boolean>(false);
   const [isAddingCompany, setIsAddingCompany] = useState<boolean>(false);
   const [expandedConfig, setExpandedConfig] = useState<string | null>(null);
+  const [schedulingConfig, setSchedulingConfig] = useState<string | null>(null);
+  // "new" while a file is being uploaded into a new source.
+  const [uploadingConfig, setUploadingConfig] = useState<string | null>(null);
   const [editingCompany, setEditingCompany] = useState<Company | null>(null);
-  const [newCompany, setNewCompany] = useState({ name: "", description: "" });
+  const [newCompany, setNewCompany] = useState(emptyCompanyForm);
   const [editingConfig, setEditingConfig] = useState<DataSourceConfig | null>(
     null
   );
 
   const { toast } = useToast();
+  const { notify } = useNotify();
+  const { t, currencyName } = useI18n();
   const { selectedCompany, setSelectedCompany } = useCompany();
+  const { data: schedules = [] } = useSchedules(selectedCompany?.id);
 
   useEffect(() => {
     fetchCompanies();
@@ -58,23 +86,11 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       setIsLoading(true);
       setError(null);
 
-      const response = await fetch("/api/companies");
+      const data = await fetchCompaniesApi();
+      setCompanies(data);
 
-      if (!response.ok) {
-        throw new Error("Failed to fetch companies");
-      }
-
-      const data = await response.json();
-      // Convert numeric IDs to strings
-      const formattedData = data.map((company: any) => ({
-        ...company,
-        id: String(company.id),
-        configs: company.configs || [],
-      }));
-      setCompanies(formattedData);
-
-      if (formattedData.length > 0 && !selectedCompany) {
-        setSelectedCompany(formattedData[0]);
+      if (data.length > 0 && !selectedCompany) {
+        setSelectedCompany(data[0]);
       }
 
       if (onCompanyChange) {
@@ -82,7 +98,7 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       }
     } catch (error) {
       console.error("Error fetching companies:", error);
-      setError("Failed to load companies. Please try again later.");
+      setError(getErrorMessage(error, "companies.loadFailed", t));
     } finally {
       setIsLoading(false);
     }
@@ -98,41 +114,29 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
     try {
       if (!newCompany.name.trim()) {
         toast({
-          title: "Validation Error",
-          description: "Company name is required",
+          title: t("common.validationError"),
+          description: t("companies.nameRequired"),
           variant: "destructive",
         });
         return;
       }
 
-      const response = await fetch("/api/companies", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(newCompany),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to create company");
-      }
-
-      const responseData = await response.json();
-
-      const createdCompany = {
-        ...responseData,
-        id: String(responseData.id),
-        configs: responseData.configs || [],
-      };
+      const createdCompany = await createCompany(newCompany);
 
       setCompanies((prev) => [...prev, createdCompany]);
       setSelectedCompany(createdCompany);
       setIsAddingCompany(false);
-      setNewCompany({ name: "", description: "" });
-
-      toast({
-        title: "Company Created",
-        description: `${createdCompany.name} has been successfully created.`,
+      setNewCompany(emptyCompanyForm);
+
+      notify({
+        kind: "config",
+        title: { key: "companies.created" },
+        description: {
+          key: "companies.createdText",
+          params: { name: createdCompany.name },
+        },
+        companyId: createdCompany.id,
+        companyName: createdCompany.name,
       });
 
       if (onCompanyChange) {
@@ -140,9 +144,10 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       }
     } catch (error) {
       console.error("Error creating company:", error);
-      toast({
-        title: "Error",
-        description: "Failed to create company. Please try again.",
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "companies.createFailed"),
         variant: "destructive",
       });
     }
@@ -154,36 +159,19 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
     try {
       if (!editingCompany.name.trim()) {
         toast({
-          title: "Validation Error",
-          description: "Company name is required",
+          title: t("common.validationError"),
+          description: t("companies.nameRequired"),
           variant: "destructive",
         });
         return;
       }
 
-      const response = await fetch(`/api/companies/${editingCompany.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          name: editingCompany.name,
-          description: editingCompany.description,
-        }),
+      const updatedCompany = await updateCompany(editingCompany.id, {
+        name: editingCompany.name,
+        description: editingCompany.description,
+        currency: editingCompany.currency,
       });
 
-      if (!response.ok) {
-        throw new Error("Failed to update company");
-      }
-
-      const responseData = await response.json();
-
-      const updatedCompany = {
-        ...responseData,
-        id: String(responseData.id),
-        configs: responseData.configs || [],
-      };
-
       setCompanies((prev) =>
         prev.map((company) =>
           company.id === updatedCompany.id ? updatedCompany : company
@@ -193,9 +181,15 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       setSelectedCompany(updatedCompany);
       setEditingCompany(null);
 
-      toast({
-        title: "Company Updated",
-        description: `${updatedCompany.name} has been successfully updated.`,
+      notify({
+        kind: "config",
+        title: { key: "companies.updated" },
+        description: {
+          key: "companies.updatedText",
+          params: { name: updatedCompany.name },
+        },
+        companyId: updatedCompany.id,
+        companyName: updatedCompany.name,
       });
 
       // Call the onCompanyChange callback if provided
@@ -204,31 +198,24 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       }
     } catch (error) {
       console.error("Error updating company:", error);
-      toast({
-        title: "Error",
-        description: "Failed to update company. Please try again.",
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "companies.updateFailed"),
         variant: "destructive",
+        companyId: editingCompany.id,
+        companyName: editingCompany.name,
       });
     }
   };
 
   const handleDeleteCompany = async (companyId: string) => {
-    if (
-      !confirm(
-        "Are you sure you want to delete this company? This action cannot be undone."
-      )
-    ) {
+    if (!confirm(t("companies.confirmDelete"))) {
       return;
     }
 
     try {
-      const response = await fetch(`/api/companies/${companyId}`, {
-        method: "DELETE",
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to delete company");
-      }
+      await deleteCompany(companyId);
 
       setCompanies((prev) =>
         prev.filter((company) => company.id !== companyId)
@@ -238,9 +225,10 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
         setSelectedCompany(companies.length > 1 ? companies[0] : null);
       }
 
-      toast({
-        title: "Company Deleted",
-        description: "The company has been successfully deleted.",
+      notify({
+        kind: "config",
+        title: { key: "companies.deleted" },
+        description: { key: "companies.deletedText" },
       });
 
       if (onCompanyChange) {
@@ -248,10 +236,12 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       }
     } catch (error) {
       console.error("Error deleting company:", error);
-      toast({
-        title: "Error",
-        description: "Failed to delete company. Please try again.",
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "companies.deleteFailed"),
         variant: "destructive",
+        companyId,
       });
     }
   };
@@ -260,31 +250,18 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
     if (!selectedCompany) return;
 
     try {
-      if (!newConfig.name.trim()) {
+      const { input, errors } = parseConfigInput(newConfig);
+      setConfigErrors(errors);
+      if (!input) {
         toast({
-          title: "Validation Error",
-          description: "Configuration name is required",
+          title: t("common.validationError"),
+          description: t("configs.invalid"),
           variant: "destructive",
         });
         return;
       }
 
-      const response = await fetch(
-        `/api/companies/${selectedCompany.id}/config`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(newConfig),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Failed to add configuration");
-      }
-
-      const createdConfig = await response.json();
+      const createdConfig = await createConfig(selectedCompany.id, input);
 
       const updatedCompany = {
         ...selectedCompany,
@@ -299,16 +276,17 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
 
       setSelectedCompany(updatedCompany);
       setIsAddingConfig(false);
-      setNewConfig({
-        name: "",
-        sourceType: "api",
-        apiEndpoint: "",
-        fieldMappings: {},
-      });
-
-      toast({
-        title: "Configuration Added",
-        description: `${createdConfig.name} has been successfully added.`,
+      setNewConfig(emptyConfigInput());
+
+      notify({
+        kind: "config",
+        title: { key: "configs.added" },
+        description: {
+          key: "configs.addedText",
+          params: { name: createdConfig.name },
+        },
+        companyId: selectedCompany.id,
+        companyName: selectedCompany.name,
       });
 
       if (onCompanyChange) {
@@ -316,44 +294,66 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       }
     } catch (error) {
       console.error("Error adding configuration:", error);
-      toast({
-        title: "Error",
-        description: "Failed to add configuration. Please try again.",
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "configs.addFailed"),
         variant: "destructive",
+        companyId: selectedCompany.id,
+        companyName: selectedCompany.name,
       });
     }
   };
 
+  // The upload panel saves the source itself; keep the list in step.
+  const handleUploadSaved = (savedConfig: DataSourceConfig) => {
+    if (!selectedCompany) return;
+
+    const exists = selectedCompany.configs.some(
+      (config) => config.id === savedConfig.id
+    );
+    const updatedCompany = {
+      ...selectedCompany,
+      configs: exists
+        ? selectedCompany.configs.map((config) =>
+            config.id === savedConfig.id ? savedConfig : config
+          )
+        : [...selectedCompany.configs, savedConfig],
+    };
+
+    setCompanies((prev) =>
+      prev.map((company) =>
+        company.id === selectedCompany.id ? updatedCompany : company
+      )
+    );
+    setSelectedCompany(updatedCompany);
+
+    if (onCompanyChange) {
+      onCompanyChange();
+    }
+  };
+
   const handleUpdateConfig = async () => {
     if (!selectedCompany || !editingConfig) return;
 
     try {
-      if (!editingConfig.name.trim()) {
+      const { input, errors } = parseConfigInput(editingConfig);
+      setConfigErrors(errors);
+      if (!input) {
         toast({
-          title: "Validation Error",
-          description: "Configuration name is required",
+          title: t("common.validationError"),
+          description: t("configs.invalid"),
           variant: "destructive",
         });
         return;
       }
 
-      const response = await fetch(
-        `/api/companies/${selectedCompany.id}/config/${editingConfig.id}`,
-        {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(editingConfig),
-        }
+      const updatedConfig = await updateConfig(
+        selectedCompany.id,
+        editingConfig.id,
+        input
       );
 
-      if (!response.ok) {
-        throw new Error("Failed to update configuration");
-      }
-
-      const updatedConfig = await response.json();
-
       const updatedCompany = {
         ...selectedCompany,
         configs: selectedCompany.configs.map((config) =>
@@ -371,9 +371,15 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       setEditingConfig(null);
       setExpandedConfig(null);
 
-      toast({
-        title: "Configuration Updated",
-        description: `${updatedConfig.name} has been successfully updated.`,
+      notify({
+        kind: "config",
+        title: { key: "configs.updated" },
+        description: {
+          key: "configs.updatedText",
+          params: { name: updatedConfig.name },
+        },
+        companyId: selectedCompany.id,
+        companyName: selectedCompany.name,
       });
 
       if (onCompanyChange) {
@@ -381,10 +387,13 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       }
     } catch (error) {
       console.error("Error updating configuration:", error);
-      toast({
-        title: "Error",
-        description: "Failed to update configuration. Please try again.",
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "configs.updateFailed"),
         variant: "destructive",
+        companyId: selectedCompany.id,
+        companyName: selectedCompany.name,
       });
     }
   };
@@ -392,25 +401,12 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
   const handleDeleteConfig = async (configId: string) => {
     if (!selectedCompany) return;
 
-    if (
-      !confirm(
-        "Are you sure you want to delete this data source configuration? This action cannot be undone."
-      )
-    ) {
+    if (!confirm(t("configs.confirmDelete"))) {
       return;
     }
 
     try {
-      const response = await fetch(
-        `/api/companies/${selectedCompany.id}/config/${configId}`,
-        {
-          method: "DELETE",
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Failed to delete configuration");
-      }
+      await deleteConfig(selectedCompany.id, configId);
 
       const updatedCompany = {
         ...selectedCompany,
@@ -427,10 +423,12 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
 
       setSelectedCompany(updatedCompany);
 
-      toast({
-        title: "Configuration Deleted",
-        description:
-          "The data source configuration has been successfully deleted.",
+      notify({
+        kind: "config",
+        title: { key: "configs.deleted" },
+        description: { key: "configs.deletedText" },
+        companyId: selectedCompany.id,
+        companyName: selectedCompany.name,
       });
 
       if (onCompanyChange) {
@@ -438,10 +436,13 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       }
     } catch (error) {
       console.error("Error deleting configuration:", error);
-      toast({
-        title: "Error",
-        description: "Failed to delete configuration. Please try again.",
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "configs.deleteFailed"),
         variant: "destructive",
+        companyId: selectedCompany.id,
+        companyName: selectedCompany.name,
       });
     }
   };
@@ -460,7 +461,7 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
         <div className="text-center py-4">
           <p className="text-red-500 mb-2">{error}</p>
           <Button variant="outline" size="sm" onClick={fetchCompanies}>
-            Retry
+            {t("common.retry")}
           </Button>
         </div>
       );
@@ -469,7 +470,7 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
     if (companies.length === 0) {
       return (
         <div className="text-center py-4 text-muted-foreground">
-          <p>No companies found. Create a new company to get started.</p>
+          <p>{t("companies.empty")}</p>
         </div>
       );
     }
@@ -489,9 +490,11 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
             <div className="flex items-center gap-2">
               <Building className="h-4 w-4" />
               <span className="font-medium">{company.name}</span>
-              <Badge variant="outline" className="ml-2">
-                {company.configs.length}{" "}
-                {company.configs.length === 1 ? "source" : "sources"}
+              <Badge variant="secondary" className="ms-2">
+                {company.currency}
+              </Badge>
+              <Badge variant="outline">
+                {t("companies.sources", { count: company.configs.length })}
               </Badge>
             </div>
             <div className="flex items-center gap-1">
@@ -532,92 +535,217 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
     if (configs.length === 0) {
       return (
         <div className="text-center py-4 text-muted-foreground">
-          <p>
-            No data source configurations found. Add a new configuration to get
-            started.
-          </p>
+          <p>{t("configs.empty")}</p>
         </div>
       );
     }
 
     return (
       <div className="space-y-3">
-        {configs.map((config) => (
-          <div key={config.id} className="p-3 border rounded-md">
-            <div className="flex justify-between items-center">
-              <div className="flex items-center gap-2">
-                <Database className="h-4 w-4" />
-                <span className="font-medium">{config.name}</span>
-                <Badge variant="secondary" className="ml-1">
-                  {config.sourceType}
-                </Badge>
+        {configs.map((config) => {
+          const schedule = schedules.find((s) => s.sourceId === config.id);
+
+          return (
+            <div key={config.id} className="p-3 border rounded-md">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                  <Database className="h-4 w-4" />
+                  <span className="font-medium">{config.name}</span>
+                  <Badge variant="secondary" className="ms-1">
+                    {config.sourceType}
+                  </Badge>
+                  {schedule && (
+                    <Badge
+                      variant="outline"
+                      className={
+                        schedule.enabled ? "" : "text-muted-foreground"
+                      }
+                    >
+                      <CalendarClock className="h-3 w-3 me-1" />
+                      <span className="inline-block first-letter:uppercase">
+                        {schedule.enabled
+                          ? describeSchedule(schedule, t)
+                          : t("schedules.paused")}
+                      </span>
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  {config.sourceType === "file" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      title={t("upload.title")}
+                      onClick={() =>
+                        setUploadingConfig(
+                          uploadingConfig === config.id ? null : config.id
+                        )
+                      }
+                    >
+                      <Upload className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    title={t("schedules.title")}
+                    onClick={() =>
+                      setSchedulingConfig(
+                        schedulingConfig === config.id ? null : config.id
+                      )
+                    }
+                  >
+                    <CalendarClock className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => {
+                      setEditingConfig(config);
+                      setConfigErrors({});
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-red-500 hover:text-red-600"
+                    onClick={() => handleDeleteConfig(config.id)}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
-              <div className="flex items-center gap-1">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-8 w-8 p-0"
-                  onClick={() => setEditingConfig(config)}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+              {schedulingConfig === config.id && (
+                <ScheduleEditor
+                  companyId={selectedCompany.id}
+                  config={config}
+                  schedule={schedule}
+                  onClose={() => setSchedulingConfig(null)}
+                />
+              )}
+              {uploadingConfig === config.id &&
+                config.sourceType === "file" && (
+                  <FileSourceUpload
+                    companyId={selectedCompany.id}
+                    config={config}
+                    onSaved={handleUploadSaved}
+                    onClose={() => setUploadingConfig(null)}
+                  />
+                )}
+              {renderSourceSummary(config)}
+              <div className="mt-2">
                 <Button
                   variant="ghost"
                   size="sm"
-                  className="h-8 w-8 p-0 text-red-500 hover:text-red-600"
-                  onClick={() => handleDeleteConfig(config.id)}
+                  className="text-xs"
+                  onClick={() =>
+                    setExpandedConfig(
+                      expandedConfig === config.id ? null : config.id
+                    )
+                  }
                 >
-                  <Trash className="h-4 w-4" />
+                  {expandedConfig === config.id
+                    ? t("configs.hideMappings")
+                    : t("configs.showMappings")}
                 </Button>
-              </div>
-            </div>
-            {config.apiEndpoint && (
-              <div className="mt-2 text-sm text-muted-foreground">
-                API Endpoint: {config.apiEndpoint}
-              </div>
-            )}
-            <div className="mt-2">
-              <Button
-                variant="ghost"
-                size="sm"
-                className="text-xs"
-                onClick={() =>
-                  setExpandedConfig(
-                    expandedConfig === config.id ? null : config.id
-                  )
-                }
-              >
-                {expandedConfig === config.id ? "Hide" : "Show"} Field Mappings
-              </Button>
-              {expandedConfig === config.id && (
-                <div className="mt-2 border rounded p-2 bg-gray-50 dark:bg-gray-900">
-                  <div style={{ width: "100%", minHeight: "150px" }}>
-                    <JsonEditor
-                      data={config.fieldMappings}
-                      viewOnly={true}
-                      indent={2}
-                      minWidth="100%"
-                    />
+                {expandedConfig === config.id && (
+                  <div className="mt-2 border rounded p-2 bg-gray-50 dark:bg-gray-900">
+                    <div style={{ width: "100%", minHeight: "150px" }}>
+                      <JsonEditor
+                        data={config.fieldMappings}
+                        viewOnly={true}
+                        indent={2}
+                        minWidth="100%"
+                      />
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     );
   };
 
+  const renderSourceSummary = (config: DataSourceConfig) => {
+    let summary: string | undefined;
+    switch (config.sourceType) {
+      case "api":
+        summary =
+          config.apiEndpoint &&
+          t("configs.apiEndpointValue", { endpoint: config.apiEndpoint });
+        break;
+      case "database":
+        summary =
+          config.host &&
+          t("configs.databaseValue", {
+            target: `${config.driver}://${config.host}:${config.port}/${config.database}`,
+          });
+        break;
+      case "file":
+        summary = t("configs.fileValue", {
+          format: t(`sourceSettings.format.${config.format}`),
+        });
+        break;
+    }
+
+    return (
+      summary && (
+        <div className="mt-2 text-sm text-muted-foreground">{summary}</div>
+      )
+    );
+  };
+
+  const renderSourceTypeSelect = (
+    value: SourceType,
+    onChange: (sourceType: SourceType) => void
+  ) => (
+    <select
+      className="w-full px-3 py-2 border rounded-md"
+      value={value}
+      onChange={(e) => onChange(e.target.value as SourceType)}
+    >
+      {SOURCE_TYPES.map((sourceType) => (
+        <option key={sourceType} value={sourceType}>
+          {t(`configs.type.${sourceType}`)}
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderCurrencySelect = (
+    value: string,
+    onChange: (currency: string) => void
+  ) => (
+    <select
+      className="w-full px-3 py-2 border rounded-md"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {SUPPORTED_CURRENCIES.map((currency) => (
+        <option key={currency.code} value={currency.code}>
+          {currency.code} - {currencyName(currency.code)}
+        </option>
+      ))}
+    </select>
+  );
+
   const renderAddCompanyForm = () => {
     if (!isAddingCompany) return null;
 
     return (
       <div className="p-4 border rounded-md mb-4">
-        <h4 className="font-medium mb-3">Add New Company</h4>
+        <h4 className="font-medium mb-3">{t("companies.addTitle")}</h4>
         <div className="space-y-3">
           <div>
             <label className="text-sm font-medium block mb-1">
-              Company Name*
+              {t("companies.name")}
             </label>
             <input
               type="text"
@@ -626,12 +754,12 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
               onChange={(e) =>
                 setNewCompany((prev) => ({ ...prev, name: e.target.value }))
               }
-              placeholder="Enter company name"
+              placeholder={t("companies.namePlaceholder")}
             />
           </div>
           <div>
             <label className="text-sm font-medium block mb-1">
-              Description
+              {t("companies.description")}
             </label>
             <textarea
               className="w-full px-3 py-2 border rounded-md"
@@ -642,23 +770,31 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
                   description: e.target.value,
                 }))
               }
-              placeholder="Enter company description"
+              placeholder={t("companies.descriptionPlaceholder")}
               rows={3}
             />
           </div>
+          <div>
+            <label className="text-sm font-medium block mb-1">
+              {t("companies.currency")}
+            </label>
+            {renderCurrencySelect(newCompany.currency, (currency) =>
+              setNewCompany((prev) => ({ ...prev, currency }))
+            )}
+          </div>
           <div className="flex justify-end gap-2">
             <Button
               variant="outline"
               size="sm"
               onClick={() => {
                 setIsAddingCompany(false);
-                setNewCompany({ name: "", description: "" });
+                setNewCompany(emptyCompanyForm);
               }}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button size="sm" onClick={handleAddCompany}>
-              Add Company
+              {t("companies.add")}
             </Button>
           </div>
         </div>
@@ -671,11 +807,11 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
 
     return (
       <div className="p-4 border rounded-md mb-4">
-        <h4 className="font-medium mb-3">Edit Company</h4>
+        <h4 className="font-medium mb-3">{t("companies.editTitle")}</h4>
         <div className="space-y-3">
           <div>
             <label className="text-sm font-medium block mb-1">
-              Company Name*
+              {t("companies.name")}
             </label>
             <input
               type="text"
@@ -686,12 +822,12 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
                   prev ? { ...prev, name: e.target.value } : null
                 )
               }
-              placeholder="Enter company name"
+              placeholder={t("companies.namePlaceholder")}
             />
           </div>
           <div>
             <label className="text-sm font-medium block mb-1">
-              Description
+              {t("companies.description")}
             </label>
             <textarea
               className="w-full px-3 py-2 border rounded-md"
@@ -701,20 +837,28 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
                   prev ? { ...prev, description: e.target.value } : null
                 )
               }
-              placeholder="Enter company description"
+              placeholder={t("companies.descriptionPlaceholder")}
               rows={3}
             />
           </div>
+          <div>
+            <label className="text-sm font-medium block mb-1">
+              {t("companies.currency")}
+            </label>
+            {renderCurrencySelect(editingCompany.currency, (currency) =>
+              setEditingCompany((prev) => (prev ? { ...prev, currency } : null))
+            )}
+          </div>
           <div className="flex justify-end gap-2">
             <Button
               variant="outline"
               size="sm"
               onClick={() => setEditingCompany(null)}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button size="sm" onClick={handleUpdateCompany}>
-              Update Company
+              {t("companies.update")}
             </Button>
           </div>
         </div>
@@ -727,11 +871,11 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
 
     return (
       <div className="p-4 border rounded-md mb-4">
-        <h4 className="font-medium mb-3">Add Data Source Configuration</h4>
+        <h4 className="font-medium mb-3">{t("configs.addTitle")}</h4>
         <div className="space-y-3">
           <div>
             <label className="text-sm font-medium block mb-1">
-              Configuration Name*
+              {t("configs.name")}
             </label>
             <input
               type="text"
@@ -740,92 +884,54 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
               onChange={(e) =>
                 setNewConfig((prev) => ({ ...prev, name: e.target.value }))
               }
-              placeholder="Enter configuration name"
+              placeholder={t("configs.namePlaceholder")}
             />
+            {configErrors.name && (
+              <p className="text-xs text-red-500 mt-1">
+                {t(configErrors.name)}
+              </p>
+            )}
           </div>
           <div>
             <label className="text-sm font-medium block mb-1">
-              Source Type
+              {t("configs.sourceType")}
             </label>
-            <select
-              className="w-full px-3 py-2 border rounded-md"
-              value={newConfig.sourceType}
-              onChange={(e) => {
-                const newSourceType = e.target.value;
-                setNewConfig((prev) => ({
-                  ...prev,
-                  sourceType: newSourceType,
-                  apiEndpoint: newSourceType === "api" ? prev.apiEndpoint : "",
-                }));
-              }}
-            >
-              <option value="api">API</option>
-              <option value="database">Database</option>
-              <option value="file">File</option>
-            </select>
+            {renderSourceTypeSelect(newConfig.sourceType, (sourceType) =>
+              setNewConfig((prev) => withSourceType(prev, sourceType))
+            )}
           </div>
+          <SourceSettingsFields
+            value={newConfig}
+            onChange={(settings) =>
+              setNewConfig((prev) => ({ ...prev, ...settings }))
+            }
+            errors={configErrors}
+          />
           <div>
             <label className="text-sm font-medium block mb-1">
-              API Endpoint
+              {t("configs.fieldMappings")}
             </label>
-            <input
-              type="text"
-              className="w-full px-3 py-2 border rounded-md"
-              value={newConfig.apiEndpoint}
-              onChange={(e) =>
-                setNewConfig((prev) => ({
-                  ...prev,
-                  apiEndpoint: e.target.value,
-                }))
+            <FieldMappingEditor
+              companyId={selectedCompany.id}
+              fieldMappings={newConfig.fieldMappings}
+              onChange={(fieldMappings) =>
+                setNewConfig((prev) => ({ ...prev, fieldMappings }))
               }
-              placeholder="Enter API endpoint"
             />
           </div>
-          <div>
-            <label className="text-sm font-medium block mb-1">
-              Field Mappings
-            </label>
-            <div
-              className="border rounded-md p-2 bg-white dark:bg-gray-800"
-              style={{ width: "100%" }}
-            >
-              <div style={{ width: "100%", minHeight: "200px" }}>
-                <JsonEditor
-                  data={newConfig.fieldMappings}
-                  setData={(data: JsonData) =>
-                    setNewConfig((prev) => ({
-                      ...prev,
-                      fieldMappings: data,
-                    }))
-                  }
-                  viewOnly={false}
-                  indent={2}
-                  minWidth="100%"
-                />
-              </div>
-            </div>
-            <p className="text-xs text-muted-foreground mt-1">
-              Edit the JSON structure above to configure field mappings
-            </p>
-          </div>
           <div className="flex justify-end gap-2">
             <Button
               variant="outline"
               size="sm"
               onClick={() => {
                 setIsAddingConfig(false);
-                setNewConfig({
-                  name: "",
-                  sourceType: "api",
-                  apiEndpoint: "",
-                  fieldMappings: {},
-                });
+                setNewConfig(emptyConfigInput());
               }}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button size="sm" onClick={handleAddConfig}>
-              Add Configuration
+              {t("configs.submitAdd")}
             </Button>
           </div>
         </div>
@@ -838,11 +944,11 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
 
     return (
       <div className="p-4 border rounded-md mb-4">
-        <h4 className="font-medium mb-3">Edit Data Source Configuration</h4>
+        <h4 className="font-medium mb-3">{t("configs.editTitle")}</h4>
         <div className="space-y-3">
           <div>
             <label className="text-sm font-medium block mb-1">
-              Configuration Name*
+              {t("configs.name")}
             </label>
             <input
               type="text"
@@ -853,77 +959,49 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
                   prev ? { ...prev, name: e.target.value } : null
                 )
               }
-              placeholder="Enter configuration name"
+              placeholder={t("configs.namePlaceholder")}
             />
+            {configErrors.name && (
+              <p className="text-xs text-red-500 mt-1">
+                {t(configErrors.name)}
+              </p>
+            )}
           </div>
           <div>
             <label className="text-sm font-medium block mb-1">
-              Source Type
+              {t("configs.sourceType")}
             </label>
-            <select
-              className="w-full px-3 py-2 border rounded-md"
-              value={editingConfig.sourceType}
-              onChange={(e) => {
-                const newSourceType = e.target.value;
-                setEditingConfig((prev) =>
-                  prev
-                    ? {
-                        ...prev,
-                        sourceType: newSourceType,
-                        apiEndpoint:
-                          newSourceType === "api" ? prev.apiEndpoint : "",
-                      }
-                    : null
-                );
-              }}
-            >
-              <option value="api">API</option>
-              <option value="database">Database</option>
-              <option value="file">File</option>
-            </select>
+            {renderSourceTypeSelect(editingConfig.sourceType, (sourceType) =>
+              setEditingConfig((prev) =>
+                prev ? withSourceType(prev, sourceType) : null
+              )
+            )}
           </div>
+          <SourceSettingsFields
+            value={editingConfig}
+            onChange={(settings) =>
+              setEditingConfig((prev) =>
+                prev ? { ...prev, ...settings } : null
+              )
+            }
+            errors={configErrors}
+          />
           <div>
             <label className="text-sm font-medium block mb-1">
-              API Endpoint
+              {t("configs.fieldMappings")}
             </label>
-            <input
-              type="text"
-              className="w-full px-3 py-2 border rounded-md"
-              value={editingConfig.apiEndpoint}
-              onChange={(e) =>
+            <FieldMappingEditor
+              key={editingConfig.id}
+              companyId={selectedCompany.id}
+              configId={editingConfig.id}
+              fieldMappings={editingConfig.fieldMappings}
+              onChange={(fieldMappings) =>
                 setEditingConfig((prev) =>
-                  prev ? { ...prev, apiEndpoint: e.target.value } : null
+                  prev ? { ...prev, fieldMappings } : null
                 )
               }
-              placeholder="Enter API endpoint"
             />
           </div>
-          <div>
-            <label className="text-sm font-medium block mb-1">
-              Field Mappings
-            </label>
-            <div
-              className="border rounded-md p-2 bg-white dark:bg-gray-800"
-              style={{ width: "100%" }}
-            >
-              <div style={{ width: "100%", minHeight: "200px" }}>
-                <JsonEditor
-                  data={editingConfig.fieldMappings}
-                  setData={(data: JsonData) =>
-                    setEditingConfig((prev) =>
-                      prev ? { ...prev, fieldMappings: data } : null
-                    )
-                  }
-                  viewOnly={false}
-                  indent={2}
-                  minWidth="100%"
-                />
-              </div>
-            </div>
-            <p className="text-xs text-muted-foreground mt-1">
-              Edit the JSON structure above to configure field mappings
-            </p>
-          </div>
           <div className="flex justify-end gap-2">
             <Button
               variant="outline"
@@ -933,10 +1011,10 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
                 setExpandedConfig(null);
               }}
             >
-              Cancel
+              {t("common.cancel")}
             </Button>
             <Button size="sm" onClick={handleUpdateConfig}>
-              Update Configuration
+              {t("configs.update")}
             </Button>
           </div>
         </div>
@@ -949,7 +1027,7 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
       {/* Companies List */}
       <Card className="md:col-span-1">
         <CardHeader className="flex flex-row items-center justify-between">
-          <CardTitle>Companies</CardTitle>
+          <CardTitle>{t("companies.title")}</CardTitle>
           <Button
             variant="outline"
             size="sm"
@@ -960,7 +1038,7 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
             }}
           >
             <Plus className="h-4 w-4" />
-            Add Company
+            {t("companies.add")}
           </Button>
         </CardHeader>
         <CardContent>
@@ -975,34 +1053,59 @@ const CompanyManager: React.FC<CompanyManagerProps> = ({ onCompanyChange }) => {
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>
             {selectedCompany
-              ? `${selectedCompany.name} - Data Sources`
-              : "Data Sources"}
+              ? t("configs.companyTitle", { name: selectedCompany.name })
+              : t("configs.title")}
           </CardTitle>
           {selectedCompany && (
-            <Button
-              variant="outline"
-              size="sm"
-              className="flex items-center gap-1"
-              onClick={() => {
-                setIsAddingConfig(true);
-                setEditingConfig(null);
-                setExpandedConfig(null);
-              }}
-              disabled={!selectedCompany}
-            >
-              <Plus className="h-4 w-4" />
-              Add Data Source
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-1"
+                onClick={() => {
+                  setUploadingConfig("new");
+                  setIsAddingConfig(false);
+                  setEditingConfig(null);
+                }}
+              >
+                <Upload className="h-4 w-4" />
+                {t("upload.button")}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex items-center gap-1"
+                onClick={() => {
+                  setIsAddingConfig(true);
+                  setUploadingConfig(null);
+                  setEditingConfig(null);
+                  setExpandedConfig(null);
+                  setConfigErrors({});
+                }}
+                disabled={!selectedCompany}
+              >
+                <Plus className="h-4 w-4" />
+                {t("configs.add")}
+              </Button>
+            </div>
           )}
         </CardHeader>
         <CardContent>
+          {uploadingConfig === "new" && selectedCompany && (
+            <FileSourceUpload
+              key={selectedCompany.id}
+              companyId={selectedCompany.id}
+              onSaved={handleUploadSaved}
+              onClose={() => setUploadingConfig(null)}
+            />
+          )}
           {renderAddConfigForm()}
           {renderEditConfigForm()}
           {selectedCompany ? (
             renderConfigList()
           ) : (
             <div className="text-center py-8 text-muted-foreground">
-              <p>Select a company to view and manage data sources</p>
+              <p>{t("configs.selectCompany")}</p>
             </div>
           )}
         </CardContent>
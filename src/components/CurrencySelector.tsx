@@ -0,0 +1,45 @@
+import React from "react";
+import { Coins } from "lucide-react";
+
+import { useI18n } from "@/lib/i18n";
+import { useCompany } from "@/lib/company-context";
+import { SUPPORTED_CURRENCIES } from "@/lib/financial";
+
+const CurrencySelector: React.FC = () => {
+  const { selectedCompany, reportingCurrency, setReportingCurrency } =
+    useCompany();
+  const { t } = useI18n();
+
+  if (!selectedCompany) return null;
+
+  const options = SUPPORTED_CURRENCIES.some(
+    (currency) => currency.code === reportingCurrency
+  )
+    ? SUPPORTED_CURRENCIES
+    : [
+        { code: reportingCurrency, name: reportingCurrency },
+        ...SUPPORTED_CURRENCIES,
+      ];
+
+  return (
+    <div className="relative flex items-center bg-white dark:bg-gray-800 rounded-md border px-3 py-2 shadow-sm">
+      <Coins className="h-4 w-4 me-2 text-amber-500" />
+      <select
+        aria-label={t("currency.label")}
+        className="bg-transparent border-none focus:outline-none text-sm font-medium appearance-none"
+        value={reportingCurrency}
+        onChange={(e) => setReportingCurrency(e.target.value)}
+      >
+        {options.map((currency) => (
+          <option key={currency.code} value={currency.code}>
+            {currency.code === selectedCompany.currency
+              ? t("currency.company", { code: currency.code })
+              : currency.code}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default CurrencySelector;
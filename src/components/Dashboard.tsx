@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useMemo } from "react";
 import { DollarSign, TrendingUp } from "lucide-react";
 
 import {
@@ -13,383 +13,74 @@ import {
   CartesianGrid,
   ResponsiveContainer,
 } from "recharts";
+import { useI18n } from "@/lib/i18n";
 import { Badge } from "@/components/ui/badge";
+import { useFxRates } from "@/lib/fx-context";
 import { useCompany } from "@/lib/company-context";
+import { useFinancialData } from "@/hooks/use-financial-data";
+import DataIssuesBanner from "@/components/DataIssuesBanner";
+import MissingRatesNotice from "@/components/MissingRatesNotice";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-
-interface DashboardData {
-  revenueData: {
-    month: string;
-    revenue: number;
-    expenses: number;
-  }[];
-  categoryData: {
-    name: string;
-    value: number;
-    color: string;
-    dateRange?: string;
-  }[];
-  trendData: {
-    period: string;
-    profit: number;
-  }[];
-  metrics: {
-    totalRevenue: number;
-    monthlyProfit: number;
-    profitMargin: number;
-    netAssets: number;
-    revenueChange: number;
-    dateRange: string;
-    lastRunDate?: string;
-  };
-}
-
-const emptyDashboardData: DashboardData = {
-  revenueData: [],
-  categoryData: [],
-  trendData: [],
-  metrics: {
-    totalRevenue: 0,
-    monthlyProfit: 0,
-    profitMargin: 0,
-    netAssets: 0,
-    revenueChange: 0,
-    dateRange: "No data available",
-    lastRunDate: undefined,
-  },
-};
+import { getErrorMessage } from "@/lib/api";
+import {
+  toEntries,
+  isNegative,
+  formatMoney,
+  formatCurrency,
+  buildDashboardData,
+  formatCompactCurrency,
+} from "@/lib/financial";
 
 const Dashboard: React.FC = () => {
-  const [dashboardData, setDashboardData] =
-    useState<DashboardData>(emptyDashboardData);
-  const [error, setError] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-
-  const { selectedCompany } = useCompany();
-
-  useEffect(() => {
-    if (selectedCompany) {
-      fetchDashboardData();
-    } else {
-      setIsLoading(false);
-      setDashboardData(emptyDashboardData);
-    }
-  }, [selectedCompany]);
-
-  const fetchDashboardData = async () => {
-    if (!selectedCompany) return;
-
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      const response = await fetch(
-        `/api/etl/financial-data/${selectedCompany.id}`
-      );
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch dashboard data");
-      }
-
-      const data = await response.json();
-
-      const transformedData = transformApiDataForDashboard(data);
-      setDashboardData(transformedData);
-    } catch (error) {
-      console.error("Error fetching dashboard data:", error);
-      setError("Failed to load dashboard data");
-      setDashboardData(emptyDashboardData);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const transformApiDataForDashboard = (apiData: any): DashboardData => {
-    try {
-      if (!apiData || !apiData.data || apiData.data.length === 0) {
-        return emptyDashboardData;
-      }
-
-      const data = apiData.data;
-
-      let earliestDate: Date | null = null;
-      let latestDate: Date | null = null;
-
-      const monthlyData = new Map<
-        string,
-        { month: string; revenue: number; expenses: number }
-      >();
-      const categoryAmounts = new Map<string, number>();
-      const categoryDates = new Map<
-        string,
-        { earliest: Date | null; latest: Date | null }
-      >();
-      let totalRevenue = 0;
-      let totalExpenses = 0;
-      let latestMonthRevenue = 0;
-      let previousMonthRevenue = 0;
-      let latestMonth = "";
-      let previousMonth = "";
-
-      data.forEach((item: any) => {
-        const amount = parseFloat(item.amount) || 0;
-        const category = item.category || "Other";
-        const fromDate = item.fromDate ? new Date(item.fromDate) : null;
-        const toDate = item.toDate ? new Date(item.toDate) : fromDate;
-
-        if (fromDate) {
-          if (!earliestDate || fromDate < earliestDate) {
-            earliestDate = fromDate;
-          }
-        }
-
-        if (toDate) {
-          if (!latestDate || toDate > latestDate) {
-            latestDate = toDate;
-          }
-        }
-
-        if (!categoryDates.has(category)) {
-          categoryDates.set(category, { earliest: null, latest: null });
-        }
-
-        const catDates = categoryDates.get(category)!;
-        if (fromDate && (!catDates.earliest || fromDate < catDates.earliest)) {
-          catDates.earliest = fromDate;
-        }
-        if (toDate && (!catDates.latest || toDate > catDates.latest)) {
-          catDates.latest = toDate;
-        }
-
-        if (fromDate) {
-          const monthYear = fromDate.toLocaleDateString("en-US", {
-            month: "short",
-            year: "numeric",
-          });
-
-          const yearMonth = `${fromDate.getFullYear()}-${fromDate.getMonth()}`;
-          if (!latestMonth || yearMonth > latestMonth) {
-            previousMonth = latestMonth;
-            previousMonthRevenue = latestMonthRevenue;
-            latestMonth = yearMonth;
-            latestMonthRevenue = 0;
-          }
-
-          if (!monthlyData.has(monthYear)) {
-            monthlyData.set(monthYear, {
-              month: monthYear,
-              revenue: 0,
-              expenses: 0,
-            });
-          }
-
-          const monthData = monthlyData.get(monthYear)!;
-
-          if (amount >= 0) {
-            monthData.revenue += amount;
-            totalRevenue += amount;
-            if (yearMonth === latestMonth) {
-              latestMonthRevenue += amount;
-            }
-          } else {
-            monthData.expenses += Math.abs(amount);
-            totalExpenses += Math.abs(amount);
-          }
-        }
-
-        const categoryKey = amount >= 0 ? category : `${category} (Expense)`;
-        if (!categoryAmounts.has(categoryKey)) {
-          categoryAmounts.set(categoryKey, 0);
-        }
-        categoryAmounts.set(
-          categoryKey,
-          categoryAmounts.get(categoryKey)! + Math.abs(amount)
-        );
-      });
-
-      const formatDateRange = (
-        start: Date | null,
-        end: Date | null
-      ): string => {
-        if (!start || !end) return "No date range";
-
-        const startStr = start.toLocaleDateString("en-US", {
-          month: "short",
-          year: "numeric",
-        });
-        const endStr = end.toLocaleDateString("en-US", {
-          month: "short",
-          year: "numeric",
-        });
-
-        if (startStr === endStr) {
-          return startStr;
-        }
-        return `${startStr} - ${endStr}`;
-      };
-
-      const overallDateRange = formatDateRange(earliestDate, latestDate);
-
-      const revenueChange =
-        previousMonthRevenue > 0
-          ? ((latestMonthRevenue - previousMonthRevenue) /
-              previousMonthRevenue) *
-            100
-          : 0;
-
-      const revenueData = Array.from(monthlyData.values()).sort((a, b) => {
-        const [aMonth, aYear] = a.month.split(" ");
-        const [bMonth, bYear] = b.month.split(" ");
-
-        if (aYear !== bYear) {
-          return parseInt(aYear) - parseInt(bYear);
-        }
-
-        const monthOrder = [
-          "Jan",
-          "Feb",
-          "Mar",
-          "Apr",
-          "May",
-          "Jun",
-          "Jul",
-          "Aug",
-          "Sep",
-          "Oct",
-          "Nov",
-          "Dec",
-        ];
-        return monthOrder.indexOf(aMonth) - monthOrder.indexOf(bMonth);
-      });
-
-      const colors = [
-        "#3b82f6",
-        "#10b981",
-        "#f59e0b",
-        "#ef4444",
-        "#8b5cf6",
-        "#14b8a6",
-        "#f43f5e",
-        "#6366f1",
-      ];
-      const categoryData = Array.from(categoryAmounts.entries())
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 5)
-        .map(([name, value], index) => {
-          const categoryName = name.replace(" (Expense)", "");
-          const dates = categoryDates.get(categoryName);
-          const dateRange = dates
-            ? formatDateRange(dates.earliest, dates.latest)
-            : null;
-
-          return {
-            name,
-            value,
-            color: colors[index % colors.length],
-            dateRange: dateRange || undefined,
-          };
-        });
-
-      const quarterData = new Map<string, number>();
-
-      revenueData.forEach((item) => {
-        const [monthName, yearStr] = item.month.split(" ");
-        const year = parseInt(yearStr);
-
-        const monthIndex = [
-          "Jan",
-          "Feb",
-          "Mar",
-          "Apr",
-          "May",
-          "Jun",
-          "Jul",
-          "Aug",
-          "Sep",
-          "Oct",
-          "Nov",
-          "Dec",
-        ].indexOf(monthName);
-        if (monthIndex === -1) return;
-
-        const quarter = `Q${Math.floor(monthIndex / 3) + 1}-${year}`;
-
-        const profit = item.revenue - item.expenses;
-
-        if (!quarterData.has(quarter)) {
-          quarterData.set(quarter, 0);
-        }
-        quarterData.set(quarter, quarterData.get(quarter)! + profit);
-      });
-
-      const trendData = Array.from(quarterData.entries())
-        .map(([period, profit]) => ({ period, profit }))
-        .sort((a, b) => {
-          const [quarterA, yearA] = a.period.split("-");
-          const [quarterB, yearB] = b.period.split("-");
-
-          if (yearA !== yearB) {
-            return parseInt(yearA) - parseInt(yearB);
-          }
-
-          return (
-            parseInt(quarterA.substring(1)) - parseInt(quarterB.substring(1))
-          );
-        });
-
-      const monthlyProfit = totalRevenue - totalExpenses;
-      const profitMargin =
-        totalRevenue > 0 ? Math.round((monthlyProfit / totalRevenue) * 100) : 0;
-
-      let lastRunDate: string | undefined = undefined;
-      if (data.length > 0) {
-        const datesArray = data
-          .filter((item) => item.toDate || item.fromDate)
-          .map((item) => new Date(item.toDate || item.fromDate).getTime());
-
-        if (datesArray.length > 0) {
-          const mostRecentTimestamp = Math.max(...datesArray);
-          lastRunDate = new Date(mostRecentTimestamp).toISOString();
-        }
-      }
-
-      return {
-        revenueData,
-        categoryData,
-        trendData,
-        metrics: {
-          lastRunDate,
-          totalRevenue,
-          profitMargin,
-          monthlyProfit,
-          dateRange: overallDateRange,
-          netAssets: totalRevenue - totalExpenses,
-          revenueChange: Math.round(revenueChange),
-        },
-      };
-    } catch (error) {
-      console.error("Error transforming API data for dashboard:", error);
-      return emptyDashboardData;
-    }
-  };
-
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
-
-  const { metrics, revenueData, categoryData, trendData } = dashboardData;
+  const { selectedCompany, reportingCurrency } = useCompany();
+  const { convert } = useFxRates();
+  const { t, dir, locale, formatDateTime } = useI18n();
+  const isRtl = dir === "rtl";
+  const {
+    data,
+    error: queryError,
+    isLoading,
+  } = useFinancialData(selectedCompany?.id);
+
+  const error = queryError
+    ? getErrorMessage(queryError, "dashboard.loadFailed", t)
+    : null;
+
+  const { entries, unconverted } = useMemo(
+    () =>
+      toEntries(data?.data ?? [], {
+        reportingCurrency,
+        defaultCurrency: selectedCompany?.currency,
+        convert,
+      }),
+    [data, reportingCurrency, selectedCompany?.currency, convert]
+  );
+  const dashboardData = useMemo(
+    () => buildDashboardData(entries, reportingCurrency, locale),
+    [entries, reportingCurrency, locale]
+  );
+  const formatAmount = (value: number) =>
+    formatCurrency(value, reportingCurrency, locale);
+  const dataIssues = data?.issues ?? [];
+
+  const { metrics, revenueData, trendData } = dashboardData;
+  const categoryData = dashboardData.categoryData.map((category) => {
+    const name = category.name || t("common.uncategorized");
+    return {
+      ...category,
+      label:
+        category.kind === "expense"
+          ? t("dashboard.expenseCategory", { category: name })
+          : name,
+    };
+  });
 
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
-          <p>Loading dashboard data...</p>
+          <p>{t("dashboard.loading")}</p>
         </div>
       </div>
     );
@@ -399,8 +90,8 @@ const Dashboard: React.FC = () => {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center text-red-500">
-          <p>Error: {error}</p>
-          <p className="text-sm mt-2">Please try again later</p>
+          <p>{t("dashboard.error", { error })}</p>
+          <p className="text-sm mt-2">{t("dashboard.tryLater")}</p>
         </div>
       </div>
     );
@@ -410,7 +101,7 @@ const Dashboard: React.FC = () => {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center text-muted-foreground">
-          <p>Please select a company to view financial data</p>
+          <p>{t("dashboard.selectCompany")}</p>
         </div>
       </div>
     );
@@ -422,47 +113,60 @@ const Dashboard: React.FC = () => {
       <div className="flex items-center justify-between mb-4">
         <div>
           <h2 className="text-2xl font-bold">
-            {selectedCompany.name} Dashboard Visualization
+            {t("dashboard.title", { name: selectedCompany.name })}
           </h2>
-          <p className="text-muted-foreground">
-            Financial insights and visual analytics
-          </p>
+          <p className="text-muted-foreground">{t("dashboard.subtitle")}</p>
         </div>
-        <div className="text-right">
+        <div className="text-end">
           <Badge variant="outline" className="text-sm mb-2">
-            {selectedCompany.configs.length} Data{" "}
-            {selectedCompany.configs.length === 1 ? "Source" : "Sources"}
+            {t("dashboard.sources", {
+              count: selectedCompany.configs.length,
+            })}
           </Badge>
           {metrics.lastRunDate && (
             <p className="text-sm text-muted-foreground">
-              Last run: {new Date(metrics.lastRunDate).toLocaleString()}
+              {t("common.lastRun", {
+                date: formatDateTime(metrics.lastRunDate),
+              })}
             </p>
           )}
         </div>
       </div>
 
+      <DataIssuesBanner issues={dataIssues} />
+      <MissingRatesNotice
+        unconverted={unconverted}
+        reportingCurrency={reportingCurrency}
+      />
+
       {/* Key Metrics */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-2">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium">
+              {t("dashboard.totalRevenue")}
+            </CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div
               className={`text-2xl font-bold ${
-                metrics.totalRevenue >= 0 ? "text-green-600" : "text-red-600"
+                !isNegative(metrics.totalRevenue)
+                  ? "text-green-600"
+                  : "text-red-600"
               }`}
             >
-              {formatCurrency(metrics.totalRevenue)}
+              {formatMoney(metrics.totalRevenue, locale)}
             </div>
             <div className="flex flex-col">
               <p className="text-xs text-muted-foreground">
-                <TrendingUp className="inline h-3 w-3 mr-1" />
-                {metrics.revenueChange}% from last period
+                <TrendingUp className="inline h-3 w-3 me-1" />
+                {t("dashboard.revenueChange", {
+                  change: metrics.revenueChange,
+                })}
               </p>
               <p className="text-xs text-muted-foreground mt-1">
-                {metrics.dateRange}
+                {metrics.dateRange ?? t("dashboard.noDateRange")}
               </p>
             </div>
           </CardContent>
@@ -471,20 +175,22 @@ const Dashboard: React.FC = () => {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Monthly Profit
+              {t("dashboard.monthlyProfit")}
             </CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div
               className={`text-2xl font-bold ${
-                metrics.monthlyProfit >= 0 ? "text-green-600" : "text-red-600"
+                !isNegative(metrics.monthlyProfit)
+                  ? "text-green-600"
+                  : "text-red-600"
               }`}
             >
-              {formatCurrency(metrics.monthlyProfit)}
+              {formatMoney(metrics.monthlyProfit, locale)}
             </div>
             <p className="text-xs text-muted-foreground">
-              {metrics.profitMargin}% profit margin
+              {t("dashboard.profitMargin", { margin: metrics.profitMargin })}
             </p>
           </CardContent>
         </Card>
@@ -493,13 +199,15 @@ const Dashboard: React.FC = () => {
       {/* Charts */}
       <div className="space-y-6">
         <div className="flex items-center justify-between">
-          <h3 className="text-lg font-semibold">Financial Visualizations</h3>
+          <h3 className="text-lg font-semibold">
+            {t("dashboard.visualizations")}
+          </h3>
         </div>
 
         <div className="grid gap-4 grid-cols-1">
           <Card>
             <CardHeader>
-              <CardTitle>Monthly Revenue vs. Expenses (All Periods)</CardTitle>
+              <CardTitle>{t("dashboard.revenueVsExpenses")}</CardTitle>
             </CardHeader>
             <CardContent>
               {revenueData.length > 0 ? (
@@ -515,24 +223,38 @@ const Dashboard: React.FC = () => {
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis
                       dataKey="month"
-                      angle={-45}
+                      angle={isRtl ? 45 : -45}
                       textAnchor="end"
+                      reversed={isRtl}
                       height={70}
                       tick={{ fontSize: 10 }}
                       interval={0}
                       tickMargin={15}
                     />
-                    <YAxis tickFormatter={(value) => `$${value / 1000}k`} />
+                    <YAxis
+                      orientation={isRtl ? "right" : "left"}
+                      tickFormatter={(value) =>
+                        formatCompactCurrency(value, reportingCurrency, locale)
+                      }
+                    />
                     <Tooltip
-                      formatter={(value) => formatCurrency(value as number)}
+                      formatter={(value) => formatAmount(value as number)}
+                    />
+                    <Bar
+                      dataKey="revenue"
+                      fill="#10b981"
+                      name={t("dashboard.revenue")}
+                    />
+                    <Bar
+                      dataKey="expenses"
+                      fill="#ef4444"
+                      name={t("dashboard.expenses")}
                     />
-                    <Bar dataKey="revenue" fill="#10b981" name="Revenue" />
-                    <Bar dataKey="expenses" fill="#ef4444" name="Expenses" />
                   </BarChart>
                 </ResponsiveContainer>
               ) : (
                 <div className="h-[500px] flex items-center justify-center text-muted-foreground">
-                  No revenue data available
+                  {t("dashboard.noRevenue")}
                 </div>
               )}
             </CardContent>
@@ -540,7 +262,7 @@ const Dashboard: React.FC = () => {
 
           <Card>
             <CardHeader>
-              <CardTitle>Revenue by Category</CardTitle>
+              <CardTitle>{t("dashboard.byCategory")}</CardTitle>
             </CardHeader>
             <CardContent>
               {categoryData.length > 0 ? (
@@ -555,14 +277,14 @@ const Dashboard: React.FC = () => {
                         outerRadius={120}
                         fill="#8884d8"
                         dataKey="value"
-                        nameKey="name"
+                        nameKey="label"
                       >
                         {categoryData.map((entry, index) => (
                           <Cell key={`cell-${index}`} fill={entry.color} />
                         ))}
                       </Pie>
                       <Tooltip
-                        formatter={(value) => formatCurrency(value as number)}
+                        formatter={(value) => formatAmount(value as number)}
                       />
                     </PieChart>
                   </ResponsiveContainer>
@@ -574,12 +296,12 @@ const Dashboard: React.FC = () => {
                           className="flex items-center p-2 border rounded-md"
                         >
                           <div
-                            className="w-4 h-4 mr-3"
+                            className="w-4 h-4 me-3"
                             style={{ backgroundColor: category.color }}
                           />
                           <div className="flex-1 min-w-0">
                             <p className="text-sm font-medium truncate">
-                              {category.name}
+                              {category.label}
                             </p>
                             {category.dateRange && (
                               <p className="text-xs text-muted-foreground">
@@ -588,7 +310,7 @@ const Dashboard: React.FC = () => {
                             )}
                           </div>
                           <p className="text-sm font-medium">
-                            {formatCurrency(category.value)}
+                            {formatAmount(category.value)}
                           </p>
                         </div>
                       ))}
@@ -597,7 +319,7 @@ const Dashboard: React.FC = () => {
                 </div>
               ) : (
                 <div className="h-[350px] flex items-center justify-center text-muted-foreground">
-                  No category data available
+                  {t("dashboard.noCategories")}
                 </div>
               )}
             </CardContent>
@@ -606,8 +328,7 @@ const Dashboard: React.FC = () => {
       </div>
 
       <div className="text-sm text-muted-foreground text-center mt-2">
-        Interactive financial visualizations provide insights into your
-        company's performance
+        {t("dashboard.footer")}
       </div>
     </div>
   );
@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/lib/i18n";
+import type { DataIssue } from "@/lib/api";
+
+interface DataIssuesBannerProps {
+  issues: DataIssue[];
+}
+
+const MAX_VISIBLE_ISSUES = 50;
+
+const DataIssuesBanner: React.FC<DataIssuesBannerProps> = ({ issues }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const { t } = useI18n();
+
+  if (issues.length === 0) return null;
+
+  const rowCount = new Set(issues.map((issue) => issue.rowId)).size;
+
+  return (
+    <div className="mb-4 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <span className="font-medium">
+            {t("issues.summary", { count: rowCount })}
+          </span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-xs text-amber-900"
+          onClick={() => setIsExpanded((prev) => !prev)}
+        >
+          {isExpanded ? t("issues.hide") : t("issues.show")}
+        </Button>
+      </div>
+      {isExpanded && (
+        <table className="mt-2 w-full text-xs">
+          <thead>
+            <tr className="border-b border-amber-200 text-start">
+              <th className="py-1 pe-4 font-medium">{t("issues.row")}</th>
+              <th className="py-1 pe-4 font-medium">{t("issues.field")}</th>
+              <th className="py-1 font-medium">{t("issues.reason")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+              <tr
+                key={`${issue.rowId}-${issue.field}-${index}`}
+                className="border-b border-amber-100 last:border-0"
+              >
+                <td className="py-1 pe-4 font-mono">{issue.rowId}</td>
+                <td className="py-1 pe-4 font-mono">{issue.field}</td>
+                <td className="py-1">{issue.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {isExpanded && issues.length > MAX_VISIBLE_ISSUES && (
+        <p className="mt-2 text-xs">
+          {t("issues.truncated", {
+            max: MAX_VISIBLE_ISSUES,
+            total: issues.length,
+          })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DataIssuesBanner;
@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from "react";
+import { RefreshCw, CalendarClock } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { useI18n } from "@/lib/i18n";
+import { useNotify } from "@/hooks/use-notify";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { Button } from "@/components/ui/button";
+import { getNextRun } from "@/lib/schedules";
+import { queryKeys } from "@/lib/query-client";
+import { useCompany } from "@/lib/company-context";
+import {
+  markJobActive,
+  jobStatusGroup,
+  isLongRunningJob,
+  type JobStatusGroup,
+  type SourceSyncState,
+} from "@/lib/jobs";
+import {
+  type ETLJob,
+  startSync,
+  type SyncSchedule,
+  describeError,
+  isTerminalJobStatus,
+  type DataSourceConfig,
+} from "@/lib/api";
+
+const STATUS_DOT_CLASSES: Record<JobStatusGroup, string> = {
+  running: "bg-blue-500 animate-pulse",
+  completed: "bg-green-500",
+  failed: "bg-red-500",
+  cancelled: "bg-gray-400",
+};
+
+interface DataSourceSyncRowProps {
+  companyId: string;
+  config: DataSourceConfig;
+  /** Derived from the company's job history. */
+  state: SourceSyncState;
+  schedule?: SyncSchedule;
+  /** A run of this source started in another tab or before a reload. */
+  activeJobId?: string;
+  /** Set while a company-wide run, which covers this source, is active. */
+  disabled?: boolean;
+}
+
+const DataSourceSyncRow: React.FC<DataSourceSyncRowProps> = ({
+  companyId,
+  config,
+  state,
+  schedule,
+  activeJobId,
+  disabled = false,
+}) => {
+  const { t, formatDateTime } = useI18n();
+  const { notify } = useNotify();
+  const { selectedCompany } = useCompany();
+  const queryClient = useQueryClient();
+  const [trackedJobId, setTrackedJobId] = useState<string>();
+  const [liveJob, setLiveJob] = useState<ETLJob>();
+  const [isStarting, setIsStarting] = useState<boolean>(false);
+
+  useJobEvents(trackedJobId, {
+    onUpdate: (job) => handleJobUpdate(job),
+    onError: (error) => console.error("Job events channel error:", error),
+    onUnavailable: (error) => {
+      console.error("Job can no longer be followed:", error);
+      setTrackedJobId(undefined);
+      setLiveJob(undefined);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.companyJobs(companyId),
+      });
+    },
+  });
+
+  // Follow a run of this source that was started before a reload.
+  const { latest } = state;
+  const unfinishedRunId =
+    latest?.sourceId === config.id && !isTerminalJobStatus(latest.status)
+      ? latest.id
+      : undefined;
+  useEffect(() => {
+    if (unfinishedRunId) setTrackedJobId(unfinishedRunId);
+  }, [unfinishedRunId]);
+
+  useEffect(() => {
+    if (activeJobId) setTrackedJobId(activeJobId);
+  }, [activeJobId]);
+
+  // The live snapshot is fresher than the cached history until a newer
+  // run (for example a company-wide sync) shows up there.
+  const job =
+    liveJob && (!state.latest || liveJob.createdAt >= state.latest.createdAt)
+      ? liveJob
+      : state.latest;
+  const group = job ? jobStatusGroup(job.status) : undefined;
+  const isRunning = group === "running";
+  const lastSuccess = group === "completed" ? job : state.lastSuccess;
+  const nextRun = schedule ? getNextRun(schedule) : null;
+
+  const handleJobUpdate = (update: ETLJob) => {
+    setLiveJob(update);
+    if (!isTerminalJobStatus(update.status)) return;
+
+    setTrackedJobId(undefined);
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.companyJobs(companyId),
+    });
+
+    const outcome = jobStatusGroup(update.status);
+    notify({
+      id: `job-${update.id}-${update.status}`,
+      kind: "job",
+      title:
+        outcome === "completed"
+          ? { key: "etl.sourceSynced", params: { name: config.name } }
+          : outcome === "cancelled"
+            ? { key: "etl.sourceCancelled", params: { name: config.name } }
+            : { key: "etl.sourceFailed", params: { name: config.name } },
+      description: update.message,
+      variant: outcome === "failed" ? "destructive" : "default",
+      level: outcome === "cancelled" ? "info" : undefined,
+      companyId,
+      companyName: selectedCompany?.name,
+      browser: isLongRunningJob(update),
+    });
+
+    if (outcome === "completed") {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.financialData(companyId),
+      });
+    }
+  };
+
+  const startSourceSync = async () => {
+    try {
+      setIsStarting(true);
+      const { jobId } = await startSync(companyId, config.id);
+
+      setTrackedJobId(jobId);
+      markJobActive({ jobId, companyId, sourceId: config.id });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.companyJobs(companyId),
+      });
+    } catch (error) {
+      console.error("Error starting data source sync:", error);
+      notify({
+        kind: "error",
+        title: { key: "etl.failedTitle" },
+        description: describeError(error, "etl.startFailed"),
+        variant: "destructive",
+        companyId,
+        companyName: selectedCompany?.name,
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <div className="flex items-center gap-2 min-w-0">
+        <div
+          className={`h-2 w-2 shrink-0 rounded-full ${
+            group ? STATUS_DOT_CLASSES[group] : "bg-gray-300"
+          }`}
+          title={group ? t(`history.status.${group}`) : t("etl.neverSynced")}
+        ></div>
+        <div className="min-w-0">
+          <div className="truncate">
+            {config.name} ({config.sourceType})
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {lastSuccess
+              ? t("etl.lastSynced", {
+                  date: formatDateTime(lastSuccess.updatedAt),
+                })
+              : t("etl.neverSynced")}
+            {isRunning && ` · ${t("etl.progress", { progress: job.progress })}`}
+          </div>
+          {schedule && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <CalendarClock className="h-3 w-3" />
+              {nextRun
+                ? t("etl.nextRun", { date: formatDateTime(nextRun) })
+                : t("etl.schedulePaused")}
+            </div>
+          )}
+          {group === "failed" && (
+            <div className="text-xs text-red-600 truncate" title={job.message}>
+              {job.message}
+            </div>
+          )}
+        </div>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 shrink-0"
+        onClick={startSourceSync}
+        disabled={disabled || isStarting || isRunning}
+        title={t("etl.syncSource", { name: config.name })}
+      >
+        <RefreshCw
+          className={`h-3 w-3 me-1 ${
+            isStarting || isRunning ? "animate-spin" : ""
+          }`}
+        />
+        {t("etl.sync")}
+      </Button>
+    </div>
+  );
+};
+
+export default DataSourceSyncRow;
@@ -1,116 +1,211 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
+  Ban,
+  XCircle,
   Loader2,
+  FileText,
   Database,
+  GitCompare,
+  RotateCcw,
   RefreshCw,
   CheckCircle,
   AlertCircle,
 } from "lucide-react";
 
+import { useI18n, translateMessage, type MessageDescriptor } from "@/lib/i18n";
 import { useToast } from "@/hooks/use-toast";
+import { useNotify } from "@/hooks/use-notify";
+import {
+  stageLabel,
+  markJobActive,
+  markJobFinished,
+  isLongRunningJob,
+  getSourceSyncState,
+} from "@/lib/jobs";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { useSchedules } from "@/hooks/use-schedules";
+import { useActiveJobs } from "@/hooks/use-active-jobs";
+import { useCompanyJobs } from "@/hooks/use-company-jobs";
+import JobDataDiff from "@/components/JobDataDiff";
+import JobLogViewer from "@/components/JobLogViewer";
+import PipelineSteps from "@/components/PipelineSteps";
+import DataSourceSyncRow from "@/components/DataSourceSyncRow";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { queryKeys } from "@/lib/query-client";
 import { useCompany } from "@/lib/company-context";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Sheet,
+  SheetTitle,
+  SheetHeader,
+  SheetContent,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import {
+  type ETLJob,
+  retryJob,
+  type PipelineStage,
+  cancelJob,
+  startSync,
+  fetchCompanies,
+  describeError,
+  fetchCompanyJobs,
+  isTerminalJobStatus,
+} from "@/lib/api";
+
+type ETLRunStatus =
+  "idle" | "running" | "cancelling" | "success" | "error" | "cancelled";
 
 interface ETLStatus {
   lastRun?: Date;
   jobId?: string;
-  message: string;
+  stage?: string;
+  stages?: PipelineStage[];
+  /** A catalog message, or the job's own text from the server. */
+  message: MessageDescriptor | string;
   progress: number;
-  status: "idle" | "running" | "success" | "error";
+  status: ETLRunStatus;
 }
 
-interface ETLJob {
-  id: string;
-  status: string;
-  message: string;
-  progress: number;
-  companyId: string;
-  sourceId?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+const mapJobStatus = (apiStatus: string): ETLRunStatus => {
+  switch (apiStatus.toLowerCase()) {
+    case "completed":
+      return "success";
+    case "failed":
+      return "error";
+    case "cancelling":
+      return "cancelling";
+    case "cancelled":
+      return "cancelled";
+    case "pending":
+    case "processing":
+    case "running":
+      return "running";
+    default:
+      return "idle";
+  }
+};
+
+const toETLStatus = (job: ETLJob): ETLStatus => ({
+  status: mapJobStatus(job.status),
+  jobId: job.id,
+  stage: job.stage,
+  stages: job.stages,
+  message: job.message,
+  progress: job.progress,
+  lastRun: new Date(job.createdAt),
+});
 
 const ETLControls: React.FC = () => {
+  const { t, dir, formatDateTime } = useI18n();
   const [etlStatus, setETLStatus] = useState<ETLStatus>({
     progress: 0,
     status: "idle",
     lastRun: undefined,
-    message: "Ready to integrate data sources",
+    message: { key: "etl.ready" },
   });
 
   const { toast } = useToast();
+  const { notify } = useNotify();
+  const queryClient = useQueryClient();
   const { selectedCompany, setSelectedCompany } = useCompany();
-
-  useEffect(() => {
-    if (selectedCompany) {
-      fetchLatestJobStatus();
-    }
-  }, [selectedCompany]);
-
-  const fetchLatestJobStatus = async () => {
-    if (!selectedCompany) return;
-
-    try {
-      const response = await fetch(
-        `/api/etl/jobs/company/${selectedCompany.id}`
-      );
-      if (!response.ok) {
-        throw new Error("Failed to fetch job status");
+  const [trackedJobId, setTrackedJobId] = useState<string>();
+  const [isLogOpen, setIsLogOpen] = useState<boolean>(false);
+  const [isDiffOpen, setIsDiffOpen] = useState<boolean>(false);
+  const selectedCompanyId = selectedCompany?.id;
+  const { data: jobs = [] } = useCompanyJobs(selectedCompanyId);
+  const { data: schedules = [] } = useSchedules(selectedCompanyId);
+  const activeJobs = useActiveJobs(selectedCompanyId);
+  // A company-wide run started in another tab or before a reload.
+  const sharedRunId = activeJobs.find((job) => !job.sourceId)?.jobId;
+
+  const { transport, isReconnecting } = useJobEvents(trackedJobId, {
+    onUpdate: (job) => handleJobUpdate(job),
+    onError: (error) => console.error("Job events channel error:", error),
+    onUnavailable: (error) => {
+      console.error("Job can no longer be followed:", error);
+      setTrackedJobId(undefined);
+      setETLStatus((prev) => ({
+        ...prev,
+        status: "idle",
+        progress: 0,
+        message: { key: "etl.jobUnavailable" },
+      }));
+      if (selectedCompanyId) {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.companyJobs(selectedCompanyId),
+        });
       }
+    },
+  });
 
-      const jobs: ETLJob[] = await response.json();
-
-      if (jobs.length > 0) {
-        const latestJob = jobs.sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        )[0];
+  const fetchLatestJobStatus = useCallback(
+    async (companyId: string, isCurrent: () => boolean) => {
+      try {
+        // Shares the cache with the job history panel.
+        const companyJobs = await queryClient.fetchQuery({
+          queryKey: queryKeys.companyJobs(companyId),
+          queryFn: () => fetchCompanyJobs(companyId),
+        });
 
-        const status = mapJobStatus(latestJob.status);
+        // Single-source runs are shown next to their data source instead.
+        const latestJob = companyJobs.find((job) => !job.sourceId);
 
-        setETLStatus({
-          status,
-          jobId: latestJob.id,
-          message: latestJob.message,
-          progress: latestJob.progress,
-          lastRun: new Date(latestJob.createdAt),
-        });
+        if (latestJob && isCurrent()) {
+          setETLStatus(toETLStatus(latestJob));
+          if (!isTerminalJobStatus(latestJob.status)) {
+            setTrackedJobId(latestJob.id);
+          }
+        }
+      } catch (error) {
+        console.error("Error fetching ETL job status:", error);
       }
-    } catch (error) {
-      console.error("Error fetching ETL job status:", error);
-    }
-  };
+    },
+    [queryClient]
+  );
 
-  const mapJobStatus = (
-    apiStatus: string
-  ): "idle" | "running" | "success" | "error" => {
-    switch (apiStatus.toLowerCase()) {
-      case "completed":
-        return "success";
-      case "failed":
-        return "error";
-      case "processing":
-      case "running":
-        return "running";
-      default:
-        return "idle";
-    }
-  };
+  useEffect(() => {
+    // Switching company drops the job being followed; the events channel
+    // closes as soon as trackedJobId changes.
+    setTrackedJobId(undefined);
+    setETLStatus({
+      progress: 0,
+      status: "idle",
+      message: { key: "etl.ready" },
+    });
+
+    if (!selectedCompanyId) return;
+
+    let isCurrent = true;
+    fetchLatestJobStatus(selectedCompanyId, () => isCurrent);
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedCompanyId, fetchLatestJobStatus]);
+
+  useEffect(() => {
+    if (!sharedRunId || sharedRunId === trackedJobId) return;
+
+    setTrackedJobId(sharedRunId);
+    setETLStatus((prev) => ({
+      ...prev,
+      jobId: sharedRunId,
+      progress: 0,
+      stage: undefined,
+      stages: undefined,
+      status: "running",
+      message: { key: "etl.resuming" },
+    }));
+  }, [sharedRunId, trackedJobId]);
 
   const fetchCompanyData = async () => {
     if (!selectedCompany) return;
 
     try {
-      const response = await fetch("/api/companies");
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch companies");
-      }
-
-      const companies = await response.json();
+      const companies = await fetchCompanies();
       const updatedCompany = companies.find(
         (company) => company.id === selectedCompany.id
       );
@@ -126,8 +221,8 @@ const ETLControls: React.FC = () => {
   const startETLProcess = async () => {
     if (!selectedCompany) {
       toast({
-        title: "No Company Selected",
-        description: "Please select a company before starting the ETL process.",
+        title: t("etl.noCompanyTitle"),
+        description: t("etl.noCompanyText"),
         variant: "destructive",
       });
       return;
@@ -138,101 +233,167 @@ const ETLControls: React.FC = () => {
         progress: 0,
         jobId: undefined,
         status: "running",
-        message: "Starting ETL process...",
+        message: { key: "etl.starting" },
       });
 
-      const response = await fetch(`/api/etl/sync/${selectedCompany.id}`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to start ETL process");
-      }
-
-      const result = await response.json();
+      const { jobId } = await startSync(selectedCompany.id);
+      setTrackedJobId(jobId);
+      markJobActive({ jobId, companyId: selectedCompany.id });
 
       setETLStatus((prev) => ({
         ...prev,
-        message: "ETL process started",
-        jobId: result.jobId || result.id,
+        jobId,
+        message: { key: "etl.started" },
       }));
 
-      pollJobStatus(result.jobId || result.id);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.companyJobs(selectedCompany.id),
+      });
     } catch (error) {
       console.error("Error starting ETL process:", error);
       setETLStatus({
         progress: 0,
         status: "error",
         lastRun: new Date(),
-        message: "Failed to start ETL process",
+        message: { key: "etl.startFailed" },
       });
 
-      toast({
-        title: "ETL Process Failed",
-        description: "Could not start the data integration process.",
+      notify({
+        kind: "error",
+        title: { key: "etl.failedTitle" },
+        description: describeError(error, "etl.failedText"),
         variant: "destructive",
+        companyId: selectedCompany.id,
+        companyName: selectedCompany.name,
       });
     }
   };
 
-  const pollJobStatus = async (jobId: string) => {
-    const interval = setInterval(async () => {
-      try {
-        const response = await fetch(`/api/etl/job/${jobId}`);
+  const cancelETLProcess = async () => {
+    const { jobId } = etlStatus;
+    if (!jobId) return;
 
-        if (!response.ok) {
-          throw new Error("Failed to fetch job status");
-        }
+    setETLStatus((prev) => ({
+      ...prev,
+      status: "cancelling",
+      message: { key: "etl.cancelling" },
+    }));
 
-        const job: ETLJob = await response.json();
-        const status = mapJobStatus(job.status);
+    try {
+      handleJobUpdate(await cancelJob(jobId));
+    } catch (error) {
+      console.error("Error cancelling ETL job:", error);
+      // The events channel reports the real state if the job moved on.
+      setETLStatus((prev) =>
+        prev.status === "cancelling" ? { ...prev, status: "running" } : prev
+      );
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "etl.cancelFailed"),
+        variant: "destructive",
+        companyId: selectedCompany?.id,
+        companyName: selectedCompany?.name,
+      });
+    }
+  };
 
-        setETLStatus({
-          status,
-          progress: job.progress,
-          message: job.message,
-          lastRun: new Date(job.createdAt),
-          jobId: job.id,
-        });
+  const retryETLProcess = async () => {
+    const { jobId } = etlStatus;
+    if (!jobId) return;
 
-        if (status === "success" || status === "error") {
-          clearInterval(interval);
+    try {
+      setETLStatus((prev) => ({
+        ...prev,
+        progress: 0,
+        stage: undefined,
+        stages: undefined,
+        status: "running",
+        message: { key: "etl.retrying" },
+      }));
 
-          toast({
-            title:
-              status === "success"
-                ? "Integration Complete"
-                : "Integration Failed",
-            description: job.message,
-            variant: status === "success" ? "default" : "destructive",
-          });
+      const { jobId: retryId } = await retryJob(jobId);
 
-          if (status === "success") {
-            fetchCompanyData();
-          }
-        }
-      } catch (error) {
-        console.error("Error polling job status:", error);
-        clearInterval(interval);
-
-        setETLStatus((prev) => ({
-          ...prev,
-          status: "error",
-          message: "Failed to get ETL status updates",
-        }));
+      setETLStatus((prev) => ({ ...prev, jobId: retryId }));
+      setTrackedJobId(retryId);
+      if (selectedCompany) {
+        markJobActive({ jobId: retryId, companyId: selectedCompany.id });
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.companyJobs(selectedCompany.id),
+        });
       }
-    }, 2000);
+    } catch (error) {
+      console.error("Error retrying ETL job:", error);
+      setETLStatus((prev) => ({
+        ...prev,
+        status: "error",
+        message: { key: "etl.retryFailed" },
+      }));
+      notify({
+        kind: "error",
+        title: { key: "etl.failedTitle" },
+        description: describeError(error, "etl.retryFailed"),
+        variant: "destructive",
+        companyId: selectedCompany?.id,
+        companyName: selectedCompany?.name,
+      });
+    }
+  };
 
-    return () => clearInterval(interval);
+  const handleJobUpdate = (job: ETLJob) => {
+    const next = toETLStatus(job);
+    setETLStatus(next);
+
+    if (!isTerminalJobStatus(job.status)) return;
+
+    // A cancel answered directly must not leave the run listed as active.
+    markJobFinished(job.id);
+    setTrackedJobId(undefined);
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.companyJobs(job.companyId),
+    });
+    notify({
+      id: `job-${job.id}-${job.status}`,
+      kind: "job",
+      title:
+        next.status === "success"
+          ? { key: "etl.completeTitle" }
+          : next.status === "cancelled"
+            ? { key: "etl.cancelledTitle" }
+            : { key: "etl.integrationFailedTitle" },
+      description: job.message,
+      variant: next.status === "error" ? "destructive" : "default",
+      level: next.status === "cancelled" ? "info" : undefined,
+      companyId: job.companyId,
+      companyName: selectedCompany?.name,
+      browser: isLongRunningJob(job),
+    });
+
+    if (next.status === "success") {
+      fetchCompanyData();
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.financialData(job.companyId),
+      });
+    }
   };
 
+  const isTracking =
+    etlStatus.status === "running" || etlStatus.status === "cancelling";
+  // Any run of the company, including a single source or one started in
+  // another tab, blocks starting another.
+  const isActive = isTracking || activeJobs.length > 0;
+  const canRetry =
+    Boolean(etlStatus.jobId) &&
+    (etlStatus.status === "error" || etlStatus.status === "cancelled");
+
   const getStatusIcon = () => {
     switch (etlStatus.status) {
       case "running":
         return <Loader2 className="h-4 w-4 animate-spin" />;
+      case "cancelling":
+        return <Loader2 className="h-4 w-4 animate-spin text-amber-500" />;
+      case "cancelled":
+        return <Ban className="h-4 w-4 text-gray-500" />;
       case "success":
         return <CheckCircle className="h-4 w-4 text-green-500" />;
       case "error":
@@ -247,23 +408,35 @@ const ETLControls: React.FC = () => {
       case "running":
         return (
           <Badge variant="secondary" className="bg-blue-100 text-blue-800">
-            Running
+            {t("etl.status.running")}
+          </Badge>
+        );
+      case "cancelling":
+        return (
+          <Badge variant="secondary" className="bg-amber-100 text-amber-800">
+            {t("etl.status.cancelling")}
+          </Badge>
+        );
+      case "cancelled":
+        return (
+          <Badge variant="secondary" className="bg-gray-100 text-gray-800">
+            {t("etl.status.cancelled")}
           </Badge>
         );
       case "success":
         return (
           <Badge variant="secondary" className="bg-green-100 text-green-800">
-            Success
+            {t("etl.status.success")}
           </Badge>
         );
       case "error":
         return (
           <Badge variant="secondary" className="bg-red-100 text-red-800">
-            Error
+            {t("etl.status.error")}
           </Badge>
         );
       default:
-        return <Badge variant="secondary">Idle</Badge>;
+        return <Badge variant="secondary">{t("etl.status.idle")}</Badge>;
     }
   };
 
@@ -272,10 +445,10 @@ const ETLControls: React.FC = () => {
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Database className="h-5 w-5" />
-          ETL Integration Controls
+          {t("etl.title")}
           {selectedCompany && (
-            <Badge variant="outline" className="ml-2">
-              Company: {selectedCompany.name}
+            <Badge variant="outline" className="ms-2">
+              {t("etl.company", { name: selectedCompany.name })}
             </Badge>
           )}
         </CardTitle>
@@ -285,78 +458,186 @@ const ETLControls: React.FC = () => {
           <div className="space-y-1">
             <div className="flex items-center gap-2">
               {getStatusIcon()}
-              <span className="font-medium">{etlStatus.message}</span>
+              <span className="font-medium">
+                {translateMessage(t, etlStatus.message)}
+              </span>
               {getStatusBadge()}
             </div>
             {etlStatus.lastRun && (
               <p className="text-sm text-muted-foreground">
-                Last run: {etlStatus.lastRun.toLocaleString()}
+                {t("common.lastRun", {
+                  date: formatDateTime(etlStatus.lastRun),
+                })}
               </p>
             )}
           </div>
-          <Button
-            onClick={startETLProcess}
-            disabled={etlStatus.status === "running" || !selectedCompany}
-            className="flex items-center gap-2"
-          >
-            <RefreshCw
-              className={`h-4 w-4 ${
-                etlStatus.status === "running" ? "animate-spin" : ""
-              }`}
-            />
-            {etlStatus.status === "running"
-              ? "Integrating..."
-              : "Integrate Data"}
-          </Button>
+          <div className="flex items-center gap-2">
+            {isTracking && (
+              <Button
+                variant="outline"
+                onClick={cancelETLProcess}
+                disabled={etlStatus.status === "cancelling" || !etlStatus.jobId}
+                className="flex items-center gap-2"
+              >
+                <XCircle className="h-4 w-4" />
+                {etlStatus.status === "cancelling"
+                  ? t("etl.cancelling")
+                  : t("common.cancel")}
+              </Button>
+            )}
+            {etlStatus.jobId && (
+              <Button
+                variant="outline"
+                onClick={() => setIsLogOpen(true)}
+                className="flex items-center gap-2"
+              >
+                <FileText className="h-4 w-4" />
+                {t("logs.view")}
+              </Button>
+            )}
+            {etlStatus.status === "success" && etlStatus.jobId && (
+              <Button
+                variant="outline"
+                onClick={() => setIsDiffOpen(true)}
+                className="flex items-center gap-2"
+              >
+                <GitCompare className="h-4 w-4" />
+                {t("diff.view")}
+              </Button>
+            )}
+            {canRetry && (
+              <Button
+                variant="outline"
+                onClick={retryETLProcess}
+                className="flex items-center gap-2"
+              >
+                <RotateCcw className="h-4 w-4" />
+                {t("common.retry")}
+              </Button>
+            )}
+            <Button
+              onClick={startETLProcess}
+              disabled={isActive || !selectedCompany}
+              className="flex items-center gap-2"
+            >
+              <RefreshCw
+                className={`h-4 w-4 ${isActive ? "animate-spin" : ""}`}
+              />
+              {isActive ? t("etl.integrating") : t("etl.integrate")}
+            </Button>
+          </div>
         </div>
 
-        {etlStatus.status === "running" && (
+        {isTracking && (
           <div className="space-y-2">
             <Progress value={etlStatus.progress} className="w-full" />
-            <p className="text-sm text-muted-foreground">
-              Progress: {etlStatus.progress}%
-            </p>
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {t("etl.progress", { progress: etlStatus.progress })}
+                {etlStatus.stage &&
+                  ` · ${t("etl.stage", { stage: stageLabel(etlStatus.stage, t) })}`}
+              </span>
+              {isReconnecting ? (
+                <span className="text-amber-600">{t("etl.reconnecting")}</span>
+              ) : (
+                transport && (
+                  <span>
+                    {transport === "sse"
+                      ? t("etl.liveUpdates")
+                      : transport === "other-tab"
+                        ? t("etl.otherTabUpdates")
+                        : t("etl.pollingUpdates")}
+                  </span>
+                )
+              )}
+            </div>
           </div>
         )}
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t">
           <div className="space-y-2">
-            <h4 className="font-medium text-sm">Data Sources</h4>
+            <h4 className="font-medium text-sm">{t("etl.dataSources")}</h4>
             {selectedCompany && (selectedCompany.configs || []).length > 0 ? (
-              <div className="space-y-1">
+              <div className="space-y-2">
                 {(selectedCompany.configs || []).map((config) => (
-                  <div
+                  <DataSourceSyncRow
                     key={config.id}
-                    className="flex items-center gap-2 text-sm"
-                  >
-                    <div className="h-2 w-2 rounded-full bg-green-500"></div>
-                    {config.name} ({config.type})
-                  </div>
+                    companyId={selectedCompany.id}
+                    config={config}
+                    state={getSourceSyncState(jobs, config.id)}
+                    activeJobId={
+                      activeJobs.find((job) => job.sourceId === config.id)
+                        ?.jobId
+                    }
+                    schedule={schedules.find((s) => s.sourceId === config.id)}
+                    disabled={isTracking || Boolean(sharedRunId)}
+                  />
                 ))}
               </div>
             ) : (
               <div className="text-sm text-muted-foreground">
-                {selectedCompany
-                  ? "No data sources configured. Add data sources in the Companies tab."
-                  : "Select a company to view data sources."}
+                {selectedCompany ? t("etl.noSources") : t("etl.selectCompany")}
               </div>
             )}
           </div>
           <div className="space-y-2">
-            <h4 className="font-medium text-sm">Integration Status</h4>
-            <div className="space-y-1">
-              <div className="flex items-center gap-2 text-sm">
-                <CheckCircle className="h-3 w-3 text-green-500" />
-                Schema validation
-              </div>
-              <div className="flex items-center gap-2 text-sm">
-                <CheckCircle className="h-3 w-3 text-green-500" />
-                Data transformation
+            <h4 className="font-medium text-sm">
+              {t("etl.integrationStatus")}
+            </h4>
+            {etlStatus.stages?.length ? (
+              <PipelineSteps stages={etlStatus.stages} />
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                {t("etl.noPipelineRun")}
               </div>
-            </div>
+            )}
           </div>
         </div>
       </CardContent>
+
+      <Sheet open={isLogOpen} onOpenChange={setIsLogOpen}>
+        <SheetContent
+          side={dir === "rtl" ? "left" : "right"}
+          className="overflow-y-auto sm:max-w-2xl"
+          dir={dir}
+        >
+          <SheetHeader className="text-start sm:text-start">
+            <SheetTitle>{t("logs.title")}</SheetTitle>
+            {etlStatus.jobId && (
+              <SheetDescription>
+                {t("logs.description", { id: etlStatus.jobId })}
+              </SheetDescription>
+            )}
+          </SheetHeader>
+          {etlStatus.jobId && (
+            <div className="mt-6">
+              <JobLogViewer jobId={etlStatus.jobId} live={isTracking} />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <Sheet open={isDiffOpen} onOpenChange={setIsDiffOpen}>
+        <SheetContent
+          side={dir === "rtl" ? "left" : "right"}
+          className="overflow-y-auto sm:max-w-2xl"
+          dir={dir}
+        >
+          <SheetHeader className="text-start sm:text-start">
+            <SheetTitle>{t("diff.title")}</SheetTitle>
+            {etlStatus.jobId && (
+              <SheetDescription>
+                {t("diff.description", { id: etlStatus.jobId })}
+              </SheetDescription>
+            )}
+          </SheetHeader>
+          {etlStatus.status === "success" && etlStatus.jobId && (
+            <div className="mt-6">
+              <JobDataDiff jobId={etlStatus.jobId} />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
     </Card>
   );
 };
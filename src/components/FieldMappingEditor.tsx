@@ -0,0 +1,104 @@
+import React, { useState } from "react";
+import { JsonEditor, JsonData } from "json-edit-react";
+
+import { useI18n } from "@/lib/i18n";
+import { Button } from "@/components/ui/button";
+import MappingBuilder from "@/components/MappingBuilder";
+import MappingPreview from "@/components/MappingPreview";
+import { useSourceSample } from "@/hooks/use-source-sample";
+import SourceSampleInput from "@/components/SourceSampleInput";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+interface FieldMappingEditorProps {
+  companyId: string;
+  /** Saved config to fetch a sample from; unsaved configs can only paste. */
+  configId?: string;
+  fieldMappings: Record<string, unknown>;
+  onChange: (fieldMappings: Record<string, unknown>) => void;
+}
+
+/**
+ * Edits a config's field mappings in the visual builder or as JSON. Both
+ * views edit the same object, so a change in one shows in the other.
+ */
+const FieldMappingEditor: React.FC<FieldMappingEditorProps> = ({
+  companyId,
+  configId,
+  fieldMappings,
+  onChange,
+}) => {
+  const { t, dir } = useI18n();
+  const sample = useSourceSample(companyId, configId);
+  const [isPreviewing, setIsPreviewing] = useState<boolean>(false);
+
+  return (
+    <div className="space-y-2">
+      <Tabs defaultValue="builder" dir={dir}>
+        <TabsList>
+          <TabsTrigger value="builder">
+            {t("mappingBuilder.builder")}
+          </TabsTrigger>
+          <TabsTrigger value="advanced">
+            {t("mappingBuilder.advanced")}
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="builder">
+          <MappingBuilder
+            fieldMappings={fieldMappings}
+            onChange={onChange}
+            payload={sample.payload}
+          />
+        </TabsContent>
+        <TabsContent value="advanced">
+          <div
+            className="border rounded-md p-2 bg-white dark:bg-gray-800"
+            style={{ width: "100%" }}
+          >
+            <div style={{ width: "100%", minHeight: "200px" }}>
+              <JsonEditor
+                data={fieldMappings}
+                setData={(data: JsonData) =>
+                  onChange(data as Record<string, unknown>)
+                }
+                viewOnly={false}
+                indent={2}
+                minWidth="100%"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {t("configs.fieldMappingsHint")}
+          </p>
+        </TabsContent>
+      </Tabs>
+
+      <div className="p-3 border rounded-md bg-muted/30 space-y-2">
+        <div className="text-sm font-medium">{t("mappingBuilder.sample")}</div>
+        <SourceSampleInput sample={sample} />
+        {sample.parseError && (
+          <p className="text-sm text-red-500">
+            {t("mappingPreview.invalidJson", { reason: sample.parseError })}
+          </p>
+        )}
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-xs"
+        onClick={() => setIsPreviewing((prev) => !prev)}
+      >
+        {isPreviewing ? t("configs.hidePreview") : t("configs.previewMapping")}
+      </Button>
+      {isPreviewing && (
+        <MappingPreview
+          fieldMappings={fieldMappings}
+          payload={sample.payload}
+          parseError={sample.parseError}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FieldMappingEditor;
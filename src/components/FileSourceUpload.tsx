@@ -0,0 +1,500 @@
+import React, { useMemo, useRef, useState } from "react";
+import { FileUp, Upload } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { cn } from "@/lib/utils";
+import { useI18n, type MessageKey } from "@/lib/i18n";
+import { markJobActive } from "@/lib/jobs";
+import { useToast } from "@/hooks/use-toast";
+import { useNotify } from "@/hooks/use-notify";
+import { dryRunMapping } from "@/lib/mapping";
+import { Button } from "@/components/ui/button";
+import { queryKeys } from "@/lib/query-client";
+import { useCompany } from "@/lib/company-context";
+import MappingBuilder from "@/components/MappingBuilder";
+import MappingPreview from "@/components/MappingPreview";
+import {
+  createConfig,
+  updateConfig,
+  describeError,
+  parseConfigInput,
+  configFieldLabel,
+  uploadSourceRows,
+  type DataSourceConfig,
+} from "@/lib/api";
+import {
+  parseCsv,
+  FileReadError,
+  CSV_DELIMITERS,
+  tableToRecords,
+  detectHeaderRow,
+  UPLOAD_FILE_ACCEPT,
+  suggestFieldMappings,
+  parseSpreadsheetFile,
+  type ParsedSpreadsheet,
+} from "@/lib/files";
+import {
+  detectImporter,
+  type ImportSource,
+  importerFieldMappings,
+  IMPORTED_RECORD_FIELDS,
+} from "@/lib/importers";
+
+const PREVIEW_ROWS = 10;
+
+const DELIMITER_LABELS: Record<string, MessageKey> = {
+  ",": "upload.delimiter.comma",
+  ";": "upload.delimiter.semicolon",
+  "\t": "upload.delimiter.tab",
+  "|": "upload.delimiter.pipe",
+};
+
+const formatCell = (value: unknown) =>
+  value !== null && typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value ?? "");
+
+const importSourceOf = (
+  spreadsheet: ParsedSpreadsheet,
+  rows: string[][] = []
+): ImportSource =>
+  spreadsheet.format === "json"
+    ? { kind: "json", payload: spreadsheet.payload }
+    : { kind: "table", rows };
+
+type FileSourceConfig = Extract<DataSourceConfig, { sourceType: "file" }>;
+
+interface FileSourceUploadProps {
+  companyId: string;
+  /** The file source to load into; a new one is created when absent. */
+  config?: FileSourceConfig;
+  /** Called with the source as saved, before its rows are sent. */
+  onSaved: (config: DataSourceConfig) => void;
+  onClose: () => void;
+}
+
+const FileSourceUpload: React.FC<FileSourceUploadProps> = ({
+  companyId,
+  config,
+  onSaved,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const { notify } = useNotify();
+  const { selectedCompany } = useCompany();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [spreadsheet, setSpreadsheet] = useState<ParsedSpreadsheet>();
+  const [parseError, setParseError] = useState<string>();
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [sheetIndex, setSheetIndex] = useState<number>(0);
+  const [delimiter, setDelimiter] = useState<string>(",");
+  const [headerRow, setHeaderRow] = useState<number>(1);
+  const [detectedHeaderRow, setDetectedHeaderRow] = useState<number>(1);
+  const [name, setName] = useState<string>(config?.name ?? "");
+  const [fieldMappings, setFieldMappings] = useState<Record<string, unknown>>(
+    config?.fieldMappings ?? {}
+  );
+
+  // A CSV is split again when its delimiter is changed by hand.
+  const sheets = useMemo(
+    () =>
+      spreadsheet?.format === "csv" && spreadsheet.text !== undefined
+        ? [
+            {
+              name: spreadsheet.fileName,
+              rows: parseCsv(spreadsheet.text, delimiter),
+            },
+          ]
+        : (spreadsheet?.sheets ?? []),
+    [spreadsheet, delimiter]
+  );
+  const table = sheets[sheetIndex] ?? sheets[0];
+  const importSource = useMemo(
+    () => spreadsheet && importSourceOf(spreadsheet, table?.rows),
+    [spreadsheet, table]
+  );
+  // Recognized accounting exports are flattened by their importer instead
+  // of being read as one record per row.
+  const importer = useMemo(
+    () => importSource && detectImporter(importSource),
+    [importSource]
+  );
+  const { columns, records } = useMemo((): {
+    columns: string[];
+    records: Record<string, unknown>[];
+  } => {
+    if (importer && importSource) {
+      return {
+        columns: IMPORTED_RECORD_FIELDS,
+        records: importer.parse(importSource).records,
+      };
+    }
+    return table
+      ? tableToRecords(table.rows, headerRow - 1)
+      : { columns: [], records: [] };
+  }, [importer, importSource, table, headerRow]);
+  const result = useMemo(
+    () => (spreadsheet ? dryRunMapping(records, fieldMappings) : undefined),
+    [spreadsheet, records, fieldMappings]
+  );
+  const validRows = useMemo(
+    () =>
+      result?.records.flatMap((record) => (record.row ? [record.row] : [])) ??
+      [],
+    [result]
+  );
+
+  const loadFile = async (file: File) => {
+    try {
+      setParseError(undefined);
+      const parsed = await parseSpreadsheetFile(file);
+      const index = Math.max(
+        0,
+        parsed.sheets.findIndex((sheet) => sheet.name === config?.sheet)
+      );
+      const rows = parsed.sheets[index]?.rows ?? [];
+      const detected = detectHeaderRow(rows) + 1;
+      const source = importSourceOf(parsed, rows);
+      const detectedImporter = detectImporter(source);
+      if (parsed.format === "json" && !detectedImporter) {
+        setSpreadsheet(undefined);
+        setParseError(t("upload.unrecognizedJson"));
+        return;
+      }
+
+      setSpreadsheet(parsed);
+      setSheetIndex(index);
+      setDelimiter(parsed.delimiter ?? ",");
+      setHeaderRow(detected);
+      setDetectedHeaderRow(detected);
+      if (!config) {
+        setName(
+          (detectedImporter && detectedImporter.parse(source).title) ||
+            parsed.fileName.replace(/\.[^.]+$/, "")
+        );
+      }
+      // Keep a source's saved mappings; preset or guess them for a new one.
+      if (!config || Object.keys(config.fieldMappings).length === 0) {
+        setFieldMappings(
+          detectedImporter
+            ? importerFieldMappings(detectedImporter)
+            : suggestFieldMappings(tableToRecords(rows, detected - 1).columns)
+        );
+      }
+    } catch (error) {
+      console.error("Error reading uploaded file:", error);
+      setSpreadsheet(undefined);
+      setParseError(
+        t(
+          `upload.error.${error instanceof FileReadError ? error.code : "unreadable"}`
+        )
+      );
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) loadFile(file);
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) loadFile(file);
+  };
+
+  const handleSubmit = async () => {
+    if (!spreadsheet) return;
+
+    const { input, errors } = parseConfigInput({
+      name,
+      fieldMappings,
+      sourceType: "file",
+      format: spreadsheet.format,
+      delimiter: spreadsheet.format === "csv" ? delimiter : undefined,
+      sheet: spreadsheet.format === "xlsx" ? table?.name : undefined,
+      headerRow,
+    });
+    if (!input) {
+      const [field, reason] = Object.entries(errors)[0];
+      toast({
+        title: t("common.validationError"),
+        description: t("upload.invalid", {
+          field: t(configFieldLabel(field)),
+          reason: t(reason),
+        }),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const saved = config
+        ? await updateConfig(companyId, config.id, input)
+        : await createConfig(companyId, input);
+      onSaved(saved);
+
+      const { jobId } = await uploadSourceRows(companyId, saved.id, {
+        fileName: spreadsheet.fileName,
+        rows: validRows,
+      });
+      markJobActive({ jobId, companyId, sourceId: saved.id });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.companyJobs(companyId),
+      });
+
+      notify({
+        kind: "job",
+        level: "info",
+        title: { key: "upload.started" },
+        description: {
+          key: "upload.startedText",
+          params: {
+            count: validRows.length,
+            name: saved.name,
+          },
+        },
+        companyId,
+        companyName: selectedCompany?.name,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error uploading file data:", error);
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "upload.failed"),
+        variant: "destructive",
+        companyId,
+        companyName: selectedCompany?.name,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderDropZone = () => (
+    <div
+      className={cn(
+        "flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-md text-sm text-muted-foreground text-center",
+        isDragging && "border-primary bg-blue-50 dark:bg-blue-950"
+      )}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <Upload className="h-6 w-6" />
+      {spreadsheet ? (
+        <span className="font-medium text-foreground">
+          {spreadsheet.fileName}
+        </span>
+      ) : (
+        <span>{t("upload.drop")}</span>
+      )}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={UPLOAD_FILE_ACCEPT}
+        className="hidden"
+        onChange={handleFileInput}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {spreadsheet ? t("upload.replace") : t("upload.browse")}
+      </Button>
+    </div>
+  );
+
+  const renderSettings = () => (
+    <div className="flex flex-wrap items-end gap-3 text-sm">
+      {spreadsheet?.format === "xlsx" && sheets.length > 1 && (
+        <label className="space-y-1">
+          <span className="block font-medium">{t("sourceSettings.sheet")}</span>
+          <select
+            className="px-3 py-2 border rounded-md"
+            value={sheetIndex}
+            onChange={(e) => {
+              const index = Number(e.target.value);
+              const detected = detectHeaderRow(sheets[index].rows) + 1;
+              setSheetIndex(index);
+              setHeaderRow(detected);
+              setDetectedHeaderRow(detected);
+            }}
+          >
+            {sheets.map((sheet, index) => (
+              <option key={sheet.name} value={index}>
+                {sheet.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {spreadsheet?.format === "csv" && (
+        <label className="space-y-1">
+          <span className="block font-medium">
+            {t("sourceSettings.delimiter")}
+          </span>
+          <select
+            className="px-3 py-2 border rounded-md"
+            value={delimiter}
+            onChange={(e) => setDelimiter(e.target.value)}
+          >
+            {CSV_DELIMITERS.map((option) => (
+              <option key={option} value={option}>
+                {t(DELIMITER_LABELS[option])}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {importer ? (
+        <span className="pb-2 text-muted-foreground">
+          {t("upload.recognized", { format: importer.label })}
+        </span>
+      ) : (
+        <>
+          <label className="space-y-1">
+            <span className="block font-medium">
+              {t("sourceSettings.headerRow")}
+            </span>
+            <input
+              type="number"
+              min={1}
+              max={Math.max(1, table?.rows.length ?? 1)}
+              className="w-24 px-3 py-2 border rounded-md"
+              value={headerRow}
+              onChange={(e) =>
+                setHeaderRow(Math.max(1, e.target.valueAsNumber || 1))
+              }
+            />
+          </label>
+          <span className="pb-2 text-muted-foreground">
+            {t("upload.detectedHeader", { row: String(detectedHeaderRow) })}
+          </span>
+        </>
+      )}
+    </div>
+  );
+
+  const renderPreview = () => (
+    <div className="space-y-1">
+      <div className="text-sm font-medium">
+        {t("upload.preview", {
+          shown: Math.min(PREVIEW_ROWS, records.length),
+          count: records.length,
+        })}
+      </div>
+      <div className="rounded-md border max-h-[280px] overflow-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b bg-muted/50">
+              {columns.map((column) => (
+                <th
+                  key={column}
+                  className="p-2 text-start font-medium whitespace-nowrap"
+                >
+                  {column}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {records.slice(0, PREVIEW_ROWS).map((record, index) => (
+              <tr key={index} className="border-b last:border-b-0">
+                {columns.map((column) => (
+                  <td key={column} className="p-2 whitespace-nowrap">
+                    {formatCell(record[column])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mt-2 mb-4 p-3 border rounded-md bg-muted/30 space-y-4">
+      <div className="flex items-center gap-2 font-medium text-sm">
+        <FileUp className="h-4 w-4" />
+        {config
+          ? t("upload.titleFor", { name: config.name })
+          : t("upload.title")}
+      </div>
+
+      {renderDropZone()}
+      {parseError && (
+        <p className="text-sm text-red-500">
+          {t("upload.parseFailed", { reason: parseError })}
+        </p>
+      )}
+
+      {spreadsheet && (
+        <>
+          {renderSettings()}
+          {renderPreview()}
+
+          <div className="space-y-1">
+            <div className="text-sm font-medium">{t("upload.mapping")}</div>
+            <MappingBuilder
+              fieldMappings={fieldMappings}
+              onChange={setFieldMappings}
+              payload={records}
+              showRowsPath={false}
+            />
+          </div>
+          <MappingPreview fieldMappings={fieldMappings} payload={records} />
+
+          {!config && (
+            <label className="block space-y-1 text-sm">
+              <span className="block font-medium">{t("configs.name")}</span>
+              <input
+                type="text"
+                className="w-full px-3 py-2 border rounded-md"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t("configs.namePlaceholder")}
+              />
+            </label>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {result && (
+          <span className="me-auto text-sm text-muted-foreground">
+            {t("upload.validRows", {
+              valid: validRows.length,
+              count: records.length,
+            })}
+          </span>
+        )}
+        <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+          {t("common.cancel")}
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          disabled={validRows.length === 0 || isSubmitting}
+        >
+          {t("upload.submit", { count: validRows.length })}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FileSourceUpload;
@@ -0,0 +1,312 @@
+import React, { useRef, useState } from "react";
+import { Plus, Trash, Upload, Download, ArrowRightLeft } from "lucide-react";
+
+import { useI18n, translateMessage } from "@/lib/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useFxRates } from "@/lib/fx-context";
+import { useCompany } from "@/lib/company-context";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ratesToCsv,
+  parseFxRate,
+  parseRatesCsv,
+  PEGGED_USD_RATES,
+  SUPPORTED_CURRENCIES,
+} from "@/lib/financial";
+
+const MAX_LISTED_RATES = 200;
+
+const FxRatesManager: React.FC = () => {
+  const { reportingCurrency, selectedCompany } = useCompany();
+  const { rates, saveRates, removeRate, clearRates } = useFxRates();
+  const [newRate, setNewRate] = useState({
+    date: new Date().toISOString().slice(0, 7),
+    base: selectedCompany?.currency ?? "USD",
+    quote: reportingCurrency === "USD" ? "EGP" : reportingCurrency,
+    rate: "",
+    kind: "average",
+  });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { toast } = useToast();
+  const { t } = useI18n();
+
+  const handleAddRate = () => {
+    const { rate, error } = parseFxRate(newRate);
+    if (!rate) {
+      toast({
+        title: t("rates.invalid"),
+        description: translateMessage(t, error),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveRates([rate]);
+    setNewRate((prev) => ({ ...prev, rate: "" }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const { rates: imported, errors } = parseRatesCsv(await file.text());
+    if (imported.length > 0) saveRates(imported);
+
+    toast({
+      title:
+        errors.length === 0
+          ? t("rates.imported")
+          : t("rates.partiallyImported"),
+      description: [
+        t("rates.importedCount", { count: imported.length }),
+        ...errors.slice(0, 3).map((error) =>
+          t("rates.importError", {
+            line: String(error.line),
+            reason: translateMessage(t, error.reason),
+          })
+        ),
+        errors.length > 3
+          ? t("rates.moreSkipped", { count: errors.length - 3 })
+          : "",
+      ]
+        .filter(Boolean)
+        .join(" "),
+      variant: imported.length === 0 ? "destructive" : "default",
+    });
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(
+      new Blob([ratesToCsv(rates)], { type: "text/csv" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "fx-rates.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderCurrencySelect = (
+    value: string,
+    onChange: (currency: string) => void
+  ) => (
+    <select
+      className="w-full px-3 py-2 border rounded-md"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {SUPPORTED_CURRENCIES.map((currency) => (
+        <option key={currency.code} value={currency.code}>
+          {currency.code}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" />
+          {t("rates.title")}
+        </CardTitle>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 me-1" />
+            {t("rates.import")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={rates.length === 0}
+          >
+            <Download className="h-4 w-4 me-1" />
+            {t("rates.export")}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {t("rates.help", { pegs: Object.keys(PEGGED_USD_RATES).join(", ") })}
+        </p>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end p-4 border rounded-md">
+          <div>
+            <label className="text-sm font-medium block mb-1">
+              {t("rates.date")}
+            </label>
+            <input
+              type={newRate.kind === "average" ? "month" : "date"}
+              className="w-full px-3 py-2 border rounded-md"
+              value={newRate.date}
+              onChange={(e) =>
+                setNewRate((prev) => ({ ...prev, date: e.target.value }))
+              }
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium block mb-1">
+              {t("rates.type")}
+            </label>
+            <select
+              className="w-full px-3 py-2 border rounded-md"
+              value={newRate.kind}
+              onChange={(e) =>
+                setNewRate((prev) => ({
+                  ...prev,
+                  kind: e.target.value,
+                  date:
+                    e.target.value === "average"
+                      ? prev.date.slice(0, 7)
+                      : prev.date.length === 7
+                        ? `${prev.date}-01`
+                        : prev.date,
+                }))
+              }
+            >
+              <option value="average">{t("rates.average")}</option>
+              <option value="closing">{t("rates.closing")}</option>
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-medium block mb-1">
+              {t("rates.base")}
+            </label>
+            {renderCurrencySelect(newRate.base, (base) =>
+              setNewRate((prev) => ({ ...prev, base }))
+            )}
+          </div>
+          <div>
+            <label className="text-sm font-medium block mb-1">
+              {t("rates.equals")}
+            </label>
+            <input
+              type="text"
+              inputMode="decimal"
+              className="w-full px-3 py-2 border rounded-md"
+              value={newRate.rate}
+              onChange={(e) =>
+                setNewRate((prev) => ({ ...prev, rate: e.target.value }))
+              }
+              placeholder={t("rates.ratePlaceholder")}
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium block mb-1">
+              {t("rates.quote")}
+            </label>
+            {renderCurrencySelect(newRate.quote, (quote) =>
+              setNewRate((prev) => ({ ...prev, quote }))
+            )}
+          </div>
+          <Button onClick={handleAddRate}>
+            <Plus className="h-4 w-4 me-1" />
+            {t("rates.save")}
+          </Button>
+        </div>
+
+        {rates.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <p>{t("rates.empty")}</p>
+          </div>
+        ) : (
+          <>
+            <div className="rounded-md border max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    <th className="p-2 text-start font-medium">
+                      {t("rates.date")}
+                    </th>
+                    <th className="p-2 text-start font-medium">
+                      {t("rates.pair")}
+                    </th>
+                    <th className="p-2 text-start font-medium">
+                      {t("rates.type")}
+                    </th>
+                    <th className="p-2 text-end font-medium">
+                      {t("rates.rate")}
+                    </th>
+                    <th className="p-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rates.slice(0, MAX_LISTED_RATES).map((rate) => (
+                    <tr key={rate.id} className="border-b">
+                      <td className="p-2">
+                        {rate.kind === "average"
+                          ? rate.date.slice(0, 7)
+                          : rate.date}
+                      </td>
+                      <td className="p-2">
+                        {rate.base}/{rate.quote}
+                      </td>
+                      <td className="p-2">
+                        <Badge
+                          variant={
+                            rate.kind === "average" ? "secondary" : "outline"
+                          }
+                        >
+                          {t(`rates.kind.${rate.kind}`)}
+                        </Badge>
+                      </td>
+                      <td className="p-2 text-end font-mono">{rate.rate}</td>
+                      <td className="p-2 text-end">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          onClick={() => removeRate(rate.id)}
+                        >
+                          <Trash className="h-3 w-3" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {t("rates.count", { count: rates.length })}
+                {rates.length > MAX_LISTED_RATES
+                  ? ` ${t("rates.showingLatest", { max: MAX_LISTED_RATES })}`
+                  : ""}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600"
+                onClick={() => {
+                  if (window.confirm(t("rates.confirmClear"))) {
+                    clearRates();
+                  }
+                }}
+              >
+                {t("rates.clearAll")}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FxRatesManager;
@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { useI18n, type MessageKey } from "@/lib/i18n";
+import { Badge } from "@/components/ui/badge";
+import { useFxRates } from "@/lib/fx-context";
+import { Button } from "@/components/ui/button";
+import { useCompany } from "@/lib/company-context";
+import { useJobSnapshots } from "@/hooks/use-job-snapshots";
+import DataIssuesBanner from "@/components/DataIssuesBanner";
+import MissingRatesNotice from "@/components/MissingRatesNotice";
+import { HttpError, getErrorMessage } from "@/lib/api";
+import {
+  toEntries,
+  isNegative,
+  formatMoney,
+  formatDateRange,
+  formatMoneyDelta,
+  diffFinancialData,
+  type LineItemChange,
+  type FinancialItemType,
+  type LineItemChangeKind,
+} from "@/lib/financial";
+
+const TYPE_DELTA_KEYS: Record<FinancialItemType, MessageKey> = {
+  revenue: "diff.revenue",
+  expense: "diff.expenses",
+  asset: "diff.assets",
+  liability: "diff.liabilities",
+};
+
+const KIND_BADGE_CLASSES: Record<LineItemChangeKind, string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-amber-100 text-amber-800",
+};
+
+interface JobDataDiffProps {
+  /** A completed job; other jobs have no snapshots to compare. */
+  jobId: string;
+}
+
+const JobDataDiff: React.FC<JobDataDiffProps> = ({ jobId }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const { t, locale } = useI18n();
+  const { convert } = useFxRates();
+  const { selectedCompany, reportingCurrency } = useCompany();
+  const { data, error, isLoading, refetch } = useJobSnapshots(jobId);
+
+  const { diff, unconverted } = useMemo(() => {
+    const options = {
+      reportingCurrency,
+      defaultCurrency: selectedCompany?.currency,
+      convert,
+    };
+    const before = toEntries(data?.before ?? [], options);
+    const after = toEntries(data?.after ?? [], options);
+    return {
+      diff: diffFinancialData(before.entries, after.entries),
+      unconverted: after.unconverted,
+    };
+  }, [data, reportingCurrency, selectedCompany?.currency, convert]);
+
+  const toggleCategory = (category: string) => {
+    const next = new Set(expanded);
+    if (next.has(category)) {
+      next.delete(category);
+    } else {
+      next.add(category);
+    }
+    setExpanded(next);
+  };
+
+  const renderDelta = (amount: LineItemChange["delta"]) => (
+    <span className={isNegative(amount) ? "text-red-600" : "text-green-600"}>
+      {formatMoneyDelta(amount, locale)}
+    </span>
+  );
+
+  const renderChange = (change: LineItemChange) => (
+    <tr key={change.key} className="border-b bg-muted/20">
+      <td className="p-2 ps-10">
+        <div>
+          {[change.subcategory, change.lineItemName]
+            .filter(Boolean)
+            .join(" › ") ||
+            change.category ||
+            t("common.uncategorized")}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {formatDateRange(change.fromDate, change.toDate, locale) ?? "—"}
+          {change.source && ` · ${change.source}`}
+        </div>
+      </td>
+      <td className="p-2">
+        <Badge variant="secondary" className={KIND_BADGE_CLASSES[change.kind]}>
+          {t(`diff.kind.${change.kind}`)}
+        </Badge>
+      </td>
+      <td className="p-2 text-end font-mono">
+        {change.before ? formatMoney(change.before, locale) : "—"}
+      </td>
+      <td className="p-2 text-end font-mono">
+        {change.after ? formatMoney(change.after, locale) : "—"}
+      </td>
+      <td className="p-2 text-end font-mono">{renderDelta(change.delta)}</td>
+    </tr>
+  );
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">{t("diff.loading")}</p>;
+  }
+
+  if (error) {
+    if (error instanceof HttpError && error.status === 404) {
+      return (
+        <p className="text-sm text-muted-foreground">{t("diff.notRecorded")}</p>
+      );
+    }
+    return (
+      <div className="text-sm text-red-500 space-y-2">
+        <p>{getErrorMessage(error, "diff.loadFailed", t)}</p>
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          {t("common.retry")}
+        </Button>
+      </div>
+    );
+  }
+
+  const total = diff.added + diff.removed + diff.changed;
+  const periods = formatDateRange(diff.firstPeriod, diff.lastPeriod, locale);
+  const typeDeltas = (
+    Object.keys(TYPE_DELTA_KEYS) as FinancialItemType[]
+  ).flatMap((type) => {
+    const delta = diff.deltaByType[type];
+    return delta
+      ? [t(TYPE_DELTA_KEYS[type], { amount: formatMoneyDelta(delta, locale) })]
+      : [];
+  });
+
+  return (
+    <div className="space-y-3">
+      <DataIssuesBanner issues={data?.issues ?? []} />
+      <MissingRatesNotice
+        unconverted={unconverted}
+        reportingCurrency={reportingCurrency}
+      />
+
+      {total === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("diff.noChanges")}</p>
+      ) : (
+        <>
+          <div className="space-y-1 text-sm">
+            <p className="font-medium">
+              {[t("diff.summary", { count: total }), ...typeDeltas].join(", ")}
+            </p>
+            <p className="text-muted-foreground">
+              {t("diff.breakdown", {
+                added: diff.added,
+                removed: diff.removed,
+                changed: diff.changed,
+              })}
+              {periods && ` · ${t("diff.periods", { range: periods })}`}
+            </p>
+          </div>
+
+          <div className="rounded-md border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="p-2 text-start font-medium">
+                    {t("table.category")}
+                  </th>
+                  <th className="p-2 text-start font-medium">
+                    {t("diff.kind")}
+                  </th>
+                  <th className="p-2 text-end font-medium">
+                    {t("diff.before")}
+                  </th>
+                  <th className="p-2 text-end font-medium">
+                    {t("diff.after")}
+                  </th>
+                  <th className="p-2 text-end font-medium">
+                    {t("diff.change")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.categories.map((category) => {
+                  const isExpanded = expanded.has(category.category);
+                  return (
+                    <React.Fragment key={category.category}>
+                      <tr
+                        className={cn(
+                          "border-b cursor-pointer hover:bg-muted/50",
+                          isExpanded && "bg-muted/30"
+                        )}
+                        onClick={() => toggleCategory(category.category)}
+                      >
+                        <td className="p-2 font-medium" colSpan={4}>
+                          <div className="flex items-center gap-2">
+                            {isExpanded ? (
+                              <ChevronDown className="h-4 w-4" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4 rtl:rotate-180" />
+                            )}
+                            {category.category || t("common.uncategorized")}
+                            <span className="text-xs font-normal text-muted-foreground">
+                              {t("diff.lineCount", {
+                                count: category.changes.length,
+                              })}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="p-2 text-end font-mono">
+                          {renderDelta(category.delta)}
+                        </td>
+                      </tr>
+                      {isExpanded && category.changes.map(renderChange)}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default JobDataDiff;
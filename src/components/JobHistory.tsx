@@ -0,0 +1,399 @@
+import React, { useState, useEffect } from "react";
+import { History, RefreshCw, CheckCircle, AlertCircle } from "lucide-react";
+
+import { useI18n } from "@/lib/i18n";
+import { type ETLJob } from "@/lib/api";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useCompany } from "@/lib/company-context";
+import JobDataDiff from "@/components/JobDataDiff";
+import JobLogViewer from "@/components/JobLogViewer";
+import PipelineSteps from "@/components/PipelineSteps";
+import { useCompanyJobs } from "@/hooks/use-company-jobs";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Sheet,
+  SheetTitle,
+  SheetHeader,
+  SheetContent,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import {
+  filterJobs,
+  stageLabel,
+  jobDurationMs,
+  formatDuration,
+  jobStatusGroup,
+  type JobStatusGroup,
+  summarizeJobHistory,
+  type JobHistoryFilters,
+} from "@/lib/jobs";
+
+const STATUS_BADGE_CLASSES: Record<JobStatusGroup, string> = {
+  running: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
+
+const emptyFilters: JobHistoryFilters = { status: "all", from: "", to: "" };
+
+const JobHistory: React.FC = () => {
+  const { t, dir, formatNumber, formatDateTime } = useI18n();
+  const { selectedCompany } = useCompany();
+  const {
+    data: jobs = [],
+    isLoading,
+    isError,
+    isFetching,
+    refetch,
+  } = useCompanyJobs(selectedCompany?.id);
+
+  const [filters, setFilters] = useState<JobHistoryFilters>(emptyFilters);
+  const [selectedJobId, setSelectedJobId] = useState<string>();
+
+  useEffect(() => {
+    setSelectedJobId(undefined);
+  }, [selectedCompany?.id]);
+
+  const visibleJobs = filterJobs(jobs, filters);
+  const summary = summarizeJobHistory(jobs);
+  // Looked up on every render so an open drawer follows a running job.
+  const selectedJob = jobs.find((job) => job.id === selectedJobId);
+  const hasFilters =
+    filters.status !== "all" || Boolean(filters.from) || Boolean(filters.to);
+
+  const formatJobDuration = (job: ETLJob) =>
+    formatDuration(jobDurationMs(job), t);
+
+  const getSourceName = (job: ETLJob) => {
+    if (!job.sourceId) return t("history.allSources");
+
+    const config = selectedCompany?.configs?.find(
+      (config) => config.id === job.sourceId
+    );
+    return config?.name ?? t("history.deletedSource", { id: job.sourceId });
+  };
+
+  const formatRowCount = (job: ETLJob) =>
+    job.rowCount === undefined ? "—" : formatNumber(job.rowCount);
+
+  const renderStatusBadge = (job: ETLJob) => {
+    const group = jobStatusGroup(job.status);
+    return (
+      <Badge variant="secondary" className={STATUS_BADGE_CLASSES[group]}>
+        {t(`history.status.${group}`)}
+      </Badge>
+    );
+  };
+
+  const renderSummary = () => (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+      <div className="flex items-center gap-2">
+        <CheckCircle className="h-4 w-4 text-green-500" />
+        {summary.lastSuccess
+          ? t("history.lastSuccess", {
+              date: formatDateTime(summary.lastSuccess.createdAt),
+            })
+          : t("history.noSuccess")}
+      </div>
+      <div
+        className={`flex items-center gap-2 ${
+          summary.failedSince.length > 0 ? "text-red-600" : ""
+        }`}
+      >
+        <AlertCircle className="h-4 w-4" />
+        {summary.failedSince.length > 0
+          ? t(
+              summary.lastSuccess
+                ? "history.failedSince"
+                : "history.failedTotal",
+              { count: summary.failedSince.length }
+            )
+          : t("history.noFailuresSince")}
+      </div>
+    </div>
+  );
+
+  const renderFilters = () => (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+      <div>
+        <label className="text-sm font-medium block mb-1">
+          {t("history.status")}
+        </label>
+        <select
+          className="w-full px-3 py-2 border rounded-md"
+          value={filters.status}
+          onChange={(e) =>
+            setFilters((prev) => ({
+              ...prev,
+              status: e.target.value as JobHistoryFilters["status"],
+            }))
+          }
+        >
+          <option value="all">{t("history.allStatuses")}</option>
+          <option value="completed">{t("history.status.completed")}</option>
+          <option value="failed">{t("history.status.failed")}</option>
+          <option value="cancelled">{t("history.status.cancelled")}</option>
+          <option value="running">{t("history.status.running")}</option>
+        </select>
+      </div>
+      <div>
+        <label className="text-sm font-medium block mb-1">
+          {t("history.from")}
+        </label>
+        <input
+          type="date"
+          className="w-full px-3 py-2 border rounded-md"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) =>
+            setFilters((prev) => ({ ...prev, from: e.target.value }))
+          }
+        />
+      </div>
+      <div>
+        <label className="text-sm font-medium block mb-1">
+          {t("history.to")}
+        </label>
+        <input
+          type="date"
+          className="w-full px-3 py-2 border rounded-md"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) =>
+            setFilters((prev) => ({ ...prev, to: e.target.value }))
+          }
+        />
+      </div>
+      <Button
+        variant="outline"
+        onClick={() => setFilters(emptyFilters)}
+        disabled={!hasFilters}
+      >
+        {t("history.clearFilters")}
+      </Button>
+    </div>
+  );
+
+  const renderTable = () => (
+    <div className="rounded-md border max-h-[480px] overflow-y-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b bg-muted/50">
+            <th className="p-2 text-start font-medium">
+              {t("history.started")}
+            </th>
+            <th className="p-2 text-start font-medium">
+              {t("history.status")}
+            </th>
+            <th className="p-2 text-start font-medium">
+              {t("history.duration")}
+            </th>
+            <th className="p-2 text-start font-medium">
+              {t("history.source")}
+            </th>
+            <th className="p-2 text-end font-medium">{t("history.records")}</th>
+            <th className="p-2 text-start font-medium">
+              {t("history.message")}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {visibleJobs.map((job) => (
+            <tr
+              key={job.id}
+              className="border-b cursor-pointer hover:bg-muted/50"
+              onClick={() => setSelectedJobId(job.id)}
+            >
+              <td className="p-2 whitespace-nowrap">
+                {formatDateTime(job.createdAt)}
+              </td>
+              <td className="p-2">{renderStatusBadge(job)}</td>
+              <td className="p-2 whitespace-nowrap">
+                {formatJobDuration(job)}
+              </td>
+              <td className="p-2">{getSourceName(job)}</td>
+              <td className="p-2 text-end font-mono">{formatRowCount(job)}</td>
+              <td className="p-2 max-w-xs truncate" title={job.message}>
+                {job.message}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderDetailRow = (label: string, value: React.ReactNode) => (
+    <div className="grid grid-cols-3 gap-2 py-2 border-b text-sm">
+      <dt className="text-muted-foreground">{label}</dt>
+      <dd className="col-span-2 break-words">{value}</dd>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (!selectedCompany) {
+      return (
+        <div className="text-center py-6 text-muted-foreground">
+          {t("history.selectCompany")}
+        </div>
+      );
+    }
+
+    if (isLoading) {
+      return <div className="animate-pulse h-32 bg-muted rounded"></div>;
+    }
+
+    if (isError) {
+      return (
+        <div className="text-center py-6 text-red-500">
+          {t("history.loadFailed")}
+        </div>
+      );
+    }
+
+    if (jobs.length === 0) {
+      return (
+        <div className="text-center py-6 text-muted-foreground">
+          {t("history.empty")}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        {renderSummary()}
+        {renderFilters()}
+        {visibleJobs.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            {t("history.noMatches")}
+          </div>
+        ) : (
+          renderTable()
+        )}
+        <p className="text-sm text-muted-foreground">
+          {t("history.showing", {
+            shown: visibleJobs.length,
+            count: jobs.length,
+          })}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          {t("history.title")}
+        </CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => refetch()}
+          disabled={!selectedCompany || isFetching}
+        >
+          <RefreshCw
+            className={`h-4 w-4 me-1 ${isFetching ? "animate-spin" : ""}`}
+          />
+          {t("history.refresh")}
+        </Button>
+      </CardHeader>
+      <CardContent>{renderContent()}</CardContent>
+
+      <Sheet
+        open={Boolean(selectedJob)}
+        onOpenChange={(open) => !open && setSelectedJobId(undefined)}
+      >
+        <SheetContent
+          side={dir === "rtl" ? "left" : "right"}
+          className="overflow-y-auto sm:max-w-2xl"
+          dir={dir}
+        >
+          {selectedJob && (
+            <>
+              <SheetHeader className="text-start sm:text-start">
+                <SheetTitle>
+                  {t("history.detailTitle", { id: selectedJob.id })}
+                </SheetTitle>
+                <SheetDescription>
+                  {t("history.detailDescription", {
+                    date: formatDateTime(selectedJob.createdAt),
+                  })}
+                </SheetDescription>
+              </SheetHeader>
+              <dl className="mt-6">
+                {renderDetailRow(
+                  t("history.status"),
+                  renderStatusBadge(selectedJob)
+                )}
+                {renderDetailRow(
+                  t("history.stage"),
+                  selectedJob.stage ? stageLabel(selectedJob.stage, t) : "—"
+                )}
+                {selectedJob.stages.length > 0 &&
+                  renderDetailRow(
+                    t("pipeline.title"),
+                    <PipelineSteps stages={selectedJob.stages} />
+                  )}
+                {renderDetailRow(
+                  t("history.progress"),
+                  `${formatNumber(selectedJob.progress)}%`
+                )}
+                {renderDetailRow(
+                  t("history.source"),
+                  getSourceName(selectedJob)
+                )}
+                {renderDetailRow(
+                  t("history.started"),
+                  formatDateTime(selectedJob.createdAt)
+                )}
+                {renderDetailRow(
+                  t("history.finished"),
+                  jobStatusGroup(selectedJob.status) === "running"
+                    ? t("history.inProgress")
+                    : formatDateTime(selectedJob.updatedAt)
+                )}
+                {renderDetailRow(
+                  t("history.duration"),
+                  formatJobDuration(selectedJob)
+                )}
+                {renderDetailRow(
+                  t("history.records"),
+                  formatRowCount(selectedJob)
+                )}
+                {renderDetailRow(t("history.message"), selectedJob.message)}
+                {selectedJob.retryOf &&
+                  renderDetailRow(
+                    t("history.retryOf"),
+                    t("history.detailTitle", { id: selectedJob.retryOf })
+                  )}
+                {renderDetailRow(
+                  t("history.jobId"),
+                  <span className="font-mono">{selectedJob.id}</span>
+                )}
+              </dl>
+              {selectedJob.status === "completed" && (
+                <div className="mt-6 space-y-2">
+                  <h3 className="font-medium">{t("diff.title")}</h3>
+                  <JobDataDiff jobId={selectedJob.id} />
+                </div>
+              )}
+              <div className="mt-6 space-y-2">
+                <h3 className="font-medium">{t("logs.title")}</h3>
+                <JobLogViewer
+                  jobId={selectedJob.id}
+                  live={jobStatusGroup(selectedJob.status) === "running"}
+                />
+              </div>
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </Card>
+  );
+};
+
+export default JobHistory;
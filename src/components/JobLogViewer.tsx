@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useRef } from "react";
+import { Download } from "lucide-react";
+
+import { useI18n } from "@/lib/i18n";
+import { type JobLogLevel } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { useJobLogs } from "@/hooks/use-job-logs";
+import {
+  logsToText,
+  filterLogs,
+  LOG_LEVELS,
+  stageLabel,
+  logLevelRank,
+  formatLogTime,
+  type JobLogFilters,
+} from "@/lib/jobs";
+
+const LEVEL_CLASSES: Record<JobLogLevel, string> = {
+  debug: "text-gray-500",
+  info: "text-blue-600",
+  warn: "text-amber-600",
+  error: "text-red-600",
+};
+
+interface JobLogViewerProps {
+  jobId: string;
+  /** The job is still running, so new lines are tailed. */
+  live: boolean;
+}
+
+const JobLogViewer: React.FC<JobLogViewerProps> = ({ jobId, live }) => {
+  const { t } = useI18n();
+  const { data: entries = [], isLoading, isError } = useJobLogs(jobId, live);
+  const [filters, setFilters] = useState<JobLogFilters>({
+    minLevel: "info",
+    search: "",
+  });
+  const [follow, setFollow] = useState<boolean>(true);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const visibleEntries = filterLogs(entries, filters);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (follow && list) list.scrollTop = list.scrollHeight;
+  }, [follow, visibleEntries.length]);
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(
+      new Blob([logsToText(entries)], { type: "text/plain" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `etl-job-${jobId}.log`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderLines = () => {
+    if (isLoading) {
+      return <div className="animate-pulse h-32 bg-muted rounded"></div>;
+    }
+
+    if (isError) {
+      return (
+        <div className="text-center py-6 text-red-500">
+          {t("logs.loadFailed")}
+        </div>
+      );
+    }
+
+    if (visibleEntries.length === 0) {
+      return (
+        <div className="text-center py-6 text-muted-foreground">
+          {entries.length === 0 ? t("logs.empty") : t("logs.noMatches")}
+        </div>
+      );
+    }
+
+    return (
+      <div
+        ref={listRef}
+        dir="ltr"
+        className="rounded-md border bg-muted/30 max-h-[420px] overflow-y-auto p-2 font-mono text-xs"
+      >
+        {visibleEntries.map((entry) => (
+          <div key={entry.seq} className="flex gap-2 py-0.5">
+            <span className="shrink-0 text-muted-foreground">
+              {formatLogTime(entry.timestamp)}
+            </span>
+            <span
+              className={`w-12 shrink-0 uppercase ${
+                LEVEL_CLASSES[LOG_LEVELS[logLevelRank(entry.level)]]
+              }`}
+            >
+              {entry.level}
+            </span>
+            <span className="min-w-0 break-words">
+              {entry.stage && (
+                <span className="text-muted-foreground">
+                  [{stageLabel(entry.stage, t)}]{" "}
+                </span>
+              )}
+              {entry.source && (
+                <span className="text-muted-foreground">[{entry.source}] </span>
+              )}
+              {entry.message}
+              {entry.rowId && (
+                <span className="ms-1 text-muted-foreground">
+                  ({t("logs.row", { id: entry.rowId })})
+                </span>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+        <div>
+          <label className="text-sm font-medium block mb-1">
+            {t("logs.minLevel")}
+          </label>
+          <select
+            className="w-full px-3 py-2 border rounded-md"
+            value={filters.minLevel}
+            onChange={(e) =>
+              setFilters((prev) => ({
+                ...prev,
+                minLevel: e.target.value as JobLogLevel,
+              }))
+            }
+          >
+            {LOG_LEVELS.map((level) => (
+              <option key={level} value={level}>
+                {t(`logs.level.${level}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="sm:col-span-2">
+          <label className="text-sm font-medium block mb-1">
+            {t("logs.search")}
+          </label>
+          <input
+            type="search"
+            className="w-full px-3 py-2 border rounded-md"
+            value={filters.search}
+            placeholder={t("logs.searchPlaceholder")}
+            onChange={(e) =>
+              setFilters((prev) => ({ ...prev, search: e.target.value }))
+            }
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex items-center gap-4">
+          {live && (
+            <span className="flex items-center gap-1 text-blue-600">
+              <span className="h-2 w-2 rounded-full bg-blue-500 animate-pulse"></span>
+              {t("logs.live")}
+            </span>
+          )}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={follow}
+              onChange={(e) => setFollow(e.target.checked)}
+            />
+            {t("logs.follow")}
+          </label>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDownload}
+          disabled={entries.length === 0}
+        >
+          <Download className="h-4 w-4 me-1" />
+          {t("logs.download")}
+        </Button>
+      </div>
+
+      {renderLines()}
+
+      {entries.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t("logs.showing", {
+            shown: visibleEntries.length,
+            count: entries.length,
+          })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default JobLogViewer;
@@ -0,0 +1,28 @@
+import React from "react";
+import { Languages } from "lucide-react";
+
+import { LANGUAGES, useI18n, type Language } from "@/lib/i18n";
+
+const LanguageSwitcher: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <div className="relative flex items-center bg-white dark:bg-gray-800 rounded-md border px-3 py-2 shadow-sm">
+      <Languages className="h-4 w-4 me-2 text-slate-500" />
+      <select
+        aria-label={t("app.language")}
+        className="bg-transparent border-none focus:outline-none text-sm font-medium appearance-none"
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as Language)}
+      >
+        {(Object.keys(LANGUAGES) as Language[]).map((code) => (
+          <option key={code} value={code}>
+            {LANGUAGES[code].label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,293 @@
+import React, { useId, useMemo, useState } from "react";
+import { X, GripVertical } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { useI18n } from "@/lib/i18n";
+import { Button } from "@/components/ui/button";
+import {
+  ROWS_KEY,
+  readRule,
+  writeRule,
+  type BuilderRule,
+  UNIFIED_FIELDS,
+  writeRowsPath,
+  type UnifiedField,
+  compileMapping,
+  extractRecords,
+  MAPPING_TRANSFORMS,
+  isMappingTransform,
+  discoverSourceFields,
+  discoverRecordArrays,
+} from "@/lib/mapping";
+
+// Enough records to find optional fields without walking a whole export.
+const DISCOVERY_LIMIT = 20;
+const DRAG_TYPE = "text/plain";
+
+interface MappingBuilderProps {
+  fieldMappings: Record<string, unknown>;
+  onChange: (fieldMappings: Record<string, unknown>) => void;
+  /** The parsed sample whose fields are offered, if one is loaded. */
+  payload: unknown;
+  /** Hide the records path input, for payloads that are already a list. */
+  showRowsPath?: boolean;
+}
+
+const formatExample = (value: unknown) => {
+  const text =
+    value !== null && typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+const MappingBuilder: React.FC<MappingBuilderProps> = ({
+  fieldMappings,
+  onChange,
+  payload,
+  showRowsPath = true,
+}) => {
+  const { t } = useI18n();
+  const [dropTarget, setDropTarget] = useState<UnifiedField | null>(null);
+  const listId = useId();
+
+  const rowsPath = fieldMappings[ROWS_KEY];
+  const { sourceFields, recordArrays } = useMemo(() => {
+    if (payload === undefined) return { sourceFields: [], recordArrays: [] };
+    const { records } = extractRecords(
+      payload,
+      compileMapping(rowsPath === undefined ? {} : { [ROWS_KEY]: rowsPath })
+    );
+    return {
+      sourceFields: discoverSourceFields(records.slice(0, DISCOVERY_LIMIT)),
+      recordArrays: discoverRecordArrays(payload),
+    };
+  }, [payload, rowsPath]);
+
+  const mappedPaths = new Set(
+    UNIFIED_FIELDS.map((field) => readRule(fieldMappings, field).path)
+  );
+
+  const updateRule = (field: UnifiedField, changes: Partial<BuilderRule>) =>
+    onChange(
+      writeRule(fieldMappings, field, {
+        ...readRule(fieldMappings, field),
+        ...changes,
+      })
+    );
+
+  const handleDrop = (e: React.DragEvent, field: UnifiedField) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const path = e.dataTransfer.getData(DRAG_TYPE);
+    if (path) updateRule(field, { path });
+  };
+
+  const renderSourceFields = () => {
+    if (payload === undefined) {
+      return (
+        <p className="text-xs text-muted-foreground">
+          {t("mappingBuilder.noSample")}
+        </p>
+      );
+    }
+    if (sourceFields.length === 0) {
+      return (
+        <p className="text-xs text-muted-foreground">
+          {t("mappingBuilder.noFields")}
+        </p>
+      );
+    }
+
+    return (
+      <ul className="space-y-1 max-h-[420px] overflow-y-auto">
+        {sourceFields.map((field) => (
+          <li
+            key={field.path}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(DRAG_TYPE, field.path);
+              e.dataTransfer.effectAllowed = "link";
+            }}
+            className={cn(
+              "flex items-start gap-1 p-1.5 border rounded-md bg-white dark:bg-gray-800 cursor-grab text-xs",
+              mappedPaths.has(field.path) && "border-primary"
+            )}
+            title={t("mappingBuilder.dragHint")}
+          >
+            <GripVertical className="h-3.5 w-3.5 mt-0.5 shrink-0 text-muted-foreground" />
+            <div className="min-w-0" dir="ltr">
+              <div className="font-mono break-all">{field.path}</div>
+              <div className="text-muted-foreground truncate">
+                {field.type} · {formatExample(field.example)}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderTarget = (field: UnifiedField) => {
+    const rule = readRule(fieldMappings, field);
+    // A fixed `value` is shown in the same box as the default it replaces.
+    const fixedKey = rule.value !== undefined ? "value" : "default";
+    const isUnreadable =
+      fieldMappings[field] !== undefined &&
+      !rule.path &&
+      !rule.value &&
+      !rule.default &&
+      !rule.transform;
+
+    return (
+      <tr
+        key={field}
+        className={cn(
+          "border-b last:border-b-0",
+          dropTarget === field && "bg-blue-50 dark:bg-blue-950"
+        )}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDropTarget(field);
+        }}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(e) => handleDrop(e, field)}
+      >
+        <td className="p-2 font-mono text-xs align-top">
+          {field}
+          {isUnreadable && (
+            <div className="font-sans text-red-600">
+              {t("mappingBuilder.advancedOnly")}
+            </div>
+          )}
+        </td>
+        <td className="p-2">
+          <input
+            dir="ltr"
+            type="text"
+            list={`${listId}-fields`}
+            className="w-full px-2 py-1 border rounded-md font-mono text-xs"
+            value={rule.path ?? ""}
+            onChange={(e) => updateRule(field, { path: e.target.value })}
+            placeholder={t("mappingBuilder.sameName", { field })}
+            aria-label={t("mappingBuilder.source", { field })}
+          />
+        </td>
+        <td className="p-2">
+          <select
+            className="w-full px-2 py-1 border rounded-md text-xs"
+            value={rule.transform ?? ""}
+            onChange={(e) =>
+              updateRule(field, {
+                transform: isMappingTransform(e.target.value)
+                  ? e.target.value
+                  : undefined,
+              })
+            }
+            aria-label={t("mappingBuilder.transform", { field })}
+          >
+            <option value="">{t("mappingBuilder.noTransform")}</option>
+            {MAPPING_TRANSFORMS.map((transform) => (
+              <option key={transform} value={transform}>
+                {t(`mappingBuilder.transform.${transform}`)}
+              </option>
+            ))}
+          </select>
+        </td>
+        <td className="p-2">
+          <input
+            type="text"
+            className="w-full px-2 py-1 border rounded-md text-xs"
+            value={rule[fixedKey] ?? ""}
+            onChange={(e) => updateRule(field, { [fixedKey]: e.target.value })}
+            placeholder={t(
+              fixedKey === "value"
+                ? "mappingBuilder.fixedPlaceholder"
+                : "mappingBuilder.defaultPlaceholder"
+            )}
+            aria-label={t("mappingBuilder.default", { field })}
+          />
+        </td>
+        <td className="p-2 text-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(writeRule(fieldMappings, field, {}))}
+            disabled={fieldMappings[field] === undefined}
+            aria-label={t("mappingBuilder.clear", { field })}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        {showRowsPath && (
+          <>
+            <label className="text-xs font-medium block mb-1">
+              {t("mappingBuilder.rowsPath")}
+            </label>
+            <input
+              dir="ltr"
+              type="text"
+              list={`${listId}-arrays`}
+              className="w-full px-2 py-1 border rounded-md font-mono text-xs"
+              value={typeof rowsPath === "string" ? rowsPath : ""}
+              onChange={(e) =>
+                onChange(writeRowsPath(fieldMappings, e.target.value))
+              }
+              placeholder={t("mappingBuilder.rowsPathPlaceholder")}
+            />
+          </>
+        )}
+        <datalist id={`${listId}-arrays`}>
+          {recordArrays.map((path) => (
+            <option key={path} value={path} />
+          ))}
+        </datalist>
+        <datalist id={`${listId}-fields`}>
+          {sourceFields.map((field) => (
+            <option key={field.path} value={field.path} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-3">
+        <div className="space-y-2">
+          <div className="text-xs font-medium">
+            {t("mappingBuilder.sourceFields")}
+          </div>
+          {renderSourceFields()}
+        </div>
+        <div className="rounded-md border overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50 text-xs">
+                <th className="p-2 text-start font-medium">
+                  {t("mappingBuilder.target")}
+                </th>
+                <th className="p-2 text-start font-medium">
+                  {t("mappingBuilder.sourceColumn")}
+                </th>
+                <th className="p-2 text-start font-medium">
+                  {t("mappingBuilder.transformColumn")}
+                </th>
+                <th className="p-2 text-start font-medium">
+                  {t("mappingBuilder.defaultColumn")}
+                </th>
+                <th className="p-2" />
+              </tr>
+            </thead>
+            <tbody>{UNIFIED_FIELDS.map(renderTarget)}</tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MappingBuilder;
@@ -0,0 +1,174 @@
+import React, { useState, useMemo, useEffect } from "react";
+import { FlaskConical } from "lucide-react";
+
+import { useI18n } from "@/lib/i18n";
+import { dryRunMapping, UNIFIED_FIELDS } from "@/lib/mapping";
+
+const PREVIEW_LIMIT = 50;
+
+interface MappingPreviewProps {
+  /** The mappings being edited, saved or not. */
+  fieldMappings: Record<string, unknown>;
+  /** The parsed sample, undefined until one is loaded. */
+  payload: unknown;
+  /** Why the sample could not be parsed. */
+  parseError?: string;
+}
+
+const formatCell = (value: unknown) =>
+  value === undefined || value === null
+    ? "—"
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+const MappingPreview: React.FC<MappingPreviewProps> = ({
+  fieldMappings,
+  payload,
+  parseError,
+}) => {
+  const { t } = useI18n();
+  const [selectedIndex, setSelectedIndex] = useState<number>(0);
+
+  useEffect(() => setSelectedIndex(0), [payload]);
+
+  const result = useMemo(
+    () =>
+      payload === undefined
+        ? null
+        : dryRunMapping(payload, fieldMappings, PREVIEW_LIMIT),
+    [payload, fieldMappings]
+  );
+  const selected = result?.records[selectedIndex] ?? result?.records[0];
+  const validCount = result?.records.filter((record) => record.row).length;
+
+  const renderResults = () => {
+    if (parseError) {
+      return (
+        <p className="text-sm text-red-500">
+          {t("mappingPreview.invalidJson", { reason: parseError })}
+        </p>
+      );
+    }
+    if (!result) {
+      return (
+        <p className="text-sm text-muted-foreground">
+          {t("mappingPreview.noSample")}
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        {result.mappingIssues.length > 0 && (
+          <ul className="text-sm text-red-600 list-disc ms-4">
+            {result.mappingIssues.map((issue) => (
+              <li key={issue.field}>
+                {t("mappingPreview.mappingIssue", {
+                  key: issue.field,
+                  reason: issue.reason,
+                })}
+              </li>
+            ))}
+          </ul>
+        )}
+        {result.error ? (
+          <p className="text-sm text-red-500">{result.error}</p>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {t("mappingPreview.summary", {
+              valid: validCount ?? 0,
+              count: result.records.length,
+            })}
+            {result.total > result.records.length &&
+              ` ${t("mappingPreview.limited", { total: result.total })}`}
+          </p>
+        )}
+
+        {result.records.length > 0 && (
+          <div className="rounded-md border max-h-[320px] overflow-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="p-2 text-start font-medium">#</th>
+                  {UNIFIED_FIELDS.map((field) => (
+                    <th key={field} className="p-2 text-start font-medium">
+                      {field}
+                    </th>
+                  ))}
+                  <th className="p-2 text-start font-medium">
+                    {t("mappingPreview.errors")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.records.map((record) => (
+                  <tr
+                    key={record.index}
+                    className={`border-b cursor-pointer hover:bg-muted/50 ${
+                      record.row ? "" : "bg-red-50 dark:bg-red-950"
+                    } ${record === selected ? "outline outline-1 outline-primary" : ""}`}
+                    onClick={() => setSelectedIndex(record.index)}
+                  >
+                    <td className="p-2">{record.index + 1}</td>
+                    {UNIFIED_FIELDS.map((field) => (
+                      <td key={field} className="p-2 whitespace-nowrap">
+                        {formatCell(record.mapped[field])}
+                      </td>
+                    ))}
+                    <td className="p-2 text-red-600">
+                      {record.issues
+                        .map((issue) => `${issue.field} ${issue.reason}`)
+                        .join("; ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {selected && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div>
+              <div className="text-sm font-medium mb-1">
+                {t("mappingPreview.sourceRecord", {
+                  index: String(selected.index + 1),
+                })}
+              </div>
+              <pre
+                dir="ltr"
+                className="text-xs bg-muted/30 border rounded-md p-2 max-h-60 overflow-auto"
+              >
+                {JSON.stringify(selected.source, null, 2)}
+              </pre>
+            </div>
+            <div>
+              <div className="text-sm font-medium mb-1">
+                {t("mappingPreview.unifiedRow")}
+              </div>
+              <pre
+                dir="ltr"
+                className="text-xs bg-muted/30 border rounded-md p-2 max-h-60 overflow-auto"
+              >
+                {JSON.stringify(selected.row ?? selected.mapped, null, 2)}
+              </pre>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-2 p-3 border rounded-md bg-muted/30 space-y-3">
+      <div className="flex items-center gap-2 font-medium text-sm">
+        <FlaskConical className="h-4 w-4" />
+        {t("mappingPreview.title")}
+      </div>
+      {renderResults()}
+    </div>
+  );
+};
+
+export default MappingPreview;
@@ -0,0 +1,61 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+
+import { useI18n } from "@/lib/i18n";
+import {
+  formatDateRange,
+  type FinancialEntry,
+  summarizeMissingRates,
+} from "@/lib/financial";
+
+interface MissingRatesNoticeProps {
+  unconverted: FinancialEntry[];
+  reportingCurrency: string;
+}
+
+const MissingRatesNotice: React.FC<MissingRatesNoticeProps> = ({
+  unconverted,
+  reportingCurrency,
+}) => {
+  const { t, locale } = useI18n();
+
+  if (unconverted.length === 0) return null;
+
+  const missing = summarizeMissingRates(unconverted);
+
+  return (
+    <div className="mb-4 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+      <div className="flex items-center gap-2">
+        <AlertTriangle className="h-4 w-4 text-amber-600" />
+        <span>
+          {t("missingRates.summary", {
+            count: unconverted.length,
+            currency: reportingCurrency,
+          })}
+        </span>
+      </div>
+      <ul className="mt-2 ms-6 list-disc space-y-1 text-xs">
+        {missing.map((group) => {
+          const period = formatDateRange(group.earliest, group.latest, locale);
+          const params = {
+            from: group.currency,
+            to: reportingCurrency,
+            kind: t(`rates.kind.${group.kind}`),
+            rows: t("common.rows", { count: group.count }),
+          };
+
+          return (
+            <li key={`${group.currency}:${group.kind}`}>
+              {period
+                ? t("missingRates.pairInPeriod", { ...params, period })
+                : t("missingRates.pair", params)}
+            </li>
+          );
+        })}
+      </ul>
+      <p className="mt-2 ms-6 text-xs">{t("missingRates.hint")}</p>
+    </div>
+  );
+};
+
+export default MissingRatesNotice;
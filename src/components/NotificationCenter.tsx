@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from "react";
+import { Bell, Info, CheckCircle, AlertCircle } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { useI18n, translateMessage } from "@/lib/i18n";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useNotifications } from "@/hooks/use-notifications";
+import {
+  Sheet,
+  SheetTitle,
+  SheetHeader,
+  SheetContent,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import {
+  type AppNotification,
+  removeNotifications,
+  markNotificationsRead,
+  type NotificationLevel,
+  browserNotificationsSupported,
+  browserNotificationsEnabled,
+  setBrowserNotificationsEnabled,
+} from "@/lib/notifications";
+
+const ALL_COMPANIES = "all";
+
+const LEVEL_ICONS: Record<NotificationLevel, React.ReactNode> = {
+  success: <CheckCircle className="h-4 w-4 text-green-500" />,
+  error: <AlertCircle className="h-4 w-4 text-red-500" />,
+  info: <Info className="h-4 w-4 text-slate-500" />,
+};
+
+const NotificationCenter: React.FC = () => {
+  const { t, dir, formatDateTime } = useI18n();
+  const notifications = useNotifications();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [companyFilter, setCompanyFilter] = useState<string>(ALL_COMPANIES);
+  const [isBrowserEnabled, setIsBrowserEnabled] = useState<boolean>(
+    browserNotificationsEnabled
+  );
+
+  const unreadCount = notifications.filter((n) => !n.read).length;
+  // Companies that have notifications, named as they were when notified.
+  const companies = useMemo(() => {
+    const names = new Map<string, string>();
+    notifications.forEach((n) => {
+      if (n.companyId && !names.has(n.companyId)) {
+        names.set(n.companyId, n.companyName ?? n.companyId);
+      }
+    });
+    return Array.from(names, ([id, name]) => ({ id, name }));
+  }, [notifications]);
+  const visible =
+    companyFilter === ALL_COMPANIES
+      ? notifications
+      : notifications.filter((n) => n.companyId === companyFilter);
+
+  const markVisibleRead = () =>
+    markNotificationsRead(visible.filter((n) => !n.read).map((n) => n.id));
+
+  const handleOpenChange = (open: boolean) => {
+    // What was on screen has been seen once the panel closes.
+    if (!open) markVisibleRead();
+    setIsOpen(open);
+  };
+
+  const handleBrowserToggle = async (enabled: boolean) => {
+    setIsBrowserEnabled(await setBrowserNotificationsEnabled(enabled));
+  };
+
+  const renderNotification = (notification: AppNotification) => (
+    <li
+      key={notification.id}
+      className={cn(
+        "flex gap-3 p-3 border-b last:border-b-0",
+        !notification.read && "bg-blue-50 dark:bg-blue-950"
+      )}
+      onClick={() => markNotificationsRead([notification.id])}
+    >
+      <div className="pt-0.5">{LEVEL_ICONS[notification.level]}</div>
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-start justify-between gap-2">
+          <span className="font-medium text-sm">
+            {translateMessage(t, notification.title)}
+          </span>
+          <Badge variant="secondary" className="shrink-0">
+            {t(`notifications.kind.${notification.kind}`)}
+          </Badge>
+        </div>
+        {notification.description && (
+          <p className="text-sm text-muted-foreground break-words">
+            {translateMessage(t, notification.description)}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {formatDateTime(new Date(notification.createdAt))}
+          {notification.companyName && ` · ${notification.companyName}`}
+        </p>
+      </div>
+    </li>
+  );
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="relative"
+        aria-label={t("notifications.open", { count: unreadCount })}
+        onClick={() => setIsOpen(true)}
+      >
+        <Bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1.5 -end-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs leading-5 text-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      <Sheet open={isOpen} onOpenChange={handleOpenChange}>
+        <SheetContent
+          side={dir === "rtl" ? "left" : "right"}
+          className="overflow-y-auto"
+          dir={dir}
+        >
+          <SheetHeader className="text-start sm:text-start">
+            <SheetTitle>{t("notifications.title")}</SheetTitle>
+            <SheetDescription>
+              {t("notifications.unread", { count: unreadCount })}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="mt-6 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                aria-label={t("notifications.company")}
+                className="flex-1 px-3 py-2 border rounded-md text-sm"
+                value={companyFilter}
+                onChange={(e) => setCompanyFilter(e.target.value)}
+              >
+                <option value={ALL_COMPANIES}>
+                  {t("notifications.allCompanies")}
+                </option>
+                {companies.map((company) => (
+                  <option key={company.id} value={company.id}>
+                    {company.name}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={markVisibleRead}
+                disabled={!visible.some((n) => !n.read)}
+              >
+                {t("notifications.markAllRead")}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => removeNotifications(visible.map((n) => n.id))}
+                disabled={visible.length === 0}
+              >
+                {t("notifications.clear")}
+              </Button>
+            </div>
+
+            {browserNotificationsSupported() && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={isBrowserEnabled}
+                  onChange={(e) => handleBrowserToggle(e.target.checked)}
+                />
+                {t("notifications.browser")}
+              </label>
+            )}
+
+            {visible.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-8 text-center">
+                {t("notifications.empty")}
+              </p>
+            ) : (
+              <ul className="rounded-md border">
+                {visible.map(renderNotification)}
+              </ul>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+};
+
+export default NotificationCenter;
@@ -0,0 +1,92 @@
+import React from "react";
+import {
+  Ban,
+  Circle,
+  XCircle,
+  Loader2,
+  MinusCircle,
+  CheckCircle,
+  type LucideIcon,
+} from "lucide-react";
+
+import { useI18n } from "@/lib/i18n";
+import {
+  stageLabel,
+  formatDuration,
+  stageDurationMs,
+  findFailedStage,
+  stageRejectedCount,
+} from "@/lib/jobs";
+import type { PipelineStage, PipelineStageStatus } from "@/lib/api";
+
+const STATUS_ICONS: Record<
+  PipelineStageStatus,
+  { icon: LucideIcon; className: string }
+> = {
+  pending: { icon: Circle, className: "text-gray-300" },
+  running: { icon: Loader2, className: "text-blue-500 animate-spin" },
+  completed: { icon: CheckCircle, className: "text-green-500" },
+  failed: { icon: XCircle, className: "text-red-500" },
+  cancelled: { icon: Ban, className: "text-gray-500" },
+  skipped: { icon: MinusCircle, className: "text-gray-300" },
+};
+
+// Statuses from newer backends render like a stage that has not started.
+const toKnownStatus = (status: string): PipelineStageStatus =>
+  status in STATUS_ICONS ? (status as PipelineStageStatus) : "pending";
+
+interface PipelineStepsProps {
+  /** In pipeline order, as the job reports them. */
+  stages: PipelineStage[];
+}
+
+const PipelineSteps: React.FC<PipelineStepsProps> = ({ stages }) => {
+  const { t } = useI18n();
+  const failedStage = findFailedStage(stages);
+
+  const renderStage = (stage: PipelineStage) => {
+    const status = toKnownStatus(stage.status);
+    const { icon: Icon, className } = STATUS_ICONS[status];
+    const rejected = stageRejectedCount(stage);
+    const isIdle = status === "pending" || status === "skipped";
+
+    return (
+      <li key={stage.name} className="flex items-center gap-2 text-sm">
+        <Icon className={`h-3 w-3 shrink-0 ${className}`} />
+        <span className={isIdle ? "text-muted-foreground" : ""}>
+          {stageLabel(stage.name, t)}
+        </span>
+        <span className="sr-only">{t(`pipeline.status.${status}`)}</span>
+        <span className="ms-auto flex gap-2 text-xs text-muted-foreground">
+          {stage.recordsOut !== undefined && (
+            <span>{t("pipeline.records", { count: stage.recordsOut })}</span>
+          )}
+          {rejected > 0 && (
+            <span className="text-amber-600">
+              {t("pipeline.rejected", { count: rejected })}
+            </span>
+          )}
+          {stage.startedAt && (
+            <span>{formatDuration(stageDurationMs(stage), t)}</span>
+          )}
+        </span>
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <ol className="space-y-1">{stages.map(renderStage)}</ol>
+      {failedStage && (
+        <p className="text-xs text-red-600">
+          {t("pipeline.failedAt", {
+            stage: stageLabel(failedStage.name, t),
+            error: failedStage.error ?? t("pipeline.status.failed"),
+          })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PipelineSteps;
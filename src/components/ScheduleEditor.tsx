@@ -0,0 +1,321 @@
+import React, { useState } from "react";
+import { CalendarClock } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { useI18n } from "@/lib/i18n";
+import { useNotify } from "@/hooks/use-notify";
+import { Button } from "@/components/ui/button";
+import { queryKeys } from "@/lib/query-client";
+import { useCompany } from "@/lib/company-context";
+import {
+  parseCron,
+  nextCronRuns,
+  WEEKDAY_NAMES,
+  browserTimeZone,
+  scheduleToDraft,
+  toScheduleInput,
+  scheduleMessage,
+  COMMON_TIME_ZONES,
+  type ScheduleDraft,
+} from "@/lib/schedules";
+import {
+  saveSchedule,
+  deleteSchedule,
+  describeError,
+  type SyncSchedule,
+  type DataSourceConfig,
+  type ScheduleFrequency,
+} from "@/lib/api";
+
+const PREVIEW_RUNS = 3;
+
+const FREQUENCIES: ScheduleFrequency[] = ["hourly", "daily", "weekly", "cron"];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+interface ScheduleEditorProps {
+  companyId: string;
+  config: DataSourceConfig;
+  schedule?: SyncSchedule;
+  onClose: () => void;
+}
+
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({
+  companyId,
+  config,
+  schedule,
+  onClose,
+}) => {
+  const { t, formatDateTime } = useI18n();
+  const { notify } = useNotify();
+  const { selectedCompany } = useCompany();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<ScheduleDraft>(() =>
+    scheduleToDraft(schedule)
+  );
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const { input, error } = toScheduleInput(draft);
+  const preview = input
+    ? nextCronRuns(
+        parseCron(input.cron).cron!,
+        input.timezone,
+        new Date(),
+        PREVIEW_RUNS
+      )
+    : [];
+
+  const timeZones = Array.from(
+    new Set([browserTimeZone(), ...COMMON_TIME_ZONES, draft.timezone])
+  );
+
+  const update = (changes: Partial<ScheduleDraft>) =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  const refreshSchedules = () =>
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.schedules(companyId),
+    });
+
+  const handleSave = async () => {
+    if (!input) return;
+
+    try {
+      setIsSaving(true);
+      const saved = await saveSchedule(companyId, config.id, input);
+      refreshSchedules();
+      notify({
+        kind: "config",
+        title: { key: "schedules.saved" },
+        description: saved.enabled
+          ? {
+              key: "schedules.savedText",
+              params: {
+                name: config.name,
+                schedule: scheduleMessage(saved),
+              },
+            }
+          : { key: "schedules.savedPausedText", params: { name: config.name } },
+        companyId,
+        companyName: selectedCompany?.name,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error saving schedule:", error);
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "schedules.saveFailed"),
+        variant: "destructive",
+        companyId,
+        companyName: selectedCompany?.name,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      setIsSaving(true);
+      await deleteSchedule(companyId, config.id);
+      refreshSchedules();
+      notify({
+        kind: "config",
+        title: { key: "schedules.removed" },
+        description: {
+          key: "schedules.removedText",
+          params: { name: config.name },
+        },
+        companyId,
+        companyName: selectedCompany?.name,
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error removing schedule:", error);
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "schedules.removeFailed"),
+        variant: "destructive",
+        companyId,
+        companyName: selectedCompany?.name,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderTimeInput = () => (
+    <div>
+      <label className="text-sm font-medium block mb-1">
+        {t("schedules.time")}
+      </label>
+      <input
+        type="time"
+        className="w-full px-3 py-2 border rounded-md"
+        value={`${pad(draft.hour)}:${pad(draft.minute)}`}
+        onChange={(e) => {
+          const [hour, minute] = e.target.value.split(":").map(Number);
+          if (!isNaN(hour) && !isNaN(minute)) update({ hour, minute });
+        }}
+      />
+    </div>
+  );
+
+  return (
+    <div className="mt-2 p-3 border rounded-md bg-muted/30 space-y-3">
+      <div className="flex items-center gap-2 font-medium text-sm">
+        <CalendarClock className="h-4 w-4" />
+        {t("schedules.title")}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={draft.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        {t("schedules.enabled")}
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <div>
+          <label className="text-sm font-medium block mb-1">
+            {t("schedules.frequency")}
+          </label>
+          <select
+            className="w-full px-3 py-2 border rounded-md"
+            value={draft.frequency}
+            onChange={(e) =>
+              update({ frequency: e.target.value as ScheduleFrequency })
+            }
+          >
+            {FREQUENCIES.map((frequency) => (
+              <option key={frequency} value={frequency}>
+                {t(`schedules.frequency.${frequency}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {draft.frequency === "hourly" && (
+          <div>
+            <label className="text-sm font-medium block mb-1">
+              {t("schedules.minute")}
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={59}
+              className="w-full px-3 py-2 border rounded-md"
+              value={draft.minute}
+              onChange={(e) => update({ minute: Number(e.target.value) })}
+            />
+          </div>
+        )}
+
+        {draft.frequency === "weekly" && (
+          <div>
+            <label className="text-sm font-medium block mb-1">
+              {t("schedules.weekday")}
+            </label>
+            <select
+              className="w-full px-3 py-2 border rounded-md"
+              value={draft.weekday}
+              onChange={(e) => update({ weekday: Number(e.target.value) })}
+            >
+              {WEEKDAY_NAMES.map((name, weekday) => (
+                <option key={weekday} value={weekday}>
+                  {t(name)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {(draft.frequency === "daily" || draft.frequency === "weekly") &&
+          renderTimeInput()}
+
+        {draft.frequency === "cron" && (
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium block mb-1">
+              {t("schedules.cron")}
+            </label>
+            <input
+              type="text"
+              dir="ltr"
+              className="w-full px-3 py-2 border rounded-md font-mono"
+              value={draft.cron}
+              onChange={(e) => update({ cron: e.target.value })}
+              placeholder="0 2 1 * *"
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="text-sm font-medium block mb-1">
+            {t("schedules.timezone")}
+          </label>
+          <select
+            className="w-full px-3 py-2 border rounded-md"
+            value={draft.timezone}
+            onChange={(e) => update({ timezone: e.target.value })}
+          >
+            {timeZones.map((timeZone) => (
+              <option key={timeZone} value={timeZone}>
+                {timeZone}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {draft.frequency === "cron" && (
+        <p className="text-xs text-muted-foreground">
+          {t("schedules.cronHelp")}
+        </p>
+      )}
+
+      {error ? (
+        <p className="text-sm text-red-500">
+          {t("schedules.invalid", { reason: error })}
+        </p>
+      ) : (
+        <div className="text-sm">
+          <div className="font-medium">{t("schedules.nextRuns")}</div>
+          {preview.length === 0 ? (
+            <p className="text-muted-foreground">{t("schedules.noUpcoming")}</p>
+          ) : (
+            <ul className="ms-4 list-disc text-muted-foreground">
+              {preview.map((run) => (
+                <li key={run.getTime()}>{formatDateTime(run)}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {schedule && (
+          <Button
+            variant="ghost"
+            className="text-red-600 me-auto"
+            onClick={handleRemove}
+            disabled={isSaving}
+          >
+            {t("schedules.remove")}
+          </Button>
+        )}
+        <Button variant="outline" onClick={onClose} disabled={isSaving}>
+          {t("common.cancel")}
+        </Button>
+        <Button onClick={handleSave} disabled={!input || isSaving}>
+          {t("schedules.save")}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleEditor;
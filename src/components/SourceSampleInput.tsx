@@ -0,0 +1,71 @@
+import React, { useRef } from "react";
+import { Upload, CloudDownload } from "lucide-react";
+
+import { useI18n } from "@/lib/i18n";
+import { Button } from "@/components/ui/button";
+import { type SourceSample } from "@/hooks/use-source-sample";
+
+interface SourceSampleInputProps {
+  sample: SourceSample;
+}
+
+const SourceSampleInput: React.FC<SourceSampleInputProps> = ({ sample }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) await sample.uploadSample(file);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground flex-1">
+          {t("mappingPreview.hint")}
+        </p>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleUpload}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4 me-1" />
+            {t("mappingPreview.upload")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={sample.fetchSample}
+            disabled={!sample.canFetch || sample.isFetching}
+            title={
+              sample.canFetch ? undefined : t("mappingPreview.saveToFetch")
+            }
+          >
+            <CloudDownload className="h-4 w-4 me-1" />
+            {t("mappingPreview.fetch")}
+          </Button>
+        </div>
+      </div>
+
+      <textarea
+        dir="ltr"
+        rows={6}
+        className="w-full px-3 py-2 border rounded-md font-mono text-xs"
+        value={sample.sampleText}
+        onChange={(e) => sample.setSampleText(e.target.value)}
+        placeholder={t("mappingPreview.placeholder")}
+      />
+    </div>
+  );
+};
+
+export default SourceSampleInput;
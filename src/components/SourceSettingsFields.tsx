@@ -0,0 +1,352 @@
+import React from "react";
+import { Plus, Trash } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import { useI18n, type MessageKey } from "@/lib/i18n";
+import { Button } from "@/components/ui/button";
+import {
+  FILE_FORMATS,
+  API_PAGINATIONS,
+  API_AUTH_SCHEMES,
+  DATABASE_DRIVERS,
+  type SourceSettings,
+  type FileSourceSettings,
+  DEFAULT_DATABASE_PORTS,
+  type ApiSourceSettings,
+  type DatabaseSourceSettings,
+} from "@/lib/api";
+
+const inputClass = "w-full px-3 py-2 border rounded-md";
+
+interface SourceSettingsFieldsProps {
+  value: SourceSettings;
+  onChange: (settings: SourceSettings) => void;
+  /** Validation message keys by field path, from `parseConfigInput`. */
+  errors: Record<string, MessageKey>;
+}
+
+const SourceSettingsFields: React.FC<SourceSettingsFieldsProps> = ({
+  value,
+  onChange,
+  errors,
+}) => {
+  const { t } = useI18n();
+
+  const renderField = (
+    field: string,
+    label: string,
+    control: React.ReactNode,
+    hint?: string
+  ) => (
+    <div>
+      <label className="text-sm font-medium block mb-1">{label}</label>
+      {control}
+      {errors[field] ? (
+        <p className="text-xs text-red-500 mt-1">{t(errors[field])}</p>
+      ) : (
+        hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>
+      )}
+    </div>
+  );
+
+  const textInput = (
+    field: string,
+    text: string | undefined,
+    onText: (text: string) => void,
+    placeholder?: string
+  ) => (
+    <input
+      type="text"
+      className={cn(inputClass, errors[field] && "border-red-500")}
+      value={text ?? ""}
+      onChange={(e) => onText(e.target.value)}
+      placeholder={placeholder}
+    />
+  );
+
+  const numberInput = (
+    field: string,
+    number: number,
+    onNumber: (number: number) => void
+  ) => (
+    <input
+      type="number"
+      className={cn(inputClass, errors[field] && "border-red-500")}
+      value={Number.isFinite(number) ? number : ""}
+      onChange={(e) => onNumber(e.target.valueAsNumber)}
+    />
+  );
+
+  const select = <T extends string>(
+    current: T,
+    options: readonly T[],
+    label: (option: T) => string,
+    onSelect: (option: T) => void
+  ) => (
+    <select
+      className={inputClass}
+      value={current}
+      onChange={(e) => onSelect(e.target.value as T)}
+    >
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {label(option)}
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderApi = (settings: ApiSourceSettings) => {
+    const update = (changes: Partial<ApiSourceSettings>) =>
+      onChange({ ...settings, ...changes });
+    const updateHeader = (
+      index: number,
+      changes: Partial<ApiSourceSettings["headers"][number]>
+    ) =>
+      update({
+        headers: settings.headers.map((header, i) =>
+          i === index ? { ...header, ...changes } : header
+        ),
+      });
+
+    return (
+      <>
+        {renderField(
+          "apiEndpoint",
+          t("sourceSettings.baseUrl"),
+          textInput(
+            "apiEndpoint",
+            settings.apiEndpoint,
+            (apiEndpoint) => update({ apiEndpoint }),
+            "https://api.example.com/v1"
+          )
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {renderField(
+            "authScheme",
+            t("sourceSettings.authScheme"),
+            select(
+              settings.authScheme,
+              API_AUTH_SCHEMES,
+              (scheme) => t(`sourceSettings.auth.${scheme}`),
+              (authScheme) => update({ authScheme })
+            ),
+            settings.authScheme === "none"
+              ? undefined
+              : t("sourceSettings.authHint")
+          )}
+          {renderField(
+            "pagination",
+            t("sourceSettings.pagination"),
+            select(
+              settings.pagination,
+              API_PAGINATIONS,
+              (pagination) => t(`sourceSettings.paging.${pagination}`),
+              (pagination) => update({ pagination })
+            )
+          )}
+        </div>
+        <div>
+          <label className="text-sm font-medium block mb-1">
+            {t("sourceSettings.headers")}
+          </label>
+          <div className="space-y-2">
+            {settings.headers.map((header, index) => (
+              <div key={index} className="space-y-1">
+                <div className="flex gap-2">
+                  <input
+                    dir="ltr"
+                    type="text"
+                    className={cn(
+                      inputClass,
+                      errors[`headers.${index}.name`] && "border-red-500"
+                    )}
+                    value={header.name}
+                    onChange={(e) =>
+                      updateHeader(index, { name: e.target.value })
+                    }
+                    placeholder={t("sourceSettings.headerName")}
+                  />
+                  <input
+                    dir="ltr"
+                    type="text"
+                    className={inputClass}
+                    value={header.value}
+                    onChange={(e) =>
+                      updateHeader(index, { value: e.target.value })
+                    }
+                    placeholder={t("sourceSettings.headerValue")}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 w-10 p-0 text-red-500 hover:text-red-600"
+                    onClick={() =>
+                      update({
+                        headers: settings.headers.filter((_, i) => i !== index),
+                      })
+                    }
+                    aria-label={t("sourceSettings.removeHeader")}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+                {errors[`headers.${index}.name`] && (
+                  <p className="text-xs text-red-500">
+                    {t(errors[`headers.${index}.name`])}
+                  </p>
+                )}
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                update({
+                  headers: [...settings.headers, { name: "", value: "" }],
+                })
+              }
+            >
+              <Plus className="h-4 w-4 me-1" />
+              {t("sourceSettings.addHeader")}
+            </Button>
+          </div>
+        </div>
+      </>
+    );
+  };
+
+  const renderDatabase = (settings: DatabaseSourceSettings) => {
+    const update = (changes: Partial<DatabaseSourceSettings>) =>
+      onChange({ ...settings, ...changes });
+
+    return (
+      <>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {renderField(
+            "driver",
+            t("sourceSettings.driver"),
+            select(
+              settings.driver,
+              DATABASE_DRIVERS,
+              (driver) => t(`sourceSettings.driver.${driver}`),
+              (driver) =>
+                update({
+                  driver,
+                  // Follow the driver while the port is still a default.
+                  port:
+                    settings.port === DEFAULT_DATABASE_PORTS[settings.driver]
+                      ? DEFAULT_DATABASE_PORTS[driver]
+                      : settings.port,
+                })
+            )
+          )}
+          {renderField(
+            "host",
+            t("sourceSettings.host"),
+            textInput("host", settings.host, (host) => update({ host }))
+          )}
+          {renderField(
+            "port",
+            t("sourceSettings.port"),
+            numberInput("port", settings.port, (port) => update({ port }))
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {renderField(
+            "database",
+            t("sourceSettings.database"),
+            textInput("database", settings.database, (database) =>
+              update({ database })
+            )
+          )}
+          {renderField(
+            "schema",
+            t("sourceSettings.schema"),
+            textInput(
+              "schema",
+              settings.schema,
+              (schema) => update({ schema }),
+              t("sourceSettings.optional")
+            )
+          )}
+        </div>
+        {renderField(
+          "query",
+          t("sourceSettings.query"),
+          <textarea
+            dir="ltr"
+            rows={4}
+            className={cn(
+              inputClass,
+              "font-mono text-xs",
+              errors.query && "border-red-500"
+            )}
+            value={settings.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="SELECT * FROM general_ledger"
+          />,
+          t("sourceSettings.queryHint")
+        )}
+      </>
+    );
+  };
+
+  const renderFile = (settings: FileSourceSettings) => {
+    const update = (changes: Partial<FileSourceSettings>) =>
+      onChange({ ...settings, ...changes });
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {renderField(
+          "format",
+          t("sourceSettings.format"),
+          select(
+            settings.format,
+            FILE_FORMATS,
+            (format) => t(`sourceSettings.format.${format}`),
+            (format) => update({ format })
+          )
+        )}
+        {settings.format === "csv" &&
+          renderField(
+            "delimiter",
+            t("sourceSettings.delimiter"),
+            textInput("delimiter", settings.delimiter, (delimiter) =>
+              update({ delimiter })
+            )
+          )}
+        {settings.format === "xlsx" &&
+          renderField(
+            "sheet",
+            t("sourceSettings.sheet"),
+            textInput(
+              "sheet",
+              settings.sheet,
+              (sheet) => update({ sheet }),
+              t("sourceSettings.firstSheet")
+            )
+          )}
+        {settings.format !== "json" &&
+          renderField(
+            "headerRow",
+            t("sourceSettings.headerRow"),
+            numberInput("headerRow", settings.headerRow, (headerRow) =>
+              update({ headerRow })
+            )
+          )}
+      </div>
+    );
+  };
+
+  switch (value.sourceType) {
+    case "api":
+      return renderApi(value);
+    case "database":
+      return renderDatabase(value);
+    case "file":
+      return renderFile(value);
+  }
+};
+
+export default SourceSettingsFields;
@@ -0,0 +1,32 @@
+import { useState, useEffect, useMemo } from "react";
+
+import {
+  type ActiveJob,
+  getActiveJobs,
+  verifyActiveJobs,
+  subscribeActiveJobs,
+} from "@/lib/jobs";
+
+/**
+ * Jobs of a company that any open tab (or this one before a reload)
+ * started or saw running and no tab has seen finish yet. The stored list
+ * is checked against the server whenever the company changes, so a job that
+ * ended unseen does not stay listed.
+ */
+export function useActiveJobs(companyId: string | undefined): ActiveJob[] {
+  const [jobs, setJobs] = useState<ActiveJob[]>(getActiveJobs);
+
+  useEffect(() => subscribeActiveJobs(() => setJobs(getActiveJobs())), []);
+
+  useEffect(() => {
+    if (!companyId) return;
+    verifyActiveJobs(companyId).catch((error) =>
+      console.error("Error checking active jobs:", error)
+    );
+  }, [companyId]);
+
+  return useMemo(
+    () => jobs.filter((job) => job.companyId === companyId),
+    [jobs, companyId]
+  );
+}
@@ -0,0 +1,191 @@
+import { useRef, useState, useEffect, useCallback } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { useNotify } from "@/hooks/use-notify";
+import { queryKeys } from "@/lib/query-client";
+import {
+  type ETLJob,
+  startSync,
+  describeError,
+  isTerminalJobStatus,
+} from "@/lib/api";
+import {
+  trackJob,
+  markJobActive,
+  claimBulkItems,
+  isCompanySyncing,
+  type BulkSyncItem,
+  createBulkQueue,
+  summarizeBulkSync,
+  applyJobToBulkItem,
+  DEFAULT_BULK_CONCURRENCY,
+} from "@/lib/jobs";
+
+/**
+ * A queue of company-wide syncs run at most `concurrency` at a time. The
+ * queue lives as long as the calling component, so mount it somewhere that
+ * outlives the view showing it.
+ */
+export function useBulkSync() {
+  const { notify } = useNotify();
+  const queryClient = useQueryClient();
+  const [items, setItems] = useState<BulkSyncItem[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(
+    DEFAULT_BULK_CONCURRENCY
+  );
+  const trackers = useRef(new Map<string, () => void>());
+  const summary = summarizeBulkSync(items);
+
+  // Companies this queue has started (see `claimBulkItems`).
+  const startedIds = useRef(new Set<string>());
+
+  const updateItem = useCallback(
+    (companyId: string, update: (item: BulkSyncItem) => BulkSyncItem) =>
+      setItems((prev) =>
+        prev.map((item) => (item.companyId === companyId ? update(item) : item))
+      ),
+    []
+  );
+
+  const handleJobUpdate = useCallback(
+    (companyId: string, job: ETLJob) => {
+      updateItem(companyId, (item) => applyJobToBulkItem(item, job));
+      if (!isTerminalJobStatus(job.status)) return;
+
+      trackers.current.delete(companyId);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.companyJobs(companyId),
+      });
+      if (job.status === "completed") {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.financialData(companyId),
+        });
+      }
+    },
+    [queryClient, updateItem]
+  );
+
+  const startItem = useCallback(
+    async ({ companyId }: BulkSyncItem) => {
+      updateItem(companyId, (item) => ({ ...item, status: "starting" }));
+
+      try {
+        // A sync already running, wherever it was started, is left alone.
+        if (await isCompanySyncing(companyId)) {
+          updateItem(companyId, (item) => ({
+            ...item,
+            status: "skipped",
+            message: { key: "bulk.alreadyRunning" },
+          }));
+          return;
+        }
+
+        const { jobId } = await startSync(companyId);
+        markJobActive({ jobId, companyId });
+        updateItem(companyId, (item) => ({
+          ...item,
+          status: "running",
+          jobId,
+        }));
+        trackers.current.set(
+          companyId,
+          trackJob(jobId, {
+            onUpdate: (job) => handleJobUpdate(companyId, job),
+            onError: (error) => console.error("Bulk sync job error:", error),
+            onUnavailable: (error) => {
+              console.error("Bulk sync job can no longer be followed:", error);
+              trackers.current.delete(companyId);
+              updateItem(companyId, (item) => ({
+                ...item,
+                status: "failed",
+                message: { key: "etl.jobUnavailable" },
+              }));
+            },
+          })
+        );
+      } catch (error) {
+        console.error("Error starting bulk sync job:", error);
+        updateItem(companyId, (item) => ({
+          ...item,
+          status: "failed",
+          message: describeError(error, "etl.startFailed"),
+        }));
+      }
+    },
+    [updateItem, handleJobUpdate]
+  );
+
+  useEffect(() => {
+    claimBulkItems(items, concurrency, startedIds.current).forEach(startItem);
+  }, [items, concurrency, startItem]);
+
+  const wasFinished = useRef(true);
+  useEffect(() => {
+    if (!wasFinished.current && summary.isFinished && summary.total > 0) {
+      notify({
+        id: `bulk-sync-${Date.now()}`,
+        kind: "job",
+        title: { key: "bulk.finishedTitle" },
+        description: {
+          key: "bulk.finishedText",
+          params: {
+            completed: summary.completed,
+            failed: summary.failed,
+            count: summary.total,
+          },
+        },
+        variant: summary.failed > 0 ? "destructive" : "default",
+        browser: true,
+      });
+    }
+    wasFinished.current = summary.isFinished;
+  }, [
+    notify,
+    summary.total,
+    summary.failed,
+    summary.completed,
+    summary.isFinished,
+  ]);
+
+  useEffect(
+    () => () => {
+      trackers.current.forEach((stop) => stop());
+    },
+    []
+  );
+
+  /** Queues a sync for every company; ignored while a queue is running. */
+  const start = useCallback(
+    (companies: { id: string; name: string }[]) => {
+      if (!summary.isFinished) return;
+      startedIds.current.clear();
+      setItems(createBulkQueue(companies));
+    },
+    [summary.isFinished]
+  );
+
+  /** Skips every company still waiting; running syncs are left to finish. */
+  const stop = useCallback(
+    () =>
+      setItems((prev) =>
+        prev.map((item) =>
+          item.status === "pending" ? { ...item, status: "skipped" } : item
+        )
+      ),
+    []
+  );
+
+  const clear = useCallback(() => {
+    if (summary.isFinished) setItems([]);
+  }, [summary.isFinished]);
+
+  return {
+    items,
+    summary,
+    concurrency,
+    setConcurrency,
+    start,
+    stop,
+    clear,
+  };
+}
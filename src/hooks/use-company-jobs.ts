@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { queryKeys } from "@/lib/query-client";
+import { fetchCompanyJobs, isTerminalJobStatus } from "@/lib/api";
+
+const ACTIVE_JOB_REFRESH_MS = 5000;
+
+/**
+ * ETL jobs for a company, newest first. Refetches every few seconds while
+ * a run is still in progress so its row settles without a manual refresh;
+ * ETLControls invalidates the cache when it starts or finishes a run.
+ */
+export function useCompanyJobs(companyId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.companyJobs(companyId ?? ""),
+    queryFn: () => fetchCompanyJobs(companyId!),
+    enabled: Boolean(companyId),
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => !isTerminalJobStatus(job.status))
+        ? ACTIVE_JOB_REFRESH_MS
+        : false,
+  });
+}
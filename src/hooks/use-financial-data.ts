@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { queryKeys } from "@/lib/query-client";
+import { fetchFinancialData } from "@/lib/api";
+
+/**
+ * Financial data for a company, cached per company id. DataTable and
+ * Dashboard share this cache; ETLControls invalidates it after a sync.
+ */
+export function useFinancialData(companyId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.financialData(companyId ?? ""),
+    queryFn: () => fetchFinancialData(companyId!),
+    enabled: Boolean(companyId),
+  });
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from "react";
+
+import { type ETLJob } from "@/lib/api";
+import { trackJob, type JobTrackerTransport } from "@/lib/jobs";
+
+interface JobEventHandlers {
+  onUpdate: (job: ETLJob) => void;
+  onError?: (error: unknown) => void;
+  /** The job can no longer be followed, e.g. it was deleted. */
+  onUnavailable?: (error: unknown) => void;
+}
+
+/**
+ * Streams updates for `jobId` until it finishes, sharing one stream across
+ * browser tabs (see `trackJob`). The channel is closed when the component
+ * unmounts or `jobId` changes (pass undefined to stop). Handlers may change
+ * between renders without reopening the channel.
+ */
+export function useJobEvents(
+  jobId: string | undefined,
+  handlers: JobEventHandlers
+) {
+  const [transport, setTransport] = useState<JobTrackerTransport | null>(null);
+  const [isReconnecting, setIsReconnecting] = useState<boolean>(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!jobId) {
+      setTransport(null);
+      return;
+    }
+
+    const unsubscribe = trackJob(jobId, {
+      onUpdate: (job) => {
+        setIsReconnecting(false);
+        handlersRef.current.onUpdate(job);
+      },
+      onError: (error) => {
+        setIsReconnecting(true);
+        handlersRef.current.onError?.(error);
+      },
+      onUnavailable: (error) => {
+        setIsReconnecting(false);
+        setTransport(null);
+        handlersRef.current.onUnavailable?.(error);
+      },
+      onTransportChange: setTransport,
+    });
+
+    return () => {
+      unsubscribe();
+      setIsReconnecting(false);
+    };
+  }, [jobId]);
+
+  return { transport, isReconnecting };
+}
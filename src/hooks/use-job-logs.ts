@@ -0,0 +1,30 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+import { fetchJobLogs } from "@/lib/api";
+import { queryKeys } from "@/lib/query-client";
+
+const LIVE_LOG_REFRESH_MS = 1500;
+
+/**
+ * The structured log of a job. While `live` is set (the job is still
+ * running) the log is refetched every couple of seconds to tail new lines,
+ * and once more when it goes false to pick up the closing lines.
+ */
+export function useJobLogs(jobId: string | undefined, live: boolean) {
+  const query = useQuery({
+    queryKey: queryKeys.jobLogs(jobId ?? ""),
+    queryFn: () => fetchJobLogs(jobId!),
+    enabled: Boolean(jobId),
+    refetchInterval: live ? LIVE_LOG_REFRESH_MS : false,
+  });
+
+  const { refetch } = query;
+  const wasLive = useRef(live);
+  useEffect(() => {
+    if (wasLive.current && !live && jobId) refetch();
+    wasLive.current = live;
+  }, [live, jobId, refetch]);
+
+  return query;
+}
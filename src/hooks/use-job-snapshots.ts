@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { queryKeys } from "@/lib/query-client";
+import { fetchJobSnapshots } from "@/lib/api";
+
+/**
+ * The financial data before and after a completed job. A finished job's
+ * snapshots never change, so they are fetched once per job.
+ */
+export function useJobSnapshots(jobId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.jobSnapshots(jobId ?? ""),
+    queryFn: () => fetchJobSnapshots(jobId!),
+    enabled: Boolean(jobId),
+    staleTime: Infinity,
+  });
+}
@@ -0,0 +1,20 @@
+import { useState, useEffect } from "react";
+
+import {
+  type AppNotification,
+  getNotifications,
+  subscribeNotifications,
+} from "@/lib/notifications";
+
+/** The notification history shared by every open tab, newest first. */
+export function useNotifications(): AppNotification[] {
+  const [notifications, setNotifications] =
+    useState<AppNotification[]>(getNotifications);
+
+  useEffect(
+    () => subscribeNotifications(() => setNotifications(getNotifications())),
+    []
+  );
+
+  return notifications;
+}
@@ -0,0 +1,47 @@
+import { useCallback } from "react";
+
+import { useI18n, translateMessage } from "@/lib/i18n";
+import { useToast } from "@/hooks/use-toast";
+import {
+  addNotification,
+  type NotificationInput,
+  showBrowserNotification,
+} from "@/lib/notifications";
+
+export interface NotifyOptions extends Omit<NotificationInput, "level"> {
+  /** Defaults to `error` for destructive toasts and `success` otherwise. */
+  level?: NotificationInput["level"];
+  variant?: "default" | "destructive";
+  /** Also raise a system notification when this tab is in the background. */
+  browser?: boolean;
+}
+
+/**
+ * Shows a toast and records it in the notification center, so the message
+ * is still there after the toast is gone. Title and description are stored
+ * as message keys and translated for the toast here.
+ */
+export function useNotify() {
+  const { t } = useI18n();
+  const { toast } = useToast();
+
+  const notify = useCallback(
+    ({ variant, level, browser = false, ...input }: NotifyOptions) => {
+      const { title, description } = input;
+      toast({
+        title: translateMessage(t, title),
+        description: description && translateMessage(t, description),
+        variant,
+      });
+
+      const notification = addNotification({
+        ...input,
+        level: level ?? (variant === "destructive" ? "error" : "success"),
+      });
+      if (notification && browser) showBrowserNotification(notification, t);
+    },
+    [t, toast]
+  );
+
+  return { notify };
+}
@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query";
+
+import { queryKeys } from "@/lib/query-client";
+import { fetchSchedules } from "@/lib/api";
+
+/**
+ * Sync schedules of a company. CompanyManager edits them and invalidates
+ * the cache; ETLControls reads them for next-run times.
+ */
+export function useSchedules(companyId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.schedules(companyId ?? ""),
+    queryFn: () => fetchSchedules(companyId!),
+    enabled: Boolean(companyId),
+  });
+}
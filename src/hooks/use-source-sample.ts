@@ -0,0 +1,67 @@
+import { useMemo, useState, useCallback } from "react";
+
+import { useI18n } from "@/lib/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage, fetchSourceSample } from "@/lib/api";
+
+const parseSample = (text: string): { payload?: unknown; error?: string } => {
+  if (!text.trim()) return {};
+  try {
+    return { payload: JSON.parse(text) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+/**
+ * A sample payload for a data source, pasted, uploaded or fetched from the
+ * saved config. Shared by the mapping builder, which lists its fields, and
+ * the dry run, which maps it.
+ */
+export function useSourceSample(companyId: string, configId?: string) {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  const [sampleText, setSampleText] = useState<string>("");
+  const [isFetching, setIsFetching] = useState<boolean>(false);
+
+  const { payload, error: parseError } = useMemo(
+    () => parseSample(sampleText),
+    [sampleText]
+  );
+
+  const uploadSample = useCallback(async (file: File) => {
+    setSampleText(await file.text());
+  }, []);
+
+  const fetchSample = useCallback(async () => {
+    if (!configId) return;
+
+    try {
+      setIsFetching(true);
+      const sample = await fetchSourceSample(companyId, configId);
+      setSampleText(JSON.stringify(sample, null, 2));
+    } catch (error) {
+      console.error("Error fetching source sample:", error);
+      toast({
+        title: t("common.error"),
+        description: getErrorMessage(error, "mappingPreview.fetchFailed", t),
+        variant: "destructive",
+      });
+    } finally {
+      setIsFetching(false);
+    }
+  }, [companyId, configId, t, toast]);
+
+  return {
+    sampleText,
+    setSampleText,
+    payload,
+    parseError,
+    isFetching,
+    canFetch: Boolean(configId),
+    uploadSample,
+    fetchSample,
+  };
+}
+
+export type SourceSample = ReturnType<typeof useSourceSample>;
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import { en } from "@/lib/i18n/en";
+import { ar } from "@/lib/i18n/ar";
+import { createTranslator } from "@/lib/i18n";
+
+import {
+  HttpError,
+  NetworkError,
+  describeError,
+  getErrorMessage,
+  ResponseParseError,
+} from "./client";
+
+const t = createTranslator(en, "en-US", en);
+const FAILED = "etl.startFailed";
+
+describe("getErrorMessage", () => {
+  it("translates each failure from its class, not its English message", () => {
+    expect(getErrorMessage(new NetworkError("offline"), FAILED, t)).toBe(
+      en["common.networkError"]
+    );
+    expect(getErrorMessage(new HttpError(500, "boom"), FAILED, t)).toBe(
+      "Failed to start ETL process (HTTP 500)"
+    );
+    expect(
+      getErrorMessage(new HttpError(409, "boom", "Name taken"), FAILED, t)
+    ).toBe("Failed to start ETL process (HTTP 409: Name taken)");
+    expect(getErrorMessage(new ResponseParseError("bad"), FAILED, t)).toBe(
+      "Failed to start ETL process: the server returned an invalid response."
+    );
+  });
+
+  it("uses the active catalog and falls back for unknown errors", () => {
+    const arabic = createTranslator(ar, "ar", en);
+    expect(getErrorMessage(new HttpError(500, "boom"), FAILED, arabic)).toBe(
+      `${ar[FAILED]} (HTTP 500)`
+    );
+    expect(getErrorMessage(new Error("boom"), FAILED, t)).toBe(en[FAILED]);
+  });
+});
+
+describe("describeError", () => {
+  it("keeps the failure as keys for translating later", () => {
+    expect(
+      describeError(new HttpError(409, "boom", "Name taken"), FAILED)
+    ).toEqual({
+      key: "common.httpErrorDetail",
+      params: { message: { key: FAILED }, status: "409", detail: "Name taken" },
+    });
+  });
+});
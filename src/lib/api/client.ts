@@ -0,0 +1,167 @@
+import {
+  type Translate,
+  type MessageKey,
+  translateMessage,
+  type MessageDescriptor,
+} from "@/lib/i18n";
+
+/**
+ * Base class for every failure raised by the API client. `message` is
+ * English for logs; components show `getErrorMessage`, which translates
+ * from the concrete subclass.
+ */
+export class ApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/** The server answered, but with a non-2xx status. */
+export class HttpError extends ApiError {
+  readonly status: number;
+  readonly bodyMessage?: string;
+
+  constructor(status: number, message: string, bodyMessage?: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+    this.bodyMessage = bodyMessage;
+  }
+}
+
+/** The request never reached the server (offline, DNS, CORS, aborted). */
+export class NetworkError extends ApiError {
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "NetworkError";
+    this.cause = cause;
+  }
+}
+
+/** The server answered 2xx but the body was not the JSON we expected. */
+export class ResponseParseError extends ApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResponseParseError";
+  }
+}
+
+const extractBodyMessage = async (
+  response: Response
+): Promise<string | undefined> => {
+  try {
+    const text = await response.text();
+    if (!text) return undefined;
+
+    try {
+      const body = JSON.parse(text);
+      if (typeof body === "string") return body;
+      return body?.message || body?.error || undefined;
+    } catch {
+      return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+    }
+  } catch {
+    return undefined;
+  }
+};
+
+/** Prefix for every API path; proxied to the backend in development. */
+export const API_BASE = "/api";
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+/**
+ * Performs a JSON request against the `/api` proxy and raises a typed
+ * `ApiError` subclass on failure. `action` is a short human description
+ * ("fetch companies") used to build error messages.
+ */
+export const request = async <T>(
+  path: string,
+  action: string,
+  { method = "GET", body, signal }: RequestOptions = {}
+): Promise<T> => {
+  let response: Response;
+
+  try {
+    response = await fetch(`${API_BASE}${path}`, {
+      method,
+      signal,
+      headers:
+        body !== undefined ? { "Content-Type": "application/json" } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  } catch (error) {
+    throw new NetworkError(
+      `Could not reach the server to ${action}. Check your connection.`,
+      error
+    );
+  }
+
+  if (!response.ok) {
+    const bodyMessage = await extractBodyMessage(response);
+    throw new HttpError(
+      response.status,
+      `Failed to ${action} (HTTP ${response.status})${
+        bodyMessage ? `: ${bodyMessage}` : ""
+      }`,
+      bodyMessage
+    );
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  const text = await response.text();
+  if (!text) {
+    return undefined as T;
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new ResponseParseError(
+      `Failed to ${action}: the server returned an invalid response.`
+    );
+  }
+};
+
+/**
+ * The message for any error thrown by the client, kept as a key so it can
+ * be stored and translated later. `fallback` says what failed; HTTP and
+ * parse failures add their detail to it.
+ */
+export const describeError = (
+  error: unknown,
+  fallback: MessageKey
+): MessageDescriptor => {
+  const message = { key: fallback };
+  if (error instanceof NetworkError) return { key: "common.networkError" };
+  if (error instanceof HttpError) {
+    const status = String(error.status);
+    return error.bodyMessage
+      ? {
+          key: "common.httpErrorDetail",
+          params: { message, status, detail: error.bodyMessage },
+        }
+      : { key: "common.httpError", params: { message, status } };
+  }
+  if (error instanceof ResponseParseError) {
+    return { key: "common.invalidResponse", params: { message } };
+  }
+  return message;
+};
+
+/** `describeError`, translated with `t`. */
+export const getErrorMessage = (
+  error: unknown,
+  fallback: MessageKey,
+  t: Translate
+): string => translateMessage(t, describeError(error, fallback));
@@ -0,0 +1,90 @@
+import { request } from "./client";
+import { normalizeCompany, normalizeConfig } from "./normalize";
+import type {
+  Company,
+  CompanyInput,
+  DataSourceConfig,
+  DataSourceConfigInput,
+} from "./types";
+
+type RawRecord = Record<string, unknown>;
+
+export const fetchCompanies = async (): Promise<Company[]> => {
+  const data = await request<RawRecord[]>("/companies", "fetch companies");
+  return (data || []).map(normalizeCompany);
+};
+
+export const createCompany = async (input: CompanyInput): Promise<Company> => {
+  const data = await request<RawRecord>("/companies", "create company", {
+    method: "POST",
+    body: input,
+  });
+  return normalizeCompany(data);
+};
+
+export const updateCompany = async (
+  companyId: string,
+  input: CompanyInput
+): Promise<Company> => {
+  const data = await request<RawRecord>(
+    `/companies/${companyId}`,
+    "update company",
+    { method: "PUT", body: input }
+  );
+  return normalizeCompany(data);
+};
+
+export const deleteCompany = async (companyId: string): Promise<void> => {
+  await request<void>(`/companies/${companyId}`, "delete company", {
+    method: "DELETE",
+  });
+};
+
+export const createConfig = async (
+  companyId: string,
+  input: DataSourceConfigInput
+): Promise<DataSourceConfig> => {
+  const data = await request<RawRecord>(
+    `/companies/${companyId}/config`,
+    "add configuration",
+    { method: "POST", body: input }
+  );
+  return normalizeConfig(data);
+};
+
+export const updateConfig = async (
+  companyId: string,
+  configId: string,
+  input: DataSourceConfigInput
+): Promise<DataSourceConfig> => {
+  const data = await request<RawRecord>(
+    `/companies/${companyId}/config/${configId}`,
+    "update configuration",
+    { method: "PUT", body: input }
+  );
+  return normalizeConfig(data);
+};
+
+export const deleteConfig = async (
+  companyId: string,
+  configId: string
+): Promise<void> => {
+  await request<void>(
+    `/companies/${companyId}/config/${configId}`,
+    "delete configuration",
+    { method: "DELETE" }
+  );
+};
+
+/**
+ * Recent raw records from a data source, in the shape the source sends
+ * them (before field mappings are applied). Nothing is synced.
+ */
+export const fetchSourceSample = async (
+  companyId: string,
+  configId: string
+): Promise<unknown> =>
+  request<unknown>(
+    `/companies/${companyId}/config/${configId}/sample`,
+    "fetch source sample"
+  );
@@ -0,0 +1,170 @@
+import { request, ResponseParseError } from "./client";
+import { normalizeJob, normalizeLogEntry } from "./normalize";
+import {
+  validateFinancialRows,
+  jobSnapshotsEnvelopeSchema,
+  financialDataEnvelopeSchema,
+} from "./schemas";
+import type {
+  ETLJob,
+  SyncResult,
+  JobLogEntry,
+  JobDataSnapshots,
+  FinancialDataRow,
+  FinancialDataResponse,
+} from "./types";
+
+type RawRecord = Record<string, unknown>;
+
+/** Syncs every data source of a company, or only `sourceId` when given. */
+export const startSync = async (
+  companyId: string,
+  sourceId?: string
+): Promise<SyncResult> => {
+  const data = await request<RawRecord>(
+    sourceId ? `/etl/sync/${companyId}/${sourceId}` : `/etl/sync/${companyId}`,
+    "start ETL process",
+    { method: "POST" }
+  );
+
+  const jobId = data?.jobId ?? data?.id;
+  if (jobId == null) {
+    throw new ResponseParseError(
+      "Failed to start ETL process: the server did not return a job id."
+    );
+  }
+
+  return { jobId: String(jobId) };
+};
+
+/**
+ * Sends rows parsed from an uploaded file to a file data source. They go
+ * through the same pipeline as a sync and replace the source's data.
+ */
+export const uploadSourceRows = async (
+  companyId: string,
+  sourceId: string,
+  upload: { fileName: string; rows: FinancialDataRow[] }
+): Promise<SyncResult> => {
+  const data = await request<RawRecord>(
+    `/etl/upload/${companyId}/${sourceId}`,
+    "upload file data",
+    { method: "POST", body: upload }
+  );
+
+  const jobId = data?.jobId ?? data?.id;
+  if (jobId == null) {
+    throw new ResponseParseError(
+      "Failed to upload file data: the server did not return a job id."
+    );
+  }
+
+  return { jobId: String(jobId) };
+};
+
+export const fetchJob = async (jobId: string): Promise<ETLJob> => {
+  const data = await request<RawRecord>(
+    `/etl/job/${jobId}`,
+    "fetch job status"
+  );
+  return normalizeJob(data);
+};
+
+/**
+ * Asks the backend to stop a running job. The job moves to `cancelling`
+ * and settles as `cancelled` once the pipeline has stopped.
+ */
+export const cancelJob = async (jobId: string): Promise<ETLJob> => {
+  const data = await request<RawRecord>(
+    `/etl/job/${jobId}/cancel`,
+    "cancel ETL job",
+    { method: "POST" }
+  );
+  return normalizeJob(data);
+};
+
+/** Re-runs a failed or cancelled job with the original job's parameters. */
+export const retryJob = async (jobId: string): Promise<SyncResult> => {
+  const data = await request<RawRecord>(
+    `/etl/job/${jobId}/retry`,
+    "retry ETL job",
+    { method: "POST" }
+  );
+
+  const retryId = data?.jobId ?? data?.id;
+  if (retryId == null) {
+    throw new ResponseParseError(
+      "Failed to retry ETL job: the server did not return a job id."
+    );
+  }
+
+  return { jobId: String(retryId) };
+};
+
+/** The job's structured log so far, oldest line first. */
+export const fetchJobLogs = async (jobId: string): Promise<JobLogEntry[]> => {
+  const data = await request<RawRecord[]>(
+    `/etl/job/${jobId}/logs`,
+    "fetch job log"
+  );
+  return (data || []).map(normalizeLogEntry).sort((a, b) => a.seq - b.seq);
+};
+
+/**
+ * The company's financial data before and after a completed job, for
+ * diffing. The server only keeps these for runs it completed itself.
+ */
+export const fetchJobSnapshots = async (
+  jobId: string
+): Promise<JobDataSnapshots> => {
+  const payload = await request<unknown>(
+    `/etl/job/${jobId}/diff`,
+    "fetch job data changes"
+  );
+
+  const envelope = jobSnapshotsEnvelopeSchema.safeParse(payload);
+  if (!envelope.success) {
+    throw new ResponseParseError(
+      "Failed to fetch job data changes: the response is missing the `before` or `after` array."
+    );
+  }
+
+  const before = validateFinancialRows(envelope.data.before);
+  const after = validateFinancialRows(envelope.data.after);
+  return { before: before.rows, after: after.rows, issues: after.issues };
+};
+
+/** All jobs for a company, newest first. */
+export const fetchCompanyJobs = async (
+  companyId: string
+): Promise<ETLJob[]> => {
+  const data = await request<RawRecord[]>(
+    `/etl/jobs/company/${companyId}`,
+    "fetch job history"
+  );
+  return (data || [])
+    .map(normalizeJob)
+    .sort(
+      (a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+};
+
+export const fetchFinancialData = async (
+  companyId: string
+): Promise<FinancialDataResponse> => {
+  const payload = await request<unknown>(
+    `/etl/financial-data/${companyId}`,
+    "fetch financial data"
+  );
+
+  const envelope = financialDataEnvelopeSchema.safeParse(payload);
+  if (!envelope.success) {
+    throw new ResponseParseError(
+      "Failed to fetch financial data: the response is missing a `data` array."
+    );
+  }
+
+  const { rows, issues } = validateFinancialRows(envelope.data.data);
+  return { data: rows, issues };
+};
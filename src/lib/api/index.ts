@@ -0,0 +1,8 @@
+export * from "./types";
+export * from "./client";
+export * from "./schemas";
+export * from "./sources";
+export * from "./companies";
+export * from "./etl";
+export * from "./schedules";
+export * from "./job-events";
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { fetchJob } from "./etl";
+import { HttpError } from "./client";
+import type { ETLJob } from "./types";
+import { subscribeToJob } from "./job-events";
+
+vi.mock("./etl", () => ({ fetchJob: vi.fn() }));
+
+// Node has no EventSource, so these exercise the polling fallback.
+
+const job = (status: string) => ({ id: "job-1", status }) as ETLJob;
+
+const handlers = () => ({
+  onUpdate: vi.fn(),
+  onError: vi.fn(),
+  onUnavailable: vi.fn(),
+});
+
+describe("subscribeToJob", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(fetchJob).mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("polls until the job finishes", async () => {
+    vi.mocked(fetchJob)
+      .mockResolvedValueOnce(job("running"))
+      .mockResolvedValueOnce(job("completed"));
+    const subscription = handlers();
+    subscribeToJob("job-1", subscription);
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(subscription.onUpdate.mock.calls).toEqual([
+      [job("running")],
+      [job("completed")],
+    ]);
+    expect(fetchJob).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps retrying server and network errors", async () => {
+    vi.mocked(fetchJob)
+      .mockRejectedValueOnce(new HttpError(503, "down"))
+      .mockRejectedValueOnce(new TypeError("offline"))
+      .mockResolvedValueOnce(job("completed"));
+    const subscription = handlers();
+    subscribeToJob("job-1", subscription);
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(subscription.onError).toHaveBeenCalledTimes(2);
+    expect(subscription.onUnavailable).not.toHaveBeenCalled();
+    expect(subscription.onUpdate).toHaveBeenCalledWith(job("completed"));
+  });
+
+  it("stops when the server no longer knows the job", async () => {
+    const notFound = new HttpError(404, "missing");
+    vi.mocked(fetchJob).mockRejectedValue(notFound);
+    const subscription = handlers();
+    subscribeToJob("job-1", subscription);
+
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(subscription.onUnavailable).toHaveBeenCalledWith(notFound);
+    expect(subscription.onError).not.toHaveBeenCalled();
+    expect(fetchJob).toHaveBeenCalledTimes(1);
+  });
+});
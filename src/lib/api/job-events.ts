@@ -0,0 +1,138 @@
+import { fetchJob } from "./etl";
+import { API_BASE, HttpError } from "./client";
+import { normalizeJob } from "./normalize";
+import type { ETLJob } from "./types";
+
+export type JobEventsTransport = "sse" | "polling";
+
+export interface JobSubscription {
+  /** Called with every new snapshot of the job, including the final one. */
+  onUpdate: (job: ETLJob) => void;
+  /** Called when the channel drops; the subscription keeps retrying. */
+  onError?: (error: unknown) => void;
+  /**
+   * Called instead of `onError` when retrying cannot help, e.g. the job no
+   * longer exists. The subscription has stopped.
+   */
+  onUnavailable?: (error: unknown) => void;
+  onTransportChange?: (transport: JobEventsTransport) => void;
+}
+
+const TERMINAL_STATUSES = ["completed", "failed", "cancelled"];
+
+export const isTerminalJobStatus = (status: string) =>
+  TERMINAL_STATUSES.includes(status.toLowerCase());
+
+const POLL_INTERVAL_MS = 2000;
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+/** Consecutive stream failures before switching to polling. */
+const MAX_STREAM_FAILURES = 3;
+
+const backoff = (attempt: number) =>
+  Math.min(MAX_BACKOFF_MS, INITIAL_BACKOFF_MS * 2 ** attempt);
+
+/** Client errors other than timeouts and rate limits answer the same again. */
+const isRetryable = (error: unknown) =>
+  !(error instanceof HttpError) ||
+  error.status >= 500 ||
+  error.status === 408 ||
+  error.status === 429;
+
+/**
+ * Follows a job until it reaches a terminal status. Updates arrive over
+ * Server-Sent Events from `/api/etl/job/:id/events`; when the stream keeps
+ * failing (or EventSource is unavailable) it falls back to polling
+ * `/api/etl/job/:id`. Both paths retry with exponential backoff; only a
+ * poll answered with a non-retryable HTTP error (such as 404) stops the
+ * subscription. Returns a function that closes the channel.
+ */
+export const subscribeToJob = (
+  jobId: string,
+  { onUpdate, onError, onUnavailable, onTransportChange }: JobSubscription
+): (() => void) => {
+  let closed = false;
+  let source: EventSource | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let streamFailures = 0;
+  let pollFailures = 0;
+
+  const schedule = (callback: () => void, delay: number) => {
+    if (closed) return;
+    timer = setTimeout(callback, delay);
+  };
+
+  const deliver = (job: ETLJob) => {
+    if (closed) return;
+    onUpdate(job);
+    if (isTerminalJobStatus(job.status)) close();
+  };
+
+  const poll = async () => {
+    try {
+      const job = await fetchJob(jobId);
+      pollFailures = 0;
+      deliver(job);
+      schedule(poll, POLL_INTERVAL_MS);
+    } catch (error) {
+      if (closed) return;
+      if (!isRetryable(error)) {
+        close();
+        onUnavailable?.(error);
+        return;
+      }
+      onError?.(error);
+      schedule(poll, backoff(pollFailures++));
+    }
+  };
+
+  const startPolling = () => {
+    onTransportChange?.("polling");
+    poll();
+  };
+
+  const connect = () => {
+    if (closed) return;
+
+    source = new EventSource(`${API_BASE}/etl/job/${jobId}/events`);
+    onTransportChange?.("sse");
+
+    source.addEventListener("job", (event) => {
+      streamFailures = 0;
+      try {
+        deliver(normalizeJob(JSON.parse((event as MessageEvent).data)));
+      } catch (error) {
+        onError?.(error);
+      }
+    });
+
+    source.onerror = (error) => {
+      source?.close();
+      source = null;
+      if (closed) return;
+
+      onError?.(error);
+      streamFailures += 1;
+      if (streamFailures >= MAX_STREAM_FAILURES) {
+        startPolling();
+      } else {
+        schedule(connect, backoff(streamFailures - 1));
+      }
+    };
+  };
+
+  const close = () => {
+    closed = true;
+    source?.close();
+    source = null;
+    if (timer) clearTimeout(timer);
+  };
+
+  if (typeof EventSource === "undefined") {
+    startPolling();
+  } else {
+    connect();
+  }
+
+  return close;
+};
@@ -0,0 +1,98 @@
+import type {
+  ETLJob,
+  Company,
+  JobLogEntry,
+  PipelineStage,
+  SyncSchedule,
+  DataSourceConfig,
+  ScheduleFrequency,
+} from "./types";
+import { isSourceType, defaultSourceSettings } from "./sources";
+
+// The backend sends numeric ids and omits empty collections; every caller
+// works with string ids and always-present arrays.
+
+type RawRecord = Record<string, unknown>;
+
+// Configs saved before a setting existed get its default, so forms always
+// have every field of their source type.
+export const normalizeConfig = (raw: RawRecord): DataSourceConfig => {
+  const type = raw.sourceType ?? raw.type;
+  const sourceType = isSourceType(type) ? type : "api";
+  const defaults = defaultSourceSettings(sourceType);
+  const settings = Object.fromEntries(
+    Object.entries(defaults).map(([key, value]) => [key, raw[key] ?? value])
+  );
+
+  return {
+    ...settings,
+    id: String(raw.id),
+    name: String(raw.name ?? ""),
+    sourceType,
+    fieldMappings: (raw.fieldMappings as Record<string, unknown>) || {},
+  } as DataSourceConfig;
+};
+
+export const normalizeCompany = (raw: RawRecord): Company => ({
+  ...raw,
+  id: String(raw.id),
+  name: String(raw.name ?? ""),
+  description: (raw.description as string) || undefined,
+  currency: String(raw.currency || "USD").toUpperCase(),
+  configs: ((raw.configs as RawRecord[]) || []).map(normalizeConfig),
+});
+
+const optionalNumber = (value: unknown) =>
+  value != null ? Number(value) : undefined;
+
+export const normalizeStage = (raw: RawRecord): PipelineStage => ({
+  name: String(raw.name),
+  status: String(raw.status ?? "pending"),
+  startedAt: (raw.startedAt as string) || undefined,
+  finishedAt: (raw.finishedAt as string) || undefined,
+  recordsIn: optionalNumber(raw.recordsIn),
+  recordsOut: optionalNumber(raw.recordsOut),
+  error: (raw.error as string) || undefined,
+});
+
+export const normalizeJob = (raw: RawRecord): ETLJob => ({
+  ...raw,
+  id: String(raw.id),
+  status: String(raw.status ?? "pending"),
+  message: String(raw.message ?? ""),
+  progress: Number(raw.progress) || 0,
+  stage: raw.stage != null ? String(raw.stage) : undefined,
+  stages: ((raw.stages as RawRecord[]) || []).map(normalizeStage),
+  companyId: String(raw.companyId),
+  sourceId: raw.sourceId != null ? String(raw.sourceId) : undefined,
+  rowCount: optionalNumber(raw.rowCount),
+  retryOf: raw.retryOf != null ? String(raw.retryOf) : undefined,
+  createdAt: String(raw.createdAt),
+  updatedAt: String(raw.updatedAt ?? raw.createdAt),
+});
+
+export const normalizeLogEntry = (
+  raw: RawRecord,
+  index: number
+): JobLogEntry => ({
+  seq: raw.seq != null ? Number(raw.seq) : index + 1,
+  timestamp: String(raw.timestamp ?? raw.time),
+  level: String(raw.level ?? "info").toLowerCase(),
+  stage: raw.stage != null ? String(raw.stage) : undefined,
+  source: (raw.source as string) || undefined,
+  message: String(raw.message ?? ""),
+  rowId: raw.rowId != null ? String(raw.rowId) : undefined,
+});
+
+export const normalizeSchedule = (raw: RawRecord): SyncSchedule => ({
+  ...raw,
+  id: String(raw.id),
+  companyId: String(raw.companyId),
+  sourceId: String(raw.sourceId),
+  frequency: String(raw.frequency ?? "cron") as ScheduleFrequency,
+  cron: String(raw.cron ?? ""),
+  timezone: String(raw.timezone || "UTC"),
+  enabled: raw.enabled !== false,
+  lastRunAt: (raw.lastRunAt as string) || undefined,
+  nextRunAt: (raw.nextRunAt as string) || undefined,
+});
@@ -0,0 +1,41 @@
+import { request } from "./client";
+import { normalizeSchedule } from "./normalize";
+import type { SyncSchedule, SyncScheduleInput } from "./types";
+
+type RawRecord = Record<string, unknown>;
+
+/** Every sync schedule of a company; at most one per data source. */
+export const fetchSchedules = async (
+  companyId: string
+): Promise<SyncSchedule[]> => {
+  const data = await request<RawRecord[]>(
+    `/companies/${companyId}/schedules`,
+    "fetch sync schedules"
+  );
+  return (data || []).map(normalizeSchedule);
+};
+
+/** Creates or replaces the schedule of a data source. */
+export const saveSchedule = async (
+  companyId: string,
+  configId: string,
+  input: SyncScheduleInput
+): Promise<SyncSchedule> => {
+  const data = await request<RawRecord>(
+    `/companies/${companyId}/config/${configId}/schedule`,
+    "save sync schedule",
+    { method: "PUT", body: input }
+  );
+  return normalizeSchedule(data);
+};
+
+export const deleteSchedule = async (
+  companyId: string,
+  configId: string
+): Promise<void> => {
+  await request<void>(
+    `/companies/${companyId}/config/${configId}/schedule`,
+    "delete sync schedule",
+    { method: "DELETE" }
+  );
+};
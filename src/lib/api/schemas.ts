@@ -0,0 +1,124 @@
+import { z } from "zod";
+
+import type { DataIssue, FinancialDataRow } from "./types";
+
+const optionalText = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform((value) =>
+    value === null || value === undefined || value === ""
+      ? undefined
+      : String(value)
+  );
+
+const optionalDate = z
+  .string({ invalid_type_error: "must be an ISO date string" })
+  .nullish()
+  .refine((value) => !value || !isNaN(new Date(value).getTime()), {
+    message: "is not a valid date",
+  })
+  .transform((value) => value || undefined);
+
+// Amounts stay decimal strings so money math never sees a float.
+const amount = z.union(
+  [
+    z.number().finite("must be a finite number").transform(String),
+    z
+      .string()
+      .trim()
+      .regex(/^[-+]?\d+(\.\d+)?$/, "must be a numeric string"),
+  ],
+  {
+    errorMap: (issue, ctx) =>
+      issue.code === "invalid_union"
+        ? { message: "must be a number or numeric string" }
+        : { message: ctx.defaultError },
+  }
+);
+
+const currency = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, "must be a 3-letter ISO 4217 code")
+  .nullish()
+  .transform((value) => value?.toUpperCase() || undefined);
+
+export const financialDataRowSchema = z
+  .object({
+    id: optionalText,
+    amount,
+    currency,
+    category: optionalText,
+    subcategory: optionalText,
+    lineItemName: optionalText,
+    sourceName: optionalText,
+    fromDate: optionalDate,
+    toDate: optionalDate,
+    metadata: z
+      .object({ depth: z.number().int().nonnegative().optional() })
+      .passthrough()
+      .nullish()
+      .transform((value) => value ?? undefined),
+  })
+  .passthrough()
+  .superRefine((row, ctx) => {
+    if (
+      row.fromDate &&
+      row.toDate &&
+      new Date(row.toDate) < new Date(row.fromDate)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["toDate"],
+        message: "is before fromDate",
+      });
+    }
+  });
+
+export const financialDataEnvelopeSchema = z.object({
+  data: z.array(z.unknown()),
+});
+
+export const jobSnapshotsEnvelopeSchema = z.object({
+  before: z.array(z.unknown()),
+  after: z.array(z.unknown()),
+});
+
+const describeRow = (raw: unknown, index: number): string => {
+  const id = (raw as { id?: unknown } | null)?.id;
+  return id !== undefined && id !== null && id !== ""
+    ? String(id)
+    : `row #${index + 1}`;
+};
+
+/**
+ * Validates each row of a financial-data payload independently. Valid rows
+ * are returned typed; every invalid row is reported once per failing field
+ * and excluded, so totals are never computed from guessed values.
+ */
+export const validateFinancialRows = (
+  rawRows: unknown[]
+): { rows: FinancialDataRow[]; issues: DataIssue[] } => {
+  const rows: FinancialDataRow[] = [];
+  const issues: DataIssue[] = [];
+
+  rawRows.forEach((raw, index) => {
+    const result = financialDataRowSchema.safeParse(raw);
+
+    if (result.success) {
+      rows.push(result.data as FinancialDataRow);
+      return;
+    }
+
+    const rowId = describeRow(raw, index);
+    result.error.issues.forEach((issue) => {
+      issues.push({
+        rowId,
+        field: issue.path.length > 0 ? issue.path.join(".") : "(row)",
+        reason: issue.message,
+      });
+    });
+  });
+
+  return { rows, issues };
+};
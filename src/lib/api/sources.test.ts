@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+
+import type { DataSourceConfigInput } from "./types";
+import {
+  configFieldLabel,
+  parseConfigInput,
+  defaultSourceSettings,
+} from "./sources";
+
+const config = (changes: object) =>
+  ({
+    name: "Ledger",
+    fieldMappings: {},
+    ...defaultSourceSettings("database"),
+    host: "db.local",
+    database: "finance",
+    query: "SELECT * FROM ledger",
+    ...changes,
+  }) as DataSourceConfigInput;
+
+describe("parseConfigInput", () => {
+  it("returns the cleaned input when the config is valid", () => {
+    const { input, errors } = parseConfigInput(config({ schema: " " }));
+    expect(errors).toEqual({});
+    expect(input).toMatchObject({ port: 5432, schema: undefined });
+  });
+
+  it("reports message keys by field path", () => {
+    const { input, errors } = parseConfigInput(
+      config({ name: " ", port: 70000, query: "DROP TABLE ledger" })
+    );
+    expect(input).toBeUndefined();
+    expect(errors).toEqual({
+      name: "sourceSettings.error.required",
+      port: "sourceSettings.error.portRange",
+      query: "sourceSettings.error.readOnlyQuery",
+    });
+  });
+
+  it.each([
+    "WITH x AS (DELETE FROM ledger RETURNING *) SELECT * FROM x",
+    "SELECT 1; DROP TABLE ledger",
+    "SELECT * INTO backup FROM ledger",
+    "SELECT * FROM ledger FOR UPDATE",
+    "SELECT * FROM ledger FOR NO KEY UPDATE",
+    "SELECT * FROM ledger LOCK IN SHARE MODE",
+    "WITH x AS MATERIALIZED ( UPDATE ledger SET a = 1 RETURNING *) SELECT 1",
+    "DROP TABLE ledger",
+  ])("rejects %s as not read-only", (query) => {
+    expect(parseConfigInput(config({ query })).errors).toEqual({
+      query: "sourceSettings.error.readOnlyQuery",
+    });
+  });
+
+  it.each([
+    "SELECT * FROM ledger;",
+    "SELECT replace(name, ' ', '') FROM ledger",
+    "WITH recent AS (SELECT * FROM ledger) SELECT updated_at FROM recent",
+    "SELECT 'drop; delete' AS note, \"update\" FROM ledger -- no writes",
+    "SELECT lock, copy AS call, merge, rename FROM ledger",
+  ])("accepts %s", (query) => {
+    expect(parseConfigInput(config({ query })).errors).toEqual({});
+  });
+
+  it("maps issues raised without a message by their code", () => {
+    const { errors } = parseConfigInput(
+      config({ driver: "oracle", host: undefined })
+    );
+    expect(errors).toEqual({
+      driver: "sourceSettings.error.invalid",
+      host: "sourceSettings.error.required",
+    });
+  });
+
+  it("checks header names and CSV delimiters", () => {
+    const api = parseConfigInput(
+      config({
+        ...defaultSourceSettings("api"),
+        apiEndpoint: "ftp://example.com",
+        headers: [{ name: "X Bad", value: "" }],
+      })
+    );
+    expect(api.errors).toEqual({
+      apiEndpoint: "sourceSettings.error.httpUrl",
+      "headers.0.name": "sourceSettings.error.headerName",
+    });
+
+    const file = parseConfigInput(
+      config({ ...defaultSourceSettings("file"), delimiter: ";;" })
+    );
+    expect(file.errors).toEqual({
+      delimiter: "sourceSettings.error.singleCharacter",
+    });
+  });
+});
+
+describe("configFieldLabel", () => {
+  it("labels nested paths by their field", () => {
+    expect(configFieldLabel("headers.2.name")).toBe(
+      "sourceSettings.headerName"
+    );
+    expect(configFieldLabel("config")).toBe("sourceSettings.config");
+  });
+});
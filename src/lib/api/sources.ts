@@ -0,0 +1,258 @@
+import { z } from "zod";
+
+import type { MessageKey } from "@/lib/i18n";
+
+import type {
+  SourceType,
+  DatabaseDriver,
+  SourceSettings,
+  DataSourceConfigInput,
+} from "./types";
+
+export const SOURCE_TYPES: SourceType[] = ["api", "database", "file"];
+export const API_AUTH_SCHEMES = ["none", "bearer", "basic", "apiKey"] as const;
+export const API_PAGINATIONS = ["none", "page", "offset", "cursor"] as const;
+export const DATABASE_DRIVERS = ["postgres", "mysql", "sqlserver"] as const;
+export const FILE_FORMATS = ["csv", "xlsx", "json"] as const;
+
+export const DEFAULT_DATABASE_PORTS: Record<DatabaseDriver, number> = {
+  postgres: 5432,
+  mysql: 3306,
+  sqlserver: 1433,
+};
+
+export const isSourceType = (value: unknown): value is SourceType =>
+  SOURCE_TYPES.includes(value as SourceType);
+
+/** Settings a new source of `sourceType` starts with. */
+export const defaultSourceSettings = (
+  sourceType: SourceType
+): SourceSettings => {
+  switch (sourceType) {
+    case "api":
+      return {
+        sourceType,
+        apiEndpoint: "",
+        authScheme: "none",
+        headers: [],
+        pagination: "none",
+      };
+    case "database":
+      return {
+        sourceType,
+        driver: "postgres",
+        host: "",
+        port: DEFAULT_DATABASE_PORTS.postgres,
+        database: "",
+        schema: "",
+        query: "",
+      };
+    case "file":
+      return {
+        sourceType,
+        format: "csv",
+        delimiter: ",",
+        sheet: "",
+        headerRow: 1,
+      };
+  }
+};
+
+/**
+ * `config` switched to `sourceType`. Settings of the old type are dropped
+ * rather than sent along with the new ones.
+ */
+export const withSourceType = <T extends DataSourceConfigInput>(
+  config: T,
+  sourceType: SourceType
+): T => {
+  if (config.sourceType === sourceType) return config;
+  const next: DataSourceConfigInput = {
+    name: config.name,
+    fieldMappings: config.fieldMappings,
+    ...defaultSourceSettings(sourceType),
+  };
+  return ("id" in config ? { ...next, id: config.id } : next) as T;
+};
+
+export const emptyConfigInput = (): DataSourceConfigInput => ({
+  name: "",
+  fieldMappings: {},
+  ...defaultSourceSettings("api"),
+});
+
+// Validation messages are catalog keys; forms render them with `t()`.
+const ERRORS = {
+  required: "sourceSettings.error.required",
+  invalid: "sourceSettings.error.invalid",
+  url: "sourceSettings.error.url",
+  httpUrl: "sourceSettings.error.httpUrl",
+  headerName: "sourceSettings.error.headerName",
+  number: "sourceSettings.error.number",
+  wholeNumber: "sourceSettings.error.wholeNumber",
+  portRange: "sourceSettings.error.portRange",
+  atLeastOne: "sourceSettings.error.atLeastOne",
+  readOnlyQuery: "sourceSettings.error.readOnlyQuery",
+  singleCharacter: "sourceSettings.error.singleCharacter",
+} satisfies Record<string, MessageKey>;
+
+/** Keys for issues zod raises without a message, e.g. a bad enum value. */
+const configErrorMap: z.ZodErrorMap = (issue) => ({
+  message:
+    issue.code === z.ZodIssueCode.invalid_type &&
+    issue.received === z.ZodParsedType.undefined
+      ? ERRORS.required
+      : ERRORS.invalid,
+});
+
+/** The label of each config field, by the first segment of its path. */
+const CONFIG_FIELD_LABELS: Record<string, MessageKey> = {
+  name: "sourceSettings.name",
+  apiEndpoint: "sourceSettings.baseUrl",
+  authScheme: "sourceSettings.authScheme",
+  headers: "sourceSettings.headerName",
+  pagination: "sourceSettings.pagination",
+  driver: "sourceSettings.driver",
+  host: "sourceSettings.host",
+  port: "sourceSettings.port",
+  database: "sourceSettings.database",
+  schema: "sourceSettings.schema",
+  query: "sourceSettings.query",
+  format: "sourceSettings.format",
+  delimiter: "sourceSettings.delimiter",
+  sheet: "sourceSettings.sheet",
+  headerRow: "sourceSettings.headerRow",
+};
+
+/** The label key for an error path from `parseConfigInput`. */
+export const configFieldLabel = (field: string): MessageKey =>
+  CONFIG_FIELD_LABELS[field.split(".")[0]] ?? "sourceSettings.config";
+
+const required = z.string().trim().min(1, ERRORS.required);
+
+// RFC 7230 token characters.
+const headerName = z
+  .string()
+  .trim()
+  .regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, ERRORS.headerName);
+
+// Clauses that make a SELECT write or lock: SELECT ... INTO creates a
+// table, a parenthesized INSERT/UPDATE/DELETE/MERGE is a data-modifying
+// CTE, and FOR UPDATE / LOCK IN SHARE MODE lock rows. Other statements are
+// already ruled out by the leading verb, so columns named `lock` or
+// `copy` are fine.
+const WRITE_CLAUSES =
+  /\binto\b|\(\s*(insert|update|delete|merge)\b|\bfor\s+(no\s+key\s+update|key\s+share|update|share)\b|\block\s+in\s+share\s+mode\b/i;
+
+/**
+ * Whether `query` is a single SELECT (or WITH ... SELECT) that changes
+ * nothing. Literals, quoted identifiers and comments are blanked first so
+ * only the statement's own keywords count; one trailing `;` is allowed.
+ */
+const isReadOnlyQuery = (query: string) => {
+  const code = query
+    .replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]/g, " ")
+    .replace(/--[^\n]*|\/\*[\s\S]*?\*\//g, " ")
+    .trim()
+    .replace(/;$/, "");
+  return (
+    /^(select|with)\b/i.test(code) &&
+    !code.includes(";") &&
+    !WRITE_CLAUSES.test(code)
+  );
+};
+
+const baseConfigSchema = z.object({
+  name: required,
+  fieldMappings: z.record(z.unknown()),
+});
+
+const apiConfigSchema = baseConfigSchema.extend({
+  sourceType: z.literal("api"),
+  apiEndpoint: z
+    .string()
+    .trim()
+    .url(ERRORS.url)
+    .refine((url) => /^https?:\/\//i.test(url), {
+      message: ERRORS.httpUrl,
+    }),
+  authScheme: z.enum(API_AUTH_SCHEMES),
+  headers: z.array(z.object({ name: headerName, value: z.string() })),
+  pagination: z.enum(API_PAGINATIONS),
+});
+
+const databaseConfigSchema = baseConfigSchema.extend({
+  sourceType: z.literal("database"),
+  driver: z.enum(DATABASE_DRIVERS),
+  host: required,
+  port: z.coerce
+    .number({ invalid_type_error: ERRORS.number })
+    .int(ERRORS.wholeNumber)
+    .min(1, ERRORS.portRange)
+    .max(65535, ERRORS.portRange),
+  database: required,
+  schema: z
+    .string()
+    .trim()
+    .optional()
+    .transform((value) => value || undefined),
+  query: required.refine(isReadOnlyQuery, { message: ERRORS.readOnlyQuery }),
+});
+
+const fileConfigSchema = baseConfigSchema.extend({
+  sourceType: z.literal("file"),
+  format: z.enum(FILE_FORMATS),
+  delimiter: z.string().optional(),
+  sheet: z
+    .string()
+    .trim()
+    .optional()
+    .transform((value) => value || undefined),
+  headerRow: z.coerce
+    .number({ invalid_type_error: ERRORS.number })
+    .int(ERRORS.wholeNumber)
+    .min(1, ERRORS.atLeastOne),
+});
+
+export const dataSourceConfigInputSchema = z
+  .discriminatedUnion("sourceType", [
+    apiConfigSchema,
+    databaseConfigSchema,
+    fileConfigSchema,
+  ])
+  .superRefine((config, ctx) => {
+    if (
+      config.sourceType === "file" &&
+      config.format === "csv" &&
+      config.delimiter?.length !== 1
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["delimiter"],
+        message: ERRORS.singleCharacter,
+      });
+    }
+  });
+
+/**
+ * Validates a config form before it is sent. Returns the cleaned input, or
+ * the first problem per field keyed by path (e.g. `headers.0.name`), as a
+ * message key.
+ */
+export const parseConfigInput = (
+  input: DataSourceConfigInput
+): { input?: DataSourceConfigInput; errors: Record<string, MessageKey> } => {
+  const result = dataSourceConfigInputSchema.safeParse(input, {
+    errorMap: configErrorMap,
+  });
+  if (result.success) {
+    return { input: result.data as DataSourceConfigInput, errors: {} };
+  }
+
+  const errors: Record<string, MessageKey> = {};
+  result.error.issues.forEach((issue) => {
+    const field = issue.path.join(".") || "config";
+    errors[field] ??= issue.message as MessageKey;
+  });
+  return { errors };
+};
@@ -0,0 +1,195 @@
+export type SourceType = "api" | "database" | "file";
+
+export type ApiAuthScheme = "none" | "bearer" | "basic" | "apiKey";
+export type ApiPagination = "none" | "page" | "offset" | "cursor";
+export type DatabaseDriver = "postgres" | "mysql" | "sqlserver";
+export type FileFormat = "csv" | "xlsx" | "json";
+
+export interface ApiHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * Connection settings of an API source. Credentials stay on the backend;
+ * `authScheme` only says how they are sent.
+ */
+export interface ApiSourceSettings {
+  sourceType: "api";
+  /** Base URL the source's requests are made against. */
+  apiEndpoint: string;
+  authScheme: ApiAuthScheme;
+  headers: ApiHeader[];
+  pagination: ApiPagination;
+}
+
+export interface DatabaseSourceSettings {
+  sourceType: "database";
+  driver: DatabaseDriver;
+  host: string;
+  port: number;
+  database: string;
+  schema?: string;
+  /** Read-only query whose result rows are the source records. */
+  query: string;
+}
+
+export interface FileSourceSettings {
+  sourceType: "file";
+  format: FileFormat;
+  /** Column separator of CSV files. */
+  delimiter?: string;
+  /** Worksheet of XLSX files; the first sheet when empty. */
+  sheet?: string;
+  /** 1-based row holding the column names. */
+  headerRow: number;
+}
+
+export type SourceSettings =
+  ApiSourceSettings | DatabaseSourceSettings | FileSourceSettings;
+
+export type DataSourceConfigInput = {
+  name: string;
+  fieldMappings: Record<string, unknown>;
+} & SourceSettings;
+
+export type DataSourceConfig = { id: string } & DataSourceConfigInput;
+
+export interface Company {
+  id: string;
+  name: string;
+  description?: string;
+  /** ISO 4217 code the company reports in. */
+  currency: string;
+  configs: DataSourceConfig[];
+}
+
+export interface CompanyInput {
+  name: string;
+  description?: string;
+  currency?: string;
+}
+
+export type ScheduleFrequency = "hourly" | "daily" | "weekly" | "cron";
+
+/** A recurring sync of one data source. */
+export interface SyncSchedule {
+  id: string;
+  companyId: string;
+  sourceId: string;
+  /** How the schedule was entered; `cron` holds the expression either way. */
+  frequency: ScheduleFrequency;
+  /** Five-field cron expression evaluated in `timezone`. */
+  cron: string;
+  /** IANA time zone, e.g. "Africa/Cairo". */
+  timezone: string;
+  enabled: boolean;
+  lastRunAt?: string;
+  /** Next run as planned by the backend, when it reports one. */
+  nextRunAt?: string;
+}
+
+export type SyncScheduleInput = Pick<
+  SyncSchedule,
+  "frequency" | "cron" | "timezone" | "enabled"
+>;
+
+export type ETLJobStatus =
+  | "pending"
+  | "processing"
+  | "cancelling"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type PipelineStageName =
+  "extract" | "validate" | "map" | "transform" | "load";
+
+export type PipelineStageStatus =
+  "pending" | "running" | "completed" | "failed" | "cancelled" | "skipped";
+
+export interface PipelineStage {
+  name: PipelineStageName | string;
+  status: PipelineStageStatus | string;
+  startedAt?: string;
+  finishedAt?: string;
+  recordsIn?: number;
+  recordsOut?: number;
+  /** Why the stage failed. */
+  error?: string;
+}
+
+export interface ETLJob {
+  id: string;
+  status: ETLJobStatus | string;
+  message: string;
+  progress: number;
+  /** Pipeline stage the job is in, when the backend reports one. */
+  stage?: string;
+  /** Per-stage breakdown in pipeline order; empty for older backends. */
+  stages: PipelineStage[];
+  companyId: string;
+  sourceId?: string;
+  /** Records loaded by a completed run, when the backend reports it. */
+  rowCount?: number;
+  /** Id of the failed or cancelled job this run retries. */
+  retryOf?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type JobLogLevel = "debug" | "info" | "warn" | "error";
+
+/** One structured line of `/api/etl/job/:jobId/logs`. */
+export interface JobLogEntry {
+  /** Position in the job's log; lines are returned in this order. */
+  seq: number;
+  timestamp: string;
+  level: JobLogLevel | string;
+  stage?: string;
+  /** Name of the data source the line is about. */
+  source?: string;
+  message: string;
+  /** Id of the record the line is about, e.g. a rejected row. */
+  rowId?: string;
+}
+
+export interface SyncResult {
+  jobId: string;
+}
+
+/** A validated row of `/api/etl/financial-data/:companyId`. */
+export interface FinancialDataRow {
+  id?: string;
+  category?: string;
+  subcategory?: string;
+  lineItemName?: string;
+  /** Exact decimal string, e.g. "-1250.75". */
+  amount: string;
+  /** ISO 4217 code; rows without one are in the company's currency. */
+  currency?: string;
+  fromDate?: string;
+  toDate?: string;
+  sourceName?: string;
+  metadata?: { depth?: number } & Record<string, unknown>;
+}
+
+/** A row the API sent that failed validation and was left out of `data`. */
+export interface DataIssue {
+  rowId: string;
+  field: string;
+  reason: string;
+}
+
+export interface FinancialDataResponse {
+  data: FinancialDataRow[];
+  issues: DataIssue[];
+}
+
+/** A company's financial data as it was before and after a job ran. */
+export interface JobDataSnapshots {
+  before: FinancialDataRow[];
+  after: FinancialDataRow[];
+  /** Problems with rows of `after`; invalid rows are left out of both. */
+  issues: DataIssue[];
+}
@@ -1,33 +1,82 @@
-import React, { createContext, useState, useContext, ReactNode } from "react";
+import React, {
+  createContext,
+  useState,
+  useContext,
+  ReactNode,
+  useCallback,
+} from "react";
 
-interface Company {
-  id: string;
-  name: string;
-  description?: string;
-  configs: any[];
-}
+import type { Company } from "@/lib/api";
+
+const REPORTING_CURRENCY_STORAGE_KEY = "kudwa.reportingCurrency";
 
 interface CompanyContextType {
   selectedCompany: Company | null;
   setSelectedCompany: (company: Company | null) => void;
+  /** Currency figures are shown in; defaults to the company's currency. */
+  reportingCurrency: string;
+  setReportingCurrency: (currency: string) => void;
 }
 
 const CompanyContext = createContext<CompanyContextType>({
   selectedCompany: null,
   setSelectedCompany: () => {},
+  reportingCurrency: "USD",
+  setReportingCurrency: () => {},
 });
 
+const loadCurrencyOverrides = (): Record<string, string> => {
+  try {
+    return JSON.parse(
+      localStorage.getItem(REPORTING_CURRENCY_STORAGE_KEY) || "{}"
+    );
+  } catch {
+    return {};
+  }
+};
+
 export const CompanyProvider: React.FC<{ children: ReactNode }> = ({
   children,
 }) => {
   const [selectedCompany, setSelectedCompany] = useState<Company | null>(null);
+  const [currencyOverrides, setCurrencyOverrides] = useState<
+    Record<string, string>
+  >(loadCurrencyOverrides);
+
+  const reportingCurrency =
+    (selectedCompany && currencyOverrides[selectedCompany.id]) ||
+    selectedCompany?.currency ||
+    "USD";
+
+  const setReportingCurrency = useCallback(
+    (currency: string) => {
+      if (!selectedCompany) return;
+
+      setCurrencyOverrides((prev) => {
+        const next = { ...prev };
+        if (currency === selectedCompany.currency) {
+          delete next[selectedCompany.id];
+        } else {
+          next[selectedCompany.id] = currency;
+        }
+        localStorage.setItem(
+          REPORTING_CURRENCY_STORAGE_KEY,
+          JSON.stringify(next)
+        );
+        return next;
+      });
+    },
+    [selectedCompany]
+  );
 
   const contextValue = React.useMemo(
     () => ({
       selectedCompany,
       setSelectedCompany,
+      reportingCurrency,
+      setReportingCurrency,
     }),
-    [selectedCompany]
+    [selectedCompany, reportingCurrency, setReportingCurrency]
   );
 
   return (
@@ -0,0 +1,73 @@
+export const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180): quoted cells may hold the
+ * delimiter, line breaks and doubled quotes. A byte order mark and the
+ * final line break are ignored.
+ */
+export const parseCsv = (text: string, delimiter = ","): string[][] => {
+  const source = text.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * The delimiter that splits the first lines into the most columns, as
+ * consistently as possible. Excel writes `;` in locales with decimal
+ * commas, so `,` is not assumed.
+ */
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).slice(0, 20).join("\n");
+  let best = { delimiter: ",", score: 0 };
+
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const widths = parseCsv(sample, delimiter)
+      .filter((row) => row.some((cell) => cell.trim()))
+      .map((row) => row.length);
+    if (widths.length === 0) return;
+
+    const common = Math.max(...widths);
+    if (common < 2) return;
+    const consistent = widths.filter((width) => width === common).length;
+    const score = consistent * common;
+    if (score > best.score) best = { delimiter, score };
+  });
+
+  return best.delimiter;
+};
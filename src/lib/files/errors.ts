@@ -0,0 +1,19 @@
+/** Why an uploaded file could not be read; forms translate the code. */
+export type FileReadErrorCode =
+  | "unsupportedType"
+  | "notXlsx"
+  | "invalidJson"
+  | "noSheets"
+  | "unsupportedCompression"
+  | "decompressionUnavailable"
+  | "unreadable";
+
+export class FileReadError extends Error {
+  readonly code: FileReadErrorCode;
+
+  constructor(code: FileReadErrorCode, message: string) {
+    super(message);
+    this.name = "FileReadError";
+    this.code = code;
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+
+import { FileReadError } from "./errors";
+import { parseSpreadsheetFile } from "./index";
+
+const readError = (file: File) =>
+  parseSpreadsheetFile(file).then(
+    () => undefined,
+    (error: unknown) => error
+  );
+
+describe("parseSpreadsheetFile", () => {
+  it("reads CSV and JSON files", async () => {
+    const csv = await parseSpreadsheetFile(
+      new File(["Account;Amount\nSales;10\n"], "ledger.csv")
+    );
+    expect(csv).toMatchObject({ format: "csv", delimiter: ";" });
+    expect(csv.sheets[0].rows).toEqual([
+      ["Account", "Amount"],
+      ["Sales", "10"],
+    ]);
+
+    const json = await parseSpreadsheetFile(
+      new File(['{"rows": []}'], "ledger.json")
+    );
+    expect(json).toMatchObject({ format: "json", payload: { rows: [] } });
+  });
+
+  it.each([
+    [new File(["{"], "ledger.json"), "invalidJson"],
+    [new File(["x"], "ledger.txt"), "unsupportedType"],
+  ])("explains why %s cannot be read", async (file, code) => {
+    const error = await readError(file);
+    expect(error).toBeInstanceOf(FileReadError);
+    expect((error as FileReadError).code).toBe(code);
+  });
+});
@@ -0,0 +1,85 @@
+import type { FileFormat } from "@/lib/api";
+
+import { parseXlsx } from "./xlsx";
+import type { SheetTable } from "./table";
+import { FileReadError } from "./errors";
+import { parseCsv, detectDelimiter } from "./csv";
+
+export * from "./csv";
+export * from "./table";
+export * from "./errors";
+export { parseXlsx } from "./xlsx";
+
+export const UPLOAD_FILE_ACCEPT =
+  ".csv,.xlsx,.json,text/csv,application/json,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export interface ParsedSpreadsheet {
+  fileName: string;
+  format: FileFormat;
+  /** The file's text, kept so a CSV can be re-split with another delimiter. */
+  text?: string;
+  delimiter?: string;
+  /** The parsed document of a JSON file, which has no sheets. */
+  payload?: unknown;
+  sheets: SheetTable[];
+}
+
+const spreadsheetFormat = (file: File): FileFormat | undefined => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx") || file.type.includes("spreadsheetml")) {
+    return "xlsx";
+  }
+  if (name.endsWith(".csv") || file.type === "text/csv") return "csv";
+  if (name.endsWith(".json") || file.type === "application/json") {
+    return "json";
+  }
+  return undefined;
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new FileReadError("invalidJson", "the file is not valid JSON");
+  }
+};
+
+/** Reads an uploaded CSV, XLSX or JSON file in the browser. */
+export const parseSpreadsheetFile = async (
+  file: File
+): Promise<ParsedSpreadsheet> => {
+  const format = spreadsheetFormat(file);
+  if (!format) {
+    throw new FileReadError(
+      "unsupportedType",
+      "only CSV, XLSX and JSON files are supported"
+    );
+  }
+
+  if (format === "xlsx") {
+    const sheets = await parseXlsx(await file.arrayBuffer());
+    if (sheets.length === 0) {
+      throw new FileReadError("noSheets", "the workbook has no sheets");
+    }
+    return { fileName: file.name, format, sheets };
+  }
+
+  const text = await file.text();
+  if (format === "json") {
+    return {
+      fileName: file.name,
+      format,
+      payload: parseJson(text),
+      sheets: [],
+    };
+  }
+
+  const delimiter = detectDelimiter(text);
+  return {
+    fileName: file.name,
+    format,
+    text,
+    delimiter,
+    sheets: [{ name: file.name, rows: parseCsv(text, delimiter) }],
+  };
+};
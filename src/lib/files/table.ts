@@ -0,0 +1,131 @@
+import type { UnifiedField } from "@/lib/mapping";
+
+/** One sheet of an uploaded file, or the whole file for CSV. */
+export interface SheetTable {
+  name: string;
+  rows: string[][];
+}
+
+export interface TableRecords {
+  columns: string[];
+  /** One record per data row below the header, keyed by column. */
+  records: Record<string, string>[];
+}
+
+// Exports often open with a title block (company name, report period)
+// before the column headers.
+const HEADER_SCAN_ROWS = 20;
+
+const isNumeric = (cell: string) =>
+  /^[-+(]?[\d,.\s]+\)?%?$/.test(cell.trim()) && /\d/.test(cell);
+
+const filledCells = (row: string[]) => row.filter((cell) => cell.trim());
+
+/**
+ * Zero-based index of the row that most likely holds the column names: the
+ * first row that is mostly text and about as wide as the data below it.
+ */
+export const detectHeaderRow = (rows: string[][]): number => {
+  const scanned = rows.slice(0, HEADER_SCAN_ROWS);
+  const width = Math.max(0, ...scanned.map((row) => filledCells(row).length));
+  if (width === 0) return 0;
+
+  const index = scanned.findIndex((row) => {
+    const cells = filledCells(row);
+    return (
+      cells.length >= Math.max(2, Math.ceil(width / 2)) &&
+      cells.filter(isNumeric).length <= cells.length / 4
+    );
+  });
+  return Math.max(0, index);
+};
+
+/**
+ * Records keyed by the header row's cells. Blank headers become "Column N",
+ * repeats get a counter, and `.`, `[` and `]` are replaced so each column
+ * name is a valid mapping path. Empty rows are skipped.
+ */
+export const tableToRecords = (
+  rows: string[][],
+  headerIndex: number
+): TableRecords => {
+  const header = rows[headerIndex] ?? [];
+  const width = Math.max(
+    header.length,
+    ...rows.slice(headerIndex + 1).map((row) => row.length)
+  );
+
+  const seen = new Map<string, number>();
+  const columns = Array.from({ length: width }, (_, i) => {
+    const name =
+      (header[i] ?? "")
+        .replace(/[.[\]]/g, " ")
+        .replace(/\s+/g, " ")
+        .trim() || `Column ${i + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+
+  const records = rows
+    .slice(headerIndex + 1)
+    .filter((row) => filledCells(row).length > 0)
+    .map((row) =>
+      Object.fromEntries(
+        columns.map((column, i) => [column, (row[i] ?? "").trim()])
+      )
+    );
+
+  return { columns, records };
+};
+
+// Header names seen in trial balance and P&L exports, most specific first.
+const FIELD_ALIASES: Partial<Record<UnifiedField, string[]>> = {
+  category: ["category", "account type", "type", "class", "group"],
+  subcategory: ["subcategory", "sub category", "account group", "subgroup"],
+  lineItemName: ["line item", "account name", "account", "description", "name"],
+  amount: ["amount", "balance", "net", "total", "value"],
+  currency: ["currency", "ccy", "currency code"],
+  fromDate: ["from date", "start date", "period start", "from", "date"],
+  toDate: ["to date", "end date", "period end", "to"],
+};
+
+const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/**
+ * Field mappings guessed from column names, matching whole names before
+ * partial ones. Each column is used for at most one field.
+ */
+export const suggestFieldMappings = (
+  columns: string[]
+): Record<string, string> => {
+  const mappings: Record<string, string> = {};
+  const used = new Set<string>();
+  const normalized = columns.map((column) => ({
+    column,
+    name: normalizeHeader(column),
+  }));
+
+  const match = (accept: (name: string, alias: string) => boolean) =>
+    Object.entries(FIELD_ALIASES).forEach(([field, aliases]) => {
+      if (mappings[field]) return;
+      for (const alias of aliases) {
+        const found = normalized.find(
+          ({ column, name }) => !used.has(column) && accept(name, alias)
+        );
+        if (found) {
+          mappings[field] = found.column;
+          used.add(found.column);
+          return;
+        }
+      }
+    });
+
+  match((name, alias) => name === alias);
+  match((name, alias) => ` ${name} `.includes(` ${alias} `));
+  return mappings;
+};
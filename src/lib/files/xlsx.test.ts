@@ -0,0 +1,291 @@
+// @vitest-environment jsdom
+// The reader parses workbook XML with the browser's DOMParser.
+
+import { crc32, deflateRawSync } from "node:zlib";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { parseXlsx } from "./xlsx";
+import { FileReadError } from "./errors";
+
+// Workbooks are zipped here from their XML parts, so each test shows the
+// markup it reads.
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+
+interface ZipOptions {
+  /** 0 stores parts, 8 deflates them; anything else is written as is. */
+  method?: number;
+  /** Write the directory as ZIP64, with saturated 32-bit fields. */
+  zip64?: boolean;
+}
+
+const zip = (
+  parts: Record<string, string>,
+  { method = 8, zip64 = false }: ZipOptions = {}
+): ArrayBuffer => {
+  const chunks: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(parts).forEach(([name, text]) => {
+    const raw = Buffer.from(text);
+    const data = method === 8 ? deflateRawSync(raw) : raw;
+    const fileName = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc32(raw), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    chunks.push(local, fileName, data);
+
+    const extra = Buffer.alloc(zip64 ? 12 : 0);
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(8, 2);
+      extra.writeBigUInt64LE(BigInt(offset), 4);
+    }
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(45, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc32(raw), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt16LE(extra.length, 30);
+    central.writeUInt32LE(zip64 ? 0xffffffff : offset, 42);
+    directory.push(central, fileName, extra);
+
+    offset += local.length + fileName.length + data.length;
+  });
+
+  const count = Object.keys(parts).length;
+  const directorySize = Buffer.concat(directory).length;
+  const tail: Buffer[] = [];
+  if (zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(44n, 4);
+    record.writeUInt16LE(45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeBigUInt64LE(BigInt(count), 24);
+    record.writeBigUInt64LE(BigInt(count), 32);
+    record.writeBigUInt64LE(BigInt(directorySize), 40);
+    record.writeBigUInt64LE(BigInt(offset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + directorySize), 8);
+    locator.writeUInt32LE(1, 16);
+    tail.push(record, locator);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(zip64 ? 0xffff : count, 8);
+  end.writeUInt16LE(zip64 ? 0xffff : count, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(zip64 ? 0xffffffff : offset, 16);
+
+  const file = Buffer.concat([...chunks, ...directory, ...tail, end]);
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.length);
+};
+
+const worksheet = (rows: string) =>
+  `<worksheet xmlns="${MAIN_NS}"><sheetData>${rows}</sheetData></worksheet>`;
+
+/** The parts of a workbook whose sheets are `sheets`, by name. */
+const workbook = (
+  sheets: Record<string, string>,
+  { date1904 = false, extraParts = {} as Record<string, string> } = {}
+) => {
+  const names = Object.keys(sheets);
+  const parts: Record<string, string> = {
+    "xl/workbook.xml": `<workbook xmlns="${MAIN_NS}" xmlns:r="${RELATIONSHIPS_NS}">${
+      date1904 ? '<workbookPr date1904="1"/>' : ""
+    }<sheets>${names
+      .map(
+        (name, i) =>
+          `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`
+      )
+      .join("")}</sheets></workbook>`,
+    // Excel writes relative targets; some writers use package paths.
+    "xl/_rels/workbook.xml.rels": `<Relationships xmlns="${PACKAGE_NS}">${names
+      .map(
+        (_, i) =>
+          `<Relationship Id="rId${i + 1}" Target="${
+            i === 0 ? "" : "/xl/"
+          }worksheets/sheet${i + 1}.xml"/>`
+      )
+      .join("")}</Relationships>`,
+    ...extraParts,
+  };
+  names.forEach((name, i) => {
+    parts[`xl/worksheets/sheet${i + 1}.xml`] = worksheet(sheets[name]);
+  });
+  return parts;
+};
+
+const SHARED_STRINGS = `<sst xmlns="${MAIN_NS}">
+  <si><t>Account</t></si>
+  <si><t>Sales</t></si>
+  <si><r><t>Da</t></r><r><t>te</t></r><rPh><t>デート</t></rPh></si>
+  <si><t xml:space="preserve">Rent </t></si>
+</sst>`;
+
+// Style 1 is built-in format 14 (m/d/yyyy), 2 a custom date-time format,
+// 3 a custom format whose only letters are quoted.
+const STYLES = `<styleSheet xmlns="${MAIN_NS}">
+  <numFmts>
+    <numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd hh:mm"/>
+    <numFmt numFmtId="165" formatCode="&quot;days&quot; 0"/>
+  </numFmts>
+  <cellXfs>
+    <xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/><xf numFmtId="165"/>
+  </cellXfs>
+</styleSheet>`;
+
+const LEDGER = `
+  <row r="1">
+    <c r="A1" t="s"><v>0</v></c>
+    <c r="B1" t="inlineStr"><is><t>Amount</t></is></c>
+    <c r="C1" t="s"><v>2</v></c>
+  </row>
+  <row r="2">
+    <c r="A2" t="s"><v>1</v></c>
+    <c r="B2"><v>1234.5</v></c>
+    <c r="C2" s="1"><v>45292</v></c>
+  </row>
+  <row r="4">
+    <c r="A4" t="s"><v>3</v></c>
+    <c r="C4" s="2"><v>45292.75</v></c>
+  </row>
+  <row r="5">
+    <c r="A5" t="b"><v>1</v></c>
+    <c r="B5" s="3"><v>5</v></c>
+    <c r="C5" t="str" s="1"><f>"n/a"</f><v>n/a</v></c>
+  </row>`;
+
+const LEDGER_ROWS = [
+  ["Account", "Amount", "Date"],
+  ["Sales", "1234.5", "2024-01-01"],
+  [],
+  ["Rent ", "", "2024-01-01T18:00:00"],
+  ["TRUE", "5", "n/a"],
+];
+
+const ledgerWorkbook = (options?: { date1904?: boolean }) =>
+  workbook(
+    {
+      Ledger: LEDGER,
+      Notes: '<row r="2"><c r="B2" t="inlineStr"><is><t>ok</t></is></c></row>',
+    },
+    {
+      ...options,
+      extraParts: {
+        "xl/sharedStrings.xml": SHARED_STRINGS,
+        "xl/styles.xml": STYLES,
+      },
+    }
+  );
+
+const readError = (promise: Promise<unknown>) =>
+  promise.then(
+    () => undefined,
+    (error: unknown) => error
+  );
+
+describe("parseXlsx", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads shared and inline strings, dates and sparse rows", async () => {
+    const sheets = await parseXlsx(zip(ledgerWorkbook()));
+
+    expect(sheets).toEqual([
+      { name: "Ledger", rows: LEDGER_ROWS },
+      { name: "Notes", rows: [[], ["", "ok"]] },
+    ]);
+  });
+
+  it("counts date serials from 1904 when the workbook says so", async () => {
+    const [ledger] = await parseXlsx(zip(ledgerWorkbook({ date1904: true })));
+
+    expect(ledger.rows[1][2]).toBe("2028-01-02");
+    expect(ledger.rows[3][2]).toBe("2028-01-02T18:00:00");
+  });
+
+  it("reads stored parts and ZIP64 directories", async () => {
+    const parts = ledgerWorkbook();
+
+    expect((await parseXlsx(zip(parts, { method: 0 })))[0].rows).toEqual(
+      LEDGER_ROWS
+    );
+    expect((await parseXlsx(zip(parts, { zip64: true })))[0].rows).toEqual(
+      LEDGER_ROWS
+    );
+  });
+
+  it("rejects files that are not workbooks", async () => {
+    const notZip = new TextEncoder().encode("Account,Amount\n").buffer;
+    const noWorkbook = zip({ "word/document.xml": "<document/>" });
+
+    for (const buffer of [notZip, noWorkbook]) {
+      const error = await readError(parseXlsx(buffer));
+      expect(error).toBeInstanceOf(FileReadError);
+      expect((error as FileReadError).code).toBe("notXlsx");
+    }
+  });
+
+  it("rejects truncated and corrupt workbooks as not workbooks", async () => {
+    const file = new Uint8Array(zip(ledgerWorkbook()));
+    // The directory offset points past the end of the file.
+    const badOffset = file.slice();
+    new DataView(badOffset.buffer).setUint32(file.length - 6, 0xfffffff0, true);
+    // The first part's deflate data is garbage.
+    const badData = file.slice();
+    badData.fill(0xff, 30 + "xl/workbook.xml".length, 60);
+    const truncated = file.slice(0, file.length - 200);
+
+    for (const bytes of [badOffset, badData, truncated]) {
+      const error = await readError(parseXlsx(bytes.buffer));
+      expect(error).toBeInstanceOf(FileReadError);
+      expect((error as FileReadError).code).toBe("notXlsx");
+    }
+  });
+
+  it("names compression methods it cannot unpack", async () => {
+    const error = await readError(
+      parseXlsx(zip(ledgerWorkbook(), { method: 12 }))
+    );
+    expect((error as FileReadError).code).toBe("unsupportedCompression");
+  });
+
+  it.each([
+    ["has no DecompressionStream", undefined],
+    [
+      "cannot inflate raw deflate",
+      class {
+        constructor(format: string) {
+          throw new TypeError(`Unsupported format: ${format}`);
+        }
+      },
+    ],
+  ])("explains that a browser that %s cannot read it", async (_, stream) => {
+    vi.stubGlobal("DecompressionStream", stream);
+
+    const error = await readError(parseXlsx(zip(ledgerWorkbook())));
+    expect(error).toBeInstanceOf(FileReadError);
+    expect((error as FileReadError).code).toBe("decompressionUnavailable");
+  });
+});
@@ -0,0 +1,347 @@
+import type { SheetTable } from "./table";
+import { FileReadError } from "./errors";
+
+// An XLSX file is a zip of XML parts. Only what a data export needs is
+// read: sheet names, shared strings, cell values and which cells are dates.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const RELATIONSHIPS_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+interface ZipEntry {
+  method: number;
+  data: Uint8Array;
+}
+
+const notXlsx = () =>
+  new FileReadError("notXlsx", "the file is not an XLSX workbook");
+
+/**
+ * Where the central directory starts and how many entries it lists. Large
+ * workbooks are written as ZIP64, which moves both into a second record
+ * and leaves 0xFFFF / 0xFFFFFFFF in the classic one.
+ */
+const readDirectory = (view: DataView, eocd: number) => {
+  const count = view.getUint16(eocd + 10, true);
+  const offset = view.getUint32(eocd + 16, true);
+  if (count !== 0xffff && offset !== 0xffffffff) return { count, offset };
+
+  const locator = eocd - 20;
+  if (
+    locator < 0 ||
+    view.getUint32(locator, true) !== ZIP64_LOCATOR_SIGNATURE
+  ) {
+    return { count, offset };
+  }
+  const record = Number(view.getBigUint64(locator + 8, true));
+  if (view.getUint32(record, true) !== ZIP64_EOCD_SIGNATURE) throw notXlsx();
+  return {
+    count: Number(view.getBigUint64(record + 32, true)),
+    offset: Number(view.getBigUint64(record + 48, true)),
+  };
+};
+
+/**
+ * The ZIP64 extra field of a central directory entry holds, in order, the
+ * sizes and local header offset whose 32-bit fields are saturated.
+ */
+const readZip64Extra = (
+  view: DataView,
+  start: number,
+  length: number,
+  fields: { size: number; compressed: number; local: number }
+) => {
+  for (let at = start; at + 4 <= start + length;) {
+    const id = view.getUint16(at, true);
+    const fieldLength = view.getUint16(at + 2, true);
+    if (id === ZIP64_EXTRA_ID) {
+      let next = at + 4;
+      const take = () => {
+        const value = Number(view.getBigUint64(next, true));
+        next += 8;
+        return value;
+      };
+      const size = fields.size === 0xffffffff ? take() : fields.size;
+      const compressed =
+        fields.compressed === 0xffffffff ? take() : fields.compressed;
+      const local = fields.local === 0xffffffff ? take() : fields.local;
+      return { size, compressed, local };
+    }
+    at += 4 + fieldLength;
+  }
+  return fields;
+};
+
+/**
+ * The entries of a zip by name. A truncated or corrupt file, whose offsets
+ * point past its end, is not a workbook.
+ */
+const readZip = (buffer: ArrayBuffer): Map<string, ZipEntry> => {
+  try {
+    return readZipEntries(buffer);
+  } catch (error) {
+    if (error instanceof RangeError) throw notXlsx();
+    throw error;
+  }
+};
+
+const readZipEntries = (buffer: ArrayBuffer): Map<string, ZipEntry> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits before an optional comment.
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw notXlsx();
+
+  const entries = new Map<string, ZipEntry>();
+  const directory = readDirectory(view, eocd);
+  let offset = directory.offset;
+
+  for (let i = 0; i < directory.count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) break;
+    const method = view.getUint16(offset + 10, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    const { compressed, local } = readZip64Extra(
+      view,
+      offset + 46 + nameLength,
+      extraLength,
+      {
+        size: view.getUint32(offset + 24, true),
+        compressed: view.getUint32(offset + 20, true),
+        local: view.getUint32(offset + 42, true),
+      }
+    );
+
+    const dataStart =
+      local +
+      30 +
+      view.getUint16(local + 26, true) +
+      view.getUint16(local + 28, true);
+    if (dataStart + compressed > bytes.length) throw notXlsx();
+    entries.set(name, {
+      method,
+      data: bytes.subarray(dataStart, dataStart + compressed),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+/**
+ * Deflated parts are unpacked with the browser's DecompressionStream.
+ * Browsers without "deflate-raw" support (Safari before 16.4, Firefox
+ * before 113) get an error that says so instead of a TypeError.
+ */
+const inflateRaw = (data: Uint8Array): Promise<string> => {
+  let decompressor: DecompressionStream;
+  try {
+    decompressor = new DecompressionStream("deflate-raw");
+  } catch {
+    throw new FileReadError(
+      "decompressionUnavailable",
+      "this browser cannot unpack XLSX files"
+    );
+  }
+  const stream = new Response(data.slice()).body.pipeThrough(decompressor);
+  // Corrupt deflate data fails the stream with a bare TypeError.
+  return new Response(stream).text().catch(() => {
+    throw notXlsx();
+  });
+};
+
+const readEntry = async (
+  entries: Map<string, ZipEntry>,
+  name: string
+): Promise<string | undefined> => {
+  const entry = entries.get(name);
+  if (!entry) return undefined;
+  if (entry.method === 0) return new TextDecoder().decode(entry.data);
+  if (entry.method !== 8) {
+    throw new FileReadError(
+      "unsupportedCompression",
+      `${name} uses an unsupported compression method`
+    );
+  }
+  return inflateRaw(entry.data);
+};
+
+const parseXml = (text: string) =>
+  new DOMParser().parseFromString(text, "application/xml");
+
+const elements = (node: Document | Element, name: string) =>
+  Array.from(node.getElementsByTagNameNS("*", name));
+
+const childText = (node: Element, name: string) =>
+  elements(node, name)[0]?.textContent ?? undefined;
+
+/** Zero-based column of a cell reference such as "AB12". */
+const columnIndex = (reference: string) =>
+  (reference.match(/^[A-Z]+/)?.[0] ?? "")
+    .split("")
+    .reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// Built-in number formats that display dates or times.
+const BUILT_IN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57,
+]);
+
+const isDateFormat = (id: number, code?: string) => {
+  if (BUILT_IN_DATE_FORMATS.has(id)) return true;
+  if (!code) return false;
+  // Quoted text, [colors] and escaped characters are not date tokens.
+  const tokens = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, "");
+  return /[dmy]/i.test(tokens);
+};
+
+/** Style indexes whose cells hold dates as serial numbers. */
+const readDateStyles = (styles: Document | undefined): Set<number> => {
+  const dateStyles = new Set<number>();
+  if (!styles) return dateStyles;
+
+  const codes = new Map<number, string>();
+  elements(styles, "numFmt").forEach((format) =>
+    codes.set(
+      Number(format.getAttribute("numFmtId")),
+      format.getAttribute("formatCode") ?? ""
+    )
+  );
+  const cellXfs = elements(styles, "cellXfs")[0];
+  if (!cellXfs) return dateStyles;
+
+  Array.from(cellXfs.children).forEach((xf, index) => {
+    const id = Number(xf.getAttribute("numFmtId") ?? 0);
+    if (isDateFormat(id, codes.get(id))) dateStyles.add(index);
+  });
+  return dateStyles;
+};
+
+/** A date serial as YYYY-MM-DD, with the time when it has one. */
+const serialToDate = (serial: number, date1904: boolean) => {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.round(serial * 86400000));
+  const iso = date.toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+};
+
+const sharedString = (item: Element) =>
+  elements(item, "t")
+    // Phonetic guides (rPh) are not part of the displayed text.
+    .filter((t) => t.parentElement?.localName !== "rPh")
+    .map((t) => t.textContent ?? "")
+    .join("");
+
+const readSheet = (
+  sheet: Document,
+  strings: string[],
+  dateStyles: Set<number>,
+  date1904: boolean
+): string[][] => {
+  const rows: string[][] = [];
+
+  elements(sheet, "row").forEach((rowElement) => {
+    // Rows and cells may be skipped when empty; keep Excel's numbering.
+    const rowNumber = Number(rowElement.getAttribute("r")) || rows.length + 1;
+    const row: string[] = [];
+
+    elements(rowElement, "c").forEach((cell) => {
+      const reference = cell.getAttribute("r");
+      const column = reference ? columnIndex(reference) : row.length;
+      const type = cell.getAttribute("t");
+      const raw = childText(cell, "v");
+      let value: string;
+
+      if (type === "s") {
+        value = strings[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        const inline = elements(cell, "is")[0];
+        value = inline ? sharedString(inline) : "";
+      } else if (type === "b") {
+        value = raw === "1" ? "TRUE" : "FALSE";
+      } else if (
+        raw !== undefined &&
+        type !== "str" &&
+        type !== "e" &&
+        dateStyles.has(Number(cell.getAttribute("s") ?? 0))
+      ) {
+        value = serialToDate(Number(raw), date1904);
+      } else {
+        value = raw ?? "";
+      }
+
+      while (row.length < column) row.push("");
+      row[column] = value;
+    });
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = row;
+  });
+
+  return rows;
+};
+
+const resolveTarget = (target: string) =>
+  target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+
+/** Every worksheet of an XLSX workbook as rows of display text. */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<SheetTable[]> => {
+  const entries = readZip(buffer);
+  const workbookXml = await readEntry(entries, "xl/workbook.xml");
+  if (!workbookXml) throw notXlsx();
+
+  const workbook = parseXml(workbookXml);
+  const relationships = parseXml(
+    (await readEntry(entries, "xl/_rels/workbook.xml.rels")) ?? "<r/>"
+  );
+  const stringsXml = await readEntry(entries, "xl/sharedStrings.xml");
+  const stylesXml = await readEntry(entries, "xl/styles.xml");
+
+  const strings = stringsXml
+    ? elements(parseXml(stringsXml), "si").map(sharedString)
+    : [];
+  const dateStyles = readDateStyles(
+    stylesXml ? parseXml(stylesXml) : undefined
+  );
+  const workbookPr = elements(workbook, "workbookPr")[0];
+  const date1904 = ["1", "true"].includes(
+    workbookPr?.getAttribute("date1904") ?? ""
+  );
+
+  const targets = new Map(
+    elements(relationships, "Relationship").map((relationship) => [
+      relationship.getAttribute("Id"),
+      relationship.getAttribute("Target") ?? "",
+    ])
+  );
+
+  const sheets: SheetTable[] = [];
+  for (const sheet of elements(workbook, "sheet")) {
+    const id =
+      sheet.getAttributeNS(RELATIONSHIPS_NS, "id") ??
+      sheet.getAttribute("r:id");
+    const target = targets.get(id);
+    const xml = target && (await readEntry(entries, resolveTarget(target)));
+    if (!xml) continue;
+
+    sheets.push({
+      name: sheet.getAttribute("name") ?? `Sheet${sheets.length + 1}`,
+      rows: readSheet(parseXml(xml), strings, dateStyles, date1904),
+    });
+  }
+  return sheets;
+};
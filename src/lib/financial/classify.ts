@@ -0,0 +1,21 @@
+import { isNegative, type Money } from "./money";
+import type { FinancialItemType } from "./types";
+
+/**
+ * Infers the statement type from the category name, falling back to the
+ * sign of the amount when the name gives no hint.
+ */
+export const determineType = (
+  category: string | undefined,
+  amount: Money
+): FinancialItemType => {
+  if (category) {
+    const name = category.toLowerCase();
+    if (name.includes("revenue") || name.includes("income")) return "revenue";
+    if (name.includes("expense") || name.includes("cost")) return "expense";
+    if (name.includes("asset")) return "asset";
+    if (name.includes("liability") || name.includes("debt")) return "liability";
+  }
+
+  return isNegative(amount) ? "expense" : "revenue";
+};
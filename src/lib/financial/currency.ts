@@ -0,0 +1,64 @@
+import { crossConvert, type Money } from "./money";
+import type { FinancialItemType } from "./types";
+
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+}
+
+/** Currencies offered in the company and reporting currency selectors. */
+export const SUPPORTED_CURRENCIES: CurrencyInfo[] = [
+  { code: "USD", name: "US Dollar" },
+  { code: "SAR", name: "Saudi Riyal" },
+  { code: "AED", name: "UAE Dirham" },
+  { code: "EGP", name: "Egyptian Pound" },
+  { code: "KWD", name: "Kuwaiti Dinar" },
+  { code: "BHD", name: "Bahraini Dinar" },
+  { code: "OMR", name: "Omani Rial" },
+  { code: "QAR", name: "Qatari Riyal" },
+  { code: "EUR", name: "Euro" },
+  { code: "GBP", name: "British Pound" },
+];
+
+export interface ConversionContext {
+  /** The period the amount belongs to (the row's `toDate` or `fromDate`). */
+  date: Date | null;
+  type: FinancialItemType;
+}
+
+/**
+ * Converts `amount` into `currency`, or returns null when no rate is
+ * available for the pair and context.
+ */
+export type CurrencyConverter = (
+  amount: Money,
+  currency: string,
+  context: ConversionContext
+) => Money | null;
+
+/**
+ * Official USD pegs for currencies with a fixed central-bank rate. These
+ * never change with the period, so they are safe without a rate table.
+ */
+export const PEGGED_USD_RATES: Record<string, string> = {
+  SAR: "3.75",
+  AED: "3.6725",
+  BHD: "0.376",
+  OMR: "0.3845",
+  QAR: "3.64",
+};
+
+/** Units of `currency` per US dollar when it is USD or pegged to it. */
+export const peggedUsdRate = (currency: string): string | undefined =>
+  currency === "USD" ? "1" : PEGGED_USD_RATES[currency];
+
+/** Converts between USD and pegged currencies; anything else is missing. */
+export const pegConverter: CurrencyConverter = (amount, currency) => {
+  if (amount.currency === currency) return amount;
+
+  const fromRate = peggedUsdRate(amount.currency);
+  const toRate = peggedUsdRate(currency);
+  if (!fromRate || !toRate) return null;
+
+  return crossConvert(amount, currency, toRate, fromRate);
+};
@@ -0,0 +1,224 @@
+import { DEFAULT_LOCALE, formatDateRange, formatMonthYear } from "./format";
+import {
+  add,
+  zero,
+  ratio,
+  negate,
+  absolute,
+  subtract,
+  toNumber,
+  isNegative,
+  type Money,
+  DEFAULT_CURRENCY,
+  compareByMagnitude,
+} from "./money";
+import type {
+  CategoryKind,
+  DashboardData,
+  FinancialEntry,
+  MonthlyTotals,
+  PeriodProfit,
+} from "./types";
+
+export const CATEGORY_COLORS = [
+  "#3b82f6",
+  "#10b981",
+  "#f59e0b",
+  "#ef4444",
+  "#8b5cf6",
+  "#14b8a6",
+  "#f43f5e",
+  "#6366f1",
+];
+
+const TOP_CATEGORY_COUNT = 5;
+
+export const createEmptyDashboardData = (
+  currency: string = DEFAULT_CURRENCY
+): DashboardData => ({
+  revenueData: [],
+  categoryData: [],
+  trendData: [],
+  metrics: {
+    totalRevenue: zero(currency),
+    monthlyProfit: zero(currency),
+    profitMargin: 0,
+    netAssets: zero(currency),
+    revenueChange: 0,
+    dateRange: null,
+    lastRunDate: undefined,
+  },
+});
+
+export const emptyDashboardData = createEmptyDashboardData();
+
+/** Sortable "YYYY-MM" key in local time, matching `formatMonthYear`. */
+const monthKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+const quarterOf = (key: string) => {
+  const [year, month] = key.split("-").map(Number);
+  return {
+    key: `${year}-${Math.floor((month - 1) / 3) + 1}`,
+    label: `Q${Math.floor((month - 1) / 3) + 1}-${year}`,
+  };
+};
+
+interface MonthAccumulator {
+  label: string;
+  revenue: Money;
+  expenses: Money;
+}
+
+interface DateSpan {
+  earliest: Date | null;
+  latest: Date | null;
+}
+
+const extend = (span: DateSpan, from: Date | null, to: Date | null) => {
+  if (from && (!span.earliest || from < span.earliest)) span.earliest = from;
+  if (to && (!span.latest || to > span.latest)) span.latest = to;
+};
+
+/**
+ * Aggregates entries into the dashboard model: monthly revenue/expense
+ * bars, the top categories by absolute amount, quarterly profit and the
+ * headline metrics. Positive amounts count as revenue, negative as expense.
+ * Sums are exact; chart series are converted to numbers at the end. Month
+ * and date-range labels are formatted for `locale`.
+ */
+export const buildDashboardData = (
+  entries: FinancialEntry[],
+  currency: string = DEFAULT_CURRENCY,
+  locale: string = DEFAULT_LOCALE
+): DashboardData => {
+  if (entries.length === 0) {
+    return createEmptyDashboardData(currency);
+  }
+
+  const overall: DateSpan = { earliest: null, latest: null };
+  const monthly = new Map<string, MonthAccumulator>();
+  const categoryAmounts = new Map<
+    string,
+    { name: string; kind: CategoryKind; value: Money }
+  >();
+  const categoryDates = new Map<string, DateSpan>();
+  let totalRevenue = zero(currency);
+  let totalExpenses = zero(currency);
+
+  entries.forEach((entry) => {
+    const { amount, category, fromDate } = entry;
+    const toDate = entry.toDate ?? fromDate;
+
+    extend(overall, fromDate, toDate);
+
+    if (!categoryDates.has(category)) {
+      categoryDates.set(category, { earliest: null, latest: null });
+    }
+    extend(categoryDates.get(category)!, fromDate, toDate);
+
+    if (fromDate) {
+      const key = monthKey(fromDate);
+      if (!monthly.has(key)) {
+        monthly.set(key, {
+          label: formatMonthYear(fromDate, locale),
+          revenue: zero(currency),
+          expenses: zero(currency),
+        });
+      }
+
+      const month = monthly.get(key)!;
+      if (isNegative(amount)) {
+        month.expenses = add(month.expenses, negate(amount));
+        totalExpenses = add(totalExpenses, negate(amount));
+      } else {
+        month.revenue = add(month.revenue, amount);
+        totalRevenue = add(totalRevenue, amount);
+      }
+    }
+
+    // A category with both signs is charted as two slices.
+    const kind: CategoryKind = isNegative(amount) ? "expense" : "revenue";
+    const categoryKey = `${kind}\u0000${category}`;
+    const total = categoryAmounts.get(categoryKey);
+    categoryAmounts.set(categoryKey, {
+      name: category,
+      kind,
+      value: add(total?.value ?? zero(currency), absolute(amount)),
+    });
+  });
+
+  const sortedMonthKeys = Array.from(monthly.keys()).sort();
+  const sortedMonths = sortedMonthKeys.map((key) => monthly.get(key)!);
+  const revenueData: MonthlyTotals[] = sortedMonths.map((month) => ({
+    month: month.label,
+    revenue: toNumber(month.revenue),
+    expenses: toNumber(month.expenses),
+  }));
+
+  const latestMonth = sortedMonths[sortedMonths.length - 1];
+  const previousMonth = sortedMonths[sortedMonths.length - 2];
+  const revenueChange =
+    previousMonth && previousMonth.revenue.minor > 0n
+      ? ratio(
+          subtract(latestMonth.revenue, previousMonth.revenue),
+          previousMonth.revenue
+        ) * 100
+      : 0;
+
+  const categoryData = Array.from(categoryAmounts.values())
+    .sort((a, b) => compareByMagnitude(a.value, b.value))
+    .slice(0, TOP_CATEGORY_COUNT)
+    .map(({ name, kind, value }, index) => {
+      const dates = categoryDates.get(name);
+      return {
+        name,
+        kind,
+        value: toNumber(value),
+        color: CATEGORY_COLORS[index % CATEGORY_COLORS.length],
+        dateRange: dates
+          ? (formatDateRange(dates.earliest, dates.latest, locale) ?? undefined)
+          : undefined,
+      };
+    });
+
+  const quarters = new Map<string, { period: string; profit: Money }>();
+  sortedMonthKeys.forEach((key) => {
+    const { key: quarterKey, label } = quarterOf(key);
+    const { revenue, expenses } = monthly.get(key)!;
+    if (!quarters.has(quarterKey)) {
+      quarters.set(quarterKey, { period: label, profit: zero(currency) });
+    }
+    const quarter = quarters.get(quarterKey)!;
+    quarter.profit = add(quarter.profit, subtract(revenue, expenses));
+  });
+  const trendData: PeriodProfit[] = Array.from(quarters.keys())
+    .sort()
+    .map((key) => ({
+      period: quarters.get(key)!.period,
+      profit: toNumber(quarters.get(key)!.profit),
+    }));
+
+  const monthlyProfit = subtract(totalRevenue, totalExpenses);
+  const profitMargin =
+    totalRevenue.minor > 0n
+      ? Math.round(ratio(monthlyProfit, totalRevenue) * 100)
+      : 0;
+
+  const lastRunDate = overall.latest ? overall.latest.toISOString() : undefined;
+
+  return {
+    revenueData,
+    categoryData,
+    trendData,
+    metrics: {
+      lastRunDate,
+      totalRevenue,
+      profitMargin,
+      monthlyProfit,
+      dateRange: formatDateRange(overall.earliest, overall.latest, locale),
+      netAssets: subtract(totalRevenue, totalExpenses),
+      revenueChange: Math.round(revenueChange),
+    },
+  };
+};
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+
+import { parseMoney } from "./money";
+import { diffFinancialData } from "./diff";
+import type { FinancialEntry, FinancialItemType } from "./types";
+
+let nextId = 0;
+
+/** An entry for January 2024 unless `month` says otherwise. */
+const entry = (
+  lineItemName: string,
+  amount: string,
+  {
+    category = "Revenue",
+    type = "revenue" as FinancialItemType,
+    month = "01",
+  } = {}
+): FinancialEntry => ({
+  // Re-syncs assign new row ids; the diff must not rely on them.
+  id: `row-${nextId++}`,
+  category,
+  lineItemName,
+  amount: parseMoney(amount, "USD"),
+  originalAmount: parseMoney(amount, "USD"),
+  type,
+  fromDate: new Date(`2024-${month}-01T00:00:00Z`),
+  toDate: new Date(`2024-${month}-28T00:00:00Z`),
+});
+
+const RENT = { category: "Operating Expenses", type: "expense" } as const;
+
+describe("diffFinancialData", () => {
+  it("matches line items by name and period, not row id", () => {
+    const diff = diffFinancialData(
+      [entry("Sales", "100"), entry("Sales", "80", { month: "02" })],
+      [entry("Sales", "100"), entry("Sales", "90", { month: "02" })]
+    );
+
+    expect(diff).toMatchObject({ added: 0, removed: 0, changed: 1 });
+    expect(diff.unchanged).toBe(1);
+    expect(diff.categories[0].changes).toMatchObject([
+      {
+        kind: "changed",
+        before: parseMoney("80", "USD"),
+        after: parseMoney("90", "USD"),
+        delta: parseMoney("10", "USD"),
+      },
+    ]);
+  });
+
+  it("counts added and removed items against zero", () => {
+    const diff = diffFinancialData(
+      [entry("Sales", "100"), entry("Rent", "-40", RENT)],
+      [entry("Sales", "100"), entry("Services", "25")]
+    );
+
+    expect(diff).toMatchObject({ added: 1, removed: 1, changed: 0 });
+    expect(diff.deltaByType).toEqual({
+      revenue: parseMoney("25", "USD"),
+      expense: parseMoney("40", "USD"),
+    });
+  });
+
+  it("keeps the sign of each side in the delta", () => {
+    // Expenses are negative: spending more is a negative change.
+    const diff = diffFinancialData(
+      [entry("Rent", "-40", RENT), entry("Sales", "100")],
+      [entry("Rent", "-55", RENT), entry("Sales", "90")]
+    );
+
+    expect(diff.deltaByType).toEqual({
+      expense: parseMoney("-15", "USD"),
+      revenue: parseMoney("-10", "USD"),
+    });
+    // Largest change first, by magnitude.
+    expect(diff.categories.map((category) => category.category)).toEqual([
+      "Operating Expenses",
+      "Revenue",
+    ]);
+  });
+
+  it("sums repeated line items before comparing them", () => {
+    const diff = diffFinancialData(
+      [entry("Sales", "60"), entry("Sales", "40")],
+      [entry("Sales", "100")]
+    );
+
+    expect(diff).toMatchObject({ changed: 0, unchanged: 1, categories: [] });
+  });
+
+  it("spans the periods that changed", () => {
+    const diff = diffFinancialData(
+      [
+        entry("Sales", "1", { month: "01" }),
+        entry("Sales", "1", { month: "03" }),
+      ],
+      [
+        entry("Sales", "1", { month: "01" }),
+        entry("Sales", "2", { month: "03" }),
+        entry("Sales", "5", { month: "05" }),
+      ]
+    );
+
+    expect(diff.firstPeriod).toEqual(new Date("2024-03-01T00:00:00Z"));
+    expect(diff.lastPeriod).toEqual(new Date("2024-05-28T00:00:00Z"));
+  });
+
+  it("reports every item when one side is empty", () => {
+    const entries = [entry("Sales", "100"), entry("Rent", "-40", RENT)];
+
+    expect(diffFinancialData([], entries)).toMatchObject({
+      added: 2,
+      removed: 0,
+    });
+    expect(diffFinancialData(entries, [])).toMatchObject({
+      added: 0,
+      removed: 2,
+      deltaByType: {
+        revenue: parseMoney("-100", "USD"),
+        expense: parseMoney("40", "USD"),
+      },
+    });
+    expect(diffFinancialData([], [])).toEqual({
+      categories: [],
+      added: 0,
+      removed: 0,
+      changed: 0,
+      unchanged: 0,
+      deltaByType: {},
+      firstPeriod: null,
+      lastPeriod: null,
+    });
+  });
+});
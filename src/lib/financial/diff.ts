@@ -0,0 +1,181 @@
+import {
+  add,
+  zero,
+  isZero,
+  subtract,
+  type Money,
+  compareByMagnitude,
+} from "./money";
+import type { FinancialEntry, FinancialItemType } from "./types";
+
+export type LineItemChangeKind = "added" | "removed" | "changed";
+
+/** One line item in one period whose amount differs between two runs. */
+export interface LineItemChange {
+  key: string;
+  kind: LineItemChangeKind;
+  category: string;
+  subcategory?: string;
+  lineItemName?: string;
+  source?: string;
+  type: FinancialItemType;
+  fromDate: Date | null;
+  toDate: Date | null;
+  before?: Money;
+  after?: Money;
+  /** `after - before`, with a missing side counting as zero. */
+  delta: Money;
+}
+
+export interface CategoryDiff {
+  category: string;
+  type: FinancialItemType;
+  delta: Money;
+  changes: LineItemChange[];
+}
+
+export interface FinancialDiff {
+  /** Categories with at least one change, largest net change first. */
+  categories: CategoryDiff[];
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  /** Net change per statement type, e.g. revenue +12,400. */
+  deltaByType: Partial<Record<FinancialItemType, Money>>;
+  /** Start of the earliest and end of the latest period that changed. */
+  firstPeriod: Date | null;
+  lastPeriod: Date | null;
+}
+
+const byDeltaMagnitude = (a: { delta: Money }, b: { delta: Money }) =>
+  compareByMagnitude(a.delta, b.delta);
+
+/**
+ * Identifies a line item in a period across runs. Row ids are not used
+ * because a re-sync may assign new ones to the same ledger line.
+ */
+const entryKey = (entry: FinancialEntry) =>
+  [
+    entry.category,
+    entry.subcategory ?? "",
+    entry.lineItemName ?? "",
+    entry.source ?? "",
+    entry.fromDate?.toISOString() ?? "",
+    entry.toDate?.toISOString() ?? "",
+  ].join("\u0000");
+
+/** Entries by key, with amounts of repeated keys summed. */
+const indexEntries = (entries: FinancialEntry[]) => {
+  const index = new Map<string, FinancialEntry>();
+  entries.forEach((entry) => {
+    const key = entryKey(entry);
+    const existing = index.get(key);
+    index.set(
+      key,
+      existing
+        ? { ...existing, amount: add(existing.amount, entry.amount) }
+        : entry
+    );
+  });
+  return index;
+};
+
+const toChange = (
+  key: string,
+  before: FinancialEntry | undefined,
+  after: FinancialEntry | undefined
+): LineItemChange | undefined => {
+  const entry = (after ?? before)!;
+  const currency = entry.amount.currency;
+  const delta = subtract(
+    after?.amount ?? zero(currency),
+    before?.amount ?? zero(currency)
+  );
+  if (before && after && isZero(delta)) return undefined;
+
+  return {
+    key,
+    kind: !before ? "added" : !after ? "removed" : "changed",
+    category: entry.category,
+    subcategory: entry.subcategory,
+    lineItemName: entry.lineItemName,
+    source: entry.source,
+    type: entry.type,
+    fromDate: entry.fromDate,
+    toDate: entry.toDate,
+    before: before?.amount,
+    after: after?.amount,
+    delta,
+  };
+};
+
+/**
+ * Compares the entries of two runs line item by line item and period by
+ * period, grouped by category as the data table groups them. Both sides
+ * must be in the same currency.
+ */
+export const diffFinancialData = (
+  before: FinancialEntry[],
+  after: FinancialEntry[]
+): FinancialDiff => {
+  const beforeIndex = indexEntries(before);
+  const afterIndex = indexEntries(after);
+  const keys = new Set([...beforeIndex.keys(), ...afterIndex.keys()]);
+
+  const diff: FinancialDiff = {
+    categories: [],
+    added: 0,
+    removed: 0,
+    changed: 0,
+    unchanged: 0,
+    deltaByType: {},
+    firstPeriod: null,
+    lastPeriod: null,
+  };
+  const categories = new Map<string, CategoryDiff>();
+
+  keys.forEach((key) => {
+    const change = toChange(key, beforeIndex.get(key), afterIndex.get(key));
+    if (!change) {
+      diff.unchanged++;
+      return;
+    }
+
+    diff[change.kind]++;
+    const typeDelta = diff.deltaByType[change.type];
+    diff.deltaByType[change.type] = typeDelta
+      ? add(typeDelta, change.delta)
+      : change.delta;
+
+    const periodStart = change.fromDate ?? change.toDate;
+    const periodEnd = change.toDate ?? change.fromDate;
+    if (periodStart && (!diff.firstPeriod || periodStart < diff.firstPeriod)) {
+      diff.firstPeriod = periodStart;
+    }
+    if (periodEnd && (!diff.lastPeriod || periodEnd > diff.lastPeriod)) {
+      diff.lastPeriod = periodEnd;
+    }
+
+    const category = categories.get(change.category);
+    if (category) {
+      category.delta = add(category.delta, change.delta);
+      category.changes.push(change);
+    } else {
+      categories.set(change.category, {
+        category: change.category,
+        type: change.type,
+        delta: change.delta,
+        changes: [change],
+      });
+    }
+  });
+
+  diff.categories = Array.from(categories.values())
+    .sort(byDeltaMagnitude)
+    .map((category) => ({
+      ...category,
+      changes: category.changes.sort(byDeltaMagnitude),
+    }));
+  return diff;
+};
@@ -0,0 +1,75 @@
+import { DEFAULT_CURRENCY, toNumber, type Money } from "./money";
+
+/** BCP 47 locale used when callers do not pass the active UI locale. */
+export const DEFAULT_LOCALE = "en-US";
+
+const monthYearOptions: Intl.DateTimeFormatOptions = {
+  month: "short",
+  year: "numeric",
+};
+
+export const formatMonthYear = (
+  date: Date,
+  locale: string = DEFAULT_LOCALE
+): string => date.toLocaleDateString(locale, monthYearOptions);
+
+/**
+ * "Jan 2024" when both ends fall in the same month, "Jan 2024 - Mar 2024"
+ * otherwise, or null when either end is missing.
+ */
+export const formatDateRange = (
+  start: Date | null | undefined,
+  end: Date | null | undefined,
+  locale: string = DEFAULT_LOCALE
+): string | null => {
+  if (!start || !end) return null;
+
+  const startStr = formatMonthYear(start, locale);
+  const endStr = formatMonthYear(end, locale);
+
+  return startStr === endStr ? startStr : `${startStr} - ${endStr}`;
+};
+
+/** Whole-unit currency display, e.g. "$12,400" or "-$3,100". */
+export const formatCurrency = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+  locale: string = DEFAULT_LOCALE
+): string =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+export const formatMoney = (
+  amount: Money,
+  locale: string = DEFAULT_LOCALE
+): string => formatCurrency(toNumber(amount), amount.currency, locale);
+
+/** A signed change in whole units, e.g. "+$12,400" or "-$3,100". */
+export const formatMoneyDelta = (
+  amount: Money,
+  locale: string = DEFAULT_LOCALE
+): string =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: amount.currency,
+    signDisplay: "exceptZero",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(toNumber(amount));
+
+/** Short axis labels, e.g. "$12K" or "SAR 1.2M". */
+export const formatCompactCurrency = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+  locale: string = DEFAULT_LOCALE
+): string =>
+  new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(amount);
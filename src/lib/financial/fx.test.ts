@@ -0,0 +1,236 @@
+import { describe, expect, it } from "vitest";
+
+import { parseMoney } from "./money";
+import {
+  mergeRates,
+  parseFxRate,
+  ratesToCsv,
+  parseRatesCsv,
+  type FxRate,
+  summarizeMissingRates,
+  createRateTableConverter,
+} from "./fx";
+import type { FinancialEntry } from "./types";
+
+const rate = (input: Omit<FxRate, "id">): FxRate => parseFxRate(input).rate!;
+
+const RATES = [
+  rate({
+    date: "2024-01-15",
+    base: "EUR",
+    quote: "USD",
+    rate: "1.10",
+    kind: "average",
+  }),
+  rate({
+    date: "2024-02-15",
+    base: "EUR",
+    quote: "USD",
+    rate: "1.20",
+    kind: "average",
+  }),
+  rate({
+    date: "2024-01-31",
+    base: "EUR",
+    quote: "USD",
+    rate: "1.05",
+    kind: "closing",
+  }),
+  rate({
+    date: "2024-01-31",
+    base: "USD",
+    quote: "GBP",
+    rate: "0.80",
+    kind: "average",
+  }),
+];
+
+const convert = createRateTableConverter(RATES);
+
+describe("createRateTableConverter", () => {
+  it("uses the average rate of the entry's month for P&L lines", () => {
+    expect(
+      convert(parseMoney("100", "EUR"), "USD", {
+        date: new Date("2024-02-10"),
+        type: "revenue",
+      })
+    ).toEqual(parseMoney("120", "USD"));
+  });
+
+  it("uses the latest closing rate on or before the date for balances", () => {
+    expect(
+      convert(parseMoney("100", "EUR"), "USD", {
+        date: new Date("2024-03-31"),
+        type: "asset",
+      })
+    ).toEqual(parseMoney("105", "USD"));
+  });
+
+  it("inverts a pair quoted the other way", () => {
+    expect(
+      convert(parseMoney("80", "GBP"), "USD", {
+        date: new Date("2024-01-20"),
+        type: "expense",
+      })
+    ).toEqual(parseMoney("100", "USD"));
+  });
+
+  it("crosses through USD using table quotes and pegs", () => {
+    // GBP -> USD at the table's USD/GBP 0.80, USD -> SAR at the 3.75 peg.
+    expect(
+      convert(parseMoney("80", "GBP"), "SAR", {
+        date: new Date("2024-01-10"),
+        type: "revenue",
+      })
+    ).toEqual(parseMoney("375", "SAR"));
+  });
+
+  it("crosses through USD with a pair quoted against USD", () => {
+    // EUR -> USD at the table's EUR/USD 1.10, USD -> SAR at the 3.75 peg.
+    expect(
+      convert(parseMoney("100", "EUR"), "SAR", {
+        date: new Date("2024-01-10"),
+        type: "revenue",
+      })
+    ).toEqual(parseMoney("412.50", "SAR"));
+    expect(
+      convert(parseMoney("412.50", "SAR"), "EUR", {
+        date: new Date("2024-01-10"),
+        type: "revenue",
+      })
+    ).toEqual(parseMoney("100", "EUR"));
+  });
+
+  it("returns null when no rate covers the period", () => {
+    expect(
+      convert(parseMoney("100", "EUR"), "USD", {
+        date: new Date("2024-05-01"),
+        type: "revenue",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("parseFxRate", () => {
+  it("normalizes codes, months and the default kind", () => {
+    expect(
+      parseFxRate({ date: "2024-03", base: "eur", quote: "usd", rate: "1.1" })
+        .rate
+    ).toEqual({
+      id: "average:EUR/USD:2024-03-01",
+      date: "2024-03-01",
+      base: "EUR",
+      quote: "USD",
+      rate: "1.1",
+      kind: "average",
+    });
+  });
+
+  it.each([
+    [
+      { date: "2024-01-01", base: "USD", quote: "USD", rate: "1" },
+      "rates.field.quote",
+      "rates.error.sameCurrency",
+    ],
+    [
+      { date: "2024-01-01", base: "EUR", quote: "USD", rate: "0" },
+      "rates.rate",
+      "rates.error.zero",
+    ],
+    [
+      { date: "01/02/2024", base: "EUR", quote: "USD", rate: "1" },
+      "rates.date",
+      "rates.error.dateFormat",
+    ],
+    [
+      { date: "2024-01-01", base: "EUR", quote: "USD", rate: "1", kind: "x" },
+      "rates.type",
+      "rates.error.invalid",
+    ],
+  ])("reports the failing field of %o as keys", (input, field, reason) => {
+    expect(parseFxRate(input).error).toEqual({
+      key: "rates.error",
+      params: { field: { key: field }, reason: { key: reason } },
+    });
+  });
+});
+
+describe("rate CSV", () => {
+  it("round-trips rates and reports bad lines", () => {
+    const csv = `${ratesToCsv(RATES.slice(0, 2))}\n2024-01-01,EUR,EUR,1,average`;
+    const { rates, errors } = parseRatesCsv(csv);
+
+    expect(rates).toEqual(RATES.slice(0, 2));
+    expect(errors).toEqual([
+      {
+        line: 4,
+        reason: {
+          key: "rates.error",
+          params: {
+            field: { key: "rates.field.quote" },
+            reason: { key: "rates.error.sameCurrency" },
+          },
+        },
+      },
+    ]);
+  });
+
+  it("requires the header columns", () => {
+    expect(parseRatesCsv("date,base\n").errors[0].reason).toEqual({
+      key: "rates.error.missingColumns",
+      params: { columns: "quote, rate" },
+    });
+  });
+});
+
+describe("mergeRates", () => {
+  it("replaces rates with the same kind, pair and date", () => {
+    const updated = rate({ ...RATES[0], rate: "1.11" });
+    const merged = mergeRates(RATES, [updated]);
+
+    expect(merged).toHaveLength(RATES.length);
+    expect(merged.find((item) => item.id === updated.id)?.rate).toBe("1.11");
+    expect(merged[0].date).toBe("2024-02-15");
+  });
+});
+
+describe("summarizeMissingRates", () => {
+  it("groups unconverted entries by currency and rate kind", () => {
+    const entry = (
+      currency: string,
+      type: FinancialEntry["type"],
+      date: string
+    ): FinancialEntry => ({
+      id: `${currency}-${date}`,
+      category: "Revenue",
+      amount: parseMoney("1", currency),
+      originalAmount: parseMoney("1", currency),
+      type,
+      fromDate: null,
+      toDate: new Date(date),
+    });
+
+    expect(
+      summarizeMissingRates([
+        entry("EUR", "revenue", "2024-03-31"),
+        entry("EUR", "expense", "2024-01-31"),
+        entry("EUR", "asset", "2024-01-31"),
+      ])
+    ).toEqual([
+      {
+        currency: "EUR",
+        kind: "average",
+        count: 2,
+        earliest: new Date("2024-01-31"),
+        latest: new Date("2024-03-31"),
+      },
+      {
+        currency: "EUR",
+        kind: "closing",
+        count: 1,
+        earliest: new Date("2024-01-31"),
+        latest: new Date("2024-01-31"),
+      },
+    ]);
+  });
+});
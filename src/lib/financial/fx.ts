@@ -0,0 +1,336 @@
+import { z } from "zod";
+
+import type { MessageKey, MessageDescriptor } from "@/lib/i18n";
+
+import { crossConvert, multiplyDecimals } from "./money";
+import { peggedUsdRate, type CurrencyConverter } from "./currency";
+import type { FinancialEntry, FinancialItemType } from "./types";
+
+/**
+ * P&L lines are translated at the average rate for their period, balance
+ * sheet lines at the closing rate on their reporting date (IAS 21).
+ */
+export type RateKind = "average" | "closing";
+
+export interface FxRate {
+  /** Stable key: one rate per kind, pair and date. */
+  id: string;
+  /** "YYYY-MM-DD". Average rates apply to the whole calendar month. */
+  date: string;
+  base: string;
+  quote: string;
+  /** Units of `quote` per one unit of `base`, as an exact decimal string. */
+  rate: string;
+  kind: RateKind;
+}
+
+export type FxRateInput = Omit<FxRate, "id">;
+
+export interface RateImportError {
+  line: number;
+  reason: MessageDescriptor;
+}
+
+export const rateKindFor = (type: FinancialItemType): RateKind =>
+  type === "asset" || type === "liability" ? "closing" : "average";
+
+export const fxRateId = ({ kind, base, quote, date }: FxRateInput) =>
+  `${kind}:${base}/${quote}:${date}`;
+
+/** UTC "YYYY-MM-DD", matching the midnight-UTC dates the API returns. */
+export const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const pairKey = (base: string, quote: string) => `${base}/${quote}`;
+
+type RateIndex = Map<string, FxRate[]>;
+
+const indexRates = (rates: FxRate[]): RateIndex => {
+  const index: RateIndex = new Map();
+  rates.forEach((rate) => {
+    const key = `${rate.kind}:${pairKey(rate.base, rate.quote)}`;
+    if (!index.has(key)) index.set(key, []);
+    index.get(key)!.push(rate);
+  });
+  index.forEach((list) => list.sort((a, b) => a.date.localeCompare(b.date)));
+  return index;
+};
+
+/**
+ * Average rates must fall in the same month as `dateKey`; closing rates
+ * use the latest quote on or before it. Without a date, the latest rate
+ * of the kind is used.
+ */
+const findRate = (
+  index: RateIndex,
+  base: string,
+  quote: string,
+  dateKey: string | null,
+  kind: RateKind
+): string | undefined => {
+  const list = index.get(`${kind}:${pairKey(base, quote)}`);
+  if (!list) return undefined;
+  if (!dateKey) return list[list.length - 1].rate;
+
+  for (let i = list.length - 1; i >= 0; i--) {
+    const { date, rate } = list[i];
+    if (kind === "average" && date.slice(0, 7) === dateKey.slice(0, 7)) {
+      return rate;
+    }
+    if (kind === "closing" && date <= dateKey) return rate;
+  }
+  return undefined;
+};
+
+/**
+ * Builds a converter over a rate table. It tries the direct pair, then the
+ * inverse pair, then a cross through USD using table quotes against USD in
+ * either direction or the official pegs. Returns null when none of those
+ * yields a rate.
+ */
+export const createRateTableConverter = (
+  rates: FxRate[]
+): CurrencyConverter => {
+  const index = indexRates(rates);
+
+  return (amount, currency, { date, type }) => {
+    if (amount.currency === currency) return amount;
+
+    const kind = rateKindFor(type);
+    const dateKey = date ? toDateKey(date) : null;
+    const lookup = (base: string, quote: string) =>
+      findRate(index, base, quote, dateKey, kind);
+
+    const direct = lookup(amount.currency, currency);
+    if (direct) return crossConvert(amount, currency, direct, "1");
+
+    const inverse = lookup(currency, amount.currency);
+    if (inverse) return crossConvert(amount, currency, "1", inverse);
+
+    // Units of `code` per USD, as a numerator and denominator.
+    const perUsd = (code: string): [string, string] | undefined => {
+      const usdQuoted = lookup("USD", code);
+      if (usdQuoted) return [usdQuoted, "1"];
+      const codeQuoted = lookup(code, "USD");
+      if (codeQuoted) return ["1", codeQuoted];
+      const pegged = peggedUsdRate(code);
+      return pegged ? [pegged, "1"] : undefined;
+    };
+    const to = perUsd(currency);
+    const from = perUsd(amount.currency);
+    if (!to || !from) return null;
+
+    return crossConvert(
+      amount,
+      currency,
+      multiplyDecimals(to[0], from[1]),
+      multiplyDecimals(to[1], from[0])
+    );
+  };
+};
+
+/** Adds or replaces rates, keyed by kind, pair and date. */
+export const mergeRates = (existing: FxRate[], incoming: FxRate[]) => {
+  const byId = new Map(existing.map((rate) => [rate.id, rate]));
+  incoming.forEach((rate) => byId.set(rate.id, rate));
+  return Array.from(byId.values()).sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) ||
+      a.base.localeCompare(b.base) ||
+      a.quote.localeCompare(b.quote)
+  );
+};
+
+// Validation messages are catalog keys; the rates view renders them.
+const ERRORS = {
+  required: "rates.error.required",
+  invalid: "rates.error.invalid",
+  currency: "rates.error.currency",
+  dateFormat: "rates.error.dateFormat",
+  date: "rates.error.date",
+  rate: "rates.error.rate",
+  zero: "rates.error.zero",
+  sameCurrency: "rates.error.sameCurrency",
+} satisfies Record<string, MessageKey>;
+
+/** Keys for issues zod raises without a message, e.g. a bad rate type. */
+const rateErrorMap: z.ZodErrorMap = (issue) => ({
+  message:
+    issue.code === z.ZodIssueCode.invalid_type &&
+    issue.received === z.ZodParsedType.undefined
+      ? ERRORS.required
+      : ERRORS.invalid,
+});
+
+const RATE_FIELD_LABELS: Record<string, MessageKey> = {
+  date: "rates.date",
+  base: "rates.field.base",
+  quote: "rates.field.quote",
+  rate: "rates.rate",
+  kind: "rates.type",
+};
+
+const currencyCode = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, ERRORS.currency)
+  .transform((value) => value.toUpperCase());
+
+export const fxRateInputSchema = z
+  .object({
+    date: z
+      .string()
+      .trim()
+      .regex(/^\d{4}-\d{2}(-\d{2})?$/, ERRORS.dateFormat)
+      .transform((value) => (value.length === 7 ? `${value}-01` : value))
+      .refine((value) => !isNaN(new Date(value).getTime()), {
+        message: ERRORS.date,
+      }),
+    base: currencyCode,
+    quote: currencyCode,
+    rate: z
+      .string()
+      .trim()
+      .regex(/^\d+(\.\d+)?$/, ERRORS.rate)
+      .refine((value) => /[1-9]/.test(value), { message: ERRORS.zero }),
+    kind: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .optional()
+      .transform((value) => value || "average")
+      .pipe(z.enum(["average", "closing"])),
+  })
+  .refine((rate) => rate.base !== rate.quote, {
+    message: ERRORS.sameCurrency,
+    path: ["quote"],
+  });
+
+/**
+ * Validates one rate. The first problem comes back as a message naming
+ * the field, e.g. "Quote currency: must differ from the base currency".
+ */
+export const parseFxRate = (
+  input: Record<string, unknown>
+): { rate?: FxRate; error?: MessageDescriptor } => {
+  const result = fxRateInputSchema.safeParse(input, {
+    errorMap: rateErrorMap,
+  });
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return {
+      error: {
+        key: "rates.error",
+        params: {
+          field: { key: RATE_FIELD_LABELS[issue.path[0]] ?? "rates.rate" },
+          reason: { key: issue.message as MessageKey },
+        },
+      },
+    };
+  }
+  const rate = result.data as FxRateInput;
+  return { rate: { ...rate, id: fxRateId(rate) } as FxRate };
+};
+
+const CSV_COLUMNS = ["date", "base", "quote", "rate", "type"];
+
+/**
+ * Parses "date,base,quote,rate[,type]" CSV, where type is `average`
+ * (default) or `closing`. The header row is required; bad lines are
+ * reported and skipped.
+ */
+export const parseRatesCsv = (
+  text: string
+): { rates: FxRate[]; errors: RateImportError[] } => {
+  const lines = text.split(/\r?\n/);
+  const header = (lines[0] ?? "")
+    .split(",")
+    .map((cell) => cell.trim().toLowerCase());
+  const missing = CSV_COLUMNS.slice(0, 4).filter(
+    (column) => !header.includes(column)
+  );
+  if (missing.length > 0) {
+    return {
+      rates: [],
+      errors: [
+        {
+          line: 1,
+          reason: {
+            key: "rates.error.missingColumns",
+            params: { columns: missing.join(", ") },
+          },
+        },
+      ],
+    };
+  }
+
+  const rates: FxRate[] = [];
+  const errors: RateImportError[] = [];
+
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const cells = line.split(",");
+    const record = Object.fromEntries(
+      header.map((column, i) => [column, cells[i]])
+    );
+    const { rate, error } = parseFxRate({ ...record, kind: record.type });
+    if (rate) {
+      rates.push(rate);
+    } else {
+      errors.push({ line: index + 2, reason: error });
+    }
+  });
+
+  return { rates, errors };
+};
+
+export const ratesToCsv = (rates: FxRate[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...rates.map((rate) =>
+      [rate.date, rate.base, rate.quote, rate.rate, rate.kind].join(",")
+    ),
+  ].join("\n");
+
+export interface MissingRate {
+  currency: string;
+  kind: RateKind;
+  count: number;
+  earliest: Date | null;
+  latest: Date | null;
+}
+
+/** Groups entries that could not be converted by currency and rate kind. */
+export const summarizeMissingRates = (
+  unconverted: FinancialEntry[]
+): MissingRate[] => {
+  const groups = new Map<string, MissingRate>();
+
+  unconverted.forEach((entry) => {
+    const currency = entry.originalAmount.currency;
+    const kind = rateKindFor(entry.type);
+    const key = `${currency}:${kind}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        currency,
+        kind,
+        count: 0,
+        earliest: null,
+        latest: null,
+      });
+    }
+
+    const group = groups.get(key)!;
+    const date = entry.toDate ?? entry.fromDate;
+    group.count += 1;
+    if (date && (!group.earliest || date < group.earliest)) {
+      group.earliest = date;
+    }
+    if (date && (!group.latest || date > group.latest)) group.latest = date;
+  });
+
+  return Array.from(groups.values()).sort(
+    (a, b) =>
+      a.currency.localeCompare(b.currency) || a.kind.localeCompare(b.kind)
+  );
+};
@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+
+import { validateFinancialRows } from "@/lib/api";
+
+import { toEntries } from "./normalize";
+import { buildFinancialTree } from "./tree";
+import { buildDashboardData } from "./dashboard";
+
+// Each `<name>.payload.json` is a financial-data response; its tree and
+// dashboard are compared with `<name>.expected.json`. Amounts are written
+// in minor units. Run with UPDATE_GOLDEN=1 to rewrite the expected files
+// after an intended change, then review the diff.
+
+const FIXTURES = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "__fixtures__"
+);
+
+interface Fixture {
+  reportingCurrency: string;
+  defaultCurrency?: string;
+  data: unknown[];
+}
+
+/** Plain JSON: `bigint` minor units become strings, dates ISO strings. */
+const toJson = (value: unknown): unknown =>
+  JSON.parse(
+    JSON.stringify(value, (_, item) =>
+      typeof item === "bigint" ? item.toString() : item
+    )
+  );
+
+const build = ({ reportingCurrency, defaultCurrency, data }: Fixture) => {
+  const { rows, issues } = validateFinancialRows(data);
+  const { entries, unconverted } = toEntries(rows, {
+    reportingCurrency,
+    defaultCurrency,
+  });
+
+  return toJson({
+    issues,
+    unconverted: unconverted.map((entry) => entry.id),
+    tree: buildFinancialTree(entries),
+    dashboard: buildDashboardData(entries, reportingCurrency, "en-US"),
+  });
+};
+
+const names = fs
+  .readdirSync(FIXTURES)
+  .filter((file) => file.endsWith(".payload.json"))
+  .map((file) => file.replace(".payload.json", ""));
+
+describe("financial golden files", () => {
+  it.each(names)("%s", (name) => {
+    const fixture: Fixture = JSON.parse(
+      fs.readFileSync(path.join(FIXTURES, `${name}.payload.json`), "utf8")
+    );
+    const expectedPath = path.join(FIXTURES, `${name}.expected.json`);
+    const actual = build(fixture);
+
+    if (process.env.UPDATE_GOLDEN) {
+      fs.writeFileSync(expectedPath, `${JSON.stringify(actual, null, 2)}\n`);
+    }
+    expect(actual).toEqual(JSON.parse(fs.readFileSync(expectedPath, "utf8")));
+  });
+});
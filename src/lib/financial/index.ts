@@ -0,0 +1,10 @@
+export * from "./types";
+export * from "./money";
+export * from "./classify";
+export * from "./currency";
+export * from "./fx";
+export * from "./normalize";
+export * from "./format";
+export * from "./tree";
+export * from "./dashboard";
+export * from "./diff";
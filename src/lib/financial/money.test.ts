@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  add,
+  convert,
+  multiply,
+  parseMoney,
+  ratio,
+  crossConvert,
+  divideRounded,
+  parseDecimal,
+  multiplyDecimals,
+  toDecimalString,
+  compareByMagnitude,
+} from "./money";
+
+describe("parseDecimal", () => {
+  it("reads signs, fractions and exponents exactly", () => {
+    expect(parseDecimal("-1250.75")).toEqual({ digits: -125075n, scale: 2 });
+    expect(parseDecimal("1e3")).toEqual({ digits: 1000n, scale: 0 });
+    expect(parseDecimal("1.5e-3")).toEqual({ digits: 15n, scale: 4 });
+  });
+
+  it("rejects text that is not a number", () => {
+    expect(() => parseDecimal("12abc")).toThrow(RangeError);
+    expect(() => parseDecimal(".")).toThrow(RangeError);
+  });
+
+  it("multiplies decimals without losing digits", () => {
+    expect(parseDecimal(multiplyDecimals("1.10", "3.75"))).toEqual({
+      digits: 41250n,
+      scale: 4,
+    });
+  });
+});
+
+describe("divideRounded", () => {
+  it.each([
+    [5n, 2n, "half-up", 3n],
+    [-5n, 2n, "half-up", -3n],
+    [5n, 2n, "half-even", 2n],
+    [7n, 2n, "half-even", 4n],
+    [-7n, 2n, "truncate", -3n],
+  ] as const)("%s / %s (%s) = %s", (numerator, denominator, mode, result) => {
+    expect(divideRounded(numerator, denominator, mode)).toBe(result);
+  });
+});
+
+describe("parseMoney", () => {
+  it("uses each currency's minor units", () => {
+    expect(parseMoney("12.5", "USD").minor).toBe(1250n);
+    expect(parseMoney("1.2345", "KWD").minor).toBe(1235n);
+    expect(parseMoney("1500", "JPY").minor).toBe(1500n);
+  });
+
+  it("rounds extra decimals with the currency's rule", () => {
+    expect(parseMoney("0.125", "USD").minor).toBe(13n);
+    expect(parseMoney("0.125", "EUR").minor).toBe(12n);
+  });
+
+  it("sums to the cent where floats drift", () => {
+    const total = ["0.1", "0.2", "0.3"]
+      .map((amount) => parseMoney(amount))
+      .reduce(add);
+    expect(toDecimalString(total)).toBe("0.60");
+  });
+});
+
+describe("arithmetic", () => {
+  it("refuses to add different currencies", () => {
+    expect(() => add(parseMoney("1", "USD"), parseMoney("1", "EUR"))).toThrow(
+      /without conversion/
+    );
+  });
+
+  it("multiplies by a decimal factor and rounds once", () => {
+    expect(toDecimalString(multiply(parseMoney("100.00"), "0.333"))).toBe(
+      "33.30"
+    );
+  });
+
+  it("orders by magnitude regardless of sign", () => {
+    const amounts = ["5", "-20", "10"].map((amount) => parseMoney(amount));
+    expect(
+      amounts.sort(compareByMagnitude).map((amount) => toDecimalString(amount))
+    ).toEqual(["-20.00", "10.00", "5.00"]);
+  });
+
+  it("computes ratios from minor units", () => {
+    expect(ratio(parseMoney("1"), parseMoney("3"))).toBe(0.333333);
+    expect(ratio(parseMoney("1"), parseMoney("0"))).toBe(0);
+  });
+});
+
+describe("conversion", () => {
+  it("rescales between minor units", () => {
+    expect(convert(parseMoney("1.000", "KWD"), "USD", "3.25")).toEqual(
+      parseMoney("3.25", "USD")
+    );
+    expect(convert(parseMoney("10.00", "USD"), "JPY", "151.237")).toEqual(
+      parseMoney("1512", "JPY")
+    );
+  });
+
+  it("crosses through a base without an intermediate rounding", () => {
+    // 100 AED -> USD at 3.6725 -> SAR at 3.75.
+    expect(
+      toDecimalString(
+        crossConvert(parseMoney("100", "AED"), "SAR", "3.75", "3.6725")
+      )
+    ).toBe("102.11");
+  });
+
+  it("rejects a zero source rate", () => {
+    expect(() => crossConvert(parseMoney("1", "EUR"), "USD", "1", "0")).toThrow(
+      RangeError
+    );
+  });
+
+  it("formats negative amounts below one unit", () => {
+    expect(toDecimalString(parseMoney("-0.05"))).toBe("-0.05");
+  });
+});
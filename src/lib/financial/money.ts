@@ -0,0 +1,272 @@
+/**
+ * Exact monetary arithmetic on integer minor units (cents, fils, piastres).
+ * Amounts enter as decimal strings, are summed as `bigint`, and only become
+ * floats at the display edge via `toNumber`, so totals reconcile to the
+ * minor unit with the source ledger.
+ */
+
+export type RoundingMode = "half-up" | "half-even" | "truncate";
+
+export interface CurrencyRules {
+  /** Number of minor-unit digits, e.g. 2 for USD, 3 for KWD, 0 for JPY. */
+  minorUnits: number;
+  /** Applied when an input carries more decimals than `minorUnits`. */
+  rounding: RoundingMode;
+}
+
+export interface Money {
+  readonly minor: bigint;
+  readonly currency: string;
+}
+
+export const DEFAULT_CURRENCY = "USD";
+
+const DEFAULT_RULES: CurrencyRules = { minorUnits: 2, rounding: "half-up" };
+
+const currencyRules = new Map<string, CurrencyRules>([
+  ["USD", { minorUnits: 2, rounding: "half-up" }],
+  ["EUR", { minorUnits: 2, rounding: "half-even" }],
+  ["GBP", { minorUnits: 2, rounding: "half-up" }],
+  ["SAR", { minorUnits: 2, rounding: "half-up" }],
+  ["AED", { minorUnits: 2, rounding: "half-up" }],
+  ["EGP", { minorUnits: 2, rounding: "half-up" }],
+  ["KWD", { minorUnits: 3, rounding: "half-up" }],
+  ["BHD", { minorUnits: 3, rounding: "half-up" }],
+  ["OMR", { minorUnits: 3, rounding: "half-up" }],
+  ["JPY", { minorUnits: 0, rounding: "half-up" }],
+]);
+
+export const getCurrencyRules = (currency: string): CurrencyRules =>
+  currencyRules.get(currency.toUpperCase()) ?? DEFAULT_RULES;
+
+/** Overrides the precision or rounding mode used for `currency`. */
+export const configureCurrency = (
+  currency: string,
+  rules: Partial<CurrencyRules>
+) => {
+  const code = currency.toUpperCase();
+  currencyRules.set(code, { ...getCurrencyRules(code), ...rules });
+};
+
+const pow10 = (exponent: number) => 10n ** BigInt(exponent);
+
+const abs = (value: bigint) => (value < 0n ? -value : value);
+
+/** Integer division of `numerator / denominator` using `mode`. */
+export const divideRounded = (
+  numerator: bigint,
+  denominator: bigint,
+  mode: RoundingMode
+): bigint => {
+  if (denominator < 0n) {
+    return divideRounded(-numerator, -denominator, mode);
+  }
+
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n || mode === "truncate") return quotient;
+
+  const step = numerator < 0n ? -1n : 1n;
+  const twiceRemainder = abs(remainder) * 2n;
+
+  if (twiceRemainder > denominator) return quotient + step;
+  if (twiceRemainder < denominator) return quotient;
+  if (mode === "half-even") {
+    return quotient % 2n === 0n ? quotient : quotient + step;
+  }
+  return quotient + step;
+};
+
+const DECIMAL_PATTERN = /^([-+]?)(\d*)(?:\.(\d*))?(?:[eE]([-+]?\d+))?$/;
+
+/**
+ * Parses a decimal string ("1234.56", "-0.5", "1e-3") into an exact
+ * fraction `digits / 10^scale`.
+ */
+export const parseDecimal = (
+  text: string
+): { digits: bigint; scale: number } => {
+  const match = DECIMAL_PATTERN.exec(text.trim());
+  if (!match || (match[2] === "" && (match[3] ?? "") === "")) {
+    throw new RangeError(`"${text}" is not a decimal number`);
+  }
+
+  const [, sign, integerPart, fractionPart = "", exponentPart] = match;
+  const exponent = exponentPart ? Number(exponentPart) : 0;
+  let digits = BigInt(`${integerPart || "0"}${fractionPart}`);
+  let scale = fractionPart.length - exponent;
+
+  if (scale < 0) {
+    digits *= pow10(-scale);
+    scale = 0;
+  }
+
+  return { digits: sign === "-" ? -digits : digits, scale };
+};
+
+/** Exact product of two decimal strings, e.g. to chain exchange rates. */
+export const multiplyDecimals = (a: string, b: string): string => {
+  const left = parseDecimal(a);
+  const right = parseDecimal(b);
+  return `${left.digits * right.digits}e-${left.scale + right.scale}`;
+};
+
+export const zero = (currency: string = DEFAULT_CURRENCY): Money => ({
+  minor: 0n,
+  currency,
+});
+
+/**
+ * Builds a `Money` from a decimal string (preferred) or a number, rounding
+ * extra decimals with the currency's configured rule.
+ */
+export const parseMoney = (
+  amount: string | number,
+  currency: string = DEFAULT_CURRENCY
+): Money => {
+  const text = typeof amount === "number" ? String(amount) : amount;
+  const { minorUnits, rounding } = getCurrencyRules(currency);
+  const { digits, scale } = parseDecimal(text);
+
+  const minor =
+    scale <= minorUnits
+      ? digits * pow10(minorUnits - scale)
+      : divideRounded(digits, pow10(scale - minorUnits), rounding);
+
+  return { minor, currency };
+};
+
+const assertSameCurrency = (a: Money, b: Money) => {
+  if (a.currency !== b.currency) {
+    throw new Error(
+      `Cannot combine ${a.currency} and ${b.currency} amounts without conversion`
+    );
+  }
+};
+
+export const add = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { minor: a.minor + b.minor, currency: a.currency };
+};
+
+export const subtract = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { minor: a.minor - b.minor, currency: a.currency };
+};
+
+export const sum = (amounts: Money[], currency: string): Money =>
+  amounts.reduce(add, zero(currency));
+
+export const negate = (a: Money): Money => ({
+  minor: -a.minor,
+  currency: a.currency,
+});
+
+export const absolute = (a: Money): Money => ({
+  minor: abs(a.minor),
+  currency: a.currency,
+});
+
+export const isNegative = (a: Money) => a.minor < 0n;
+
+export const isZero = (a: Money) => a.minor === 0n;
+
+/** Sort comparator: larger absolute amounts first. */
+export const compareByMagnitude = (a: Money, b: Money) => {
+  const difference = abs(b.minor) - abs(a.minor);
+  return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+};
+
+/**
+ * Multiplies by a decimal factor (e.g. an FX rate or allocation share) and
+ * rounds back to minor units with the currency's rule.
+ */
+export const multiply = (a: Money, factor: string | number): Money => {
+  const { digits, scale } = parseDecimal(
+    typeof factor === "number" ? String(factor) : factor
+  );
+  const { rounding } = getCurrencyRules(a.currency);
+  return {
+    minor: divideRounded(a.minor * digits, pow10(scale), rounding),
+    currency: a.currency,
+  };
+};
+
+/**
+ * Converts into `currency` at `rate` (units of `currency` per one unit of
+ * the source currency), rescaling between the two currencies' minor units
+ * and rounding with the target currency's rule.
+ */
+export const convert = (
+  a: Money,
+  currency: string,
+  rate: string | number
+): Money => crossConvert(a, currency, rate, "1");
+
+/**
+ * Converts through a common base currency without an intermediate rounding
+ * step: `a * toRate / fromRate`, where both rates are quoted against the
+ * same base (e.g. USD per unit).
+ */
+export const crossConvert = (
+  a: Money,
+  currency: string,
+  toRate: string | number,
+  fromRate: string | number
+): Money => {
+  if (a.currency === currency) return a;
+
+  const to = parseDecimal(typeof toRate === "number" ? String(toRate) : toRate);
+  const from = parseDecimal(
+    typeof fromRate === "number" ? String(fromRate) : fromRate
+  );
+  if (from.digits === 0n) {
+    throw new RangeError(`Cannot convert from ${a.currency} at a zero rate`);
+  }
+
+  const source = getCurrencyRules(a.currency);
+  const target = getCurrencyRules(currency);
+  // minor_t = minor_s * to / from * 10^(target - source), with the decimal
+  // scales of both rates folded into a single power of ten.
+  const exponent =
+    to.scale - from.scale + source.minorUnits - target.minorUnits;
+
+  let numerator = a.minor * to.digits;
+  let denominator = from.digits;
+  if (exponent >= 0) denominator *= pow10(exponent);
+  else numerator *= pow10(-exponent);
+
+  return {
+    minor: divideRounded(numerator, denominator, target.rounding),
+    currency,
+  };
+};
+
+/** `numerator / denominator` as a float, for percentages and margins. */
+export const ratio = (numerator: Money, denominator: Money): number => {
+  assertSameCurrency(numerator, denominator);
+  if (denominator.minor === 0n) return 0;
+
+  // Keep six decimals of precision before leaving bigint space.
+  const scaled = divideRounded(
+    numerator.minor * 1_000_000n,
+    denominator.minor,
+    "half-up"
+  );
+  return Number(scaled) / 1_000_000;
+};
+
+/** Exact decimal representation, e.g. "-1234.50". Use for exports. */
+export const toDecimalString = (a: Money): string => {
+  const { minorUnits } = getCurrencyRules(a.currency);
+  const digits = abs(a.minor)
+    .toString()
+    .padStart(minorUnits + 1, "0");
+  const sign = a.minor < 0n ? "-" : "";
+
+  if (minorUnits === 0) return `${sign}${digits}`;
+  return `${sign}${digits.slice(0, -minorUnits)}.${digits.slice(-minorUnits)}`;
+};
+
+/** Lossy conversion to a float in major units, for charts and `Intl`. */
+export const toNumber = (a: Money): number => Number(toDecimalString(a));
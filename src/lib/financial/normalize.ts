@@ -0,0 +1,69 @@
+import type { FinancialDataRow } from "@/lib/api";
+
+import { determineType } from "./classify";
+import { pegConverter, type CurrencyConverter } from "./currency";
+import { DEFAULT_CURRENCY, parseMoney } from "./money";
+import type { FinancialEntry } from "./types";
+
+export interface EntryOptions {
+  /** Currency every returned entry's `amount` is expressed in. */
+  reportingCurrency?: string;
+  /** Currency assumed for rows that do not carry their own. */
+  defaultCurrency?: string;
+  convert?: CurrencyConverter;
+}
+
+export interface NormalizedEntries {
+  entries: FinancialEntry[];
+  /** Entries left out of `entries` because no rate was available. */
+  unconverted: FinancialEntry[];
+}
+
+/**
+ * Parses rows into entries and converts each into the reporting currency,
+ * keeping the source amount in `originalAmount`.
+ */
+export const toEntries = (
+  rows: FinancialDataRow[],
+  {
+    reportingCurrency = DEFAULT_CURRENCY,
+    defaultCurrency = reportingCurrency,
+    convert = pegConverter,
+  }: EntryOptions = {}
+): NormalizedEntries => {
+  const entries: FinancialEntry[] = [];
+  const unconverted: FinancialEntry[] = [];
+
+  rows.forEach((row, index) => {
+    const originalAmount = parseMoney(
+      row.amount,
+      row.currency ?? defaultCurrency
+    );
+    const type = determineType(row.category, originalAmount);
+    const fromDate = row.fromDate ? new Date(row.fromDate) : null;
+    const toDate = row.toDate ? new Date(row.toDate) : null;
+
+    const amount = convert(originalAmount, reportingCurrency, {
+      date: toDate ?? fromDate,
+      type,
+    });
+
+    const entry: FinancialEntry = {
+      id: row.id ?? `row-${index}`,
+      category: row.category ?? "",
+      subcategory: row.subcategory,
+      lineItemName: row.lineItemName,
+      amount: amount ?? originalAmount,
+      originalAmount,
+      type,
+      fromDate,
+      toDate,
+      source: row.sourceName,
+      depth: row.metadata?.depth,
+    };
+
+    (amount ? entries : unconverted).push(entry);
+  });
+
+  return { entries, unconverted };
+};
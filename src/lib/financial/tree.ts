@@ -0,0 +1,120 @@
+import { add, compareByMagnitude, zero } from "./money";
+import type { FinancialEntry, FinancialItem } from "./types";
+
+const byMagnitude = (a: FinancialItem, b: FinancialItem) =>
+  compareByMagnitude(a.amount, b.amount);
+
+const widenRange = (
+  item: FinancialItem,
+  fromDate: Date | null,
+  toDate: Date | null
+) => {
+  if (fromDate && (!item.fromDate || fromDate < item.fromDate)) {
+    item.fromDate = fromDate;
+  }
+  if (toDate && (!item.toDate || toDate > item.toDate)) {
+    item.toDate = toDate;
+  }
+};
+
+/**
+ * Groups entries into a category → subcategory → line item tree with rolled
+ * up amounts and date ranges. Every level is sorted by absolute amount.
+ * All entries must share one currency.
+ *
+ * Line items whose name repeats their subcategory are folded into it unless
+ * the source marked them as nested (`depth > 1`).
+ */
+export const buildFinancialTree = (
+  entries: FinancialEntry[]
+): FinancialItem[] => {
+  const categoryMap = new Map<string, FinancialItem>();
+  const categoryCounts = new Map<string, number>();
+
+  entries.forEach((entry) => {
+    categoryCounts.set(
+      entry.category,
+      (categoryCounts.get(entry.category) ?? 0) + 1
+    );
+  });
+
+  entries.forEach((entry) => {
+    const { category, amount, type, fromDate, toDate } = entry;
+
+    if (!categoryMap.has(category)) {
+      categoryMap.set(category, {
+        id: `cat-${category}`,
+        category,
+        amount: zero(amount.currency),
+        type,
+        children: [],
+        fromDate,
+        toDate,
+        hasDuplicates: categoryCounts.get(category)! > 1,
+      });
+    }
+
+    const categoryItem = categoryMap.get(category)!;
+    categoryItem.amount = add(categoryItem.amount, amount);
+    widenRange(categoryItem, fromDate, toDate);
+
+    const lineItem: FinancialItem = {
+      type,
+      amount,
+      toDate,
+      fromDate,
+      id: entry.id,
+      source: entry.source,
+      originalAmount:
+        entry.originalAmount.currency !== amount.currency
+          ? entry.originalAmount
+          : undefined,
+      category: entry.lineItemName ?? "",
+    };
+
+    if (!entry.subcategory) {
+      categoryItem.children!.push(lineItem);
+      return;
+    }
+
+    const subcategoryId = `subcat-${category}-${entry.subcategory}`;
+    let subcategoryItem = categoryItem.children!.find(
+      (child) => child.id === subcategoryId
+    );
+
+    if (!subcategoryItem) {
+      subcategoryItem = {
+        type,
+        amount: zero(amount.currency),
+        children: [],
+        toDate,
+        fromDate,
+        id: subcategoryId,
+        category: entry.subcategory,
+      };
+      categoryItem.children!.push(subcategoryItem);
+    } else {
+      widenRange(subcategoryItem, fromDate, toDate);
+    }
+
+    subcategoryItem.amount = add(subcategoryItem.amount, amount);
+
+    if (
+      entry.lineItemName &&
+      (entry.lineItemName !== entry.subcategory ||
+        (entry.depth !== undefined && entry.depth > 1))
+    ) {
+      subcategoryItem.children!.push(lineItem);
+    }
+  });
+
+  return Array.from(categoryMap.values())
+    .sort(byMagnitude)
+    .map((category) => {
+      category.children = category.children!.sort(byMagnitude).map((sub) => {
+        if (sub.children) sub.children = sub.children.sort(byMagnitude);
+        return sub;
+      });
+      return category;
+    });
+};
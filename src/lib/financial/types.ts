@@ -0,0 +1,85 @@
+import type { Money } from "./money";
+
+export type FinancialItemType = "revenue" | "expense" | "asset" | "liability";
+
+/**
+ * A validated API row with parsed dates and a resolved type. Every view
+ * computes from this shape instead of re-reading raw API rows.
+ */
+export interface FinancialEntry {
+  id: string;
+  /** Empty when the row named no category. */
+  category: string;
+  subcategory?: string;
+  lineItemName?: string;
+  /** The amount in the reporting currency. */
+  amount: Money;
+  /** The amount as the source reported it. */
+  originalAmount: Money;
+  type: FinancialItemType;
+  fromDate: Date | null;
+  toDate: Date | null;
+  source?: string;
+  depth?: number;
+}
+
+/** A node of the category → subcategory → line item table tree. */
+export interface FinancialItem {
+  id: string;
+  amount: Money;
+  /** Set on line items whose source currency differs from `amount`. */
+  originalAmount?: Money;
+  source?: string;
+  /** The node's name; empty for an unnamed category or line item. */
+  category: string;
+  subcategory?: string;
+  toDate?: Date | null;
+  fromDate?: Date | null;
+  hasDuplicates?: boolean;
+  children?: FinancialItem[];
+  type: FinancialItemType;
+}
+
+export interface MonthlyTotals {
+  month: string;
+  revenue: number;
+  expenses: number;
+}
+
+/** Which side of a category a chart slice sums. */
+export type CategoryKind = "revenue" | "expense";
+
+export interface CategoryTotal {
+  /** The category as reported; empty when the rows had none. */
+  name: string;
+  kind: CategoryKind;
+  value: number;
+  color: string;
+  dateRange?: string;
+}
+
+export interface PeriodProfit {
+  period: string;
+  profit: number;
+}
+
+// Chart series are plain numbers (recharts needs them); they are converted
+// from exact sums once, after aggregation.
+
+export interface DashboardMetrics {
+  totalRevenue: Money;
+  monthlyProfit: Money;
+  profitMargin: number;
+  netAssets: Money;
+  revenueChange: number;
+  /** Formatted span of the data, or null when no entry carries dates. */
+  dateRange: string | null;
+  lastRunDate?: string;
+}
+
+export interface DashboardData {
+  revenueData: MonthlyTotals[];
+  categoryData: CategoryTotal[];
+  trendData: PeriodProfit[];
+  metrics: DashboardMetrics;
+}
@@ -0,0 +1,94 @@
+import React, {
+  createContext,
+  useMemo,
+  useState,
+  useContext,
+  ReactNode,
+  useCallback,
+} from "react";
+
+import {
+  type FxRate,
+  mergeRates,
+  type CurrencyConverter,
+  createRateTableConverter,
+} from "@/lib/financial";
+
+const FX_RATES_STORAGE_KEY = "kudwa.fxRates";
+
+interface FxRatesContextType {
+  rates: FxRate[];
+  /** Adds rates, replacing any with the same kind, pair and date. */
+  saveRates: (rates: FxRate[]) => void;
+  removeRate: (id: string) => void;
+  clearRates: () => void;
+  /** Converter over the current table, falling back to USD pegs. */
+  convert: CurrencyConverter;
+}
+
+const FxRatesContext = createContext<FxRatesContextType>({
+  rates: [],
+  saveRates: () => {},
+  removeRate: () => {},
+  clearRates: () => {},
+  convert: createRateTableConverter([]),
+});
+
+const loadRates = (): FxRate[] => {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(FX_RATES_STORAGE_KEY) || "[]"
+    );
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const FxRatesProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const [rates, setRates] = useState<FxRate[]>(loadRates);
+
+  const updateRates = useCallback(
+    (update: (prev: FxRate[]) => FxRate[]) =>
+      setRates((prev) => {
+        const next = update(prev);
+        localStorage.setItem(FX_RATES_STORAGE_KEY, JSON.stringify(next));
+        return next;
+      }),
+    []
+  );
+
+  const saveRates = useCallback(
+    (incoming: FxRate[]) => updateRates((prev) => mergeRates(prev, incoming)),
+    [updateRates]
+  );
+  const removeRate = useCallback(
+    (id: string) =>
+      updateRates((prev) => prev.filter((rate) => rate.id !== id)),
+    [updateRates]
+  );
+  const clearRates = useCallback(() => updateRates(() => []), [updateRates]);
+
+  const contextValue = useMemo(
+    () => ({
+      rates,
+      saveRates,
+      removeRate,
+      clearRates,
+      convert: createRateTableConverter(rates),
+    }),
+    [rates, saveRates, removeRate, clearRates]
+  );
+
+  return (
+    <FxRatesContext.Provider value={contextValue}>
+      {children}
+    </FxRatesContext.Provider>
+  );
+};
+
+export const useFxRates = (): FxRatesContextType => {
+  return useContext(FxRatesContext);
+};
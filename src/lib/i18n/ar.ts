@@ -0,0 +1,760 @@
+import type { Messages } from "./translate";
+
+export const ar: Messages = {
+  "common.cancel": "إلغاء",
+  "common.close": "إغلاق",
+  "common.retry": "إعادة المحاولة",
+  "common.error": "خطأ",
+  "common.validationError": "خطأ في التحقق",
+  "common.lastRun": "آخر تشغيل: {date}",
+  "common.uncategorized": "غير مصنف",
+  "common.networkError": "تعذر الوصول إلى الخادم. تحقق من اتصالك.",
+  "common.httpError": "{message} (HTTP {status})",
+  "common.httpErrorDetail": "{message} (HTTP {status}: {detail})",
+  "common.invalidResponse": "{message}: أعاد الخادم استجابة غير صالحة.",
+  "common.rows": {
+    zero: "لا صفوف",
+    one: "صف واحد",
+    two: "صفان",
+    few: "{count} صفوف",
+    many: "{count} صفًا",
+    other: "{count} صف",
+  },
+
+  "app.title": "منصة كدوة للتكامل المالي",
+  "app.subtitle": "لوحة متكاملة لتكامل البيانات والتقارير المالية",
+  "app.logoAlt": "شعار كدوة",
+  "app.badge.etl": "استخراج متعدد المصادر",
+  "app.badge.tables": "جداول تفاعلية",
+  "app.badge.analytics": "تحليلات فورية",
+  "app.noCompanies": "لا توجد شركات",
+  "app.manageCompanies": "إدارة الشركات",
+  "app.companyManagement": "إدارة الشركات",
+  "app.exchangeRates": "أسعار الصرف",
+  "app.bulkSync": "مزامنة جماعية",
+  "app.language": "اللغة",
+  "app.fetchCompaniesFailed": "تعذر جلب الشركات.",
+  "app.tab.table": "جدول البيانات المنظمة",
+  "app.tab.dashboard": "عرض البيانات المرئي",
+  "app.tab.history": "سجل المزامنة",
+  "app.features.title": "مزايا البيانات المالية",
+  "app.features.schema": "مخطط موحد",
+  "app.features.schemaText": "مصدر واحد موثوق لجميع البيانات المالية",
+  "app.features.rows": "صفوف قابلة للتوسيع",
+  "app.features.rowsText": "تعمق في التفاصيل الدقيقة",
+  "app.features.charts": "رسوم بيانية تفاعلية",
+  "app.features.chartsText": "رؤى مرئية حول الأداء المالي",
+  "app.features.enterprise": "جاهز للمؤسسات",
+  "app.features.enterpriseText": "بنية تكامل قابلة للتوسع",
+  "app.footer":
+    "مشروع كدوة لمهندس البرمجيات الشامل - منصة تكامل البيانات المالية",
+  "app.footerStack":
+    "مبني باستخدام React وTypeScript وأدوات عرض البيانات الحديثة",
+
+  "notifications.title": "الإشعارات",
+  "notifications.open": {
+    zero: "الإشعارات (لا إشعارات غير مقروءة)",
+    one: "الإشعارات (إشعار واحد غير مقروء)",
+    two: "الإشعارات (إشعاران غير مقروءين)",
+    few: "الإشعارات ({count} إشعارات غير مقروءة)",
+    many: "الإشعارات ({count} إشعارًا غير مقروء)",
+    other: "الإشعارات ({count} إشعار غير مقروء)",
+  },
+  "notifications.unread": {
+    zero: "لا توجد إشعارات غير مقروءة",
+    one: "إشعار واحد غير مقروء",
+    two: "إشعاران غير مقروءين",
+    few: "{count} إشعارات غير مقروءة",
+    many: "{count} إشعارًا غير مقروء",
+    other: "{count} إشعار غير مقروء",
+  },
+  "notifications.company": "الشركة",
+  "notifications.allCompanies": "كل الشركات",
+  "notifications.markAllRead": "تحديد الكل كمقروء",
+  "notifications.clear": "مسح",
+  "notifications.browser":
+    "إظهار إشعار في المتصفح عند انتهاء مزامنة طويلة في علامة تبويب بالخلفية",
+  "notifications.empty": "لا توجد إشعارات بعد.",
+  "notifications.kind.job": "مزامنة",
+  "notifications.kind.config": "إعدادات",
+  "notifications.kind.error": "خطأ",
+
+  "currency.label": "عملة التقارير",
+  "currency.company": "{code} (الشركة)",
+
+  "etl.title": "عناصر التحكم في التكامل (ETL)",
+  "etl.company": "الشركة: {name}",
+  "etl.ready": "جاهز لدمج مصادر البيانات",
+  "etl.starting": "جارٍ بدء عملية التكامل...",
+  "etl.started": "بدأت عملية التكامل",
+  "etl.startFailed": "تعذر بدء عملية التكامل",
+  "etl.noCompanyTitle": "لم يتم اختيار شركة",
+  "etl.noCompanyText": "يرجى اختيار شركة قبل بدء عملية التكامل.",
+  "etl.failedTitle": "فشلت عملية التكامل",
+  "etl.failedText": "تعذر بدء عملية دمج البيانات.",
+  "etl.completeTitle": "اكتمل التكامل",
+  "etl.integrationFailedTitle": "فشل التكامل",
+  "etl.cancelledTitle": "أُلغي التكامل",
+  "etl.cancelling": "جارٍ الإلغاء...",
+  "etl.cancelFailed": "تعذر إلغاء مهمة التكامل.",
+  "etl.retrying": "جارٍ إعادة محاولة المهمة...",
+  "etl.retryFailed": "تعذرت إعادة محاولة مهمة التكامل.",
+  "etl.statusUpdatesFailed": "تعذر الحصول على تحديثات حالة التكامل",
+  "etl.status.running": "قيد التشغيل",
+  "etl.status.cancelling": "جارٍ الإلغاء",
+  "etl.status.cancelled": "ملغاة",
+  "etl.status.success": "ناجح",
+  "etl.status.error": "خطأ",
+  "etl.status.idle": "خامل",
+  "etl.integrating": "جارٍ الدمج...",
+  "etl.integrate": "دمج البيانات",
+  "etl.progress": "التقدم: {progress}٪",
+  "etl.stage": "المرحلة: {stage}",
+  "etl.liveUpdates": "تحديثات مباشرة",
+  "etl.pollingUpdates": "جارٍ التحقق من التحديثات",
+  "etl.otherTabUpdates": "تحديثات مشتركة من علامة تبويب أخرى",
+  "etl.resuming": "جارٍ استئناف مزامنة قيد التشغيل...",
+  "etl.jobUnavailable":
+    "تعذر العثور على المزامنة على الخادم. راجع سجل المزامنة لمعرفة نتيجتها.",
+  "etl.reconnecting": "انقطع الاتصال، جارٍ إعادة الاتصال...",
+  "etl.dataSources": "مصادر البيانات",
+  "etl.sync": "مزامنة",
+  "etl.syncSource": "مزامنة {name} فقط",
+  "etl.lastSynced": "آخر مزامنة {date}",
+  "etl.neverSynced": "لم تتم المزامنة بعد",
+  "etl.nextRun": "التشغيل التالي {date}",
+  "etl.schedulePaused": "الجدولة متوقفة مؤقتًا",
+  "etl.sourceSynced": "تمت مزامنة {name}",
+  "etl.sourceFailed": "فشلت مزامنة {name}",
+  "etl.sourceCancelled": "أُلغيت مزامنة {name}",
+  "etl.noSources":
+    "لا توجد مصادر بيانات مهيأة. أضف مصادر البيانات من قسم الشركات.",
+  "etl.selectCompany": "اختر شركة لعرض مصادر البيانات.",
+  "etl.integrationStatus": "حالة التكامل",
+  "etl.noPipelineRun": "يظهر تقدم المراحل هنا بعد تشغيل المزامنة.",
+
+  "pipeline.title": "خط المعالجة",
+  "pipeline.stage.queued": "في الانتظار",
+  "pipeline.stage.extract": "الاستخراج",
+  "pipeline.stage.validate": "التحقق",
+  "pipeline.stage.map": "ربط الحقول",
+  "pipeline.stage.transform": "التحويل",
+  "pipeline.stage.load": "التحميل",
+  "pipeline.stage.done": "مكتمل",
+  "pipeline.status.pending": "قيد الانتظار",
+  "pipeline.status.running": "قيد التشغيل",
+  "pipeline.status.completed": "مكتملة",
+  "pipeline.status.failed": "فاشلة",
+  "pipeline.status.cancelled": "ملغاة",
+  "pipeline.status.skipped": "تم تخطيها",
+  "pipeline.records": {
+    zero: "لا سجلات",
+    one: "سجل واحد",
+    two: "سجلان",
+    few: "{count} سجلات",
+    many: "{count} سجلًا",
+    other: "{count} سجل",
+  },
+  "pipeline.rejected": {
+    zero: "لا سجلات مرفوضة",
+    one: "سجل واحد مرفوض",
+    two: "سجلان مرفوضان",
+    few: "{count} سجلات مرفوضة",
+    many: "{count} سجلًا مرفوضًا",
+    other: "{count} سجل مرفوض",
+  },
+  "pipeline.failedAt": "فشل في مرحلة {stage}: {error}",
+
+  "logs.title": "سجل المهمة",
+  "logs.view": "عرض السجل",
+  "logs.description": "السجل المفصل للعملية #{id}",
+  "logs.minLevel": "الحد الأدنى للمستوى",
+  "logs.level.debug": "تصحيح",
+  "logs.level.info": "معلومات",
+  "logs.level.warn": "تحذير",
+  "logs.level.error": "خطأ",
+  "logs.search": "بحث",
+  "logs.searchPlaceholder": "الرسالة أو المرحلة أو المصدر أو الصف",
+  "logs.live": "مباشر",
+  "logs.follow": "متابعة الأسطر الجديدة",
+  "logs.download": "تنزيل",
+  "logs.loadFailed": "تعذر تحميل سجل المهمة.",
+  "logs.empty": "لا توجد أسطر في السجل بعد.",
+  "logs.noMatches": "لا توجد أسطر تطابق عوامل التصفية هذه.",
+  "logs.row": "الصف {id}",
+  "logs.showing": {
+    zero: "عرض {shown} من أصل {count} سطر",
+    one: "عرض {shown} من أصل سطر واحد",
+    two: "عرض {shown} من أصل سطرين",
+    few: "عرض {shown} من أصل {count} أسطر",
+    many: "عرض {shown} من أصل {count} سطرًا",
+    other: "عرض {shown} من أصل {count} سطر",
+  },
+
+  "diff.title": "تغييرات البيانات",
+  "diff.view": "عرض التغييرات",
+  "diff.description": "ما غيّرته المهمة #{id} في البيانات المالية",
+  "diff.loading": "جارٍ تحميل تغييرات البيانات...",
+  "diff.loadFailed": "تعذر تحميل تغييرات البيانات.",
+  "diff.notRecorded": "لم تُسجَّل بيانات ما قبل هذا التشغيل وما بعده.",
+  "diff.noChanges": "لم يغيّر هذا التشغيل أي بيانات مالية.",
+  "diff.summary": {
+    zero: "لم يتغير أي صف",
+    one: "تغيّر صف واحد",
+    two: "تغيّر صفان",
+    few: "تغيّرت {count} صفوف",
+    many: "تغيّر {count} صفًا",
+    other: "تغيّر {count} صف",
+  },
+  "diff.revenue": "الإيرادات {amount}",
+  "diff.expenses": "المصروفات {amount}",
+  "diff.assets": "الأصول {amount}",
+  "diff.liabilities": "الالتزامات {amount}",
+  "diff.breakdown": "أضيف {added}، حُذف {removed}، تغيّر {changed}",
+  "diff.periods": "الفترات المتأثرة: {range}",
+  "diff.lineCount": {
+    zero: "لا أسطر",
+    one: "سطر واحد",
+    two: "سطران",
+    few: "{count} أسطر",
+    many: "{count} سطرًا",
+    other: "{count} سطر",
+  },
+  "diff.kind": "التغيير",
+  "diff.kind.added": "مضاف",
+  "diff.kind.removed": "محذوف",
+  "diff.kind.changed": "معدّل",
+  "diff.before": "قبل",
+  "diff.after": "بعد",
+  "diff.change": "الفرق",
+
+  "bulk.title": "قائمة انتظار المزامنة",
+  "bulk.hint":
+    "اختر الشركات المراد مزامنتها. تُزامَن مصادر بيانات كل شركة معًا، وبضع شركات في كل مرة.",
+  "bulk.selectAll": "كل الشركات",
+  "bulk.concurrency": "عدد الشركات في كل مرة",
+  "bulk.start": {
+    zero: "مزامنة {count} شركة",
+    one: "مزامنة شركة واحدة",
+    two: "مزامنة شركتين",
+    few: "مزامنة {count} شركات",
+    many: "مزامنة {count} شركة",
+    other: "مزامنة {count} شركة",
+  },
+  "bulk.summary": {
+    zero: "اكتمل {done} من {count} شركة · {running} قيد التشغيل · {pending} في الانتظار",
+    one: "اكتمل {done} من شركة واحدة · {running} قيد التشغيل · {pending} في الانتظار",
+    two: "اكتمل {done} من شركتين · {running} قيد التشغيل · {pending} في الانتظار",
+    few: "اكتمل {done} من {count} شركات · {running} قيد التشغيل · {pending} في الانتظار",
+    many: "اكتمل {done} من {count} شركة · {running} قيد التشغيل · {pending} في الانتظار",
+    other:
+      "اكتمل {done} من {count} شركة · {running} قيد التشغيل · {pending} في الانتظار",
+  },
+  "bulk.failures": {
+    zero: "لم تفشل مزامنة أي شركة",
+    one: "فشلت مزامنة شركة واحدة",
+    two: "فشلت مزامنة شركتين",
+    few: "فشلت مزامنة {count} شركات",
+    many: "فشلت مزامنة {count} شركة",
+    other: "فشلت مزامنة {count} شركة",
+  },
+  "bulk.company": "الشركة",
+  "bulk.stop": "تخطي المنتظر",
+  "bulk.newRun": "مزامنة جماعية جديدة",
+  "bulk.status.pending": "في الانتظار",
+  "bulk.status.starting": "جارٍ البدء",
+  "bulk.status.running": "قيد التشغيل",
+  "bulk.status.completed": "مكتملة",
+  "bulk.status.failed": "فشلت",
+  "bulk.status.cancelled": "ملغاة",
+  "bulk.status.skipped": "متخطاة",
+  "bulk.alreadyRunning": "توجد مزامنة قيد التشغيل لهذه الشركة بالفعل.",
+  "bulk.finishedTitle": "انتهت المزامنة الجماعية",
+  "bulk.finishedText": {
+    zero: "تمت مزامنة {completed} من {count} شركة، وفشلت {failed}.",
+    one: "تمت مزامنة {completed} من شركة واحدة، وفشلت {failed}.",
+    two: "تمت مزامنة {completed} من شركتين، وفشلت {failed}.",
+    few: "تمت مزامنة {completed} من {count} شركات، وفشلت {failed}.",
+    many: "تمت مزامنة {completed} من {count} شركة، وفشلت {failed}.",
+    other: "تمت مزامنة {completed} من {count} شركة، وفشلت {failed}.",
+  },
+
+  "history.title": "سجل المزامنة",
+  "history.refresh": "تحديث",
+  "history.selectCompany": "اختر شركة لعرض سجل المزامنة الخاص بها.",
+  "history.loadFailed": "تعذر تحميل سجل المهام. يرجى المحاولة لاحقًا.",
+  "history.empty": "لا توجد عمليات تكامل لهذه الشركة بعد.",
+  "history.noMatches": "لا توجد عمليات تطابق عوامل التصفية هذه.",
+  "history.lastSuccess": "آخر مزامنة ناجحة: {date}",
+  "history.noSuccess": "لا توجد مزامنة ناجحة بعد",
+  "history.failedSince": {
+    zero: "لا عمليات فاشلة منذ ذلك الحين",
+    one: "عملية فاشلة واحدة منذ ذلك الحين",
+    two: "عمليتان فاشلتان منذ ذلك الحين",
+    few: "{count} عمليات فاشلة منذ ذلك الحين",
+    many: "{count} عملية فاشلة منذ ذلك الحين",
+    other: "{count} عملية فاشلة منذ ذلك الحين",
+  },
+  "history.failedTotal": {
+    zero: "لا عمليات فاشلة",
+    one: "عملية فاشلة واحدة",
+    two: "عمليتان فاشلتان",
+    few: "{count} عمليات فاشلة",
+    many: "{count} عملية فاشلة",
+    other: "{count} عملية فاشلة",
+  },
+  "history.noFailuresSince": "لا إخفاقات منذ ذلك الحين",
+  "history.status": "الحالة",
+  "history.allStatuses": "كل الحالات",
+  "history.status.running": "قيد التشغيل",
+  "history.status.completed": "مكتملة",
+  "history.status.failed": "فاشلة",
+  "history.status.cancelled": "ملغاة",
+  "history.from": "من",
+  "history.to": "إلى",
+  "history.clearFilters": "مسح عوامل التصفية",
+  "history.started": "البدء",
+  "history.finished": "الانتهاء",
+  "history.inProgress": "قيد التنفيذ",
+  "history.duration": "المدة",
+  "history.durationSeconds": "{seconds} ث",
+  "history.durationMinutes": "{minutes} د {seconds} ث",
+  "history.durationHours": "{hours} س {minutes} د",
+  "history.source": "المصدر",
+  "history.allSources": "كل المصادر",
+  "history.deletedSource": "مصدر محذوف رقم {id}",
+  "history.records": "السجلات",
+  "history.message": "الرسالة",
+  "history.stage": "المرحلة",
+  "history.progress": "التقدم",
+  "history.jobId": "معرّف المهمة",
+  "history.retryOf": "إعادة محاولة لـ",
+  "history.detailTitle": "العملية رقم {id}",
+  "history.detailDescription": "بدأت في {date}",
+  "history.showing": {
+    zero: "عرض {shown} من أصل {count} عملية",
+    one: "عرض {shown} من أصل عملية واحدة",
+    two: "عرض {shown} من أصل عمليتين",
+    few: "عرض {shown} من أصل {count} عمليات",
+    many: "عرض {shown} من أصل {count} عملية",
+    other: "عرض {shown} من أصل {count} عملية",
+  },
+
+  "schedules.title": "جدولة المزامنة",
+  "schedules.enabled": "التشغيل وفق جدول",
+  "schedules.paused": "الجدولة متوقفة مؤقتًا",
+  "schedules.frequency": "التكرار",
+  "schedules.frequency.hourly": "كل ساعة",
+  "schedules.frequency.daily": "يوميًا",
+  "schedules.frequency.weekly": "أسبوعيًا",
+  "schedules.frequency.cron": "تعبير cron",
+  "schedules.minute": "الدقيقة بعد الساعة",
+  "schedules.time": "الوقت",
+  "schedules.weekday": "اليوم",
+  "schedules.weekday.sunday": "الأحد",
+  "schedules.weekday.monday": "الإثنين",
+  "schedules.weekday.tuesday": "الثلاثاء",
+  "schedules.weekday.wednesday": "الأربعاء",
+  "schedules.weekday.thursday": "الخميس",
+  "schedules.weekday.friday": "الجمعة",
+  "schedules.weekday.saturday": "السبت",
+  "schedules.cron": "تعبير cron",
+  "schedules.cronHelp":
+    "خمسة حقول: الدقيقة، الساعة، يوم الشهر، الشهر، يوم الأسبوع. مثلًا 0 2 1 * * يعمل الساعة 02:00 في أول كل شهر.",
+  "schedules.timezone": "المنطقة الزمنية",
+  "schedules.nextRuns": "مواعيد التشغيل القادمة (بتوقيتك المحلي)",
+  "schedules.noUpcoming": "لا توجد مواعيد تشغيل قادمة لهذا التعبير.",
+  "schedules.invalid": "جدولة غير صالحة: {reason}",
+  "schedules.save": "حفظ الجدولة",
+  "schedules.remove": "إزالة الجدولة",
+  "schedules.saved": "تم حفظ الجدولة",
+  "schedules.savedText": "ستتم مزامنة {name} {schedule}.",
+  "schedules.savedPausedText":
+    "جدولة {name} متوقفة مؤقتًا ولن تتم مزامنته إلا عند الطلب.",
+  "schedules.saveFailed": "تعذر حفظ الجدولة. يرجى المحاولة مرة أخرى.",
+  "schedules.removed": "تمت إزالة الجدولة",
+  "schedules.removedText": "لن تتم مزامنة {name} إلا عند الطلب.",
+  "schedules.removeFailed": "تعذرت إزالة الجدولة. يرجى المحاولة مرة أخرى.",
+  "schedules.describe.hourly": "كل ساعة عند الدقيقة {minute}",
+  "schedules.describe.daily": "يوميًا الساعة {time}",
+  "schedules.describe.weekly": "كل {weekday} الساعة {time}",
+  "schedules.describe.cron": "وفق تعبير cron {cron}",
+  "schedules.inZone": "{schedule} ({timezone})",
+
+  "companies.title": "الشركات",
+  "companies.add": "إضافة شركة",
+  "companies.addTitle": "إضافة شركة جديدة",
+  "companies.editTitle": "تعديل الشركة",
+  "companies.update": "تحديث الشركة",
+  "companies.name": "اسم الشركة*",
+  "companies.namePlaceholder": "أدخل اسم الشركة",
+  "companies.description": "الوصف",
+  "companies.descriptionPlaceholder": "أدخل وصف الشركة",
+  "companies.currency": "عملة التقارير",
+  "companies.sources": {
+    zero: "لا مصادر",
+    one: "مصدر واحد",
+    two: "مصدران",
+    few: "{count} مصادر",
+    many: "{count} مصدرًا",
+    other: "{count} مصدر",
+  },
+  "companies.empty": "لم يتم العثور على شركات. أنشئ شركة جديدة للبدء.",
+  "companies.loadFailed": "تعذر تحميل الشركات. يرجى المحاولة لاحقًا.",
+  "companies.nameRequired": "اسم الشركة مطلوب",
+  "companies.created": "تم إنشاء الشركة",
+  "companies.createdText": "تم إنشاء {name} بنجاح.",
+  "companies.createFailed": "تعذر إنشاء الشركة. يرجى المحاولة مرة أخرى.",
+  "companies.updated": "تم تحديث الشركة",
+  "companies.updatedText": "تم تحديث {name} بنجاح.",
+  "companies.updateFailed": "تعذر تحديث الشركة. يرجى المحاولة مرة أخرى.",
+  "companies.confirmDelete":
+    "هل أنت متأكد من حذف هذه الشركة؟ لا يمكن التراجع عن هذا الإجراء.",
+  "companies.deleted": "تم حذف الشركة",
+  "companies.deletedText": "تم حذف الشركة بنجاح.",
+  "companies.deleteFailed": "تعذر حذف الشركة. يرجى المحاولة مرة أخرى.",
+
+  "configs.title": "مصادر البيانات",
+  "configs.companyTitle": "{name} - مصادر البيانات",
+  "configs.add": "إضافة مصدر بيانات",
+  "configs.addTitle": "إضافة إعداد مصدر بيانات",
+  "configs.editTitle": "تعديل إعداد مصدر البيانات",
+  "configs.submitAdd": "إضافة الإعداد",
+  "configs.update": "تحديث الإعداد",
+  "configs.name": "اسم الإعداد*",
+  "configs.namePlaceholder": "أدخل اسم الإعداد",
+  "configs.sourceType": "نوع المصدر",
+  "configs.type.api": "واجهة برمجية (API)",
+  "configs.type.database": "قاعدة بيانات",
+  "configs.type.file": "ملف",
+  "configs.apiEndpointValue": "عنوان الواجهة البرمجية: {endpoint}",
+  "configs.databaseValue": "قاعدة البيانات: {target}",
+  "configs.fileValue": "ملف: {format}",
+  "configs.fieldMappings": "ربط الحقول",
+  "configs.fieldMappingsHint":
+    'اربط الحقول الموحدة بمسارات في السجل المصدر، مثل "amount": "ColData[1].value". يشير "$rows" إلى مصفوفة السجلات، وتُقرأ الحقول غير المربوطة بأسمائها. ويمكن أن تكون القاعدة كائنًا يحوي "path" و"value" و"default" و"transform".',
+  "configs.showMappings": "إظهار ربط الحقول",
+  "configs.hideMappings": "إخفاء ربط الحقول",
+  "configs.previewMapping": "تشغيل تجريبي",
+  "configs.hidePreview": "إخفاء التشغيل التجريبي",
+  "configs.empty": "لا توجد إعدادات لمصادر البيانات. أضف إعدادًا جديدًا للبدء.",
+  "configs.selectCompany": "اختر شركة لعرض مصادر البيانات وإدارتها",
+  "configs.invalid": "صحح الحقول المحددة قبل الحفظ.",
+  "configs.added": "تمت إضافة الإعداد",
+  "configs.addedText": "تمت إضافة {name} بنجاح.",
+  "configs.addFailed": "تعذر إضافة الإعداد. يرجى المحاولة مرة أخرى.",
+  "configs.updated": "تم تحديث الإعداد",
+  "configs.updatedText": "تم تحديث {name} بنجاح.",
+  "configs.updateFailed": "تعذر تحديث الإعداد. يرجى المحاولة مرة أخرى.",
+  "configs.confirmDelete":
+    "هل أنت متأكد من حذف إعداد مصدر البيانات هذا؟ لا يمكن التراجع عن هذا الإجراء.",
+  "configs.deleted": "تم حذف الإعداد",
+  "configs.deletedText": "تم حذف إعداد مصدر البيانات بنجاح.",
+  "configs.deleteFailed": "تعذر حذف الإعداد. يرجى المحاولة مرة أخرى.",
+
+  "sourceSettings.baseUrl": "العنوان الأساسي",
+  "sourceSettings.authScheme": "المصادقة",
+  "sourceSettings.authHint":
+    "تُخزَّن بيانات الاعتماد في الخادم وتُرسل بهذه الطريقة.",
+  "sourceSettings.auth.none": "بدون",
+  "sourceSettings.auth.bearer": "رمز Bearer",
+  "sourceSettings.auth.basic": "أساسية (اسم مستخدم وكلمة مرور)",
+  "sourceSettings.auth.apiKey": "مفتاح API",
+  "sourceSettings.pagination": "تقسيم الصفحات",
+  "sourceSettings.paging.none": "بدون",
+  "sourceSettings.paging.page": "رقم الصفحة",
+  "sourceSettings.paging.offset": "الإزاحة والحد",
+  "sourceSettings.paging.cursor": "مؤشر",
+  "sourceSettings.headers": "الترويسات",
+  "sourceSettings.headerName": "اسم الترويسة",
+  "sourceSettings.headerValue": "القيمة",
+  "sourceSettings.addHeader": "إضافة ترويسة",
+  "sourceSettings.removeHeader": "حذف الترويسة",
+  "sourceSettings.driver": "المشغّل",
+  "sourceSettings.driver.postgres": "PostgreSQL",
+  "sourceSettings.driver.mysql": "MySQL",
+  "sourceSettings.driver.sqlserver": "SQL Server",
+  "sourceSettings.host": "المضيف",
+  "sourceSettings.port": "المنفذ",
+  "sourceSettings.database": "قاعدة البيانات",
+  "sourceSettings.schema": "المخطط",
+  "sourceSettings.optional": "اختياري",
+  "sourceSettings.query": "الاستعلام",
+  "sourceSettings.queryHint":
+    "استعلام SELECT للقراءة فقط؛ كل صف في النتيجة سجل مصدر واحد.",
+  "sourceSettings.format": "الصيغة",
+  "sourceSettings.format.csv": "CSV",
+  "sourceSettings.format.xlsx": "Excel (XLSX)",
+  "sourceSettings.format.json": "JSON",
+  "sourceSettings.delimiter": "الفاصل",
+  "sourceSettings.sheet": "ورقة العمل",
+  "sourceSettings.firstSheet": "الورقة الأولى",
+  "sourceSettings.headerRow": "صف العناوين",
+  "sourceSettings.name": "الاسم",
+  "sourceSettings.config": "الإعداد",
+  "sourceSettings.error.required": "هذا الحقل مطلوب.",
+  "sourceSettings.error.invalid": "هذه القيمة غير صالحة.",
+  "sourceSettings.error.url": "يجب أن يكون عنوان URL صالحًا.",
+  "sourceSettings.error.httpUrl": "يجب أن يبدأ بـ http:// أو https://.",
+  "sourceSettings.error.headerName": "اسم ترويسة غير صالح.",
+  "sourceSettings.error.number": "يجب أن يكون رقمًا.",
+  "sourceSettings.error.wholeNumber": "يجب أن يكون عددًا صحيحًا.",
+  "sourceSettings.error.portRange": "يجب أن يكون بين 1 و65535.",
+  "sourceSettings.error.atLeastOne": "يجب أن يكون 1 أو أكثر.",
+  "sourceSettings.error.readOnlyQuery":
+    "يجب أن يكون استعلام SELECT واحدًا للقراءة فقط، دون أوامر تكتب البيانات.",
+  "sourceSettings.error.singleCharacter": "يجب أن يكون حرفًا واحدًا.",
+
+  "upload.button": "رفع ملف",
+  "upload.title": "رفع ملف",
+  "upload.titleFor": "رفع ملف إلى {name}",
+  "upload.drop":
+    "أفلت ملف CSV أو XLSX، أو تقرير QuickBooks Online أو Xero بصيغة JSON، هنا",
+  "upload.browse": "اختيار ملف",
+  "upload.replace": "اختيار ملف آخر",
+  "upload.parseFailed": "تعذرت قراءة الملف: {reason}",
+  "upload.error.unsupportedType": "الملفات المدعومة هي CSV وXLSX وJSON فقط",
+  "upload.error.notXlsx": "الملف ليس مصنف XLSX",
+  "upload.error.invalidJson": "الملف ليس بصيغة JSON صالحة",
+  "upload.error.noSheets": "لا يحتوي المصنف على أوراق",
+  "upload.error.unsupportedCompression":
+    "يستخدم المصنف طريقة ضغط لا يمكن قراءتها",
+  "upload.error.decompressionUnavailable":
+    "لا يستطيع هذا المتصفح فك ملفات XLSX. حدّثه، أو احفظ الورقة بصيغة CSV وارفعها",
+  "upload.error.unreadable": "تعذرت قراءة الملف",
+  "upload.delimiter.comma": "فاصلة (,)",
+  "upload.delimiter.semicolon": "فاصلة منقوطة (;)",
+  "upload.delimiter.tab": "مسافة جدولة",
+  "upload.delimiter.pipe": "خط عمودي (|)",
+  "upload.recognized": "تم التعرف عليه كتصدير من {format}",
+  "upload.unrecognizedJson":
+    "ملف JSON ليس تقريرًا من QuickBooks Online أو Xero",
+  "upload.detectedHeader": "صف العناوين المكتشف: {row}",
+  "upload.preview": {
+    zero: "لا صفوف",
+    one: "عرض {shown} من صف واحد",
+    two: "عرض {shown} من صفين",
+    few: "عرض {shown} من {count} صفوف",
+    many: "عرض {shown} من {count} صفًا",
+    other: "عرض {shown} من {count} صف",
+  },
+  "upload.mapping": "ربط الأعمدة",
+  "upload.validRows": {
+    zero: "لا صفوف صالحة",
+    one: "{valid} من صف واحد صالح",
+    two: "{valid} من صفين صالحة",
+    few: "{valid} من {count} صفوف صالحة",
+    many: "{valid} من {count} صفًا صالحة",
+    other: "{valid} من {count} صف صالحة",
+  },
+  "upload.submit": {
+    zero: "لا صفوف للرفع",
+    one: "رفع صف واحد",
+    two: "رفع صفين",
+    few: "رفع {count} صفوف",
+    many: "رفع {count} صفًا",
+    other: "رفع {count} صف",
+  },
+  "upload.invalid": "{field}: {reason}",
+  "upload.started": "بدأ الرفع",
+  "upload.startedText": {
+    zero: "لا صفوف للتحميل إلى {name}.",
+    one: "جارٍ تحميل صف واحد إلى {name}.",
+    two: "جارٍ تحميل صفين إلى {name}.",
+    few: "جارٍ تحميل {count} صفوف إلى {name}.",
+    many: "جارٍ تحميل {count} صفًا إلى {name}.",
+    other: "جارٍ تحميل {count} صف إلى {name}.",
+  },
+  "upload.failed": "تعذر رفع الملف.",
+
+  "mappingPreview.title": "تشغيل تجريبي للربط",
+  "mappingPreview.hint":
+    "الصق عينة بيانات أو ارفعها أو اجلبها لعرض حقولها في أداة الربط وتشغيل هذا الربط تجريبيًا. لا يتم حفظ أو مزامنة أي شيء.",
+  "mappingPreview.placeholder": "الصق عينة بيانات بصيغة JSON",
+  "mappingPreview.upload": "رفع JSON",
+  "mappingPreview.fetch": "جلب عينة",
+  "mappingPreview.saveToFetch": "احفظ مصدر البيانات لجلب عينة منه",
+  "mappingPreview.fetchFailed": "تعذر جلب عينة من مصدر البيانات.",
+  "mappingPreview.invalidJson": "العينة ليست JSON صالحًا: {reason}",
+  "mappingPreview.noSample": "لا توجد عينة بعد.",
+  "mappingPreview.mappingIssue": 'الربط "{key}" {reason}',
+  "mappingPreview.summary": {
+    zero: "{valid} من أصل {count} سجل يتحول إلى صف صالح",
+    one: "{valid} من أصل سجل واحد يتحول إلى صف صالح",
+    two: "{valid} من أصل سجلين تتحول إلى صفوف صالحة",
+    few: "{valid} من أصل {count} سجلات تتحول إلى صفوف صالحة",
+    many: "{valid} من أصل {count} سجلًا تتحول إلى صفوف صالحة",
+    other: "{valid} من أصل {count} سجل تتحول إلى صفوف صالحة",
+  },
+  "mappingPreview.limited": "(تم عرض أول {total})",
+  "mappingPreview.errors": "الأخطاء",
+  "mappingPreview.sourceRecord": "السجل المصدر #{index}",
+  "mappingPreview.unifiedRow": "الصف الموحد",
+
+  "mappingBuilder.builder": "أداة الربط",
+  "mappingBuilder.advanced": "متقدم (JSON)",
+  "mappingBuilder.sample": "عينة البيانات",
+  "mappingBuilder.rowsPath": "مسار السجلات ($rows)",
+  "mappingBuilder.rowsPathPlaceholder":
+    "اتركه فارغًا إذا كانت البيانات أو حقل data فيها هي قائمة السجلات",
+  "mappingBuilder.sourceFields": "حقول المصدر",
+  "mappingBuilder.noSample":
+    "حمّل عينة أدناه لعرض حقولها، أو اكتب المسارات مباشرة.",
+  "mappingBuilder.noFields": "لم يتم العثور على حقول في سجلات العينة.",
+  "mappingBuilder.dragHint": "اسحبه إلى حقل موحد لربطه",
+  "mappingBuilder.target": "الحقل الموحد",
+  "mappingBuilder.sourceColumn": "مسار المصدر",
+  "mappingBuilder.transformColumn": "التحويل",
+  "mappingBuilder.defaultColumn": "القيمة الافتراضية",
+  "mappingBuilder.sameName": "يُقرأ من {field}",
+  "mappingBuilder.source": "مسار المصدر للحقل {field}",
+  "mappingBuilder.transform": "تحويل الحقل {field}",
+  "mappingBuilder.default": "القيمة الافتراضية للحقل {field}",
+  "mappingBuilder.clear": "مسح ربط الحقل {field}",
+  "mappingBuilder.defaultPlaceholder": "عند عدم وجوده",
+  "mappingBuilder.fixedPlaceholder": "قيمة ثابتة",
+  "mappingBuilder.advancedOnly": "عدّله في الوضع المتقدم",
+  "mappingBuilder.noTransform": "بدون",
+  "mappingBuilder.transform.trim": "إزالة المسافات",
+  "mappingBuilder.transform.uppercase": "أحرف كبيرة",
+  "mappingBuilder.transform.lowercase": "أحرف صغيرة",
+  "mappingBuilder.transform.number": "تحويل إلى رقم (تلقائي)",
+  "mappingBuilder.transform.numberDecimalPoint": "تحويل إلى رقم (1,234.56)",
+  "mappingBuilder.transform.numberDecimalComma": "تحويل إلى رقم (1.234,56)",
+  "mappingBuilder.transform.negate": "عكس الإشارة",
+  "mappingBuilder.transform.absolute": "القيمة المطلقة",
+  "mappingBuilder.transform.date": "تحويل إلى تاريخ",
+
+  "table.title": "جدول البيانات المالية المنظمة",
+  "table.selectCompany": "يرجى اختيار شركة لعرض البيانات المالية.",
+  "table.loadFailed": "تعذر تحميل البيانات المالية. يرجى المحاولة لاحقًا.",
+  "table.empty": "لا توجد بيانات مالية. شغّل عملية تكامل لتحميل البيانات.",
+  "table.category": "الفئة",
+  "table.amount": "المبلغ",
+  "table.source": "المصدر: {source}",
+  "table.unnamedLineItem": "بند",
+  "table.hint": "انقر على الصفوف ذات الأسهم لتوسيعها وعرض التفاصيل",
+
+  "dashboard.loadFailed": "تعذر تحميل بيانات لوحة المعلومات",
+  "dashboard.loading": "جارٍ تحميل بيانات لوحة المعلومات...",
+  "dashboard.error": "خطأ: {error}",
+  "dashboard.tryLater": "يرجى المحاولة لاحقًا",
+  "dashboard.selectCompany": "يرجى اختيار شركة لعرض البيانات المالية",
+  "dashboard.title": "لوحة معلومات {name}",
+  "dashboard.subtitle": "رؤى مالية وتحليلات مرئية",
+  "dashboard.sources": {
+    zero: "لا مصادر بيانات",
+    one: "مصدر بيانات واحد",
+    two: "مصدرا بيانات",
+    few: "{count} مصادر بيانات",
+    many: "{count} مصدر بيانات",
+    other: "{count} مصدر بيانات",
+  },
+  "dashboard.totalRevenue": "إجمالي الإيرادات",
+  "dashboard.revenueChange": "{change}٪ مقارنة بالفترة السابقة",
+  "dashboard.monthlyProfit": "الربح الشهري",
+  "dashboard.profitMargin": "هامش ربح {margin}٪",
+  "dashboard.noDateRange": "لا يوجد نطاق زمني",
+  "dashboard.visualizations": "الرسوم البيانية المالية",
+  "dashboard.revenueVsExpenses":
+    "الإيرادات مقابل المصروفات شهريًا (كل الفترات)",
+  "dashboard.revenue": "الإيرادات",
+  "dashboard.expenses": "المصروفات",
+  "dashboard.noRevenue": "لا توجد بيانات إيرادات",
+  "dashboard.byCategory": "الإيرادات حسب الفئة",
+  "dashboard.expenseCategory": "{category} (مصروف)",
+  "dashboard.noCategories": "لا توجد بيانات للفئات",
+  "dashboard.footer": "توفر الرسوم البيانية التفاعلية رؤى حول أداء شركتك",
+
+  "issues.summary": {
+    one: "مشكلات في البيانات: استُبعد صف واحد من الإجماليات لفشله في التحقق.",
+    two: "مشكلات في البيانات: استُبعد صفان من الإجماليات لفشلهما في التحقق.",
+    few: "مشكلات في البيانات: استُبعدت {count} صفوف من الإجماليات لفشلها في التحقق.",
+    many: "مشكلات في البيانات: استُبعد {count} صفًا من الإجماليات لفشلها في التحقق.",
+    other:
+      "مشكلات في البيانات: استُبعد {count} صف من الإجماليات لفشلها في التحقق.",
+  },
+  "issues.show": "إظهار التفاصيل",
+  "issues.hide": "إخفاء التفاصيل",
+  "issues.row": "الصف",
+  "issues.field": "الحقل",
+  "issues.reason": "السبب",
+  "issues.truncated": "عرض أول {max} من أصل {total} مشكلة.",
+
+  "missingRates.summary": {
+    one: "تعذر تحويل صف واحد إلى {currency} واستُبعد من الإجماليات.",
+    two: "تعذر تحويل صفين إلى {currency} واستُبعدا من الإجماليات.",
+    few: "تعذر تحويل {count} صفوف إلى {currency} واستُبعدت من الإجماليات.",
+    many: "تعذر تحويل {count} صفًا إلى {currency} واستُبعدت من الإجماليات.",
+    other: "تعذر تحويل {count} صف إلى {currency} واستُبعدت من الإجماليات.",
+  },
+  "missingRates.pair": "{from} ← {to}: لا يوجد سعر {kind} ({rows})",
+  "missingRates.pairInPeriod":
+    "{from} ← {to}: لا يوجد سعر {kind} لفترة {period} ({rows})",
+  "missingRates.hint":
+    "أضف الأسعار الناقصة من قسم أسعار الصرف لتضمين هذه الصفوف.",
+
+  "rates.title": "أسعار الصرف",
+  "rates.import": "استيراد CSV",
+  "rates.export": "تصدير",
+  "rates.help":
+    "تستخدم بنود الإيرادات والمصروفات متوسط سعر شهرها، وتستخدم بنود الأصول والالتزامات آخر سعر إقفال في تاريخ التقرير أو قبله. تُطبق أسعار الربط بالدولار ({pegs}) عند عدم وجود سعر في الجدول. أعمدة CSV: date, base, quote, rate, type.",
+  "rates.date": "التاريخ",
+  "rates.type": "النوع",
+  "rates.kind.average": "متوسط",
+  "rates.kind.closing": "إقفال",
+  "rates.average": "متوسط",
+  "rates.closing": "إقفال",
+  "rates.base": "وحدة واحدة من",
+  "rates.equals": "تساوي",
+  "rates.quote": "من",
+  "rates.ratePlaceholder": "مثال: 48.25",
+  "rates.save": "حفظ السعر",
+  "rates.invalid": "سعر غير صالح",
+  "rates.imported": "تم استيراد الأسعار",
+  "rates.partiallyImported": "تم استيراد الأسعار جزئيًا",
+  "rates.importedCount": {
+    one: "تم استيراد سعر واحد.",
+    two: "تم استيراد سعرين.",
+    few: "تم استيراد {count} أسعار.",
+    many: "تم استيراد {count} سعرًا.",
+    other: "تم استيراد {count} سعر.",
+  },
+  "rates.importError": "السطر {line}: {reason}.",
+  "rates.field.base": "العملة الأساسية",
+  "rates.field.quote": "عملة التسعير",
+  "rates.error": "{field}: {reason}",
+  "rates.error.required": "مطلوب",
+  "rates.error.invalid": "قيمة غير صالحة",
+  "rates.error.currency": "يجب أن يكون رمز عملة من 3 أحرف وفق ISO 4217",
+  "rates.error.dateFormat": "يجب أن يكون بالصيغة YYYY-MM-DD أو YYYY-MM",
+  "rates.error.date": "ليس تاريخًا صالحًا",
+  "rates.error.rate": "يجب أن يكون عددًا عشريًا موجبًا",
+  "rates.error.zero": "يجب ألا يكون صفرًا",
+  "rates.error.sameCurrency": "يجب أن تختلف عن العملة الأساسية",
+  "rates.error.missingColumns": "أعمدة مفقودة: {columns}",
+  "rates.moreSkipped": {
+    one: "تم تخطي سطر آخر.",
+    two: "تم تخطي سطرين آخرين.",
+    few: "تم تخطي {count} أسطر أخرى.",
+    many: "تم تخطي {count} سطرًا آخر.",
+    other: "تم تخطي {count} سطر آخر.",
+  },
+  "rates.empty": "لا توجد أسعار بعد. أضف سعرًا أعلاه أو استورد ملف CSV.",
+  "rates.pair": "الزوج",
+  "rates.rate": "السعر",
+  "rates.count": {
+    zero: "لا أسعار",
+    one: "سعر واحد",
+    two: "سعران",
+    few: "{count} أسعار",
+    many: "{count} سعرًا",
+    other: "{count} سعر",
+  },
+  "rates.showingLatest": "(عرض أحدث {max})",
+  "rates.clearAll": "مسح الكل",
+  "rates.confirmClear": "حذف جميع أسعار الصرف؟",
+
+  "notFound.message": "عذرًا! الصفحة غير موجودة",
+  "notFound.home": "العودة إلى الصفحة الرئيسية",
+};
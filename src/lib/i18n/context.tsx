@@ -0,0 +1,98 @@
+import React, {
+  createContext,
+  useMemo,
+  useState,
+  useEffect,
+  useContext,
+  ReactNode,
+} from "react";
+
+import { ar } from "./ar";
+import { en } from "./en";
+import { createTranslator, type Messages, type Translate } from "./translate";
+
+const LANGUAGE_STORAGE_KEY = "kudwa.language";
+
+export type Language = "en" | "ar";
+
+export interface LanguageInfo {
+  label: string;
+  dir: "ltr" | "rtl";
+  /** BCP 47 locale for Intl formatting. */
+  locale: string;
+  messages: Messages;
+}
+
+export const LANGUAGES: Record<Language, LanguageInfo> = {
+  en: { label: "English", dir: "ltr", locale: "en-US", messages: en },
+  // Latin digits: regional finance teams read and reconcile figures in them.
+  ar: { label: "العربية", dir: "rtl", locale: "ar-u-nu-latn", messages: ar },
+};
+
+interface I18nContextType {
+  language: Language;
+  setLanguage: (language: Language) => void;
+  dir: "ltr" | "rtl";
+  locale: string;
+  t: Translate;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDateTime: (date: Date | string) => string;
+  /** Localized currency name, e.g. "Saudi Riyal" or "ريال سعودي". */
+  currencyName: (code: string) => string;
+}
+
+const createI18n = (
+  language: Language,
+  setLanguage: (language: Language) => void
+): I18nContextType => {
+  const { dir, locale, messages } = LANGUAGES[language];
+  const currencyNames = new Intl.DisplayNames([locale], { type: "currency" });
+
+  return {
+    language,
+    setLanguage,
+    dir,
+    locale,
+    t: createTranslator(messages, locale, en),
+    formatNumber: (value, options) =>
+      new Intl.NumberFormat(locale, options).format(value),
+    formatDateTime: (date) => new Date(date).toLocaleString(locale),
+    currencyName: (code) => currencyNames.of(code) ?? code,
+  };
+};
+
+const I18nContext = createContext<I18nContextType>(createI18n("en", () => {}));
+
+const loadLanguage = (): Language => {
+  const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  if (stored === "en" || stored === "ar") return stored;
+  return navigator.language?.toLowerCase().startsWith("ar") ? "ar" : "en";
+};
+
+export const I18nProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const [language, setLanguageState] = useState<Language>(loadLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = LANGUAGES[language].dir;
+  }, [language]);
+
+  const contextValue = useMemo(
+    () =>
+      createI18n(language, (next: Language) => {
+        localStorage.setItem(LANGUAGE_STORAGE_KEY, next);
+        setLanguageState(next);
+      }),
+    [language]
+  );
+
+  return (
+    <I18nContext.Provider value={contextValue}>{children}</I18nContext.Provider>
+  );
+};
+
+export const useI18n = (): I18nContextType => {
+  return useContext(I18nContext);
+};
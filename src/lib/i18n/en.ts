@@ -0,0 +1,649 @@
+export const en = {
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.retry": "Retry",
+  "common.error": "Error",
+  "common.validationError": "Validation Error",
+  "common.lastRun": "Last run: {date}",
+  "common.uncategorized": "Uncategorized",
+  "common.networkError": "Could not reach the server. Check your connection.",
+  "common.httpError": "{message} (HTTP {status})",
+  "common.httpErrorDetail": "{message} (HTTP {status}: {detail})",
+  "common.invalidResponse":
+    "{message}: the server returned an invalid response.",
+  "common.rows": { one: "{count} row", other: "{count} rows" },
+
+  "app.title": "Kudwa Financial Integration Platform",
+  "app.subtitle":
+    "Full-stack data integration and financial reporting dashboard",
+  "app.logoAlt": "Kudwa Logo",
+  "app.badge.etl": "Multi-source ETL",
+  "app.badge.tables": "Interactive Tables",
+  "app.badge.analytics": "Real-time Analytics",
+  "app.noCompanies": "No companies",
+  "app.manageCompanies": "Manage Companies",
+  "app.companyManagement": "Company Management",
+  "app.exchangeRates": "Exchange Rates",
+  "app.bulkSync": "Bulk Sync",
+  "app.language": "Language",
+  "app.fetchCompaniesFailed": "Failed to fetch companies.",
+  "app.tab.table": "Structured Data Table",
+  "app.tab.dashboard": "Data Visualization",
+  "app.tab.history": "Sync History",
+  "app.features.title": "Financial Data Features",
+  "app.features.schema": "Unified Schema",
+  "app.features.schemaText": "Single source of truth for all financial data",
+  "app.features.rows": "Expandable Rows",
+  "app.features.rowsText": "Drill down into detailed breakdowns",
+  "app.features.charts": "Interactive Charts",
+  "app.features.chartsText": "Visual insights into financial performance",
+  "app.features.enterprise": "Enterprise Ready",
+  "app.features.enterpriseText": "Scalable integration architecture",
+  "app.footer":
+    "Kudwa Full-Stack Engineer Application Project - Financial Data Integration Platform",
+  "app.footerStack":
+    "Built with React, TypeScript, and modern data visualization",
+
+  "notifications.title": "Notifications",
+  "notifications.open": "Notifications ({count} unread)",
+  "notifications.unread": {
+    one: "{count} unread notification",
+    other: "{count} unread notifications",
+  },
+  "notifications.company": "Company",
+  "notifications.allCompanies": "All companies",
+  "notifications.markAllRead": "Mark all read",
+  "notifications.clear": "Clear",
+  "notifications.browser":
+    "Show a browser notification when a long sync finishes in a background tab",
+  "notifications.empty": "No notifications yet.",
+  "notifications.kind.job": "Sync",
+  "notifications.kind.config": "Configuration",
+  "notifications.kind.error": "Error",
+
+  "currency.label": "Reporting currency",
+  "currency.company": "{code} (company)",
+
+  "etl.title": "ETL Integration Controls",
+  "etl.company": "Company: {name}",
+  "etl.ready": "Ready to integrate data sources",
+  "etl.starting": "Starting ETL process...",
+  "etl.started": "ETL process started",
+  "etl.startFailed": "Failed to start ETL process",
+  "etl.noCompanyTitle": "No Company Selected",
+  "etl.noCompanyText":
+    "Please select a company before starting the ETL process.",
+  "etl.failedTitle": "ETL Process Failed",
+  "etl.failedText": "Could not start the data integration process.",
+  "etl.completeTitle": "Integration Complete",
+  "etl.integrationFailedTitle": "Integration Failed",
+  "etl.cancelledTitle": "Integration Cancelled",
+  "etl.cancelling": "Cancelling...",
+  "etl.cancelFailed": "Failed to cancel the ETL job.",
+  "etl.retrying": "Retrying job...",
+  "etl.retryFailed": "Failed to retry the ETL job.",
+  "etl.statusUpdatesFailed": "Failed to get ETL status updates",
+  "etl.status.running": "Running",
+  "etl.status.cancelling": "Cancelling",
+  "etl.status.cancelled": "Cancelled",
+  "etl.status.success": "Success",
+  "etl.status.error": "Error",
+  "etl.status.idle": "Idle",
+  "etl.integrating": "Integrating...",
+  "etl.integrate": "Integrate Data",
+  "etl.progress": "Progress: {progress}%",
+  "etl.stage": "Stage: {stage}",
+  "etl.liveUpdates": "Live updates",
+  "etl.pollingUpdates": "Checking for updates",
+  "etl.otherTabUpdates": "Updates shared from another tab",
+  "etl.resuming": "Resuming a sync that is already running...",
+  "etl.jobUnavailable":
+    "The sync could no longer be found on the server. Check the sync history for its outcome.",
+  "etl.reconnecting": "Connection lost, reconnecting...",
+  "etl.dataSources": "Data Sources",
+  "etl.sync": "Sync",
+  "etl.syncSource": "Sync {name} only",
+  "etl.lastSynced": "Last synced {date}",
+  "etl.neverSynced": "Never synced",
+  "etl.nextRun": "Next run {date}",
+  "etl.schedulePaused": "Schedule paused",
+  "etl.sourceSynced": "{name} Synced",
+  "etl.sourceFailed": "{name} Sync Failed",
+  "etl.sourceCancelled": "{name} Sync Cancelled",
+  "etl.noSources":
+    "No data sources configured. Add data sources in the Companies tab.",
+  "etl.selectCompany": "Select a company to view data sources.",
+  "etl.integrationStatus": "Integration Status",
+  "etl.noPipelineRun": "Stage progress appears here once a sync runs.",
+
+  "pipeline.title": "Pipeline",
+  "pipeline.stage.queued": "Queued",
+  "pipeline.stage.extract": "Extract",
+  "pipeline.stage.validate": "Validate",
+  "pipeline.stage.map": "Map fields",
+  "pipeline.stage.transform": "Transform",
+  "pipeline.stage.load": "Load",
+  "pipeline.stage.done": "Done",
+  "pipeline.status.pending": "Pending",
+  "pipeline.status.running": "Running",
+  "pipeline.status.completed": "Completed",
+  "pipeline.status.failed": "Failed",
+  "pipeline.status.cancelled": "Cancelled",
+  "pipeline.status.skipped": "Skipped",
+  "pipeline.records": {
+    one: "{count} record",
+    other: "{count} records",
+  },
+  "pipeline.rejected": {
+    one: "{count} rejected",
+    other: "{count} rejected",
+  },
+  "pipeline.failedAt": "Failed at {stage}: {error}",
+
+  "logs.title": "Job Log",
+  "logs.view": "View Log",
+  "logs.description": "Structured log of run #{id}",
+  "logs.minLevel": "Minimum level",
+  "logs.level.debug": "Debug",
+  "logs.level.info": "Info",
+  "logs.level.warn": "Warning",
+  "logs.level.error": "Error",
+  "logs.search": "Search",
+  "logs.searchPlaceholder": "Message, stage, source or row",
+  "logs.live": "Live",
+  "logs.follow": "Follow new lines",
+  "logs.download": "Download",
+  "logs.loadFailed": "Failed to load the job log.",
+  "logs.empty": "No log lines yet.",
+  "logs.noMatches": "No lines match these filters.",
+  "logs.row": "row {id}",
+  "logs.showing": {
+    one: "Showing {shown} of {count} line",
+    other: "Showing {shown} of {count} lines",
+  },
+
+  "diff.title": "Data Changes",
+  "diff.view": "View Changes",
+  "diff.description": "What job #{id} changed in the financial data",
+  "diff.loading": "Loading data changes...",
+  "diff.loadFailed": "Failed to load the data changes.",
+  "diff.notRecorded": "No before and after data was recorded for this run.",
+  "diff.noChanges": "This run did not change any financial data.",
+  "diff.summary": {
+    one: "{count} row changed",
+    other: "{count} rows changed",
+  },
+  "diff.revenue": "revenue {amount}",
+  "diff.expenses": "expenses {amount}",
+  "diff.assets": "assets {amount}",
+  "diff.liabilities": "liabilities {amount}",
+  "diff.breakdown": "{added} added, {removed} removed, {changed} changed",
+  "diff.periods": "Periods affected: {range}",
+  "diff.lineCount": { one: "{count} line", other: "{count} lines" },
+  "diff.kind": "Change",
+  "diff.kind.added": "Added",
+  "diff.kind.removed": "Removed",
+  "diff.kind.changed": "Changed",
+  "diff.before": "Before",
+  "diff.after": "After",
+  "diff.change": "Difference",
+
+  "bulk.title": "Sync Queue",
+  "bulk.hint":
+    "Choose the companies to sync. Each company's data sources are synced together, a few companies at a time.",
+  "bulk.selectAll": "All companies",
+  "bulk.concurrency": "Companies at a time",
+  "bulk.start": {
+    one: "Sync {count} company",
+    other: "Sync {count} companies",
+  },
+  "bulk.summary": {
+    one: "{done} of {count} company done · {running} running · {pending} waiting",
+    other:
+      "{done} of {count} companies done · {running} running · {pending} waiting",
+  },
+  "bulk.failures": {
+    one: "{count} company failed to sync",
+    other: "{count} companies failed to sync",
+  },
+  "bulk.company": "Company",
+  "bulk.stop": "Skip Waiting",
+  "bulk.newRun": "New Bulk Sync",
+  "bulk.status.pending": "Waiting",
+  "bulk.status.starting": "Starting",
+  "bulk.status.running": "Running",
+  "bulk.status.completed": "Completed",
+  "bulk.status.failed": "Failed",
+  "bulk.status.cancelled": "Cancelled",
+  "bulk.status.skipped": "Skipped",
+  "bulk.alreadyRunning": "A sync of this company is already running.",
+  "bulk.finishedTitle": "Bulk sync finished",
+  "bulk.finishedText": {
+    one: "{completed} of {count} company synced, {failed} failed.",
+    other: "{completed} of {count} companies synced, {failed} failed.",
+  },
+
+  "history.title": "Sync History",
+  "history.refresh": "Refresh",
+  "history.selectCompany": "Select a company to view its sync history.",
+  "history.loadFailed": "Failed to load job history. Please try again later.",
+  "history.empty": "No ETL runs yet for this company.",
+  "history.noMatches": "No runs match these filters.",
+  "history.lastSuccess": "Last successful sync: {date}",
+  "history.noSuccess": "No successful sync yet",
+  "history.failedSince": {
+    one: "{count} failed run since",
+    other: "{count} failed runs since",
+  },
+  "history.failedTotal": {
+    one: "{count} failed run",
+    other: "{count} failed runs",
+  },
+  "history.noFailuresSince": "No failures since",
+  "history.status": "Status",
+  "history.allStatuses": "All statuses",
+  "history.status.running": "Running",
+  "history.status.completed": "Completed",
+  "history.status.failed": "Failed",
+  "history.status.cancelled": "Cancelled",
+  "history.from": "From",
+  "history.to": "To",
+  "history.clearFilters": "Clear Filters",
+  "history.started": "Started",
+  "history.finished": "Finished",
+  "history.inProgress": "In progress",
+  "history.duration": "Duration",
+  "history.durationSeconds": "{seconds}s",
+  "history.durationMinutes": "{minutes}m {seconds}s",
+  "history.durationHours": "{hours}h {minutes}m",
+  "history.source": "Source",
+  "history.allSources": "All sources",
+  "history.deletedSource": "Deleted source #{id}",
+  "history.records": "Records",
+  "history.message": "Message",
+  "history.stage": "Stage",
+  "history.progress": "Progress",
+  "history.jobId": "Job ID",
+  "history.retryOf": "Retry of",
+  "history.detailTitle": "Run #{id}",
+  "history.detailDescription": "Started {date}",
+  "history.showing": {
+    one: "Showing {shown} of {count} run",
+    other: "Showing {shown} of {count} runs",
+  },
+
+  "schedules.title": "Sync Schedule",
+  "schedules.enabled": "Run on a schedule",
+  "schedules.paused": "Schedule paused",
+  "schedules.frequency": "Frequency",
+  "schedules.frequency.hourly": "Hourly",
+  "schedules.frequency.daily": "Daily",
+  "schedules.frequency.weekly": "Weekly",
+  "schedules.frequency.cron": "Cron expression",
+  "schedules.minute": "Minute past the hour",
+  "schedules.time": "Time",
+  "schedules.weekday": "Day",
+  "schedules.weekday.sunday": "Sunday",
+  "schedules.weekday.monday": "Monday",
+  "schedules.weekday.tuesday": "Tuesday",
+  "schedules.weekday.wednesday": "Wednesday",
+  "schedules.weekday.thursday": "Thursday",
+  "schedules.weekday.friday": "Friday",
+  "schedules.weekday.saturday": "Saturday",
+  "schedules.cron": "Cron expression",
+  "schedules.cronHelp":
+    "Five fields: minute, hour, day of month, month, day of week. For example 0 2 1 * * runs at 02:00 on the first of every month.",
+  "schedules.timezone": "Time zone",
+  "schedules.nextRuns": "Next runs (in your local time)",
+  "schedules.noUpcoming": "This expression has no upcoming runs.",
+  "schedules.invalid": "Invalid schedule: {reason}",
+  "schedules.save": "Save Schedule",
+  "schedules.remove": "Remove Schedule",
+  "schedules.saved": "Schedule Saved",
+  "schedules.savedText": "{name} will sync {schedule}.",
+  "schedules.savedPausedText":
+    "{name} has a paused schedule and will only sync on demand.",
+  "schedules.saveFailed": "Failed to save the schedule. Please try again.",
+  "schedules.removed": "Schedule Removed",
+  "schedules.removedText": "{name} will only sync on demand.",
+  "schedules.removeFailed": "Failed to remove the schedule. Please try again.",
+  "schedules.describe.hourly": "hourly at :{minute}",
+  "schedules.describe.daily": "daily at {time}",
+  "schedules.describe.weekly": "every {weekday} at {time}",
+  "schedules.describe.cron": "on cron {cron}",
+  "schedules.inZone": "{schedule} ({timezone})",
+
+  "companies.title": "Companies",
+  "companies.add": "Add Company",
+  "companies.addTitle": "Add New Company",
+  "companies.editTitle": "Edit Company",
+  "companies.update": "Update Company",
+  "companies.name": "Company Name*",
+  "companies.namePlaceholder": "Enter company name",
+  "companies.description": "Description",
+  "companies.descriptionPlaceholder": "Enter company description",
+  "companies.currency": "Reporting Currency",
+  "companies.sources": { one: "{count} source", other: "{count} sources" },
+  "companies.empty": "No companies found. Create a new company to get started.",
+  "companies.loadFailed": "Failed to load companies. Please try again later.",
+  "companies.nameRequired": "Company name is required",
+  "companies.created": "Company Created",
+  "companies.createdText": "{name} has been successfully created.",
+  "companies.createFailed": "Failed to create company. Please try again.",
+  "companies.updated": "Company Updated",
+  "companies.updatedText": "{name} has been successfully updated.",
+  "companies.updateFailed": "Failed to update company. Please try again.",
+  "companies.confirmDelete":
+    "Are you sure you want to delete this company? This action cannot be undone.",
+  "companies.deleted": "Company Deleted",
+  "companies.deletedText": "The company has been successfully deleted.",
+  "companies.deleteFailed": "Failed to delete company. Please try again.",
+
+  "configs.title": "Data Sources",
+  "configs.companyTitle": "{name} - Data Sources",
+  "configs.add": "Add Data Source",
+  "configs.addTitle": "Add Data Source Configuration",
+  "configs.editTitle": "Edit Data Source Configuration",
+  "configs.submitAdd": "Add Configuration",
+  "configs.update": "Update Configuration",
+  "configs.name": "Configuration Name*",
+  "configs.namePlaceholder": "Enter configuration name",
+  "configs.sourceType": "Source Type",
+  "configs.type.api": "API",
+  "configs.type.database": "Database",
+  "configs.type.file": "File",
+  "configs.apiEndpointValue": "API Endpoint: {endpoint}",
+  "configs.databaseValue": "Database: {target}",
+  "configs.fileValue": "File: {format}",
+  "configs.fieldMappings": "Field Mappings",
+  "configs.fieldMappingsHint":
+    'Map unified fields to paths in the source record, e.g. "amount": "ColData[1].value". "$rows" points to the array of records; unmapped fields are read by name. A rule can also be an object with "path", "value", "default" and "transform".',
+  "configs.showMappings": "Show Field Mappings",
+  "configs.hideMappings": "Hide Field Mappings",
+  "configs.previewMapping": "Dry Run",
+  "configs.hidePreview": "Hide Dry Run",
+  "configs.empty":
+    "No data source configurations found. Add a new configuration to get started.",
+  "configs.selectCompany": "Select a company to view and manage data sources",
+  "configs.invalid": "Fix the highlighted fields before saving.",
+  "configs.added": "Configuration Added",
+  "configs.addedText": "{name} has been successfully added.",
+  "configs.addFailed": "Failed to add configuration. Please try again.",
+  "configs.updated": "Configuration Updated",
+  "configs.updatedText": "{name} has been successfully updated.",
+  "configs.updateFailed": "Failed to update configuration. Please try again.",
+  "configs.confirmDelete":
+    "Are you sure you want to delete this data source configuration? This action cannot be undone.",
+  "configs.deleted": "Configuration Deleted",
+  "configs.deletedText":
+    "The data source configuration has been successfully deleted.",
+  "configs.deleteFailed": "Failed to delete configuration. Please try again.",
+
+  "sourceSettings.baseUrl": "Base URL",
+  "sourceSettings.authScheme": "Authentication",
+  "sourceSettings.authHint":
+    "Credentials are stored by the backend and sent this way.",
+  "sourceSettings.auth.none": "None",
+  "sourceSettings.auth.bearer": "Bearer token",
+  "sourceSettings.auth.basic": "Basic (username and password)",
+  "sourceSettings.auth.apiKey": "API key",
+  "sourceSettings.pagination": "Pagination",
+  "sourceSettings.paging.none": "None",
+  "sourceSettings.paging.page": "Page number",
+  "sourceSettings.paging.offset": "Offset and limit",
+  "sourceSettings.paging.cursor": "Cursor",
+  "sourceSettings.headers": "Headers",
+  "sourceSettings.headerName": "Header name",
+  "sourceSettings.headerValue": "Value",
+  "sourceSettings.addHeader": "Add Header",
+  "sourceSettings.removeHeader": "Remove header",
+  "sourceSettings.driver": "Driver",
+  "sourceSettings.driver.postgres": "PostgreSQL",
+  "sourceSettings.driver.mysql": "MySQL",
+  "sourceSettings.driver.sqlserver": "SQL Server",
+  "sourceSettings.host": "Host",
+  "sourceSettings.port": "Port",
+  "sourceSettings.database": "Database",
+  "sourceSettings.schema": "Schema",
+  "sourceSettings.optional": "Optional",
+  "sourceSettings.query": "Query",
+  "sourceSettings.queryHint":
+    "A read-only SELECT query; each result row is one source record.",
+  "sourceSettings.format": "Format",
+  "sourceSettings.format.csv": "CSV",
+  "sourceSettings.format.xlsx": "Excel (XLSX)",
+  "sourceSettings.format.json": "JSON",
+  "sourceSettings.delimiter": "Delimiter",
+  "sourceSettings.sheet": "Sheet",
+  "sourceSettings.firstSheet": "First sheet",
+  "sourceSettings.headerRow": "Header row",
+  "sourceSettings.name": "Name",
+  "sourceSettings.config": "Configuration",
+  "sourceSettings.error.required": "This field is required.",
+  "sourceSettings.error.invalid": "This value is not valid.",
+  "sourceSettings.error.url": "Must be a valid URL.",
+  "sourceSettings.error.httpUrl": "Must start with http:// or https://.",
+  "sourceSettings.error.headerName": "Not a valid header name.",
+  "sourceSettings.error.number": "Must be a number.",
+  "sourceSettings.error.wholeNumber": "Must be a whole number.",
+  "sourceSettings.error.portRange": "Must be between 1 and 65535.",
+  "sourceSettings.error.atLeastOne": "Must be 1 or more.",
+  "sourceSettings.error.readOnlyQuery":
+    "Must be a single read-only SELECT query, without statements that write data.",
+  "sourceSettings.error.singleCharacter": "Must be a single character.",
+
+  "upload.button": "Upload File",
+  "upload.title": "Upload a File",
+  "upload.titleFor": "Upload a file into {name}",
+  "upload.drop":
+    "Drop a CSV or XLSX file, or a QuickBooks Online or Xero report (JSON), here",
+  "upload.browse": "Choose File",
+  "upload.replace": "Choose Another File",
+  "upload.parseFailed": "The file could not be read: {reason}",
+  "upload.error.unsupportedType": "only CSV, XLSX and JSON files are supported",
+  "upload.error.notXlsx": "the file is not an XLSX workbook",
+  "upload.error.invalidJson": "the file is not valid JSON",
+  "upload.error.noSheets": "the workbook has no sheets",
+  "upload.error.unsupportedCompression":
+    "the workbook uses a compression method that cannot be read",
+  "upload.error.decompressionUnavailable":
+    "this browser cannot unpack XLSX files. Update it, or save the sheet as CSV and upload that",
+  "upload.error.unreadable": "the file could not be read",
+  "upload.delimiter.comma": "Comma (,)",
+  "upload.delimiter.semicolon": "Semicolon (;)",
+  "upload.delimiter.tab": "Tab",
+  "upload.delimiter.pipe": "Pipe (|)",
+  "upload.recognized": "Recognized as a {format} export",
+  "upload.unrecognizedJson":
+    "the JSON is not a QuickBooks Online or Xero report",
+  "upload.detectedHeader": "Detected header: row {row}",
+  "upload.preview": {
+    one: "Showing {shown} of {count} row",
+    other: "Showing {shown} of {count} rows",
+  },
+  "upload.mapping": "Column mapping",
+  "upload.validRows": {
+    one: "{valid} of {count} row is valid",
+    other: "{valid} of {count} rows are valid",
+  },
+  "upload.submit": {
+    one: "Upload {count} row",
+    other: "Upload {count} rows",
+  },
+  "upload.invalid": "{field}: {reason}",
+  "upload.started": "Upload started",
+  "upload.startedText": {
+    one: "Loading {count} row into {name}.",
+    other: "Loading {count} rows into {name}.",
+  },
+  "upload.failed": "Failed to upload the file.",
+
+  "mappingPreview.title": "Mapping Dry Run",
+  "mappingPreview.hint":
+    "Paste, upload or fetch a sample payload to list its fields in the builder and dry-run these mappings. Nothing is saved or synced.",
+  "mappingPreview.placeholder": "Paste a JSON sample payload",
+  "mappingPreview.upload": "Upload JSON",
+  "mappingPreview.fetch": "Fetch Sample",
+  "mappingPreview.saveToFetch":
+    "Save the data source to fetch a sample from it",
+  "mappingPreview.fetchFailed":
+    "Failed to fetch a sample from the data source.",
+  "mappingPreview.invalidJson": "The sample is not valid JSON: {reason}",
+  "mappingPreview.noSample": "No sample yet.",
+  "mappingPreview.mappingIssue": 'Mapping "{key}" {reason}',
+  "mappingPreview.summary": {
+    one: "{valid} of {count} record maps to a valid row",
+    other: "{valid} of {count} records map to valid rows",
+  },
+  "mappingPreview.limited": "(first {total} shown)",
+  "mappingPreview.errors": "Errors",
+  "mappingPreview.sourceRecord": "Source record #{index}",
+  "mappingPreview.unifiedRow": "Unified row",
+
+  "mappingBuilder.builder": "Builder",
+  "mappingBuilder.advanced": "Advanced (JSON)",
+  "mappingBuilder.sample": "Sample Data",
+  "mappingBuilder.rowsPath": "Records path ($rows)",
+  "mappingBuilder.rowsPathPlaceholder":
+    "Leave empty when the payload or its data field is the list of records",
+  "mappingBuilder.sourceFields": "Source fields",
+  "mappingBuilder.noSample":
+    "Load a sample below to list its fields, or type paths directly.",
+  "mappingBuilder.noFields": "No fields found in the sample records.",
+  "mappingBuilder.dragHint": "Drag onto a unified field to map it",
+  "mappingBuilder.target": "Unified field",
+  "mappingBuilder.sourceColumn": "Source path",
+  "mappingBuilder.transformColumn": "Transform",
+  "mappingBuilder.defaultColumn": "Default",
+  "mappingBuilder.sameName": "Read from {field}",
+  "mappingBuilder.source": "Source path for {field}",
+  "mappingBuilder.transform": "Transform for {field}",
+  "mappingBuilder.default": "Default for {field}",
+  "mappingBuilder.clear": "Clear mapping for {field}",
+  "mappingBuilder.defaultPlaceholder": "When missing",
+  "mappingBuilder.fixedPlaceholder": "Fixed value",
+  "mappingBuilder.advancedOnly": "Edit in Advanced",
+  "mappingBuilder.noTransform": "None",
+  "mappingBuilder.transform.trim": "Trim spaces",
+  "mappingBuilder.transform.uppercase": "Uppercase",
+  "mappingBuilder.transform.lowercase": "Lowercase",
+  "mappingBuilder.transform.number": "Parse number (auto)",
+  "mappingBuilder.transform.numberDecimalPoint": "Parse number (1,234.56)",
+  "mappingBuilder.transform.numberDecimalComma": "Parse number (1.234,56)",
+  "mappingBuilder.transform.negate": "Flip sign",
+  "mappingBuilder.transform.absolute": "Absolute value",
+  "mappingBuilder.transform.date": "Parse date",
+
+  "table.title": "Structured Financial Data Table",
+  "table.selectCompany": "Please select a company to view financial data.",
+  "table.loadFailed": "Failed to load financial data. Please try again later.",
+  "table.empty":
+    "No financial data available. Run an ETL process to load data.",
+  "table.category": "Category",
+  "table.amount": "Amount",
+  "table.source": "Source: {source}",
+  "table.unnamedLineItem": "Line Item",
+  "table.hint":
+    "Click on rows with arrows to expand and view detailed breakdowns",
+
+  "dashboard.loadFailed": "Failed to load dashboard data",
+  "dashboard.loading": "Loading dashboard data...",
+  "dashboard.error": "Error: {error}",
+  "dashboard.tryLater": "Please try again later",
+  "dashboard.selectCompany": "Please select a company to view financial data",
+  "dashboard.title": "{name} Dashboard Visualization",
+  "dashboard.subtitle": "Financial insights and visual analytics",
+  "dashboard.sources": {
+    one: "{count} Data Source",
+    other: "{count} Data Sources",
+  },
+  "dashboard.totalRevenue": "Total Revenue",
+  "dashboard.revenueChange": "{change}% from last period",
+  "dashboard.monthlyProfit": "Monthly Profit",
+  "dashboard.profitMargin": "{margin}% profit margin",
+  "dashboard.noDateRange": "No date range",
+  "dashboard.visualizations": "Financial Visualizations",
+  "dashboard.revenueVsExpenses": "Monthly Revenue vs. Expenses (All Periods)",
+  "dashboard.revenue": "Revenue",
+  "dashboard.expenses": "Expenses",
+  "dashboard.noRevenue": "No revenue data available",
+  "dashboard.byCategory": "Revenue by Category",
+  "dashboard.expenseCategory": "{category} (Expense)",
+  "dashboard.noCategories": "No category data available",
+  "dashboard.footer":
+    "Interactive financial visualizations provide insights into your company's performance",
+
+  "issues.summary": {
+    one: "Data issues: {count} row was excluded from totals because it failed validation.",
+    other:
+      "Data issues: {count} rows were excluded from totals because they failed validation.",
+  },
+  "issues.show": "Show details",
+  "issues.hide": "Hide details",
+  "issues.row": "Row",
+  "issues.field": "Field",
+  "issues.reason": "Reason",
+  "issues.truncated": "Showing the first {max} of {total} issues.",
+
+  "missingRates.summary": {
+    one: "{count} row could not be converted to {currency} and is excluded from totals.",
+    other:
+      "{count} rows could not be converted to {currency} and are excluded from totals.",
+  },
+  "missingRates.pair": "{from} → {to}: no {kind} rate ({rows})",
+  "missingRates.pairInPeriod":
+    "{from} → {to}: no {kind} rate for {period} ({rows})",
+  "missingRates.hint":
+    "Add the missing rates under Exchange Rates to include these rows.",
+
+  "rates.title": "Exchange Rates",
+  "rates.import": "Import CSV",
+  "rates.export": "Export",
+  "rates.help":
+    "Revenue and expense lines use the average rate for their month; asset and liability lines use the latest closing rate on or before their reporting date. USD pegs ({pegs}) apply when the table has no rate. CSV columns: date, base, quote, rate, type.",
+  "rates.date": "Date",
+  "rates.type": "Type",
+  "rates.kind.average": "average",
+  "rates.kind.closing": "closing",
+  "rates.average": "Average",
+  "rates.closing": "Closing",
+  "rates.base": "1 unit of",
+  "rates.equals": "Equals",
+  "rates.quote": "Of",
+  "rates.ratePlaceholder": "e.g. 48.25",
+  "rates.save": "Save Rate",
+  "rates.invalid": "Invalid Rate",
+  "rates.imported": "Rates Imported",
+  "rates.partiallyImported": "Rates Partially Imported",
+  "rates.importedCount": {
+    one: "{count} rate imported.",
+    other: "{count} rates imported.",
+  },
+  "rates.importError": "Line {line}: {reason}.",
+  "rates.field.base": "Base currency",
+  "rates.field.quote": "Quote currency",
+  "rates.error": "{field}: {reason}",
+  "rates.error.required": "is required",
+  "rates.error.invalid": "is not valid",
+  "rates.error.currency": "must be a 3-letter ISO 4217 code",
+  "rates.error.dateFormat": "must be YYYY-MM-DD or YYYY-MM",
+  "rates.error.date": "is not a valid date",
+  "rates.error.rate": "must be a positive decimal",
+  "rates.error.zero": "must not be zero",
+  "rates.error.sameCurrency": "must differ from the base currency",
+  "rates.error.missingColumns": "missing columns: {columns}",
+  "rates.moreSkipped": {
+    one: "{count} more line skipped.",
+    other: "{count} more lines skipped.",
+  },
+  "rates.empty": "No rates yet. Add one above or import a CSV file.",
+  "rates.pair": "Pair",
+  "rates.rate": "Rate",
+  "rates.count": { one: "{count} rate", other: "{count} rates" },
+  "rates.showingLatest": "(showing the latest {max})",
+  "rates.clearAll": "Clear All",
+  "rates.confirmClear": "Remove all exchange rates?",
+
+  "notFound.message": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+};
@@ -0,0 +1,75 @@
+import type { en } from "./en";
+
+export type PluralCategory = "zero" | "one" | "two" | "few" | "many" | "other";
+
+/** Plural forms selected with `Intl.PluralRules` from the `count` param. */
+export type PluralMessage = Partial<Record<PluralCategory, string>> & {
+  other: string;
+};
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+/** Every catalog must translate every key of the English catalog. */
+export type Messages = Record<MessageKey, Message>;
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+/**
+ * Builds `t` for a catalog. `{name}` placeholders are replaced from
+ * `params`; numeric params are formatted for `locale`, so pass years and
+ * ids as strings. Keys missing from `messages` fall back to `fallback`.
+ */
+export const createTranslator = (
+  messages: Messages,
+  locale: string,
+  fallback: Messages
+): Translate => {
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale);
+
+  return (key, params = {}) => {
+    const message = messages[key] ?? fallback[key];
+    if (message === undefined) return key;
+
+    const template =
+      typeof message === "string"
+        ? message
+        : (message[plurals.select(Number(params.count ?? 0))] ?? message.other);
+
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === "number" ? numbers.format(value) : value;
+    });
+  };
+};
+
+/**
+ * A message kept untranslated, e.g. in stored history, so that it follows
+ * the language it is shown in. Params may be messages themselves.
+ */
+export interface MessageDescriptor {
+  key: MessageKey;
+  params?: Record<string, string | number | MessageDescriptor>;
+}
+
+/** Translates `message`; plain strings, e.g. server text, pass through. */
+export const translateMessage = (
+  t: Translate,
+  message: MessageDescriptor | string
+): string =>
+  typeof message === "string"
+    ? message
+    : t(
+        message.key,
+        Object.fromEntries(
+          Object.entries(message.params ?? {}).map(([name, value]) => [
+            name,
+            typeof value === "object" ? translateMessage(t, value) : value,
+          ])
+        )
+      );
@@ -0,0 +1,50 @@
+import { xeroImporter } from "./xero";
+import { quickBooksImporter } from "./quickbooks";
+import { trialBalanceImporter } from "./trial-balance";
+import type { AccountingImporter, ImportSource } from "./types";
+
+export * from "./types";
+export { xeroImporter, quickBooksImporter, trialBalanceImporter };
+
+/** The keys of an `ImportedRecord`, in display order. */
+export const IMPORTED_RECORD_FIELDS = [
+  "section",
+  "group",
+  "account",
+  "amount",
+  "currency",
+  "periodStart",
+  "periodEnd",
+  "metadata",
+];
+
+/** Importers tried in order on each upload; add new formats here. */
+export const ACCOUNTING_IMPORTERS: AccountingImporter[] = [
+  quickBooksImporter,
+  xeroImporter,
+  trialBalanceImporter,
+];
+
+/** The first importer that recognizes `source`, if any. */
+export const detectImporter = (
+  source: ImportSource
+): AccountingImporter | undefined =>
+  ACCOUNTING_IMPORTERS.find((importer) => importer.detect(source));
+
+/**
+ * Field mappings from an importer's flattened records to unified fields,
+ * for a source created from one of its exports.
+ */
+export const importerFieldMappings = (
+  importer: AccountingImporter
+): Record<string, unknown> => ({
+  category: "section",
+  subcategory: "group",
+  lineItemName: "account",
+  amount: "amount",
+  currency: "currency",
+  fromDate: "periodStart",
+  toDate: "periodEnd",
+  sourceName: { value: importer.label },
+  metadata: "metadata",
+});
@@ -0,0 +1,65 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+
+import { quickBooksImporter } from "./quickbooks";
+
+const payload = JSON.parse(
+  fs.readFileSync(
+    path.join(
+      path.dirname(fileURLToPath(import.meta.url)),
+      "__fixtures__/quickbooks-pnl.json"
+    ),
+    "utf8"
+  )
+);
+const source = { kind: "json" as const, payload };
+
+const JAN = { periodStart: "2024-01-01", periodEnd: "2024-01-31" };
+const FEB = { periodStart: "2024-02-01", periodEnd: "2024-02-29" };
+
+describe("quickBooksImporter", () => {
+  it("recognizes a Reports API payload", () => {
+    expect(quickBooksImporter.detect(source)).toBe(true);
+    expect(quickBooksImporter.detect({ kind: "json", payload: {} })).toBe(
+      false
+    );
+  });
+
+  it("flattens each month's amounts, skipping totals and summaries", () => {
+    const { title, records } = quickBooksImporter.parse(source);
+    const rows = records.map((record) => [
+      record.section,
+      record.group,
+      record.account,
+      record.amount,
+      record.periodStart,
+    ]);
+
+    expect(title).toBe("ProfitAndLoss");
+    expect(rows).toEqual([
+      ["Income", null, "Sales", "1234.50", JAN.periodStart],
+      ["Income", null, "Sales", "1000.00", FEB.periodStart],
+      ["Cost of Goods Sold", null, "Materials", "-200.00", JAN.periodStart],
+      ["Expenses", "Utilities", "Utilities", "-10.00", JAN.periodStart],
+      ["Expenses", "Utilities", "Electricity", "-55.25", JAN.periodStart],
+      ["Expenses", "Utilities", "Electricity", "-60.00", FEB.periodStart],
+      ["Expenses", null, "Refunds", "15.00", JAN.periodStart],
+      ["Expenses", null, "Refunds", "0.00", FEB.periodStart],
+    ]);
+  });
+
+  it("keeps the currency, period and account of each line", () => {
+    const [sales] = quickBooksImporter.parse(source).records;
+    expect(sales).toEqual({
+      section: "Income",
+      group: null,
+      account: "Sales",
+      amount: "1234.50",
+      currency: "USD",
+      ...JAN,
+      metadata: { depth: 1, path: ["Income"], accountId: "79" },
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import type { AccountingImporter, ImportedRecord } from "./types";
+import { isObject, lineItem, toAmount, negateAmount } from "./records";
+
+// The report JSON of the QuickBooks Online Reports API (ProfitAndLoss,
+// BalanceSheet, TrialBalance, ...), e.g. GET /reports/ProfitAndLoss.
+
+interface QboColData {
+  value?: string;
+  id?: string;
+}
+
+interface QboRow {
+  type?: string;
+  group?: string;
+  ColData?: QboColData[];
+  Header?: { ColData?: QboColData[] };
+  Rows?: { Row?: QboRow[] };
+  Summary?: { ColData?: QboColData[] };
+}
+
+interface QboColumn {
+  ColTitle?: string;
+  ColType?: string;
+  MetaData?: { Name?: string; Value?: string }[];
+}
+
+interface QboReport {
+  Header: {
+    ReportName: string;
+    StartPeriod?: string;
+    EndPeriod?: string;
+    Currency?: string;
+  };
+  Columns?: { Column?: QboColumn[] };
+  Rows: { Row: QboRow[] };
+}
+
+// Sections QuickBooks reports as positive amounts that reduce profit.
+const EXPENSE_GROUPS = new Set(["COGS", "Expenses", "OtherExpenses"]);
+
+const isQboReport = (payload: unknown): payload is QboReport =>
+  isObject(payload) &&
+  isObject(payload.Header) &&
+  typeof payload.Header.ReportName === "string" &&
+  isObject(payload.Rows) &&
+  Array.isArray(payload.Rows.Row);
+
+const metaData = (column: QboColumn, name: string) =>
+  column.MetaData?.find((entry) => entry.Name === name)?.Value;
+
+/**
+ * The money columns and the period each covers. A report split by month
+ * or quarter also has a "Total" column, which would count twice.
+ */
+const amountColumns = (report: QboReport) => {
+  const columns = report.Columns?.Column ?? [];
+  const money = columns
+    .map((column, index) => ({ column, index }))
+    .filter(({ column }) => column.ColType === "Money");
+  const periods = money.filter(
+    ({ column }) => metaData(column, "ColKey") !== "total"
+  );
+
+  return (periods.length > 0 ? periods : money).map(({ column, index }) => ({
+    index,
+    period: {
+      start: metaData(column, "StartDate") ?? report.Header.StartPeriod,
+      end: metaData(column, "EndDate") ?? report.Header.EndPeriod,
+    },
+  }));
+};
+
+export const quickBooksImporter: AccountingImporter = {
+  id: "quickbooks",
+  label: "QuickBooks Online",
+  detect: (source) => source.kind === "json" && isQboReport(source.payload),
+  parse: (source) => {
+    if (source.kind !== "json" || !isQboReport(source.payload)) {
+      return { records: [] };
+    }
+    const report = source.payload;
+    const columns = amountColumns(report);
+    // Without column metadata, assume the second column holds the amount.
+    if (columns.length === 0) {
+      columns.push({
+        index: 1,
+        period: {
+          start: report.Header.StartPeriod,
+          end: report.Header.EndPeriod,
+        },
+      });
+    }
+    const records: ImportedRecord[] = [];
+
+    const addLineItem = (
+      colData: QboColData[],
+      path: string[],
+      negate: boolean
+    ) => {
+      const account = colData[0]?.value?.trim();
+      if (!account) return;
+
+      columns.forEach(({ index, period }) => {
+        // The Reports API always writes amounts with a decimal point.
+        const amount = toAmount(colData[index]?.value, ".");
+        if (amount === undefined) return;
+        records.push(
+          lineItem({
+            path,
+            account,
+            accountId: colData[0].id,
+            amount: negate ? negateAmount(amount) : amount,
+            currency: report.Header.Currency,
+            period,
+          })
+        );
+      });
+    };
+
+    // Section summaries are totals of the rows above them and are skipped.
+    // Sections with only a summary (Gross Profit, Net Income) drop out too.
+    const walk = (rows: QboRow[], path: string[], group?: string) =>
+      rows.forEach((row) => {
+        const sectionGroup = group ?? row.group;
+        const negate = EXPENSE_GROUPS.has(sectionGroup ?? "");
+
+        if (row.Rows || row.Header) {
+          const title = row.Header?.ColData?.[0]?.value?.trim();
+          if (!title) return;
+          const sectionPath = [...path, title];
+          // A parent account's own balance sits in its section header.
+          addLineItem(row.Header?.ColData ?? [], sectionPath, negate);
+          walk(row.Rows?.Row ?? [], sectionPath, sectionGroup);
+        } else if (row.ColData) {
+          addLineItem(row.ColData, path, negate);
+        }
+      });
+
+    walk(report.Rows.Row, []);
+    return { title: report.Header.ReportName, records };
+  },
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+
+import { toAmount } from "./records";
+
+describe("toAmount", () => {
+  it("reads a sign written before the currency symbol", () => {
+    expect(toAmount("-$1,234.00")).toBe("-1234.00");
+    expect(toAmount("-€1.234,50", ",")).toBe("-1234.50");
+  });
+
+  it("writes numeric cells out in full instead of in exponent form", () => {
+    expect(toAmount(1e21)).toBe("1000000000000000000000");
+    expect(toAmount(1e-7)).toBe("0.0000001");
+    expect(toAmount(-1234.5)).toBe("-1234.5");
+    expect(toAmount(Infinity)).toBeUndefined();
+  });
+});
@@ -0,0 +1,146 @@
+import { parseAmount, applyTransform } from "@/lib/mapping";
+import type { DecimalSeparator } from "@/lib/mapping";
+import { parseDecimal } from "@/lib/financial";
+
+import type { ImportedRecord } from "./types";
+
+export interface ReportPeriod {
+  start?: string;
+  end?: string;
+}
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * An exported amount ("1,250.00", "(75)") as a decimal string, or
+ * undefined when it is not one or its decimal separator is unknown.
+ */
+export const toAmount = (
+  value: unknown,
+  decimalSeparator?: DecimalSeparator
+): string | undefined => {
+  if (typeof value === "number") {
+    // String() writes 1e21 and 1e-7 in exponent form, which is no amount.
+    return Number.isFinite(value)
+      ? value.toLocaleString("en-US", {
+          useGrouping: false,
+          maximumFractionDigits: 20,
+        })
+      : undefined;
+  }
+  return typeof value === "string"
+    ? parseAmount(value, decimalSeparator)
+    : undefined;
+};
+
+export const negateAmount = (amount: string) =>
+  /^-?[0.]+$/.test(amount)
+    ? amount
+    : (applyTransform(amount, "negate") as string);
+
+/** `a - b`, computed on the decimal digits so nothing is rounded. */
+export const subtractAmounts = (a: string, b: string): string => {
+  const x = parseDecimal(a);
+  const y = parseDecimal(b);
+  const scale = Math.max(x.scale, y.scale);
+  const difference =
+    x.digits * 10n ** BigInt(scale - x.scale) -
+    y.digits * 10n ** BigInt(scale - y.scale);
+
+  const sign = difference < 0n ? "-" : "";
+  const digits = (difference < 0n ? -difference : difference)
+    .toString()
+    .padStart(scale + 1, "0");
+  return scale === 0
+    ? `${sign}${digits}`
+    : `${sign}${digits.slice(0, -scale)}.${digits.slice(-scale)}`;
+};
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toIsoDate = (year: string, month: string, day: string) => {
+  const monthIndex = MONTHS.indexOf(month.slice(0, 3).toLowerCase());
+  return monthIndex === -1
+    ? undefined
+    : `${year}-${pad(monthIndex + 1)}-${pad(Number(day))}`;
+};
+
+/**
+ * Every date in a report title, as YYYY-MM-DD: ISO dates, "1 February
+ * 2018" and "December 31, 2024". "1 Jan 2024 to 31 Mar 2024" gives two.
+ */
+export const findReportDates = (text: string): string[] => {
+  const pattern =
+    /(\d{4})-(\d{2})-(\d{2})|(\d{1,2})\s+([A-Za-z]{3,})\.?\s+(\d{4})|([A-Za-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{4})/g;
+  const dates: string[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const date = match[1]
+      ? `${match[1]}-${match[2]}-${match[3]}`
+      : match[4]
+        ? toIsoDate(match[6], match[5], match[4])
+        : toIsoDate(match[9], match[7], match[8]);
+    if (date) dates.push(date);
+  }
+  return dates;
+};
+
+/** The period a title names: a start and end, or a single "as at" date. */
+export const periodFromTitle = (text: string): ReportPeriod => {
+  const dates = findReportDates(text);
+  return dates.length >= 2
+    ? { start: dates[0], end: dates[dates.length - 1] }
+    : { end: dates[0] };
+};
+
+/**
+ * A line item under the sections in `path`, top-level section first.
+ * Without an `amount`, `exportedAmount` is the text that could not be read.
+ */
+export const lineItem = ({
+  path,
+  account,
+  accountId,
+  amount,
+  exportedAmount,
+  currency,
+  period,
+}: {
+  path: string[];
+  account: string;
+  accountId?: string;
+  amount?: string;
+  exportedAmount?: string;
+  currency?: string;
+  period: ReportPeriod;
+}): ImportedRecord => ({
+  section: path[0] ?? account,
+  group: path.length > 1 ? path[path.length - 1] : null,
+  account,
+  amount: amount ?? null,
+  currency: currency || null,
+  periodStart: period.start ?? null,
+  periodEnd: period.end ?? null,
+  metadata: {
+    depth: path.length,
+    path,
+    ...(accountId ? { accountId } : {}),
+    ...(amount === undefined && exportedAmount ? { exportedAmount } : {}),
+  },
+});
@@ -0,0 +1,122 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+
+import { parseCsv, detectDelimiter } from "@/lib/files";
+import { dryRunMapping } from "@/lib/mapping";
+
+import { importerFieldMappings } from ".";
+
+import { trialBalanceImporter } from "./trial-balance";
+
+const readTable = (name: string) => {
+  const text = fs.readFileSync(
+    path.join(
+      path.dirname(fileURLToPath(import.meta.url)),
+      "__fixtures__",
+      name
+    ),
+    "utf8"
+  );
+  return {
+    kind: "table" as const,
+    rows: parseCsv(text, detectDelimiter(text)),
+  };
+};
+
+const summarize = (name: string) =>
+  trialBalanceImporter
+    .parse(readTable(name))
+    .records.map(({ section, account, amount, periodEnd }) => [
+      section,
+      account,
+      amount,
+      periodEnd,
+    ]);
+
+describe("trialBalanceImporter", () => {
+  it("recognizes Debit and Credit columns below a title block", () => {
+    expect(trialBalanceImporter.detect(readTable("trial-balance.csv"))).toBe(
+      true
+    );
+    expect(
+      trialBalanceImporter.detect({ kind: "table", rows: [["Name", "Value"]] })
+    ).toBe(false);
+  });
+
+  it("nets credits against debits and skips totals and empty rows", () => {
+    const { title, records } = trialBalanceImporter.parse(
+      readTable("trial-balance.csv")
+    );
+
+    expect(title).toBe("Demo Company");
+    expect(records.map((record) => record.metadata.accountId)).toEqual([
+      "200",
+      "400",
+      "610",
+    ]);
+    expect(summarize("trial-balance.csv")).toEqual([
+      ["Revenue", "Sales", "12500.00", "2024-12-31"],
+      ["Expense", "Rent", "-1200.00", "2024-12-31"],
+      ["Asset", "Accounts Receivable", "-3000", "2024-12-31"],
+    ]);
+  });
+
+  it("reads a decimal-comma export", () => {
+    expect(summarize("trial-balance-comma.csv")).toEqual([
+      ["Revenue", "Sales", "12500.00", "2024-12-31"],
+      ["Expense", "Rent", "-1200.00", "2024-12-31"],
+      ["Expense", "Office Supplies", "500.00", "2024-12-31"],
+      ["Expense", "Rounding", "-0.5", "2024-12-31"],
+    ]);
+  });
+
+  it("reads amounts signed before their currency symbol", () => {
+    const { records } = trialBalanceImporter.parse({
+      kind: "table",
+      rows: [
+        ["Account", "Debit", "Credit"],
+        ["Refunds", "", "-$1,234.00"],
+      ],
+    });
+
+    expect(records.map((record) => record.amount)).toEqual(["-1234.00"]);
+  });
+
+  it("leaves amounts it cannot read out and keeps their text", () => {
+    const { records } = trialBalanceImporter.parse(
+      readTable("trial-balance-ambiguous.csv")
+    );
+
+    expect(summarize("trial-balance-ambiguous.csv")).toEqual([
+      ["Trial Balance", "Sales", null, null],
+      ["Trial Balance", "Rent", "-800", null],
+    ]);
+    expect(records[0].metadata.exportedAmount).toBe("1,250");
+    expect(records[1].metadata).not.toHaveProperty("exportedAmount");
+  });
+
+  it("reports dot-grouped whole amounts instead of reading them as decimals", () => {
+    const { records } = trialBalanceImporter.parse(
+      readTable("trial-balance-dot-grouped.csv")
+    );
+    const result = dryRunMapping(
+      records,
+      importerFieldMappings(trialBalanceImporter)
+    );
+
+    expect(records.map((record) => record.amount)).toEqual([null, null]);
+    expect(records.map((record) => record.metadata.exportedAmount)).toEqual([
+      "12.500",
+      "3.750",
+    ]);
+    expect(result.records.map((record) => record.row)).toEqual([
+      undefined,
+      undefined,
+    ]);
+    expect(
+      result.records.map((record) => record.issues.map(({ field }) => field))
+    ).toEqual([["amount"], ["amount"]]);
+  });
+});
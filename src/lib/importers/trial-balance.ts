@@ -0,0 +1,126 @@
+import { detectHeaderRow } from "@/lib/files";
+import { detectDecimalSeparator } from "@/lib/mapping";
+
+import type { AccountingImporter, ImportedRecord } from "./types";
+import {
+  lineItem,
+  toAmount,
+  periodFromTitle,
+  subtractAmounts,
+} from "./records";
+
+// A trial balance exported as a table: one row per account with Debit and
+// Credit columns, optionally an account code and type, under a title block.
+
+const normalize = (cell: string) =>
+  cell
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const findColumn = (header: string[], names: string[]) => {
+  for (const name of names) {
+    const index = header.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+const readLayout = (rows: string[][]) => {
+  const headerIndex = detectHeaderRow(rows);
+  const header = (rows[headerIndex] ?? []).map(normalize);
+  const layout = {
+    headerIndex,
+    debit: header.findIndex((name) => name.startsWith("debit")),
+    credit: header.findIndex((name) => name.startsWith("credit")),
+    name: findColumn(header, [
+      "account name",
+      "account",
+      "description",
+      "name",
+    ]),
+    code: findColumn(header, [
+      "account code",
+      "account number",
+      "account no",
+      "code",
+    ]),
+    type: findColumn(header, ["account type", "type", "class", "category"]),
+  };
+
+  return layout.debit !== -1 &&
+    layout.credit !== -1 &&
+    (layout.name !== -1 || layout.code !== -1)
+    ? layout
+    : undefined;
+};
+
+export const trialBalanceImporter: AccountingImporter = {
+  id: "trial-balance",
+  label: "Trial Balance",
+  detect: (source) =>
+    source.kind === "table" && readLayout(source.rows) !== undefined,
+  parse: (source) => {
+    const layout =
+      source.kind === "table" ? readLayout(source.rows) : undefined;
+    if (source.kind !== "table" || !layout) return { records: [] };
+
+    const titleRows = source.rows
+      .slice(0, layout.headerIndex)
+      .map((row) => row.filter((cell) => cell.trim()).join(" "))
+      .filter(Boolean);
+    const period = periodFromTitle(titleRows.join(" "));
+    const body = source.rows.slice(layout.headerIndex + 1);
+    const records: ImportedRecord[] = [];
+
+    // One export writes every amount alike, so "1,234" is read the way the
+    // file's unambiguous amounts are. Without any, it stays unparsed.
+    const separator = detectDecimalSeparator(
+      body.flatMap((row) => [row[layout.debit] ?? "", row[layout.credit] ?? ""])
+    );
+
+    body.forEach((row) => {
+      const cell = (index: number) =>
+        index === -1 ? "" : (row[index] ?? "").trim();
+      const code = cell(layout.code);
+      const account = cell(layout.name) || code;
+      if (!account || /^total\b/i.test(account)) return;
+
+      // Cells without digits ("", "-") are empty; a row needs an amount.
+      const amountCell = (index: number) =>
+        /\d/.test(cell(index)) ? cell(index) : "";
+      const debitText = amountCell(layout.debit);
+      const creditText = amountCell(layout.credit);
+      if (!debitText && !creditText) return;
+
+      const debit = debitText ? toAmount(debitText, separator) : "0";
+      const credit = creditText ? toAmount(creditText, separator) : "0";
+      // "12.500" could be 12.5 or 12500, and would pass validation as the
+      // former if kept as written, so an amount that cannot be read is
+      // left out and its text recorded instead.
+      const unread =
+        debit === undefined
+          ? debitText
+          : credit === undefined
+            ? creditText
+            : undefined;
+
+      records.push(
+        lineItem({
+          path: [cell(layout.type) || "Trial Balance"],
+          account,
+          accountId: code,
+          // Credit balances are positive, so income counts as revenue.
+          amount:
+            debit === undefined || credit === undefined
+              ? undefined
+              : subtractAmounts(credit, debit),
+          exportedAmount: unread,
+          period,
+        })
+      );
+    });
+
+    return { title: titleRows[0], records };
+  },
+};
@@ -0,0 +1,49 @@
+/** What an uploaded file holds once read: parsed JSON or rows of cells. */
+export type ImportSource =
+  { kind: "json"; payload: unknown } | { kind: "table"; rows: string[][] };
+
+/**
+ * One line item of a flattened report. Every importer produces this shape,
+ * so one field mapping preset fits them all.
+ */
+export type ImportedRecord = {
+  /** The top-level section, e.g. "Income". */
+  section: string;
+  /** The section directly above the line item, when it is nested. */
+  group: string | null;
+  account: string;
+  /**
+   * Exact decimal string; income positive, expenses negative. Null when
+   * the importer could not read the amount, so validation reports it;
+   * the text is kept in `metadata.exportedAmount`.
+   */
+  amount: string | null;
+  currency: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  metadata: {
+    /** How many sections enclose the line item. */
+    depth: number;
+    /** Section titles from the top of the report down. */
+    path: string[];
+    /** The account's id or code in the accounting system. */
+    accountId?: string;
+    /** The amount as exported, when the importer could not read it. */
+    exportedAmount?: string;
+  };
+};
+
+export interface ImportResult {
+  /** The report's own title, offered as the new source's name. */
+  title?: string;
+  records: ImportedRecord[];
+}
+
+/** A parser for one accounting export format. */
+export interface AccountingImporter {
+  id: string;
+  /** Shown when a file is recognized, and written as each row's source. */
+  label: string;
+  detect: (source: ImportSource) => boolean;
+  parse: (source: ImportSource) => ImportResult;
+}
@@ -0,0 +1,58 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+
+import { xeroImporter } from "./xero";
+
+const payload = JSON.parse(
+  fs.readFileSync(
+    path.join(
+      path.dirname(fileURLToPath(import.meta.url)),
+      "__fixtures__/xero-pnl.json"
+    ),
+    "utf8"
+  )
+);
+const source = { kind: "json" as const, payload };
+
+describe("xeroImporter", () => {
+  it("recognizes a report wrapped in Reports or on its own", () => {
+    expect(xeroImporter.detect(source)).toBe(true);
+    expect(
+      xeroImporter.detect({ kind: "json", payload: payload.Reports[0] })
+    ).toBe(true);
+    expect(xeroImporter.detect({ kind: "table", rows: [] })).toBe(false);
+  });
+
+  it("reads every period column and negates Less sections", () => {
+    const { title, records } = xeroImporter.parse(source);
+
+    expect(title).toBe("Profit and Loss");
+    expect(
+      records.map((record) => [
+        record.section,
+        record.account,
+        record.amount,
+        record.periodStart,
+        record.periodEnd,
+      ])
+    ).toEqual([
+      ["Income", "Sales", "5000.00", "2024-01-01", "2024-03-31"],
+      ["Income", "Sales", "4200.10", null, "2023-12-31"],
+      [
+        "Less Operating Expenses",
+        "Rent",
+        "-1200.00",
+        "2024-01-01",
+        "2024-03-31",
+      ],
+      ["Less Operating Expenses", "Rent", "0.00", null, "2023-12-31"],
+    ]);
+    expect(records[0].metadata).toEqual({
+      depth: 1,
+      path: ["Income"],
+      accountId: "a1",
+    });
+  });
+});
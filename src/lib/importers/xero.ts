@@ -0,0 +1,107 @@
+import type { AccountingImporter, ImportedRecord } from "./types";
+import {
+  isObject,
+  lineItem,
+  toAmount,
+  negateAmount,
+  periodFromTitle,
+  findReportDates,
+  type ReportPeriod,
+} from "./records";
+
+// The report JSON of the Xero Accounting API, e.g. GET
+// /Reports/ProfitAndLoss: `{ Reports: [report] }`, or the report itself.
+
+interface XeroCell {
+  Value?: string;
+  Attributes?: { Id?: string; Value?: string }[];
+}
+
+interface XeroRow {
+  RowType?: string;
+  Title?: string;
+  Cells?: XeroCell[];
+  Rows?: XeroRow[];
+}
+
+interface XeroReport {
+  ReportName?: string;
+  ReportTitles?: string[];
+  Rows: XeroRow[];
+}
+
+const reportOf = (payload: unknown): XeroReport | undefined => {
+  const report =
+    isObject(payload) && Array.isArray(payload.Reports)
+      ? payload.Reports[0]
+      : payload;
+  return isObject(report) &&
+    Array.isArray(report.Rows) &&
+    report.Rows.some((row) => isObject(row) && typeof row.RowType === "string")
+    ? (report as unknown as XeroReport)
+    : undefined;
+};
+
+/**
+ * The period of each amount column. The first is the one the report title
+ * names; columns added for comparison are known only by their end date.
+ */
+const columnPeriods = (report: XeroReport): ReportPeriod[] => {
+  const titlePeriod = periodFromTitle((report.ReportTitles ?? []).join(" "));
+  const header = report.Rows.find((row) => row.RowType === "Header");
+  const labels = (header?.Cells ?? []).slice(1);
+  if (labels.length <= 1) return [titlePeriod];
+
+  return labels.map((cell, index) =>
+    index === 0 ? titlePeriod : { end: findReportDates(cell.Value ?? "")[0] }
+  );
+};
+
+export const xeroImporter: AccountingImporter = {
+  id: "xero",
+  label: "Xero",
+  detect: (source) =>
+    source.kind === "json" && reportOf(source.payload) !== undefined,
+  parse: (source) => {
+    const report =
+      source.kind === "json" ? reportOf(source.payload) : undefined;
+    if (!report) return { records: [] };
+
+    const periods = columnPeriods(report);
+    const records: ImportedRecord[] = [];
+
+    report.Rows.forEach((section) => {
+      const title = section.Title?.trim();
+      // Untitled sections hold computed lines such as Gross Profit.
+      if (section.RowType !== "Section" || !title) return;
+      // "Less Cost of Sales" and "Less Operating Expenses" reduce profit.
+      const negate = /^less\b/i.test(title);
+
+      (section.Rows ?? []).forEach((row) => {
+        if (row.RowType !== "Row") return;
+        const [label, ...values] = row.Cells ?? [];
+        const account = label?.Value?.trim();
+        if (!account) return;
+        const accountId = label.Attributes?.find(
+          (attribute) => attribute.Id === "account"
+        )?.Value;
+
+        values.forEach((cell, index) => {
+          const amount = toAmount(cell.Value, ".");
+          if (amount === undefined || !periods[index]) return;
+          records.push(
+            lineItem({
+              path: [title],
+              account,
+              accountId,
+              amount: negate ? negateAmount(amount) : amount,
+              period: periods[index],
+            })
+          );
+        });
+      });
+    });
+
+    return { title: report.ReportName, records };
+  },
+};
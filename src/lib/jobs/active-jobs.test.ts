@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { type ETLJob, fetchCompanyJobs } from "@/lib/api";
+
+import {
+  getActiveJobs,
+  markJobActive,
+  markJobFinished,
+  isCompanySyncing,
+  verifyActiveJobs,
+  subscribeActiveJobs,
+} from "./active-jobs";
+
+vi.mock("@/lib/api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/api")>()),
+  fetchCompanyJobs: vi.fn(),
+}));
+
+const STORAGE_KEY = "kudwa.activeJobs";
+
+describe("active jobs", () => {
+  let items: Map<string, string>;
+
+  beforeEach(() => {
+    items = new Map();
+    vi.mocked(fetchCompanyJobs).mockReset();
+    vi.stubGlobal("window", new EventTarget());
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("records each job once until it finishes", () => {
+    markJobActive({ jobId: "a", companyId: "1" });
+    markJobActive({ jobId: "a", companyId: "1" });
+    markJobActive({ jobId: "b", companyId: "1", sourceId: "3" });
+    expect(getActiveJobs().map((job) => job.jobId)).toEqual(["a", "b"]);
+
+    markJobFinished("a");
+    expect(getActiveJobs()).toMatchObject([{ jobId: "b", sourceId: "3" }]);
+  });
+
+  it("keeps going when storage cannot be written", () => {
+    vi.stubGlobal("localStorage", {
+      getItem: () => null,
+      setItem: () => {
+        throw new DOMException("Quota exceeded", "QuotaExceededError");
+      },
+    });
+
+    expect(() => markJobActive({ jobId: "a", companyId: "1" })).not.toThrow();
+    expect(getActiveJobs()).toEqual([]);
+  });
+
+  it("forgets jobs no tab saw finish within a day", () => {
+    vi.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") });
+    markJobActive({ jobId: "a", companyId: "1" });
+
+    vi.setSystemTime(new Date("2024-01-02T00:00:01Z"));
+    expect(getActiveJobs()).toEqual([]);
+  });
+
+  it("notifies on this tab's writes and other tabs' storage events", () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeActiveJobs(listener);
+
+    markJobActive({ jobId: "a", companyId: "1" });
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // Another tab wrote the list; only its key counts.
+    items.set(STORAGE_KEY, JSON.stringify([]));
+    window.dispatchEvent(
+      Object.assign(new Event("storage"), { key: STORAGE_KEY })
+    );
+    window.dispatchEvent(
+      Object.assign(new Event("storage"), { key: "kudwa.locale" })
+    );
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    markJobActive({ jobId: "b", companyId: "1" });
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops the jobs the server does not report as running", async () => {
+    vi.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") });
+    markJobActive({ jobId: "running", companyId: "1" });
+    markJobActive({ jobId: "finished", companyId: "1" });
+    markJobActive({ jobId: "deleted", companyId: "1" });
+    markJobActive({ jobId: "other", companyId: "2" });
+    vi.mocked(fetchCompanyJobs).mockResolvedValue([
+      { id: "running", status: "processing" },
+      { id: "finished", status: "completed" },
+    ] as ETLJob[]);
+    vi.setSystemTime(new Date("2024-01-01T00:01:00Z"));
+
+    const left = await verifyActiveJobs("1");
+
+    expect(left.map((job) => job.jobId)).toEqual(["running"]);
+    expect(getActiveJobs().map((job) => job.jobId)).toEqual([
+      "running",
+      "other",
+    ]);
+  });
+
+  it("keeps jobs recorded while the check was running", async () => {
+    vi.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") });
+    vi.mocked(fetchCompanyJobs).mockImplementation(async () => {
+      vi.setSystemTime(new Date("2024-01-01T00:00:05Z"));
+      markJobActive({ jobId: "new", companyId: "1" });
+      return [];
+    });
+
+    await verifyActiveJobs("1");
+
+    expect(getActiveJobs().map((job) => job.jobId)).toEqual(["new"]);
+  });
+
+  it("asks the server about every company", async () => {
+    vi.mocked(fetchCompanyJobs).mockResolvedValue([]);
+    expect(await isCompanySyncing("1")).toBe(false);
+    expect(fetchCompanyJobs).toHaveBeenCalledWith("1");
+
+    vi.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") });
+    markJobActive({ jobId: "stale", companyId: "1" });
+    markJobActive({ jobId: "live", companyId: "2" });
+    vi.mocked(fetchCompanyJobs).mockImplementation(async (companyId) =>
+      companyId === "2" ? ([{ id: "live", status: "running" }] as ETLJob[]) : []
+    );
+    vi.setSystemTime(new Date("2024-01-01T00:01:00Z"));
+
+    // A stale entry does not count as a running sync.
+    expect(await isCompanySyncing("1")).toBe(false);
+    expect(await isCompanySyncing("2")).toBe(true);
+  });
+
+  it("sees a run no tab of this browser recorded", async () => {
+    vi.mocked(fetchCompanyJobs).mockResolvedValue([
+      { id: "scheduled", status: "processing" },
+      { id: "earlier", status: "completed" },
+    ] as ETLJob[]);
+
+    expect(await isCompanySyncing("1")).toBe(true);
+    expect(getActiveJobs()).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+import { type ETLJob, fetchCompanyJobs, isTerminalJobStatus } from "@/lib/api";
+
+const ACTIVE_JOBS_STORAGE_KEY = "kudwa.activeJobs";
+/** Entries for jobs no tab saw finish are forgotten after a day. */
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** A job some tab started or saw running, kept so tracking survives reloads. */
+export interface ActiveJob {
+  jobId: string;
+  companyId: string;
+  sourceId?: string;
+  /** Epoch ms the job was first recorded. */
+  since: number;
+}
+
+// `storage` events only reach other tabs, so this tab's own writes are
+// announced to its listeners directly.
+const listeners = new Set<() => void>();
+
+const loadActiveJobs = (): ActiveJob[] => {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(ACTIVE_JOBS_STORAGE_KEY) || "[]"
+    );
+    return Array.isArray(stored)
+      ? stored.filter((job) => Date.now() - job.since < MAX_AGE_MS)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * When storage is full or disabled the list is not kept: the job itself
+ * runs on, and only resuming it after a reload is lost.
+ */
+const saveActiveJobs = (jobs: ActiveJob[]) => {
+  try {
+    localStorage.setItem(ACTIVE_JOBS_STORAGE_KEY, JSON.stringify(jobs));
+  } catch {
+    return;
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const getActiveJobs = (): ActiveJob[] => loadActiveJobs();
+
+export const markJobActive = (job: Omit<ActiveJob, "since">) => {
+  const jobs = loadActiveJobs();
+  if (jobs.some((active) => active.jobId === job.jobId)) return;
+  saveActiveJobs([...jobs, { ...job, since: Date.now() }]);
+};
+
+export const markJobFinished = (jobId: string) => {
+  const jobs = loadActiveJobs();
+  if (!jobs.some((active) => active.jobId === jobId)) return;
+  saveActiveJobs(jobs.filter((active) => active.jobId !== jobId));
+};
+
+/** Keeps the stored list in step with a snapshot of `job`. */
+export const recordJobStatus = (job: ETLJob) => {
+  if (isTerminalJobStatus(job.status)) {
+    markJobFinished(job.id);
+  } else {
+    markJobActive({
+      jobId: job.id,
+      companyId: job.companyId,
+      sourceId: job.sourceId,
+    });
+  }
+};
+
+// Fetches `companyId`'s job history and drops its stored jobs the server
+// does not report as running; jobs recorded after the fetch started stay.
+const checkCompanyJobs = async (companyId: string) => {
+  const checkedAt = Date.now();
+  const running = (await fetchCompanyJobs(companyId)).filter(
+    (job) => !isTerminalJobStatus(job.status)
+  );
+  const runningIds = new Set(running.map((job) => job.id));
+
+  const jobs = loadActiveJobs();
+  const kept = jobs.filter(
+    (job) =>
+      job.companyId !== companyId ||
+      job.since >= checkedAt ||
+      runningIds.has(job.jobId)
+  );
+  if (kept.length !== jobs.length) saveActiveJobs(kept);
+  return {
+    running,
+    stored: kept.filter((job) => job.companyId === companyId),
+  };
+};
+
+/**
+ * Checks `companyId`'s stored jobs against its job history and drops those
+ * the server does not report as running, e.g. a job that ended while no
+ * tab followed it or that no longer exists. Jobs recorded after the check
+ * started are kept. Resolves to the company's jobs that are left.
+ */
+export const verifyActiveJobs = async (
+  companyId: string
+): Promise<ActiveJob[]> => (await checkCompanyJobs(companyId)).stored;
+
+/**
+ * Whether a job of `companyId` is running. The server is always asked, so
+ * runs started by a schedule, another browser or another user count; a
+ * stored entry only counts once the server confirms it or when it was
+ * recorded while the server answered.
+ */
+export const isCompanySyncing = async (companyId: string) => {
+  const { running, stored } = await checkCompanyJobs(companyId);
+  return running.length > 0 || stored.length > 0;
+};
+
+/** Calls `listener` whenever any tab changes the stored list. */
+export const subscribeActiveJobs = (listener: () => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === ACTIVE_JOBS_STORAGE_KEY || event.key === null) {
+      listener();
+    }
+  };
+
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+
+import type { ETLJob } from "@/lib/api";
+
+import {
+  type BulkSyncItem,
+  nextBulkItems,
+  claimBulkItems,
+  createBulkQueue,
+  clampConcurrency,
+  summarizeBulkSync,
+  applyJobToBulkItem,
+} from "./bulk-sync";
+
+const queue = (...statuses: BulkSyncItem["status"][]) =>
+  createBulkQueue(
+    statuses.map((_, i) => ({ id: String(i + 1), name: `Company ${i + 1}` }))
+  ).map((item, i) => ({ ...item, status: statuses[i] }));
+
+const ids = (items: BulkSyncItem[]) => items.map((item) => item.companyId);
+
+describe("nextBulkItems", () => {
+  it("fills the slots the active entries leave free", () => {
+    const items = queue("running", "starting", "pending", "pending", "pending");
+
+    expect(ids(nextBulkItems(items, 3))).toEqual(["3"]);
+    expect(ids(nextBulkItems(items, 2))).toEqual([]);
+    expect(ids(nextBulkItems(items, 10))).toEqual(["3", "4", "5"]);
+  });
+});
+
+describe("claimBulkItems", () => {
+  it("starts each company once while its entry is still pending", () => {
+    const items = queue("pending", "pending", "pending");
+    const started = new Set<string>();
+
+    expect(ids(claimBulkItems(items, 2, started))).toEqual(["1", "2"]);
+    // Re-evaluated before the claimed entries left `pending`.
+    expect(ids(claimBulkItems(items, 2, started))).toEqual([]);
+    expect(started).toEqual(new Set(["1", "2"]));
+  });
+
+  it("claims the next company once a slot frees up", () => {
+    const started = new Set(["1", "2"]);
+
+    expect(
+      ids(claimBulkItems(queue("completed", "running", "pending"), 2, started))
+    ).toEqual(["3"]);
+  });
+});
+
+describe("applyJobToBulkItem", () => {
+  it("follows the job's status, progress and message", () => {
+    const [item] = queue("running");
+    const job = (status: string, progress: number) =>
+      ({ id: "job-1", status, progress, message: status }) as ETLJob;
+
+    expect(applyJobToBulkItem(item, job("processing", 40))).toMatchObject({
+      status: "running",
+      progress: 40,
+      jobId: "job-1",
+      message: "processing",
+    });
+    expect(applyJobToBulkItem(item, job("completed", 90))).toMatchObject({
+      status: "completed",
+      progress: 100,
+    });
+  });
+});
+
+describe("summarizeBulkSync", () => {
+  it("counts skipped entries as cancelled and finished", () => {
+    const summary = summarizeBulkSync([
+      ...queue("completed", "failed", "skipped"),
+      { ...queue("running")[0], progress: 50 },
+    ]);
+
+    expect(summary).toMatchObject({
+      total: 4,
+      completed: 1,
+      failed: 1,
+      cancelled: 1,
+      running: 1,
+      progress: 88,
+      isFinished: false,
+    });
+    expect(summarizeBulkSync(queue("completed", "skipped")).isFinished).toBe(
+      true
+    );
+  });
+});
+
+describe("clampConcurrency", () => {
+  it("keeps the concurrency between one and the maximum", () => {
+    expect(clampConcurrency(0)).toBe(1);
+    expect(clampConcurrency(2.6)).toBe(3);
+    expect(clampConcurrency(50)).toBe(10);
+    expect(clampConcurrency(NaN)).toBe(3);
+  });
+});
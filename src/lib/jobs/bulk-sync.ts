@@ -0,0 +1,135 @@
+import type { ETLJob } from "@/lib/api";
+import type { MessageDescriptor } from "@/lib/i18n";
+
+import { jobStatusGroup } from "./history";
+
+export const DEFAULT_BULK_CONCURRENCY = 3;
+export const MAX_BULK_CONCURRENCY = 10;
+
+/**
+ * `starting` covers checking that the company is not already syncing and
+ * the request that creates the job; `skipped` entries were still waiting
+ * when the queue was stopped, or their company was already syncing.
+ */
+export type BulkSyncStatus =
+  | "pending"
+  | "starting"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled"
+  | "skipped";
+
+/** One company's place in a bulk sync queue. */
+export interface BulkSyncItem {
+  companyId: string;
+  companyName: string;
+  status: BulkSyncStatus;
+  jobId?: string;
+  progress: number;
+  /** Why the entry was skipped or failed, or the job's own text. */
+  message?: MessageDescriptor | string;
+}
+
+export interface BulkSyncSummary {
+  total: number;
+  /** Waiting for a free slot. */
+  pending: number;
+  /** Starting or running. */
+  running: number;
+  completed: number;
+  failed: number;
+  /** Cancelled jobs and skipped entries. */
+  cancelled: number;
+  /** Average progress over every entry, 0-100. */
+  progress: number;
+  /** Nothing is waiting or running. */
+  isFinished: boolean;
+}
+
+const ACTIVE_STATUSES: BulkSyncStatus[] = ["starting", "running"];
+
+export const isBulkItemActive = (item: BulkSyncItem) =>
+  ACTIVE_STATUSES.includes(item.status);
+
+export const isBulkItemDone = (item: BulkSyncItem) =>
+  item.status !== "pending" && !isBulkItemActive(item);
+
+export const clampConcurrency = (value: number) =>
+  Number.isFinite(value)
+    ? Math.min(MAX_BULK_CONCURRENCY, Math.max(1, Math.round(value)))
+    : DEFAULT_BULK_CONCURRENCY;
+
+export const createBulkQueue = (
+  companies: { id: string; name: string }[]
+): BulkSyncItem[] =>
+  companies.map((company) => ({
+    companyId: company.id,
+    companyName: company.name,
+    status: "pending",
+    progress: 0,
+  }));
+
+/** Pending entries that fit in the slots `concurrency` leaves free. */
+export const nextBulkItems = (
+  items: BulkSyncItem[],
+  concurrency: number
+): BulkSyncItem[] => {
+  const free = concurrency - items.filter(isBulkItemActive).length;
+  return free > 0
+    ? items.filter((item) => item.status === "pending").slice(0, free)
+    : [];
+};
+
+/**
+ * `nextBulkItems` without the companies in `started`, which it then adds
+ * them to: a queue re-evaluated before an entry leaves `pending` must not
+ * start that company twice.
+ */
+export const claimBulkItems = (
+  items: BulkSyncItem[],
+  concurrency: number,
+  started: Set<string>
+): BulkSyncItem[] => {
+  const claimed = nextBulkItems(items, concurrency).filter(
+    (item) => !started.has(item.companyId)
+  );
+  claimed.forEach((item) => started.add(item.companyId));
+  return claimed;
+};
+
+/** The entry for `job`'s company updated from a snapshot of the job. */
+export const applyJobToBulkItem = (
+  item: BulkSyncItem,
+  job: ETLJob
+): BulkSyncItem => {
+  const group = jobStatusGroup(job.status);
+  return {
+    ...item,
+    jobId: job.id,
+    status: group,
+    progress: group === "completed" ? 100 : job.progress,
+    message: job.message,
+  };
+};
+
+export const summarizeBulkSync = (items: BulkSyncItem[]): BulkSyncSummary => {
+  const count = (...statuses: BulkSyncStatus[]) =>
+    items.filter((item) => statuses.includes(item.status)).length;
+  // Entries that ended early still count as fully processed.
+  const progressTotal = items.reduce(
+    (total, item) => total + (isBulkItemDone(item) ? 100 : item.progress),
+    0
+  );
+
+  return {
+    total: items.length,
+    pending: count("pending"),
+    running: count(...ACTIVE_STATUSES),
+    completed: count("completed"),
+    failed: count("failed"),
+    cancelled: count("cancelled", "skipped"),
+    progress: items.length > 0 ? Math.round(progressTotal / items.length) : 0,
+    isFinished: items.every(isBulkItemDone),
+  };
+};
@@ -0,0 +1,118 @@
+import type { Translate } from "@/lib/i18n";
+import { type ETLJob, isTerminalJobStatus } from "@/lib/api";
+
+export type JobStatusGroup = "running" | "completed" | "failed" | "cancelled";
+
+export type JobStatusFilter = JobStatusGroup | "all";
+
+export interface JobHistoryFilters {
+  status: JobStatusFilter;
+  /** Inclusive start day, YYYY-MM-DD in local time (as `<input type="date">` gives it). */
+  from?: string;
+  /** Inclusive end day, YYYY-MM-DD in local time. */
+  to?: string;
+}
+
+export interface JobHistorySummary {
+  /** Newest completed run, if any. */
+  lastSuccess?: ETLJob;
+  /** Failed runs started after `lastSuccess` (all failures when there is none). */
+  failedSince: ETLJob[];
+}
+
+/** Pending, processing and cancelling runs all count as running. */
+export const jobStatusGroup = (status: string): JobStatusGroup => {
+  switch (status.toLowerCase()) {
+    case "completed":
+      return "completed";
+    case "failed":
+      return "failed";
+    case "cancelled":
+      return "cancelled";
+    default:
+      return "running";
+  }
+};
+
+/**
+ * Wall-clock time between a job's creation and its last update. Runs that
+ * are still going are measured up to `now`. Null when a timestamp is invalid.
+ */
+export const jobDurationMs = (
+  job: ETLJob,
+  now: number = Date.now()
+): number | null => {
+  const start = new Date(job.createdAt).getTime();
+  const end = isTerminalJobStatus(job.status)
+    ? new Date(job.updatedAt).getTime()
+    : now;
+
+  if (Number.isNaN(start) || Number.isNaN(end)) return null;
+  return Math.max(0, end - start);
+};
+
+/** Runs at least this long raise a system notification when they end. */
+export const LONG_RUNNING_JOB_MS = 10 * 1000;
+
+export const isLongRunningJob = (job: ETLJob): boolean =>
+  (jobDurationMs(job) ?? 0) >= LONG_RUNNING_JOB_MS;
+
+/** Splits a duration into whole hours, minutes and seconds. */
+export const splitDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  return {
+    hours: Math.floor(totalSeconds / 3600),
+    minutes: Math.floor((totalSeconds % 3600) / 60),
+    seconds: totalSeconds % 60,
+  };
+};
+
+/** Compact duration such as "1m 05s", or a dash when unknown. */
+export const formatDuration = (ms: number | null, t: Translate): string => {
+  if (ms === null) return "—";
+
+  const { hours, minutes, seconds } = splitDuration(ms);
+  if (hours > 0) return t("history.durationHours", { hours, minutes });
+  if (minutes > 0) return t("history.durationMinutes", { minutes, seconds });
+  return t("history.durationSeconds", { seconds });
+};
+
+export const sortNewestFirst = (jobs: ETLJob[]): ETLJob[] =>
+  [...jobs].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`).getTime();
+
+const endOfDay = (day: string) => new Date(`${day}T23:59:59.999`).getTime();
+
+export const filterJobs = (
+  jobs: ETLJob[],
+  { status, from, to }: JobHistoryFilters
+): ETLJob[] => {
+  const fromTime = from ? startOfDay(from) : -Infinity;
+  const toTime = to ? endOfDay(to) : Infinity;
+
+  return jobs.filter((job) => {
+    if (status !== "all" && jobStatusGroup(job.status) !== status) {
+      return false;
+    }
+    const createdAt = new Date(job.createdAt).getTime();
+    return createdAt >= fromTime && createdAt <= toTime;
+  });
+};
+
+/** Answers "when did the last good sync happen and what failed since". */
+export const summarizeJobHistory = (jobs: ETLJob[]): JobHistorySummary => {
+  const byNewest = sortNewestFirst(jobs);
+  const successIndex = byNewest.findIndex(
+    (job) => jobStatusGroup(job.status) === "completed"
+  );
+  const since =
+    successIndex === -1 ? byNewest : byNewest.slice(0, successIndex);
+
+  return {
+    lastSuccess: successIndex === -1 ? undefined : byNewest[successIndex],
+    failedSince: since.filter((job) => jobStatusGroup(job.status) === "failed"),
+  };
+};
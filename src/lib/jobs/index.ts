@@ -0,0 +1,7 @@
+export * from "./history";
+export * from "./sources";
+export * from "./pipeline";
+export * from "./logs";
+export * from "./active-jobs";
+export * from "./job-tracker";
+export * from "./bulk-sync";
@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { type ETLJob, subscribeToJob, type JobSubscription } from "@/lib/api";
+
+import { trackJob } from "./job-tracker";
+import { getActiveJobs } from "./active-jobs";
+
+// Each `trackJob` call stands in for one tab. Node's BroadcastChannel
+// relays between channels of one process like it does between tabs; Web
+// Locks and localStorage are faked below.
+
+const { streams } = vi.hoisted(() => ({
+  streams: [] as { jobId: string; handlers: JobSubscription; open: boolean }[],
+}));
+
+vi.mock("@/lib/api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/api")>()),
+  subscribeToJob: vi.fn((jobId: string, handlers: JobSubscription) => {
+    const stream = { jobId, handlers, open: true };
+    streams.push(stream);
+    return () => {
+      stream.open = false;
+    };
+  }),
+}));
+
+/** Grants each named lock to one holder at a time, in request order. */
+const createLocks = () => {
+  const held = new Set<string>();
+  const waiting = new Map<string, (() => void)[]>();
+
+  const release = (name: string) => {
+    held.delete(name);
+    waiting.get(name)?.shift()?.();
+  };
+
+  return {
+    request: (
+      name: string,
+      { signal }: { signal?: AbortSignal },
+      callback: () => Promise<void>
+    ) =>
+      new Promise<void>((resolve, reject) => {
+        const grant = () => {
+          held.add(name);
+          queueMicrotask(() =>
+            callback()
+              .then(resolve, reject)
+              .finally(() => release(name))
+          );
+        };
+        if (!held.has(name)) return grant();
+
+        const queue = waiting.get(name) ?? [];
+        waiting.set(name, [...queue, grant]);
+        signal?.addEventListener("abort", () => {
+          waiting.set(
+            name,
+            waiting.get(name)!.filter((next) => next !== grant)
+          );
+          reject(new DOMException("Aborted", "AbortError"));
+        });
+      }),
+  };
+};
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+  };
+};
+
+const job = (status: string): ETLJob => ({
+  id: "job-1",
+  status,
+  message: status,
+  progress: status === "completed" ? 100 : 40,
+  stages: [],
+  companyId: "1",
+  createdAt: "2024-01-01T00:00:00Z",
+  updatedAt: "2024-01-01T00:00:00Z",
+});
+
+const tab = () => ({
+  onUpdate: vi.fn(),
+  onUnavailable: vi.fn(),
+  onTransportChange: vi.fn(),
+});
+
+const openStreams = () => streams.filter((stream) => stream.open);
+
+describe("trackJob", () => {
+  const stops: (() => void)[] = [];
+  const track = (handlers: ReturnType<typeof tab>) => {
+    const stop = trackJob("job-1", handlers);
+    stops.push(stop);
+    return stop;
+  };
+
+  beforeEach(() => {
+    streams.length = 0;
+    vi.mocked(subscribeToJob).mockClear();
+    vi.stubGlobal("navigator", { locks: createLocks() });
+    vi.stubGlobal("localStorage", createStorage());
+  });
+
+  afterEach(() => {
+    stops.splice(0).forEach((stop) => stop());
+    vi.unstubAllGlobals();
+  });
+
+  it("streams once, from the tab holding the lock", async () => {
+    const first = tab();
+    const second = tab();
+    track(first);
+    track(second);
+
+    await vi.waitFor(() => expect(openStreams()).toHaveLength(1));
+    expect(subscribeToJob).toHaveBeenCalledTimes(1);
+    expect(second.onTransportChange).toHaveBeenLastCalledWith("other-tab");
+  });
+
+  it("relays the leader's updates to the other tabs", async () => {
+    const first = tab();
+    const second = tab();
+    track(first);
+    track(second);
+    await vi.waitFor(() => expect(openStreams()).toHaveLength(1));
+
+    openStreams()[0].handlers.onUpdate(job("running"));
+
+    await vi.waitFor(() =>
+      expect(second.onUpdate).toHaveBeenCalledWith(job("running"))
+    );
+    expect(first.onUpdate).toHaveBeenCalledTimes(1);
+    expect(getActiveJobs()).toMatchObject([{ jobId: "job-1", companyId: "1" }]);
+  });
+
+  it("answers a tab that joins late with the latest snapshot", async () => {
+    track(tab());
+    await vi.waitFor(() => expect(openStreams()).toHaveLength(1));
+    openStreams()[0].handlers.onUpdate(job("running"));
+
+    const late = tab();
+    track(late);
+
+    await vi.waitFor(() =>
+      expect(late.onUpdate).toHaveBeenCalledWith(job("running"))
+    );
+    expect(subscribeToJob).toHaveBeenCalledTimes(1);
+  });
+
+  it("hands the stream to another tab when the leader closes", async () => {
+    const stopFirst = track(tab());
+    track(tab());
+    await vi.waitFor(() => expect(openStreams()).toHaveLength(1));
+
+    stopFirst();
+
+    await vi.waitFor(() => expect(subscribeToJob).toHaveBeenCalledTimes(2));
+    expect(openStreams()).toHaveLength(1);
+  });
+
+  it("stops every tab and forgets the job once it finishes", async () => {
+    const first = tab();
+    const second = tab();
+    track(first);
+    track(second);
+    await vi.waitFor(() => expect(openStreams()).toHaveLength(1));
+    const [stream] = openStreams();
+
+    stream.handlers.onUpdate(job("running"));
+    stream.handlers.onUpdate(job("completed"));
+
+    // The second tab takes the lock as the first lets go of it, before the
+    // relayed final update arrives; it must still deliver it and stop.
+    await vi.waitFor(() =>
+      expect(second.onUpdate).toHaveBeenLastCalledWith(job("completed"))
+    );
+    expect(first.onUpdate).toHaveBeenCalledTimes(2);
+    expect(openStreams()).toEqual([]);
+    expect(getActiveJobs()).toEqual([]);
+  });
+
+  it("stops every tab and forgets the job once the server loses it", async () => {
+    const first = tab();
+    const second = tab();
+    track(first);
+    track(second);
+    await vi.waitFor(() => expect(openStreams()).toHaveLength(1));
+    const [stream] = openStreams();
+    stream.handlers.onUpdate(job("running"));
+    await vi.waitFor(() => expect(second.onUpdate).toHaveBeenCalled());
+
+    // The polling fallback got a 404 and stopped.
+    stream.open = false;
+    stream.handlers.onUnavailable?.(new Error("Not found"));
+
+    await vi.waitFor(() => expect(second.onUnavailable).toHaveBeenCalled());
+    expect(first.onUnavailable).toHaveBeenCalledTimes(1);
+    expect(getActiveJobs()).toEqual([]);
+    // Had the second tab taken the lock first, it stopped that stream too.
+    expect(openStreams()).toEqual([]);
+  });
+
+  it("streams in every tab without Web Locks", () => {
+    vi.stubGlobal("navigator", {});
+    const first = tab();
+    track(first);
+    track(tab());
+
+    expect(openStreams()).toHaveLength(2);
+    openStreams()[0].handlers.onUpdate(job("running"));
+    expect(first.onUpdate).toHaveBeenCalledWith(job("running"));
+    expect(getActiveJobs()).toMatchObject([{ jobId: "job-1" }]);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  type ETLJob,
+  subscribeToJob,
+  type JobSubscription,
+  isTerminalJobStatus,
+  type JobEventsTransport,
+} from "@/lib/api";
+
+import { markJobFinished, recordJobStatus } from "./active-jobs";
+
+/** `other-tab` means another tab streams the job and relays its updates. */
+export type JobTrackerTransport = JobEventsTransport | "other-tab";
+
+export interface JobTrackerHandlers extends Omit<
+  JobSubscription,
+  "onTransportChange"
+> {
+  onTransportChange?: (transport: JobTrackerTransport) => void;
+}
+
+type TrackerMessage =
+  | { type: "update"; job: ETLJob }
+  | { type: "snapshot-request"; jobId: string }
+  | { type: "unavailable"; jobId: string };
+
+const CHANNEL_NAME = "kudwa.jobs";
+
+const lockName = (jobId: string) => `kudwa.job.${jobId}`;
+
+const supportsSharing = () =>
+  typeof BroadcastChannel !== "undefined" &&
+  typeof navigator !== "undefined" &&
+  Boolean(navigator.locks);
+
+/**
+ * Follows a job once for all open tabs. Whichever tab holds the job's Web
+ * Lock streams it from the server (see `subscribeToJob`) and relays every
+ * snapshot over a BroadcastChannel; the other tabs only listen, and one of
+ * them takes the lock over if that tab closes. Every snapshot also updates
+ * the stored list of active jobs, and a job the server no longer knows is
+ * dropped from it and stops every tab. Without Web Locks or BroadcastChannel
+ * each tab streams the job itself. Returns a function that stops tracking.
+ */
+export const trackJob = (
+  jobId: string,
+  { onUpdate, onError, onUnavailable, onTransportChange }: JobTrackerHandlers
+): (() => void) => {
+  if (!supportsSharing()) {
+    return subscribeToJob(jobId, {
+      onUpdate: (job) => {
+        recordJobStatus(job);
+        onUpdate(job);
+      },
+      onError,
+      onUnavailable: (error) => {
+        markJobFinished(jobId);
+        onUnavailable?.(error);
+      },
+      onTransportChange,
+    });
+  }
+
+  let closed = false;
+  let isLeader = false;
+  let latest: ETLJob | undefined;
+  let stopStream: (() => void) | undefined;
+  let releaseLock: (() => void) | undefined;
+  const abort = new AbortController();
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    stopStream?.();
+    releaseLock?.();
+    abort.abort();
+    channel.close();
+  };
+
+  const deliver = (job: ETLJob) => {
+    if (closed) return;
+    latest = job;
+    recordJobStatus(job);
+    onUpdate(job);
+    if (isTerminalJobStatus(job.status)) close();
+  };
+
+  const giveUp = (error?: unknown) => {
+    if (closed) return;
+    markJobFinished(jobId);
+    close();
+    onUnavailable?.(error);
+  };
+
+  // A tab never hears its own posts. An update can still reach a new
+  // leader: the old one releases the lock as it relays the final snapshot.
+  channel.onmessage = ({ data }: MessageEvent<TrackerMessage>) => {
+    if (data.type === "update" && data.job.id === jobId) {
+      deliver(data.job);
+    } else if (data.type === "unavailable" && data.jobId === jobId) {
+      giveUp();
+    } else if (
+      data.type === "snapshot-request" &&
+      data.jobId === jobId &&
+      isLeader &&
+      latest
+    ) {
+      channel.postMessage({ type: "update", job: latest });
+    }
+  };
+
+  onTransportChange?.("other-tab");
+  // A tab that is already streaming answers with its latest snapshot.
+  channel.postMessage({ type: "snapshot-request", jobId });
+
+  navigator.locks
+    .request(
+      lockName(jobId),
+      { signal: abort.signal },
+      () =>
+        new Promise<void>((resolve) => {
+          if (closed) return resolve();
+
+          isLeader = true;
+          releaseLock = resolve;
+          stopStream = subscribeToJob(jobId, {
+            onUpdate: (job) => {
+              channel.postMessage({ type: "update", job });
+              deliver(job);
+            },
+            onError,
+            onUnavailable: (error) => {
+              channel.postMessage({ type: "unavailable", jobId });
+              giveUp(error);
+            },
+            onTransportChange,
+          });
+        })
+    )
+    .catch(() => {
+      // Aborted while another tab held the lock; nothing to clean up.
+    });
+
+  return close;
+};
@@ -0,0 +1,63 @@
+import type { JobLogEntry, JobLogLevel } from "@/lib/api";
+
+export const LOG_LEVELS: JobLogLevel[] = ["debug", "info", "warn", "error"];
+
+export interface JobLogFilters {
+  /** Lines below this level are hidden. */
+  minLevel: JobLogLevel;
+  /** Case-insensitive text matched against message, stage, source and row. */
+  search: string;
+}
+
+/** Unknown levels from newer backends rank with `info`. */
+export const logLevelRank = (level: string): number => {
+  const rank = LOG_LEVELS.indexOf(level as JobLogLevel);
+  return rank === -1 ? 1 : rank;
+};
+
+export const filterLogs = (
+  entries: JobLogEntry[],
+  { minLevel, search }: JobLogFilters
+): JobLogEntry[] => {
+  const minRank = logLevelRank(minLevel);
+  const needle = search.trim().toLowerCase();
+
+  return entries.filter((entry) => {
+    if (logLevelRank(entry.level) < minRank) return false;
+    if (!needle) return true;
+    return [entry.message, entry.stage, entry.source, entry.rowId]
+      .filter(Boolean)
+      .some((field) => field!.toLowerCase().includes(needle));
+  });
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+/** Local wall-clock time with milliseconds, e.g. "14:03:07.250". */
+export const formatLogTime = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return timestamp;
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds()
+  )}.${pad(date.getMilliseconds(), 3)}`;
+};
+
+/**
+ * Plain-text rendering for downloads, one line per entry:
+ * `<ISO timestamp> <LEVEL> [stage] [source] message (row <id>)`.
+ */
+export const logsToText = (entries: JobLogEntry[]): string =>
+  entries
+    .map((entry) =>
+      [
+        entry.timestamp,
+        entry.level.toUpperCase().padEnd(5),
+        entry.stage && `[${entry.stage}]`,
+        entry.source && `[${entry.source}]`,
+        entry.message,
+        entry.rowId && `(row ${entry.rowId})`,
+      ]
+        .filter(Boolean)
+        .join(" ")
+    )
+    .join("\n");
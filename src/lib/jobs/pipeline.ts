@@ -0,0 +1,51 @@
+import type { Translate } from "@/lib/i18n";
+import type { PipelineStage, PipelineStageName } from "@/lib/api";
+
+export const PIPELINE_STAGES: PipelineStageName[] = [
+  "extract",
+  "validate",
+  "map",
+  "transform",
+  "load",
+];
+
+/** Job stages outside the pipeline proper, before and after it runs. */
+const JOB_STAGES = [...PIPELINE_STAGES, "queued", "done"] as const;
+
+type JobStageName = (typeof JOB_STAGES)[number];
+
+const isJobStageName = (name: string): name is JobStageName =>
+  (JOB_STAGES as readonly string[]).includes(name);
+
+/** Translated stage name; stages this client does not know show verbatim. */
+export const stageLabel = (name: string, t: Translate): string =>
+  isJobStageName(name) ? t(`pipeline.stage.${name}`) : name;
+
+/** The stage that stopped a failed run, if the backend reported one. */
+export const findFailedStage = (
+  stages: PipelineStage[]
+): PipelineStage | undefined =>
+  stages.find((stage) => stage.status === "failed");
+
+/**
+ * Time spent in a stage. Stages that are still running are measured up to
+ * `now`. Null for stages that never started or have invalid timestamps.
+ */
+export const stageDurationMs = (
+  stage: PipelineStage,
+  now: number = Date.now()
+): number | null => {
+  if (!stage.startedAt) return null;
+
+  const start = new Date(stage.startedAt).getTime();
+  const end = stage.finishedAt ? new Date(stage.finishedAt).getTime() : now;
+
+  if (Number.isNaN(start) || Number.isNaN(end)) return null;
+  return Math.max(0, end - start);
+};
+
+/** Records a stage dropped, such as rows rejected by validation. */
+export const stageRejectedCount = (stage: PipelineStage): number =>
+  stage.recordsIn !== undefined && stage.recordsOut !== undefined
+    ? Math.max(0, stage.recordsIn - stage.recordsOut)
+    : 0;
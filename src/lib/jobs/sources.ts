@@ -0,0 +1,30 @@
+import type { ETLJob } from "@/lib/api";
+
+import { jobStatusGroup, sortNewestFirst } from "./history";
+
+export interface SourceSyncState {
+  /** Newest run that touched the source, whatever its outcome. */
+  latest?: ETLJob;
+  /** Newest completed run that touched the source. */
+  lastSuccess?: ETLJob;
+}
+
+/** Company-wide runs (no `sourceId`) sync every source. */
+export const jobCoversSource = (job: ETLJob, sourceId: string) =>
+  !job.sourceId || job.sourceId === sourceId;
+
+export const getSourceSyncState = (
+  jobs: ETLJob[],
+  sourceId: string
+): SourceSyncState => {
+  const covering = sortNewestFirst(jobs).filter((job) =>
+    jobCoversSource(job, sourceId)
+  );
+
+  return {
+    latest: covering[0],
+    lastSuccess: covering.find(
+      (job) => jobStatusGroup(job.status) === "completed"
+    ),
+  };
+};
@@ -0,0 +1,76 @@
+import { ROWS_KEY, type MappingRule, type UnifiedField } from "./engine";
+import type { MappingTransform } from "./transforms";
+
+/** A rule in the shape the visual builder edits. */
+export interface BuilderRule {
+  path?: string;
+  value?: string;
+  default?: string;
+  transform?: MappingTransform;
+}
+
+const asText = (value: unknown) =>
+  value === undefined || value === null ? undefined : String(value);
+
+/**
+ * The rule for `field` in `mappings`. Rules the builder cannot show, such
+ * as arrays, read as empty; the advanced editor still has them.
+ */
+export const readRule = (
+  mappings: Record<string, unknown>,
+  field: UnifiedField
+): BuilderRule => {
+  const rule = mappings[field];
+  if (typeof rule === "string") return { path: rule };
+  if (!rule || typeof rule !== "object" || Array.isArray(rule)) return {};
+
+  const spec = rule as Exclude<MappingRule, string>;
+  return {
+    path: asText(spec.path),
+    value: asText(spec.value),
+    default: asText(spec.default),
+    transform: spec.transform,
+  };
+};
+
+/**
+ * `mappings` with the rule for `field` replaced. A rule with only a path is
+ * written as a plain string, and an empty rule removes the key, so the JSON
+ * stays as short as a hand-written one.
+ */
+export const writeRule = (
+  mappings: Record<string, unknown>,
+  field: UnifiedField,
+  rule: BuilderRule
+): Record<string, unknown> => {
+  const next = { ...mappings };
+  const spec: Exclude<MappingRule, string> = {};
+  if (rule.path) spec.path = rule.path;
+  if (rule.value) spec.value = rule.value;
+  if (rule.default) spec.default = rule.default;
+  if (rule.transform) spec.transform = rule.transform;
+
+  const keys = Object.keys(spec);
+  if (keys.length === 0) {
+    delete next[field];
+  } else if (keys.length === 1 && spec.path) {
+    next[field] = spec.path;
+  } else {
+    next[field] = spec;
+  }
+  return next;
+};
+
+/** `mappings` with the `$rows` path set, or removed when empty. */
+export const writeRowsPath = (
+  mappings: Record<string, unknown>,
+  path: string
+): Record<string, unknown> => {
+  const next = { ...mappings };
+  if (path) {
+    next[ROWS_KEY] = path;
+  } else {
+    delete next[ROWS_KEY];
+  }
+  return next;
+};
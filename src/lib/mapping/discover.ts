@@ -0,0 +1,109 @@
+import { formatPath, type PathSegment } from "./paths";
+
+export type SourceFieldType =
+  "string" | "number" | "boolean" | "object" | "array" | "null";
+
+/** A field found in sample records, for offering as a mapping source. */
+export interface SourceField {
+  path: string;
+  type: SourceFieldType;
+  /** The first value seen, for showing next to the path. */
+  example: unknown;
+  /** Records the field appeared in. */
+  count: number;
+}
+
+// Deeply nested exports (QuickBooks reports) would otherwise list every
+// column of every row.
+const MAX_DEPTH = 6;
+const MAX_ARRAY_ITEMS = 3;
+
+const typeOf = (value: unknown): SourceFieldType =>
+  value === null
+    ? "null"
+    : Array.isArray(value)
+      ? "array"
+      : typeof value === "object"
+        ? "object"
+        : typeof value === "number"
+          ? "number"
+          : typeof value === "boolean"
+            ? "boolean"
+            : "string";
+
+/**
+ * Every path in `records`, leaves and objects alike, so an object such as
+ * `meta` can be mapped to `metadata` whole. Only the first few items of
+ * nested arrays are walked.
+ */
+export const discoverSourceFields = (records: unknown[]): SourceField[] => {
+  const fields = new Map<string, SourceField>();
+
+  const visit = (
+    value: unknown,
+    segments: PathSegment[],
+    seen: Set<string>
+  ) => {
+    if (segments.length > 0) {
+      const path = formatPath(segments);
+      const field = fields.get(path);
+      if (!field) {
+        fields.set(path, {
+          path,
+          type: typeOf(value),
+          example: value,
+          count: 1,
+        });
+      } else if (!seen.has(path)) {
+        field.count++;
+      }
+      seen.add(path);
+    }
+    if (segments.length >= MAX_DEPTH || value === null) return;
+
+    if (Array.isArray(value)) {
+      value
+        .slice(0, MAX_ARRAY_ITEMS)
+        .forEach((item, i) => visit(item, [...segments, i], seen));
+    } else if (typeof value === "object") {
+      Object.entries(value).forEach(([key, item]) =>
+        visit(item, [...segments, key], seen)
+      );
+    }
+  };
+
+  records.forEach((record) => visit(record, [], new Set()));
+  return Array.from(fields.values());
+};
+
+/**
+ * Paths in `payload` that hold an array of objects, for choosing `$rows`.
+ * The payload itself is not listed since it needs no `$rows`.
+ */
+export const discoverRecordArrays = (payload: unknown): string[] => {
+  const paths: string[] = [];
+
+  const visit = (value: unknown, segments: PathSegment[]) => {
+    if (value === null || typeof value !== "object") return;
+    if (segments.length >= MAX_DEPTH) return;
+
+    if (Array.isArray(value)) {
+      if (
+        segments.length > 0 &&
+        value.some((item) => item !== null && typeof item === "object")
+      ) {
+        paths.push(formatPath(segments));
+      }
+      value
+        .slice(0, MAX_ARRAY_ITEMS)
+        .forEach((item, i) => visit(item, [...segments, i]));
+      return;
+    }
+    Object.entries(value).forEach(([key, item]) =>
+      visit(item, [...segments, key])
+    );
+  };
+
+  visit(payload, []);
+  return paths;
+};
@@ -0,0 +1,284 @@
+import {
+  type DataIssue,
+  type FinancialDataRow,
+  financialDataRowSchema,
+} from "@/lib/api";
+
+import { getPath, parsePath, type PathSegment } from "./paths";
+import {
+  applyTransform,
+  type MappingTransform,
+  isMappingTransform,
+  MAPPING_TRANSFORMS,
+} from "./transforms";
+
+/** Fields of a unified financial row that a mapping can fill. */
+export const UNIFIED_FIELDS = [
+  "category",
+  "subcategory",
+  "lineItemName",
+  "amount",
+  "currency",
+  "fromDate",
+  "toDate",
+  "sourceName",
+  "metadata",
+] as const;
+
+export type UnifiedField = (typeof UNIFIED_FIELDS)[number];
+
+/** Mapping key holding the path to the array of records in a payload. */
+export const ROWS_KEY = "$rows";
+
+/**
+ * How one unified field is filled: a path into the source record, or an
+ * object with a path and/or a constant `value`, a `default` used when the
+ * path finds nothing, and a `transform` applied to the result.
+ */
+export type MappingRule =
+  | string
+  | {
+      path?: string;
+      value?: string | number;
+      default?: string | number;
+      transform?: MappingTransform;
+    };
+
+interface CompiledRule {
+  path?: PathSegment[];
+  /** The path as written, for messages. */
+  source?: string;
+  value?: unknown;
+  fallback?: unknown;
+  transform?: MappingTransform;
+}
+
+export interface CompiledMapping {
+  rowsPath?: PathSegment[];
+  fields: Partial<Record<UnifiedField, CompiledRule>>;
+  /** Problems with the mapping itself, by mapping key. */
+  issues: DataIssue[];
+}
+
+export interface MappedRecord {
+  index: number;
+  /** The source record as found in the payload. */
+  source: unknown;
+  /** The unified fields the mapping produced, before validation. */
+  mapped: Partial<Record<UnifiedField, unknown>>;
+  /** Set when the mapped row passes validation. */
+  row?: FinancialDataRow;
+  issues: DataIssue[];
+}
+
+export interface DryRunResult {
+  records: MappedRecord[];
+  /** Records in the payload; `records` may hold fewer when limited. */
+  total: number;
+  mappingIssues: DataIssue[];
+  /** Set when no records could be read from the payload. */
+  error?: string;
+}
+
+const isUnifiedField = (key: string): key is UnifiedField =>
+  (UNIFIED_FIELDS as readonly string[]).includes(key);
+
+const compileRule = (
+  key: string,
+  rule: unknown
+): { rule?: CompiledRule; issue?: DataIssue } => {
+  const spec =
+    typeof rule === "string"
+      ? { path: rule }
+      : rule && typeof rule === "object" && !Array.isArray(rule)
+        ? (rule as Exclude<MappingRule, string>)
+        : undefined;
+  if (!spec) {
+    return {
+      issue: {
+        rowId: "mapping",
+        field: key,
+        reason: "must be a path string or a rule object",
+      },
+    };
+  }
+
+  if (spec.transform !== undefined && !isMappingTransform(spec.transform)) {
+    return {
+      issue: {
+        rowId: "mapping",
+        field: key,
+        reason: `unknown transform "${spec.transform}" (expected one of ${MAPPING_TRANSFORMS.join(", ")})`,
+      },
+    };
+  }
+  const { transform } = spec;
+
+  if (spec.path === undefined) {
+    return { rule: { value: spec.value, fallback: spec.default, transform } };
+  }
+
+  const { segments, error } = parsePath(String(spec.path));
+  if (error) {
+    return {
+      issue: {
+        rowId: "mapping",
+        field: key,
+        reason: `invalid path "${spec.path}": ${error}`,
+      },
+    };
+  }
+  return {
+    rule: {
+      path: segments,
+      source: String(spec.path),
+      fallback: spec.default,
+      transform,
+    },
+  };
+};
+
+/**
+ * Checks a config's `fieldMappings` once so it can be applied to many
+ * records. Unknown keys and malformed rules are reported, not thrown.
+ */
+export const compileMapping = (
+  mappings: Record<string, unknown>
+): CompiledMapping => {
+  const compiled: CompiledMapping = { fields: {}, issues: [] };
+
+  Object.entries(mappings).forEach(([key, rule]) => {
+    if (key === ROWS_KEY) {
+      const { segments, error } = parsePath(String(rule));
+      if (error) {
+        compiled.issues.push({
+          rowId: "mapping",
+          field: key,
+          reason: `invalid path "${rule}": ${error}`,
+        });
+      }
+      compiled.rowsPath = segments;
+      return;
+    }
+
+    if (!isUnifiedField(key)) {
+      compiled.issues.push({
+        rowId: "mapping",
+        field: key,
+        reason: `is not a unified field (expected one of ${UNIFIED_FIELDS.join(", ")})`,
+      });
+      return;
+    }
+
+    const { rule: compiledRule, issue } = compileRule(key, rule);
+    if (issue) compiled.issues.push(issue);
+    if (compiledRule) compiled.fields[key] = compiledRule;
+  });
+
+  return compiled;
+};
+
+/**
+ * The records of a payload: the array at the `$rows` path, the payload
+ * itself when it is an array, its `data` array, or the payload as a single
+ * record.
+ */
+export const extractRecords = (
+  payload: unknown,
+  { rowsPath }: CompiledMapping
+): { records: unknown[]; error?: string } => {
+  if (rowsPath) {
+    const rows = getPath(payload, rowsPath);
+    return Array.isArray(rows)
+      ? { records: rows }
+      : { records: [], error: `${ROWS_KEY} does not point to an array` };
+  }
+  if (Array.isArray(payload)) return { records: payload };
+
+  const data = (payload as { data?: unknown } | null)?.data;
+  if (Array.isArray(data)) return { records: data };
+  if (payload !== null && typeof payload === "object") {
+    return { records: [payload] };
+  }
+  return { records: [], error: "payload is not an object or array" };
+};
+
+/**
+ * Applies a compiled mapping to one record and validates the result the
+ * way financial data from the API is validated. Fields whose rule has no
+ * path or fixed value are read from the same-named source field.
+ */
+export const mapRecord = (
+  record: unknown,
+  compiled: CompiledMapping,
+  index: number
+): MappedRecord => {
+  const rowId = `row #${index + 1}`;
+  const mapped: Partial<Record<UnifiedField, unknown>> = {};
+  const issues: DataIssue[] = [];
+
+  UNIFIED_FIELDS.forEach((field) => {
+    const rule = compiled.fields[field];
+    let value = rule?.path
+      ? getPath(record, rule.path)
+      : rule?.value !== undefined
+        ? rule.value
+        : getPath(record, [field]);
+
+    if ((value === undefined || value === null) && rule?.fallback != null) {
+      value = rule.fallback;
+    }
+    if (value === undefined && rule?.path) {
+      issues.push({ rowId, field, reason: `"${rule.source}" not found` });
+    }
+    if (rule?.transform) value = applyTransform(value, rule.transform);
+    if (value !== undefined) mapped[field] = value;
+  });
+
+  const id = getPath(record, ["id"]);
+  const result = financialDataRowSchema.safeParse({ id, ...mapped });
+  if (result.success) {
+    return {
+      index,
+      source: record,
+      mapped,
+      row: result.data as FinancialDataRow,
+      issues,
+    };
+  }
+
+  const reported = new Set(issues.map((issue) => issue.field));
+  result.error.issues.forEach((issue) => {
+    const field = issue.path.length > 0 ? issue.path.join(".") : "(row)";
+    // A missing path already explains why the field is empty.
+    if (reported.has(field) && mapped[field as UnifiedField] === undefined) {
+      return;
+    }
+    issues.push({ rowId, field, reason: issue.message });
+  });
+
+  return { index, source: record, mapped, issues };
+};
+
+/**
+ * Maps a sample payload with `mappings` without writing anything, for
+ * previewing a mapping before it is saved. Only the first `limit` records
+ * are mapped.
+ */
+export const dryRunMapping = (
+  payload: unknown,
+  mappings: Record<string, unknown>,
+  limit = Infinity
+): DryRunResult => {
+  const compiled = compileMapping(mappings);
+  const { records, error } = extractRecords(payload, compiled);
+
+  return {
+    records: records
+      .slice(0, limit)
+      .map((record, index) => mapRecord(record, compiled, index)),
+    total: records.length,
+    mappingIssues: compiled.issues,
+    error,
+  };
+};
@@ -0,0 +1,5 @@
+export * from "./paths";
+export * from "./engine";
+export * from "./builder";
+export * from "./discover";
+export * from "./transforms";
@@ -0,0 +1,84 @@
+// Dependency-free so the mock API can build source-shaped samples with it.
+
+export type PathSegment = string | number;
+
+/**
+ * Parses a field path such as `Header.ColData[0].value` into its keys and
+ * array indexes. A leading `$.` (JSONPath style) is accepted and ignored.
+ */
+export const parsePath = (
+  path: string
+): { segments?: PathSegment[]; error?: string } => {
+  const source = path.trim().replace(/^\$\.?/, "");
+  if (!source) return { error: "path is empty" };
+
+  const segments: PathSegment[] = [];
+  const token = /([^.[\]]+)|\[(\d+)\]|(\.)/g;
+  let expectKey = true;
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = token.exec(source))) {
+    if (match.index !== position) break;
+    position = token.lastIndex;
+
+    if (match[1] !== undefined) {
+      if (!expectKey) return { error: `missing "." before "${match[1]}"` };
+      segments.push(match[1]);
+      expectKey = false;
+    } else if (match[2] !== undefined) {
+      if (expectKey && segments.length > 0) {
+        return { error: `"." followed by an index` };
+      }
+      segments.push(Number(match[2]));
+      expectKey = false;
+    } else {
+      if (expectKey) return { error: "empty key" };
+      expectKey = true;
+    }
+  }
+
+  if (position !== source.length) {
+    return { error: `unexpected "${source[position]}" at ${position + 1}` };
+  }
+  if (expectKey) return { error: "path ends with ." };
+  return { segments };
+};
+
+/** The value at `segments`, or undefined when any step is missing. */
+export const getPath = (value: unknown, segments: PathSegment[]): unknown =>
+  segments.reduce<unknown>((current, segment) => {
+    if (current === null || typeof current !== "object") return undefined;
+    return (current as Record<PathSegment, unknown>)[segment];
+  }, value);
+
+/** Writes `value` at `segments`, creating objects and arrays on the way. */
+export const setPath = (
+  target: Record<string, unknown>,
+  segments: PathSegment[],
+  value: unknown
+) => {
+  let current: Record<PathSegment, unknown> = target;
+  segments.forEach((segment, i) => {
+    if (i === segments.length - 1) {
+      current[segment] = value;
+      return;
+    }
+    if (current[segment] === null || typeof current[segment] !== "object") {
+      current[segment] = typeof segments[i + 1] === "number" ? [] : {};
+    }
+    current = current[segment] as Record<PathSegment, unknown>;
+  });
+};
+
+/** Writes segments back as a path that `parsePath` reads. */
+export const formatPath = (segments: PathSegment[]): string =>
+  segments
+    .map((segment, i) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : i === 0
+          ? segment
+          : `.${segment}`
+    )
+    .join("");
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  parseAmount,
+  applyTransform,
+  detectDecimalSeparator,
+} from "./transforms";
+
+describe("parseAmount", () => {
+  it.each([
+    ["1,234.50", "1234.50"],
+    ["1.234,50", "1234.50"],
+    ["-500,00", "-500.00"],
+    ["1 234,5", "1234.5"],
+    ["1,234,567", "1234567"],
+    ["1.234.567", "1234567"],
+    ["$ 99", "99"],
+    ["(250.00)", "-250.00"],
+    ["75-", "-75"],
+    ["-$99", "-99"],
+    ["-$1,234.00", "-1234.00"],
+    ["$-99", "-99"],
+    ["-€1.234,50", "-1234.50"],
+    ["- USD 12", "-12"],
+    ["+£5.25", "5.25"],
+    ["1234.567", "1234.567"],
+  ])("reads %s when the text settles the separator", (text, amount) => {
+    expect(parseAmount(text)).toBe(amount);
+  });
+
+  it("leaves a lone comma before three digits unparsed", () => {
+    expect(parseAmount("1,234")).toBeUndefined();
+    expect(parseAmount("-500,000")).toBeUndefined();
+  });
+
+  it("leaves a lone dot grouping three digits unparsed", () => {
+    expect(parseAmount("12.345")).toBeUndefined();
+    expect(parseAmount("(3.750)")).toBeUndefined();
+    expect(parseAmount("12.345", ".")).toBe("12.345");
+    expect(parseAmount("12.345", ",")).toBe("12345");
+  });
+
+  it("uses a known separator to read ambiguous text", () => {
+    expect(parseAmount("1,234", ".")).toBe("1234");
+    expect(parseAmount("1,234", ",")).toBe("1.234");
+    expect(parseAmount("1.234", ",")).toBe("1234");
+    expect(parseAmount("(1.234,50)", ",")).toBe("-1234.50");
+  });
+
+  it("rejects malformed grouping instead of guessing", () => {
+    expect(parseAmount("1,23,4.00")).toBeUndefined();
+    expect(parseAmount("1.234,50", ".")).toBeUndefined();
+    expect(parseAmount("12,5,0")).toBeUndefined();
+    expect(parseAmount("abc")).toBeUndefined();
+    expect(parseAmount("-$-99")).toBeUndefined();
+  });
+});
+
+describe("detectDecimalSeparator", () => {
+  it("judges a column from its unambiguous values", () => {
+    expect(detectDecimalSeparator(["1,234", "500,00", "12"])).toBe(",");
+    expect(detectDecimalSeparator(["1,234", "1,000.50"])).toBe(".");
+    expect(detectDecimalSeparator(["12.500", "3,75"])).toBe(",");
+  });
+
+  it("gives none when the values are ambiguous or disagree", () => {
+    expect(detectDecimalSeparator(["1,234", "100"])).toBeUndefined();
+    expect(detectDecimalSeparator(["1,5", "2.5"])).toBeUndefined();
+    expect(detectDecimalSeparator(["12.500", "3.750"])).toBeUndefined();
+  });
+});
+
+describe("applyTransform", () => {
+  it("returns values the number transforms cannot read unchanged", () => {
+    expect(applyTransform("-500,00", "number")).toBe("-500.00");
+    expect(applyTransform("1,234", "number")).toBe("1,234");
+    expect(applyTransform("1.234,50", "numberDecimalComma")).toBe("1234.50");
+    expect(applyTransform("1.234,50", "numberDecimalPoint")).toBe("1.234,50");
+  });
+
+  it("negates and takes absolute values of decimal text", () => {
+    expect(applyTransform("12.50", "negate")).toBe("-12.50");
+    expect(applyTransform("-3", "absolute")).toBe("3");
+    expect(applyTransform(null, "number")).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+/** Conversions a mapping rule can apply to the value it reads. */
+export const MAPPING_TRANSFORMS = [
+  "trim",
+  "uppercase",
+  "lowercase",
+  "number",
+  "numberDecimalPoint",
+  "numberDecimalComma",
+  "negate",
+  "absolute",
+  "date",
+] as const;
+
+export type MappingTransform = (typeof MAPPING_TRANSFORMS)[number];
+
+export const isMappingTransform = (value: unknown): value is MappingTransform =>
+  (MAPPING_TRANSFORMS as readonly unknown[]).includes(value);
+
+const DECIMAL = /^[-+]?\d+(\.\d+)?$/;
+
+/** The character that separates whole units from the fraction. */
+export type DecimalSeparator = "." | ",";
+
+// Decimal strings are negated as text so no float rounding creeps in.
+const negateDecimal = (text: string) =>
+  text.startsWith("-") ? text.slice(1) : `-${text.replace(/^\+/, "")}`;
+
+const count = (text: string, char: string) => text.split(char).length - 1;
+
+/** Whether `integer` is grouped in threes by `separator`, e.g. "1,234,567". */
+const isGrouped = (integer: string, separator: string) =>
+  integer
+    .split(separator)
+    .every((group, i) => (i === 0 ? /^\d{1,3}$/ : /^\d{3}$/).test(group));
+
+/**
+ * The decimal separator of a single number, when its text settles it:
+ * with both "." and "," the last one is the separator, a repeated one is
+ * grouping, and a lone "," before anything but three digits is decimal.
+ * A lone "." is decimal too, except in "12.500", which reads as grouping
+ * in European exports; like "1,234" it could be either and gives none.
+ */
+const inferSeparator = (digits: string): DecimalSeparator | undefined => {
+  const dots = count(digits, ".");
+  const commas = count(digits, ",");
+
+  if (dots > 0 && commas > 0) {
+    return digits.lastIndexOf(".") > digits.lastIndexOf(",") ? "." : ",";
+  }
+  if (commas > 1) return ".";
+  if (dots > 1) return ",";
+  if (commas === 1) {
+    return /,\d{3}$/.test(digits) ? undefined : ",";
+  }
+  return /^\d{1,3}\.\d{3}$/.test(digits) ? undefined : ".";
+};
+
+/**
+ * The decimal separator a column of amounts uses, judged from the values
+ * whose text settles it, or undefined when there are none or they
+ * disagree.
+ */
+export const detectDecimalSeparator = (
+  values: string[]
+): DecimalSeparator | undefined => {
+  const found = new Set<DecimalSeparator>();
+  values.forEach((value) => {
+    const digits = value.replace(/[^\d.,]/g, "");
+    if (!/[.,]/.test(digits)) return;
+    const separator = inferSeparator(digits);
+    if (separator) found.add(separator);
+  });
+  return found.size === 1 ? [...found][0] : undefined;
+};
+
+/**
+ * Reads amounts the way ledgers export them: "1,234.50", "1.234,50",
+ * "$ 99", "-$1,234.00", "(250.00)" for negatives, or a trailing minus.
+ * Grouping is only removed once the decimal separator is known, from
+ * `decimalSeparator` or the text itself; otherwise, and when the grouping
+ * is malformed, the result is undefined so validation reports the value.
+ */
+export const parseAmount = (
+  text: string,
+  decimalSeparator?: DecimalSeparator
+): string | undefined => {
+  let source = text.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(source)) {
+    negative = true;
+    source = source.slice(1, -1);
+  }
+  if (source.endsWith("-")) {
+    negative = !negative;
+    source = source.slice(0, -1);
+  }
+
+  // Spaces and apostrophes only ever group digits.
+  source = source.replace(/[\s'\u00a0\u202f]/g, "").replace(/[^\d]+$/, "");
+
+  // The sign may come before or after a currency: "-$99", "$-99".
+  const [, signBefore, signAfter, digits] = /^([-+]?)[^\d+-]*([-+]?)(.*)$/.exec(
+    source
+  )!;
+  if (signBefore && signAfter) return undefined;
+  const sign = signBefore || signAfter;
+  const separator = decimalSeparator ?? inferSeparator(digits);
+  if (!separator) return undefined;
+
+  const grouping = separator === "." ? "," : ".";
+  const [integer, fraction, ...rest] = digits.split(separator);
+  if (rest.length > 0 || fraction?.includes(grouping)) return undefined;
+  if (integer.includes(grouping) && !isGrouped(integer, grouping)) {
+    return undefined;
+  }
+
+  const number = `${sign}${integer.split(grouping).join("")}${
+    fraction === undefined ? "" : `.${fraction}`
+  }`;
+  if (!DECIMAL.test(number)) return undefined;
+  return negative ? negateDecimal(number) : number.replace(/^\+/, "");
+};
+
+/**
+ * Applies `transform` to a mapped value. Values the transform cannot
+ * handle are returned unchanged, so validation reports them.
+ */
+export const applyTransform = (
+  value: unknown,
+  transform: MappingTransform
+): unknown => {
+  if (value === undefined || value === null) return value;
+  const text = typeof value === "number" ? String(value) : value;
+  if (typeof text !== "string") return value;
+
+  switch (transform) {
+    case "trim":
+      return text.trim();
+    case "uppercase":
+      return text.toUpperCase();
+    case "lowercase":
+      return text.toLowerCase();
+    case "number":
+      return parseAmount(text) ?? value;
+    case "numberDecimalPoint":
+      return parseAmount(text, ".") ?? value;
+    case "numberDecimalComma":
+      return parseAmount(text, ",") ?? value;
+    case "negate":
+      return DECIMAL.test(text.trim()) ? negateDecimal(text.trim()) : value;
+    case "absolute":
+      return DECIMAL.test(text.trim())
+        ? text.trim().replace(/^[-+]/, "")
+        : value;
+    case "date": {
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? value : date.toISOString();
+    }
+  }
+};
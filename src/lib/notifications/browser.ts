@@ -0,0 +1,63 @@
+import { type Translate, translateMessage } from "@/lib/i18n";
+
+import type { AppNotification } from "./store";
+
+const BROWSER_NOTIFICATIONS_STORAGE_KEY = "kudwa.browserNotifications";
+
+export const browserNotificationsSupported = () =>
+  typeof window !== "undefined" && "Notification" in window;
+
+/** Whether the user turned browser notifications on and allowed them. */
+export const browserNotificationsEnabled = () =>
+  browserNotificationsSupported() &&
+  Notification.permission === "granted" &&
+  localStorage.getItem(BROWSER_NOTIFICATIONS_STORAGE_KEY) === "on";
+
+/**
+ * Turns browser notifications on or off, asking for permission when turning
+ * them on. Resolves to whether they are on afterwards.
+ */
+export const setBrowserNotificationsEnabled = async (
+  enabled: boolean
+): Promise<boolean> => {
+  if (!enabled || !browserNotificationsSupported()) {
+    localStorage.removeItem(BROWSER_NOTIFICATIONS_STORAGE_KEY);
+    return false;
+  }
+
+  const permission =
+    Notification.permission === "default"
+      ? await Notification.requestPermission()
+      : Notification.permission;
+  if (permission !== "granted") {
+    localStorage.removeItem(BROWSER_NOTIFICATIONS_STORAGE_KEY);
+    return false;
+  }
+
+  localStorage.setItem(BROWSER_NOTIFICATIONS_STORAGE_KEY, "on");
+  return true;
+};
+
+/**
+ * Shows `notification` as a system notification if they are enabled and
+ * this tab is in the background. Only the tab that first records an event
+ * calls this (see `addNotification`), so when that tab is visible its toast
+ * is the only alert and other hidden tabs stay quiet. The tag is the
+ * notification id, so the system replaces rather than stacks a repeat.
+ */
+export const showBrowserNotification = (
+  notification: AppNotification,
+  t: Translate
+) => {
+  if (!browserNotificationsEnabled() || !document.hidden) return;
+
+  const { title, description } = notification;
+  const shown = new Notification(translateMessage(t, title), {
+    body: description && translateMessage(t, description),
+    tag: notification.id,
+  });
+  shown.onclick = () => {
+    window.focus();
+    shown.close();
+  };
+};
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { en } from "@/lib/i18n/en";
+import { ar } from "@/lib/i18n/ar";
+import { createTranslator, translateMessage } from "@/lib/i18n";
+
+import {
+  addNotification,
+  getNotifications,
+  subscribeNotifications,
+} from "./store";
+
+const STORAGE_KEY = "kudwa.notifications";
+
+/** Rejects writes longer than `quota` characters, like a full storage. */
+const createStorage = (quota = Infinity) => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > quota) {
+        throw new DOMException("Quota exceeded", "QuotaExceededError");
+      }
+      items.set(key, value);
+    },
+  };
+};
+
+const notify = (id: string) =>
+  addNotification({
+    id,
+    kind: "job",
+    level: "success",
+    title: { key: "etl.completeTitle" },
+  });
+
+describe("notification store", () => {
+  beforeEach(() => {
+    vi.stubGlobal("window", new EventTarget());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("stores each event once, newest first", () => {
+    vi.stubGlobal("localStorage", createStorage());
+
+    notify("a");
+    expect(notify("a")).toBeUndefined();
+    notify("b");
+
+    expect(getNotifications().map((n) => n.id)).toEqual(["b", "a"]);
+  });
+
+  it("drops the oldest entries when storage is full", () => {
+    vi.stubGlobal("localStorage", createStorage(1000));
+    const listener = vi.fn();
+    const unsubscribe = subscribeNotifications(listener);
+
+    for (let i = 0; i < 20; i++) notify(`n${i}`);
+
+    const ids = getNotifications().map((n) => n.id);
+    expect(ids[0]).toBe("n19");
+    expect(ids.length).toBeLessThan(20);
+    expect(listener).toHaveBeenCalledTimes(20);
+    unsubscribe();
+  });
+
+  it("does not throw when storage refuses every write", () => {
+    const storage = createStorage(0);
+    vi.stubGlobal("localStorage", storage);
+
+    expect(notify("a")).toMatchObject({ id: "a" });
+    expect(storage.items.has(STORAGE_KEY)).toBe(false);
+  });
+
+  it("translates stored messages in the language they are shown in", () => {
+    vi.stubGlobal("localStorage", createStorage());
+    addNotification({
+      kind: "error",
+      level: "error",
+      title: { key: "etl.completeTitle" },
+      description: {
+        key: "common.httpError",
+        params: { message: { key: "etl.startFailed" }, status: "500" },
+      },
+    });
+    const [{ title, description }] = getNotifications();
+    const english = createTranslator(en, "en-US", en);
+    const arabic = createTranslator(ar, "ar-u-nu-latn", en);
+
+    expect(translateMessage(english, title)).toBe("Integration Complete");
+    expect(translateMessage(english, description!)).toBe(
+      "Failed to start ETL process (HTTP 500)"
+    );
+    expect(translateMessage(arabic, title)).toBe(ar["etl.completeTitle"]);
+    expect(translateMessage(arabic, "Job done")).toBe("Job done");
+  });
+});
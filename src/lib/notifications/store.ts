@@ -0,0 +1,134 @@
+import type { MessageDescriptor } from "@/lib/i18n";
+
+const NOTIFICATIONS_STORAGE_KEY = "kudwa.notifications";
+/** Older notifications are dropped once the history grows past this. */
+const MAX_NOTIFICATIONS = 100;
+
+export type NotificationKind = "job" | "config" | "error";
+
+export type NotificationLevel = "success" | "info" | "error";
+
+/**
+ * A catalog message, translated with `translateMessage` when shown so the
+ * history follows the language. Plain strings are shown as is: text from
+ * the server, and entries stored before messages were kept as keys.
+ */
+export type NotificationText = MessageDescriptor | string;
+
+/** An entry of the notification center's history. */
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  level: NotificationLevel;
+  title: NotificationText;
+  description?: NotificationText;
+  companyId?: string;
+  companyName?: string;
+  /** Epoch ms. */
+  createdAt: number;
+  read: boolean;
+}
+
+export type NotificationInput = Omit<
+  AppNotification,
+  "id" | "createdAt" | "read"
+> & {
+  /**
+   * Identifies the event so that every tab reporting it (e.g. the end of a
+   * job they all follow) stores it once. Random when omitted.
+   */
+  id?: string;
+};
+
+// `storage` events only reach other tabs, so this tab's own writes are
+// announced to its listeners directly.
+const listeners = new Set<() => void>();
+
+const loadNotifications = (): AppNotification[] => {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(NOTIFICATIONS_STORAGE_KEY) || "[]"
+    );
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Halves the history, dropping the oldest entries, until it fits in
+ * storage. When not even an empty list can be written (storage disabled),
+ * the history is simply not kept.
+ */
+const saveNotifications = (notifications: AppNotification[]) => {
+  let kept = notifications.slice(0, MAX_NOTIFICATIONS);
+  for (;;) {
+    try {
+      localStorage.setItem(NOTIFICATIONS_STORAGE_KEY, JSON.stringify(kept));
+      break;
+    } catch {
+      if (kept.length === 0) return;
+      kept = kept.slice(0, Math.floor(kept.length / 2));
+    }
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const newId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Newest first. */
+export const getNotifications = (): AppNotification[] => loadNotifications();
+
+/**
+ * Stores a notification unless one with the same id exists. Returns the
+ * stored notification, or undefined when it was a duplicate.
+ */
+export const addNotification = ({
+  id = newId(),
+  ...input
+}: NotificationInput): AppNotification | undefined => {
+  const notifications = loadNotifications();
+  if (notifications.some((notification) => notification.id === id)) {
+    return undefined;
+  }
+
+  const notification: AppNotification = {
+    ...input,
+    id,
+    createdAt: Date.now(),
+    read: false,
+  };
+  saveNotifications([notification, ...notifications]);
+  return notification;
+};
+
+export const markNotificationsRead = (ids: string[]) => {
+  const unread = new Set(ids);
+  const notifications = loadNotifications();
+  if (!notifications.some((n) => !n.read && unread.has(n.id))) return;
+  saveNotifications(
+    notifications.map((n) => (unread.has(n.id) ? { ...n, read: true } : n))
+  );
+};
+
+export const removeNotifications = (ids: string[]) => {
+  const removed = new Set(ids);
+  saveNotifications(loadNotifications().filter((n) => !removed.has(n.id)));
+};
+
+/** Calls `listener` whenever any tab changes the stored history. */
+export const subscribeNotifications = (listener: () => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === NOTIFICATIONS_STORAGE_KEY || event.key === null) {
+      listener();
+    }
+  };
+
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+};
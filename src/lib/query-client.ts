@@ -0,0 +1,29 @@
+import { QueryClient } from "@tanstack/react-query";
+
+import { HttpError } from "@/lib/api";
+
+/**
+ * Query keys shared by every component that reads the same server data, so
+ * one fetch serves all of them and one invalidation refreshes all of them.
+ */
+export const queryKeys = {
+  financialData: (companyId: string) => ["financial-data", companyId] as const,
+  companyJobs: (companyId: string) => ["company-jobs", companyId] as const,
+  jobLogs: (jobId: string) => ["job-logs", jobId] as const,
+  jobSnapshots: (jobId: string) => ["job-snapshots", jobId] as const,
+  schedules: (companyId: string) => ["schedules", companyId] as const,
+};
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 60 * 1000,
+      refetchOnWindowFocus: true,
+      retry: (failureCount, error) => {
+        // Client errors will not fix themselves on retry.
+        if (error instanceof HttpError && error.status < 500) return false;
+        return failureCount < 2;
+      },
+    },
+  },
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  nextCronRun,
+  nextCronRuns,
+  parseCron,
+  type CronSchedule,
+} from "./cron";
+
+const cron = (expression: string): CronSchedule => {
+  const { cron, error } = parseCron(expression);
+  if (!cron) throw new Error(error);
+  return cron;
+};
+
+const iso = (dates: (Date | null)[]) =>
+  dates.map((date) => date?.toISOString());
+
+describe("parseCron", () => {
+  it("expands ranges, steps, lists and names", () => {
+    expect(cron("*/15 9-17/4 1,15 JAN-MAR mon-fri")).toMatchObject({
+      minutes: [0, 15, 30, 45],
+      hours: [9, 13, 17],
+      daysOfMonth: [1, 15],
+      months: [1, 2, 3],
+      daysOfWeek: [1, 2, 3, 4, 5],
+    });
+  });
+
+  it("treats 7 as Sunday and expands macros", () => {
+    expect(cron("0 0 * * 7").daysOfWeek).toEqual([0]);
+    expect(cron("@daily")).toMatchObject({ minutes: [0], hours: [0] });
+  });
+
+  it.each([
+    ["0 0 * *", "expected 5 fields (minute hour day month weekday), got 4"],
+    ["60 * * * *", "minute: 60 is outside 0-59"],
+    ["* * * * 5-1", 'day of week: range "5-1" runs backwards'],
+    ["*/0 * * * *", 'minute: step "0" must be at least 1'],
+    ["x * * * *", 'minute: "x" is not a number'],
+  ])("rejects %s", (expression, error) => {
+    expect(parseCron(expression)).toEqual({ error });
+  });
+});
+
+describe("nextCronRun", () => {
+  it("returns the first run strictly after the given time", () => {
+    const after = new Date("2024-01-01T09:00:00Z");
+    expect(nextCronRun(cron("0 9 * * *"), "UTC", after)?.toISOString()).toBe(
+      "2024-01-02T09:00:00.000Z"
+    );
+  });
+
+  it("evaluates the expression in the schedule's time zone", () => {
+    expect(
+      nextCronRun(
+        cron("30 8 * * *"),
+        "Asia/Riyadh",
+        new Date("2024-01-01T00:00:00Z")
+      )?.toISOString()
+    ).toBe("2024-01-01T05:30:00.000Z");
+  });
+
+  it("runs on either restricted day field", () => {
+    // The 13th of the month, or any Friday.
+    expect(
+      iso(
+        nextCronRuns(
+          cron("0 0 13 * 5"),
+          "UTC",
+          new Date("2024-09-01T00:00:00Z"),
+          3
+        )
+      )
+    ).toEqual([
+      "2024-09-06T00:00:00.000Z",
+      "2024-09-13T00:00:00.000Z",
+      "2024-09-20T00:00:00.000Z",
+    ]);
+  });
+
+  it("treats a day field covering every day as unrestricted", () => {
+    // Only Mondays, however the every-day field is written.
+    ["0 0 */1 * 1", "0 0 1-31 * 1", "0 0 * * MON"].forEach((expression) => {
+      expect(
+        iso(
+          nextCronRuns(
+            cron(expression),
+            "UTC",
+            new Date("2024-09-01T00:00:00Z"),
+            2
+          )
+        )
+      ).toEqual(["2024-09-02T00:00:00.000Z", "2024-09-09T00:00:00.000Z"]);
+    });
+    expect(cron("0 0 13 * 0-7").restrictsDayOfWeek).toBe(false);
+  });
+
+  it("skips wall times lost to a spring-forward change", () => {
+    // New York skips 02:00-03:00 on 10 March 2024.
+    expect(
+      nextCronRun(
+        cron("30 2 * * *"),
+        "America/New_York",
+        new Date("2024-03-10T05:00:00Z")
+      )?.toISOString()
+    ).toBe("2024-03-11T06:30:00.000Z");
+  });
+
+  it("runs a repeated wall time once, at its first occurrence", () => {
+    // 01:30 happens twice on 3 November 2024 in New York.
+    expect(
+      iso(
+        nextCronRuns(
+          cron("30 1 * * *"),
+          "America/New_York",
+          new Date("2024-11-03T04:00:00Z"),
+          2
+        )
+      )
+    ).toEqual(["2024-11-03T05:30:00.000Z", "2024-11-04T06:30:00.000Z"]);
+  });
+
+  it("finds the next 29 February", () => {
+    expect(
+      nextCronRun(
+        cron("0 0 29 2 *"),
+        "UTC",
+        new Date("2024-03-01T00:00:00Z")
+      )?.toISOString()
+    ).toBe("2028-02-29T00:00:00.000Z");
+  });
+
+  it("returns null for a date that never occurs", () => {
+    expect(
+      nextCronRun(cron("0 0 31 2 *"), "UTC", new Date("2024-01-01T00:00:00Z"))
+    ).toBeNull();
+  });
+});
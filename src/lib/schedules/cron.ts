@@ -0,0 +1,307 @@
+// Standard five-field cron ("minute hour day-of-month month day-of-week")
+// evaluated in an IANA time zone. This module has no dependencies so the
+// mock API can share it.
+
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** 0 = Sunday. */
+  daysOfWeek: number[];
+  /**
+   * Whether the day fields leave out some days. When both do, a day
+   * matching either one runs. Fields spelled out to cover every day, like
+   * `1-31`, restrict nothing.
+   */
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: [
+      "JAN",
+      "FEB",
+      "MAR",
+      "APR",
+      "MAY",
+      "JUN",
+      "JUL",
+      "AUG",
+      "SEP",
+      "OCT",
+      "NOV",
+      "DEC",
+    ],
+  },
+  {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"],
+  },
+];
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+/** Far enough ahead to reach the next 29 February. */
+const MAX_SEARCH_DAYS = 366 * 5;
+
+const parseValue = (text: string, spec: FieldSpec): number => {
+  const named = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  if (named !== -1) return named + (spec.name === "month" ? 1 : 0);
+
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`${spec.name}: "${text}" is not a number`);
+  }
+  const value = Number(text);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(
+      `${spec.name}: ${value} is outside ${spec.min}-${spec.max}`
+    );
+  }
+  return value;
+};
+
+const parseField = (text: string, spec: FieldSpec): number[] => {
+  const values = new Set<number>();
+
+  text.split(",").forEach((part) => {
+    const [range, stepText, ...rest] = part.split("/");
+    if (rest.length > 0 || !range) {
+      throw new Error(`${spec.name}: "${part}" is not a valid range`);
+    }
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`${spec.name}: step "${stepText}" must be at least 1`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`${spec.name}: range "${range}" runs backwards`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      // Both 0 and 7 mean Sunday.
+      values.add(spec.name === "day of week" ? value % 7 : value);
+    }
+  });
+
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+/**
+ * Parses a five-field cron expression or one of the `@daily`-style
+ * macros. Returns `{ error }` with a readable reason when it is invalid.
+ */
+export const parseCron = (
+  expression: string
+): { cron?: CronSchedule; error?: string } => {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    return {
+      error: `expected ${FIELDS.length} fields (minute hour day month weekday), got ${fields.length}`,
+    };
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+      (field, index) => parseField(field, FIELDS[index])
+    );
+    return {
+      cron: {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        restrictsDayOfMonth: daysOfMonth.length < 31,
+        restrictsDayOfWeek: daysOfWeek.length < 7,
+      },
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/** Wall-clock time of `time` (epoch ms) in `timeZone`. */
+const toWallTime = (time: number, timeZone: string): WallTime => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(new Date(time))
+    .forEach((part) => {
+      if (part.type !== "literal") parts[part.type] = Number(part.value);
+    });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+  };
+};
+
+const wallTimeAsUtc = ({ year, month, day, hour, minute }: WallTime) =>
+  Date.UTC(year, month - 1, day, hour, minute);
+
+/**
+ * Epoch ms at which `wall` occurs in `timeZone`, or null when the clock
+ * skips it (spring-forward gap).
+ */
+const fromWallTime = (wall: WallTime, timeZone: string): number | null => {
+  const guess = wallTimeAsUtc(wall);
+  const offset = wallTimeAsUtc(toWallTime(guess, timeZone)) - guess;
+  let time = guess - offset;
+
+  const corrected = wallTimeAsUtc(toWallTime(time, timeZone)) - time;
+  if (corrected !== offset) time = guess - corrected;
+
+  return wallTimeAsUtc(toWallTime(time, timeZone)) === guess ? time : null;
+};
+
+const matchesDay = (
+  cron: CronSchedule,
+  dayOfMonth: number,
+  weekday: number
+) => {
+  const domMatch = cron.daysOfMonth.includes(dayOfMonth);
+  const dowMatch = cron.daysOfWeek.includes(weekday);
+
+  if (cron.restrictsDayOfMonth && cron.restrictsDayOfWeek) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+};
+
+/**
+ * First run strictly after `after`, or null if none within five years.
+ * Wall times skipped by a daylight saving change do not run; repeated
+ * ones run at their first occurrence.
+ */
+export const nextCronRun = (
+  cron: CronSchedule,
+  timeZone: string,
+  after: Date
+): Date | null => {
+  const start = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+  const first = toWallTime(start, timeZone);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    // Calendar arithmetic on a UTC date, independent of the time zone.
+    const calendar = new Date(
+      Date.UTC(first.year, first.month - 1, first.day + offset)
+    );
+    const year = calendar.getUTCFullYear();
+    const month = calendar.getUTCMonth() + 1;
+    const day = calendar.getUTCDate();
+
+    if (!cron.months.includes(month)) continue;
+    if (!matchesDay(cron, day, calendar.getUTCDay())) continue;
+
+    for (const hour of cron.hours) {
+      if (offset === 0 && hour < first.hour) continue;
+
+      for (const minute of cron.minutes) {
+        if (offset === 0 && hour === first.hour && minute < first.minute) {
+          continue;
+        }
+
+        const time = fromWallTime({ year, month, day, hour, minute }, timeZone);
+        if (time !== null && time >= start) return new Date(time);
+      }
+    }
+  }
+
+  return null;
+};
+
+/** The next `count` runs after `after`. */
+export const nextCronRuns = (
+  cron: CronSchedule,
+  timeZone: string,
+  after: Date,
+  count: number
+): Date[] => {
+  const runs: Date[] = [];
+  let cursor: Date | null = after;
+
+  while (runs.length < count) {
+    cursor = nextCronRun(cron, timeZone, cursor);
+    if (!cursor) break;
+    runs.push(cursor);
+  }
+  return runs;
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import { en } from "@/lib/i18n/en";
+import { ar } from "@/lib/i18n/ar";
+import { createTranslator, translateMessage } from "@/lib/i18n";
+import type { SyncSchedule } from "@/lib/api";
+
+import { describeSchedule, scheduleMessage } from "./presets";
+
+const schedule = (changes: Partial<SyncSchedule>): SyncSchedule => ({
+  id: "schedule-1",
+  companyId: "company-1",
+  sourceId: "source-1",
+  frequency: "weekly",
+  cron: "30 6 * * 1",
+  timezone: "Africa/Cairo",
+  enabled: true,
+  ...changes,
+});
+
+const t = createTranslator(en, "en-US", en);
+
+describe("scheduleMessage", () => {
+  it("keeps the weekday and preset as keys", () => {
+    expect(scheduleMessage(schedule({}))).toEqual({
+      key: "schedules.inZone",
+      params: {
+        schedule: {
+          key: "schedules.describe.weekly",
+          params: {
+            time: "06:30",
+            weekday: { key: "schedules.weekday.monday" },
+          },
+        },
+        timezone: "Africa/Cairo",
+      },
+    });
+  });
+
+  it("translates in the language it is shown in", () => {
+    const message = scheduleMessage(schedule({}));
+    const arabic = createTranslator(ar, "ar", en);
+
+    expect(translateMessage(t, message)).toBe(
+      "every Monday at 06:30 (Africa/Cairo)"
+    );
+    expect(translateMessage(arabic, message)).toBe(
+      "كل الإثنين الساعة 06:30 (Africa/Cairo)"
+    );
+  });
+
+  it("describes expressions that match no preset as cron", () => {
+    expect(
+      describeSchedule(schedule({ frequency: "cron", cron: "0 */4 * * *" }), t)
+    ).toBe("on cron 0 */4 * * * (Africa/Cairo)");
+  });
+});
@@ -0,0 +1,184 @@
+import { translateMessage } from "@/lib/i18n";
+import type { Translate, MessageKey, MessageDescriptor } from "@/lib/i18n";
+import type {
+  SyncSchedule,
+  ScheduleFrequency,
+  SyncScheduleInput,
+} from "@/lib/api";
+
+import { parseCron, nextCronRun, isValidTimeZone } from "./cron";
+
+/** Editor state for a schedule; presets are turned into cron on save. */
+export interface ScheduleDraft {
+  frequency: ScheduleFrequency;
+  /** Minute past the hour, for every preset. */
+  minute: number;
+  /** Hour of day, for daily and weekly schedules. */
+  hour: number;
+  /** 0 = Sunday, for weekly schedules. */
+  weekday: number;
+  /** Expression for the `cron` frequency. */
+  cron: string;
+  timezone: string;
+  enabled: boolean;
+}
+
+/** Offered in the time zone picker next to the browser's own zone. */
+export const COMMON_TIME_ZONES = [
+  "UTC",
+  "Africa/Cairo",
+  "Asia/Riyadh",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "Australia/Sydney",
+];
+
+export const browserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+const PRESET_PATTERN = /^(\d{1,2}) (\*|\d{1,2}) \* \* (\*|\d)$/;
+
+export const draftToCron = (draft: ScheduleDraft): string => {
+  switch (draft.frequency) {
+    case "hourly":
+      return `${draft.minute} * * * *`;
+    case "daily":
+      return `${draft.minute} ${draft.hour} * * *`;
+    case "weekly":
+      return `${draft.minute} ${draft.hour} * * ${draft.weekday}`;
+    default:
+      return draft.cron.trim();
+  }
+};
+
+/** Editor state for `schedule`, or a daily 06:00 default for a new one. */
+export const scheduleToDraft = (
+  schedule: SyncSchedule | undefined,
+  timezone: string = browserTimeZone()
+): ScheduleDraft => {
+  const defaults: ScheduleDraft = {
+    frequency: "daily",
+    minute: 0,
+    hour: 6,
+    weekday: 1,
+    cron: "0 6 * * *",
+    timezone,
+    enabled: true,
+  };
+  if (!schedule) return defaults;
+
+  const draft = {
+    ...defaults,
+    frequency: schedule.frequency,
+    cron: schedule.cron,
+    timezone: schedule.timezone,
+    enabled: schedule.enabled,
+  };
+  const match = PRESET_PATTERN.exec(schedule.cron.trim());
+  if (schedule.frequency === "cron" || !match) {
+    return { ...draft, frequency: "cron" };
+  }
+
+  const [, minute, hour, weekday] = match;
+  return {
+    ...draft,
+    minute: Number(minute),
+    hour: hour === "*" ? defaults.hour : Number(hour),
+    weekday: weekday === "*" ? defaults.weekday : Number(weekday),
+  };
+};
+
+/** Validates a draft; returns `{ error }` with a readable reason if invalid. */
+export const toScheduleInput = (
+  draft: ScheduleDraft
+): { input?: SyncScheduleInput; error?: string } => {
+  const cron = draftToCron(draft);
+  const parsed = parseCron(cron);
+  if (parsed.error) return { error: parsed.error };
+  if (!isValidTimeZone(draft.timezone)) {
+    return { error: `unknown time zone "${draft.timezone}"` };
+  }
+
+  return {
+    input: {
+      frequency: draft.frequency,
+      cron,
+      timezone: draft.timezone,
+      enabled: draft.enabled,
+    },
+  };
+};
+
+/**
+ * Next run of a saved schedule: the backend's plan when it sends one,
+ * otherwise computed from the expression. Null when paused or invalid.
+ */
+export const getNextRun = (
+  schedule: SyncSchedule,
+  now: Date = new Date()
+): Date | null => {
+  if (!schedule.enabled) return null;
+
+  if (schedule.nextRunAt) {
+    const planned = new Date(schedule.nextRunAt);
+    if (planned.getTime() > now.getTime()) return planned;
+  }
+
+  const { cron } = parseCron(schedule.cron);
+  if (!cron || !isValidTimeZone(schedule.timezone)) return null;
+  return nextCronRun(cron, schedule.timezone, now);
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** Catalog keys of the weekday names; 0 = Sunday. */
+export const WEEKDAY_NAMES: MessageKey[] = [
+  "schedules.weekday.sunday",
+  "schedules.weekday.monday",
+  "schedules.weekday.tuesday",
+  "schedules.weekday.wednesday",
+  "schedules.weekday.thursday",
+  "schedules.weekday.friday",
+  "schedules.weekday.saturday",
+];
+
+/**
+ * "Daily at 06:00 (Africa/Cairo)" and the like, untranslated so stored
+ * notifications follow the language they are shown in.
+ */
+export const scheduleMessage = (schedule: SyncSchedule): MessageDescriptor => {
+  const draft = scheduleToDraft(schedule);
+  const time = `${pad(draft.hour)}:${pad(draft.minute)}`;
+
+  const description: MessageDescriptor =
+    draft.frequency === "hourly"
+      ? {
+          key: "schedules.describe.hourly",
+          params: { minute: pad(draft.minute) },
+        }
+      : draft.frequency === "daily"
+        ? { key: "schedules.describe.daily", params: { time } }
+        : draft.frequency === "weekly"
+          ? {
+              key: "schedules.describe.weekly",
+              params: { time, weekday: { key: WEEKDAY_NAMES[draft.weekday] } },
+            }
+          : { key: "schedules.describe.cron", params: { cron: schedule.cron } };
+
+  return {
+    key: "schedules.inZone",
+    params: { schedule: description, timezone: schedule.timezone },
+  };
+};
+
+/** `scheduleMessage` translated with `t`. */
+export const describeSchedule = (
+  schedule: SyncSchedule,
+  t: Translate
+): string => translateMessage(t, scheduleMessage(schedule));
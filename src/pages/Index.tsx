@@ -5,31 +5,45 @@ import {
   Building,
   Settings,
   FileText,
+  History,
   BarChart3,
+  Layers,
+  ArrowRightLeft,
 } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
+import { useNotify } from "@/hooks/use-notify";
 import DataTable from "@/components/DataTable";
 import Dashboard from "@/components/Dashboard";
+import JobHistory from "@/components/JobHistory";
 import { Button } from "@/components/ui/button";
+import BulkSync from "@/components/BulkSync";
 import ETLControls from "@/components/ETLControls";
+import FxRatesManager from "@/components/FxRatesManager";
+import { useI18n } from "@/lib/i18n";
 import { useCompany } from "@/lib/company-context";
 import CompanyManager from "@/components/CompanyManager";
+import CurrencySelector from "@/components/CurrencySelector";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import NotificationCenter from "@/components/NotificationCenter";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-
-interface Company {
-  id: string;
-  name: string;
-  configs: any[];
-  description?: string;
-}
+import {
+  type Company,
+  fetchCompanies as fetchCompaniesApi,
+  describeError,
+} from "@/lib/api";
 
 const Index = () => {
   const [companies, setCompanies] = useState<Company[]>([]);
   const { selectedCompany, setSelectedCompany } = useCompany();
   const [isLoadingCompanies, setIsLoadingCompanies] = useState<boolean>(true);
   const [showCompanyManager, setShowCompanyManager] = useState<boolean>(false);
+  const [showFxRates, setShowFxRates] = useState<boolean>(false);
+  const [showBulkSync, setShowBulkSync] = useState<boolean>(false);
+
+  const { notify } = useNotify();
+  const { t, dir } = useI18n();
 
   useEffect(() => {
     fetchCompanies();
@@ -54,27 +68,21 @@ const Index = () => {
   const fetchCompanies = async () => {
     try {
       setIsLoadingCompanies(true);
-      const response = await fetch("/api/companies");
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch companies");
-      }
-
-      const data = await response.json();
+      const data = await fetchCompaniesApi();
 
-      const formattedData = data.map((company: any) => ({
-        ...company,
-        id: String(company.id),
-        configs: company.configs || [],
-      }));
+      setCompanies(data);
 
-      setCompanies(formattedData);
-
-      if (formattedData.length > 0 && !selectedCompany) {
-        setSelectedCompany(formattedData[0]);
+      if (data.length > 0 && !selectedCompany) {
+        setSelectedCompany(data[0]);
       }
     } catch (error) {
       console.error("Error fetching companies:", error);
+      notify({
+        kind: "error",
+        title: { key: "common.error" },
+        description: describeError(error, "app.fetchCompaniesFailed"),
+        variant: "destructive",
+      });
     } finally {
       setIsLoadingCompanies(false);
     }
@@ -98,7 +106,7 @@ const Index = () => {
     return (
       <div className="flex items-center gap-2">
         <div className="relative flex items-center bg-white dark:bg-gray-800 rounded-md border px-3 py-2 shadow-sm">
-          <Building className="h-5 w-5 mr-2 text-blue-500" />
+          <Building className="h-5 w-5 me-2 text-blue-500" />
           <select
             className="bg-transparent border-none focus:outline-none text-sm font-medium w-full appearance-none"
             value={selectedCompany?.id || ""}
@@ -106,7 +114,7 @@ const Index = () => {
             disabled={companies.length === 0}
           >
             {companies.length === 0 ? (
-              <option value="">No companies</option>
+              <option value="">{t("app.noCompanies")}</option>
             ) : (
               companies.map((company) => (
                 <option key={company.id} value={String(company.id)}>
@@ -116,6 +124,7 @@ const Index = () => {
             )}
           </select>
         </div>
+        <CurrencySelector />
         <Button
           variant="outline"
           size="sm"
@@ -123,8 +132,29 @@ const Index = () => {
           onClick={() => setShowCompanyManager(true)}
         >
           <Settings className="h-4 w-4" />
-          Manage Companies
+          {t("app.manageCompanies")}
         </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1 whitespace-nowrap"
+          onClick={() => setShowFxRates(true)}
+        >
+          <ArrowRightLeft className="h-4 w-4" />
+          {t("app.exchangeRates")}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1 whitespace-nowrap"
+          onClick={() => setShowBulkSync(true)}
+          disabled={companies.length === 0}
+        >
+          <Layers className="h-4 w-4" />
+          {t("app.bulkSync")}
+        </Button>
+        <LanguageSwitcher />
+        <NotificationCenter />
       </div>
     );
   };
@@ -136,15 +166,17 @@ const Index = () => {
           <div className="flex items-center justify-between gap-3 mb-4">
             <div className="flex items-center gap-3">
               <div className="h-12 w-12 rounded-lg bg-black flex items-center justify-center">
-                <img src="favicon.ico" alt="Kudwa Logo" className="h-6 w-6" />
+                <img
+                  src="favicon.ico"
+                  alt={t("app.logoAlt")}
+                  className="h-6 w-6"
+                />
               </div>
               <div>
                 <h1 className="text-3xl font-bold tracking-tight">
-                  Kudwa Financial Integration Platform
+                  {t("app.title")}
                 </h1>
-                <p className="text-muted-foreground">
-                  Full-stack data integration and financial reporting dashboard
-                </p>
+                <p className="text-muted-foreground">{t("app.subtitle")}</p>
               </div>
             </div>
             <div>{renderCompanySelector()}</div>
@@ -152,19 +184,19 @@ const Index = () => {
 
           <div className="flex flex-wrap gap-2">
             <Badge variant="secondary" className="bg-green-100 text-green-800">
-              <Database className="h-3 w-3 mr-1" />
-              Multi-source ETL
+              <Database className="h-3 w-3 me-1" />
+              {t("app.badge.etl")}
             </Badge>
             <Badge variant="secondary" className="bg-blue-100 text-blue-800">
-              <Table className="h-3 w-3 mr-1" />
-              Interactive Tables
+              <Table className="h-3 w-3 me-1" />
+              {t("app.badge.tables")}
             </Badge>
             <Badge
               variant="secondary"
               className="bg-purple-100 text-purple-800"
             >
-              <BarChart3 className="h-3 w-3 mr-1" />
-              Real-time Analytics
+              <BarChart3 className="h-3 w-3 me-1" />
+              {t("app.badge.analytics")}
             </Badge>
           </div>
         </div>
@@ -172,7 +204,9 @@ const Index = () => {
         {showCompanyManager && (
           <div className="mb-8">
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-bold">Company Management</h2>
+              <h2 className="text-xl font-bold">
+                {t("app.companyManagement")}
+              </h2>
               <Button
                 variant="ghost"
                 size="sm"
@@ -181,7 +215,7 @@ const Index = () => {
                   fetchCompanies();
                 }}
               >
-                Close
+                {t("common.close")}
               </Button>
             </div>
             <CompanyManager
@@ -192,19 +226,56 @@ const Index = () => {
           </div>
         )}
 
+        {showFxRates && (
+          <div className="mb-8">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold">{t("app.exchangeRates")}</h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowFxRates(false)}
+              >
+                {t("common.close")}
+              </Button>
+            </div>
+            <FxRatesManager />
+          </div>
+        )}
+
+        {/* Kept mounted while hidden so a running queue carries on. */}
+        <div className={showBulkSync ? "mb-8" : undefined}>
+          {showBulkSync && (
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold">{t("app.bulkSync")}</h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowBulkSync(false)}
+              >
+                {t("common.close")}
+              </Button>
+            </div>
+          )}
+          <BulkSync companies={companies} open={showBulkSync} />
+        </div>
+
         <div className="mb-8">
           <ETLControls />
         </div>
 
-        <Tabs defaultValue="table" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2 lg:w-[400px]">
+        <Tabs defaultValue="table" className="space-y-6" dir={dir}>
+          <TabsList className="grid w-full grid-cols-3 lg:w-[600px]">
             <TabsTrigger value="table" className="flex items-center gap-2">
               <FileText className="h-4 w-4" />
-              Structured Data Table
+              {t("app.tab.table")}
             </TabsTrigger>
             <TabsTrigger value="dashboard" className="flex items-center gap-2">
               <BarChart3 className="h-4 w-4" />
-              Data Visualization
+              {t("app.tab.dashboard")}
+            </TabsTrigger>
+            <TabsTrigger value="history" className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              {t("app.tab.history")}
             </TabsTrigger>
           </TabsList>
 
@@ -214,37 +285,39 @@ const Index = () => {
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">
-                  Financial Data Features
+                  {t("app.features.title")}
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                   <div className="text-center p-4">
                     <Database className="h-8 w-8 mx-auto mb-2 text-blue-500" />
-                    <h3 className="font-medium">Unified Schema</h3>
+                    <h3 className="font-medium">{t("app.features.schema")}</h3>
                     <p className="text-sm text-muted-foreground">
-                      Single source of truth for all financial data
+                      {t("app.features.schemaText")}
                     </p>
                   </div>
                   <div className="text-center p-4">
                     <Table className="h-8 w-8 mx-auto mb-2 text-green-500" />
-                    <h3 className="font-medium">Expandable Rows</h3>
+                    <h3 className="font-medium">{t("app.features.rows")}</h3>
                     <p className="text-sm text-muted-foreground">
-                      Drill down into detailed breakdowns
+                      {t("app.features.rowsText")}
                     </p>
                   </div>
                   <div className="text-center p-4">
                     <BarChart3 className="h-8 w-8 mx-auto mb-2 text-purple-500" />
-                    <h3 className="font-medium">Interactive Charts</h3>
+                    <h3 className="font-medium">{t("app.features.charts")}</h3>
                     <p className="text-sm text-muted-foreground">
-                      Visual insights into financial performance
+                      {t("app.features.chartsText")}
                     </p>
                   </div>
                   <div className="text-center p-4">
                     <Building className="h-8 w-8 mx-auto mb-2 text-orange-500" />
-                    <h3 className="font-medium">Enterprise Ready</h3>
+                    <h3 className="font-medium">
+                      {t("app.features.enterprise")}
+                    </h3>
                     <p className="text-sm text-muted-foreground">
-                      Scalable integration architecture
+                      {t("app.features.enterpriseText")}
                     </p>
                   </div>
                 </div>
@@ -255,16 +328,15 @@ const Index = () => {
           <TabsContent value="dashboard" className="space-y-6">
             <Dashboard />
           </TabsContent>
+
+          <TabsContent value="history" className="space-y-6">
+            <JobHistory />
+          </TabsContent>
         </Tabs>
 
         <div className="mt-12 pt-8 border-t text-center text-sm text-muted-foreground">
-          <p>
-            Kudwa Full-Stack Engineer Application Project - Financial Data
-            Integration Platform
-          </p>
-          <p className="mt-1">
-            Built with React, TypeScript, and modern data visualization
-          </p>
+          <p>{t("app.footer")}</p>
+          <p className="mt-1">{t("app.footerStack")}</p>
         </div>
       </div>
     </div>
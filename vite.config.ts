@@ -2,24 +2,29 @@ import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
+import { mockApi } from "./mock/server";
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd());
+  const useMockApi = env.VITE_MOCK_API === "true";
 
   return {
     server: {
       host: "::",
       port: 8080,
-      proxy: {
-        // Proxy API requests to the backend server
-        "/api": {
-          target: env.VITE_API_URL || "http://localhost:5005",
-          changeOrigin: true,
-          secure: false,
-        },
-      },
+      proxy: useMockApi
+        ? undefined
+        : {
+            // Proxy API requests to the backend server
+            "/api": {
+              target: env.VITE_API_URL || "http://localhost:5005",
+              changeOrigin: true,
+              secure: false,
+            },
+          },
     },
-    plugins: [react()].filter(Boolean),
+    plugins: [react(), useMockApi && mockApi()].filter(Boolean),
     resolve: {
       alias: {
         "@": path.resolve(__dirname, "./src"),